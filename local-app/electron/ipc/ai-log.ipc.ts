@@ -0,0 +1,54 @@
+import { app, ipcMain } from 'electron';
+import * as path from 'path';
+import { getAiProvider } from '../services/claude-cli/provider';
+import {
+  AiRequestLog,
+  AiRequestLogEntry,
+  AiRequestLogFilter,
+  setAiRequestLog,
+} from '../services/claude-cli/request-log';
+
+/**
+ * Register AI request log handlers
+ * Must run before registerClaudeCliIpc so the shared provider is created with logging
+ */
+export function registerAiLogIpc() {
+  const log = new AiRequestLog(path.join(app.getPath('userData'), 'ai-requests.jsonl'));
+  setAiRequestLog(log);
+
+  ipcMain.handle('aiLog:list', async (_event, filter?: AiRequestLogFilter) => {
+    return log.list(filter);
+  });
+
+  ipcMain.handle('aiLog:get', async (_event, id: string) => {
+    return log.get(id);
+  });
+
+  ipcMain.handle('aiLog:getStats', async (_event, filter?: AiRequestLogFilter) => {
+    return log.getStats(filter);
+  });
+
+  // Re-send a logged prompt exactly as it was sent; resolves with the new log entry
+  ipcMain.handle('aiLog:rerun', async (_event, id: string): Promise<AiRequestLogEntry | null> => {
+    const entry = log.get(id);
+    if (!entry) return null;
+
+    const requestId = `replay-${Date.now()}`;
+    await getAiProvider().query({
+      prompt: entry.prompt,
+      jsonSchema: entry.jsonSchema,
+      workingDirectory: entry.workingDirectory,
+      promptName: entry.promptName,
+      promptInputs: entry.promptInputs,
+      promptVersion: entry.promptVersion,
+      requestId,
+      logContext: { journeyId: entry.journeyId, projectId: entry.projectId, replayOf: entry.id },
+    });
+
+    return log.list().find((e) => e.requestId === requestId) ?? null;
+  });
+
+  ipcMain.handle('aiLog:clear', async () => {
+    return log.clear();
+  });
+}
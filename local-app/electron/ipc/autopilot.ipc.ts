@@ -0,0 +1,36 @@
+/**
+ * Autopilot IPC Handlers - Start, stop and inspect unattended Claude runs
+ */
+
+import { BrowserWindow, ipcMain } from 'electron'
+import { getAutopilotService } from '../services/autopilot'
+import type { AutopilotEvent, AutopilotStartRequest } from '../services/autopilot'
+
+// Runs outlive the window that started them, so every window hears about them
+function broadcast(event: AutopilotEvent) {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send('autopilot:event', event)
+    }
+  }
+}
+
+export function registerAutopilotIpc() {
+  const service = getAutopilotService()
+
+  ipcMain.handle('autopilot:start', async (_event, request: AutopilotStartRequest) => {
+    try {
+      return { success: true, run: service.start(request, broadcast) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  })
+
+  ipcMain.handle('autopilot:stop', async (_event, journeyId: string) => {
+    return service.stop(journeyId)
+  })
+
+  ipcMain.handle('autopilot:getRun', async (_event, journeyId: string) => {
+    return service.getRun(journeyId)
+  })
+}
@@ -1,7 +1,11 @@
-import { ipcMain } from 'electron';
-import { getClaudeCliService } from '../services/claude-cli/claude-cli.service';
+import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { getAiProvider } from '../services/claude-cli/provider';
+import { ClaudeConversation } from '../services/claude-cli/conversation';
+import { describePromptTemplate, resolvePromptTemplate } from '../services/prompt-registry';
+import { getGitService } from '../services/git.service';
 import {
   ClaudeCliRequest,
+  ClaudeStreamEventHandler,
   JourneyAnalysis,
   ImplementationPlan,
   JourneySummary,
@@ -13,6 +17,7 @@ import {
   buildSpecRefinementPrompt,
   buildPlanGenerationPrompt,
   buildPlanRefinementPrompt,
+  buildRefinementFollowUpPrompt,
   REFINED_INTAKE_SCHEMA,
   SPEC_SCHEMA,
   PLAN_SCHEMA,
@@ -43,8 +48,15 @@ import {
   buildParseJourneyIdeaPrompt,
   PARSED_JOURNEY_IDEA_SCHEMA,
   ParsedJourneyIdea,
+  // Commit & PR drafting prompts
+  buildCommitDraftPrompt,
+  COMMIT_DRAFT_SCHEMA,
+  CommitDraft,
 } from '../services/claude-cli/prompts';
 
+// Diff included in the commit/PR drafting prompt - Claude can read the rest in the worktree
+const COMMIT_DRAFT_PATCH_CHARS = 60000;
+
 // Response types for new prompts
 export interface RefinedIntake {
   title: string;
@@ -107,14 +119,82 @@ export interface Plan {
   milestones: { name: string; criteria: string }[];
 }
 
+// Per-call options the renderer can attach to any request
+export interface ClaudeCallOptions {
+  requestId?: string;
+  stream?: boolean;
+  /** Tags recorded in the AI request log */
+  journeyId?: string;
+  projectId?: string;
+  /** Skip the response cache for cache-enabled calls (result is re-cached) */
+  fresh?: boolean;
+  /** CLI session to continue for conversational calls - the response carries the session to store */
+  sessionId?: string;
+}
+
+/**
+ * Forward stream events to the window that made the request
+ * Returns undefined (non-streaming) unless the caller opted in
+ */
+function streamToSender(event: IpcMainInvokeEvent, stream?: boolean): ClaudeStreamEventHandler | undefined {
+  if (!stream) return undefined;
+
+  return (streamEvent) => {
+    if (!event.sender.isDestroyed()) {
+      event.sender.send('claude:stream', streamEvent);
+    }
+  };
+}
+
+/**
+ * Drop the agentic options from a request a window sent
+ * Only main-process services (the autopilot, from its validated budget) may let Claude
+ * use tools unattended - a window could otherwise run it with bypassPermissions anywhere
+ */
+function withoutAgenticOptions<T extends Partial<ClaudeCliRequest>>(request: T): T {
+  const safe = { ...request };
+  delete safe.permissionMode;
+  delete safe.allowedTools;
+  delete safe.maxTurns;
+  return safe;
+}
+
 export function registerClaudeCliIpc() {
-  const service = getClaudeCliService();
+  const service = getAiProvider();
 
   // Generic query - raw prompt, raw response
   ipcMain.handle(
     'claude:query',
-    async (_event, request: ClaudeCliRequest) => {
-      return service.query(request);
+    async (event, { stream, journeyId, projectId, ...rest }: ClaudeCliRequest & ClaudeCallOptions) => {
+      const request: ClaudeCliRequest = { ...withoutAgenticOptions(rest), logContext: { journeyId, projectId } };
+      const onStreamEvent = streamToSender(event, stream);
+      return onStreamEvent ? service.stream(request, onStreamEvent) : service.query(request);
+    }
+  );
+
+  // Conversational query - continues the caller's session, sending followUpPrompt when resuming
+  ipcMain.handle(
+    'claude:converse',
+    async (
+      event,
+      {
+        prompt,
+        followUpPrompt,
+        workingDirectory,
+        timeout,
+        requestId,
+        stream,
+        journeyId,
+        projectId,
+        sessionId,
+      }: { prompt: string; followUpPrompt: string; workingDirectory?: string; timeout?: number } & ClaudeCallOptions
+    ) => {
+      const conversation = new ClaudeConversation(service, sessionId);
+      return conversation.send(
+        { prompt, followUpPrompt },
+        { workingDirectory, timeout, requestId, logContext: { journeyId, projectId } },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -122,10 +202,15 @@ export function registerClaudeCliIpc() {
   ipcMain.handle(
     'claude:queryJson',
     async (
-      _event,
-      { prompt, jsonSchema, options }: { prompt: string; jsonSchema: string; options?: Partial<ClaudeCliRequest> }
+      event,
+      { prompt, jsonSchema, options, stream, journeyId, projectId }: { prompt: string; jsonSchema: string; options?: Partial<ClaudeCliRequest> } & ClaudeCallOptions
     ) => {
-      return service.queryJson(prompt, jsonSchema, options);
+      return service.queryJson(
+        prompt,
+        jsonSchema,
+        { ...withoutAgenticOptions(options ?? {}), logContext: { journeyId, projectId } },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -137,19 +222,35 @@ export function registerClaudeCliIpc() {
   ipcMain.handle(
     'claude:refineIntake',
     async (
-      _event,
+      event,
       {
         rawIntake,
         journeyType,
         projectContext,
+        requestId,
+        stream,
+        journeyId,
+        projectId,
       }: {
         rawIntake: string;
         journeyType: 'feature_planning' | 'feature' | 'bug' | 'investigation';
         projectContext?: string;
-      }
+      } & ClaudeCallOptions
     ) => {
-      const prompt = buildIntakeRefinementPrompt(rawIntake, journeyType, projectContext);
-      return service.queryJson<RefinedIntake>(prompt, REFINED_INTAKE_SCHEMA);
+      const template = resolvePromptTemplate('refineIntake', projectId);
+      const prompt = buildIntakeRefinementPrompt(rawIntake, journeyType, projectContext, template.body);
+      return service.queryJson<RefinedIntake>(
+        prompt,
+        REFINED_INTAKE_SCHEMA,
+        {
+          requestId,
+          logContext: { journeyId, projectId },
+          promptName: 'refineIntake',
+          promptInputs: { rawIntake, journeyType, projectContext },
+          promptVersion: describePromptTemplate(template),
+        },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -157,21 +258,41 @@ export function registerClaudeCliIpc() {
   ipcMain.handle(
     'claude:generateSpec',
     async (
-      _event,
+      event,
       {
         refinedIntake,
         projectContext,
         techStack,
         workingDirectory,
+        requestId,
+        stream,
+        journeyId,
+        projectId,
+        fresh,
       }: {
         refinedIntake: string;
         projectContext?: string;
         techStack?: string;
         workingDirectory?: string;
-      }
+      } & ClaudeCallOptions
     ) => {
-      const prompt = buildSpecGenerationPrompt(refinedIntake, projectContext, techStack);
-      return service.queryJson<Spec>(prompt, SPEC_SCHEMA, { workingDirectory });
+      const template = resolvePromptTemplate('generateSpec', projectId);
+      const prompt = buildSpecGenerationPrompt(refinedIntake, projectContext, techStack, template.body);
+      return service.queryJson<Spec>(
+        prompt,
+        SPEC_SCHEMA,
+        {
+          workingDirectory,
+          requestId,
+          cache: true,
+          bypassCache: fresh,
+          logContext: { journeyId, projectId },
+          promptName: 'generateSpec',
+          promptInputs: { refinedIntake, projectContext, techStack },
+          promptVersion: describePromptTemplate(template),
+        },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -179,19 +300,36 @@ export function registerClaudeCliIpc() {
   ipcMain.handle(
     'claude:generatePlan',
     async (
-      _event,
+      event,
       {
         spec,
         projectContext,
         workingDirectory,
+        requestId,
+        stream,
+        journeyId,
+        projectId,
       }: {
         spec: string;
         projectContext?: string;
         workingDirectory?: string;
-      }
+      } & ClaudeCallOptions
     ) => {
-      const prompt = buildPlanGenerationPrompt(spec, projectContext);
-      return service.queryJson<Plan>(prompt, PLAN_SCHEMA, { workingDirectory });
+      const template = resolvePromptTemplate('generatePlan', projectId);
+      const prompt = buildPlanGenerationPrompt(spec, projectContext, template.body);
+      return service.queryJson<Plan>(
+        prompt,
+        PLAN_SCHEMA,
+        {
+          workingDirectory,
+          requestId,
+          logContext: { journeyId, projectId },
+          promptName: 'generatePlan',
+          promptInputs: { spec, projectContext },
+          promptVersion: describePromptTemplate(template),
+        },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -199,19 +337,33 @@ export function registerClaudeCliIpc() {
   ipcMain.handle(
     'claude:refinePlan',
     async (
-      _event,
+      event,
       {
         currentPlan,
         feedback,
         workingDirectory,
+        requestId,
+        stream,
+        journeyId,
+        projectId,
+        sessionId,
       }: {
         currentPlan: string;
         feedback: string;
         workingDirectory?: string;
-      }
+      } & ClaudeCallOptions
     ) => {
-      const prompt = buildPlanRefinementPrompt(currentPlan, feedback);
-      return service.queryJson<Plan>(prompt, PLAN_SCHEMA, { workingDirectory });
+      // Follow-up feedback continues the refinement session instead of resending the plan
+      const conversation = new ClaudeConversation(service, sessionId);
+      return conversation.sendJson<Plan>(
+        {
+          prompt: buildPlanRefinementPrompt(currentPlan, feedback),
+          followUpPrompt: buildRefinementFollowUpPrompt(feedback, 'plan'),
+        },
+        PLAN_SCHEMA,
+        { workingDirectory, requestId, logContext: { journeyId, projectId }, promptName: 'refinePlan', promptInputs: { currentPlan, feedback } },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -219,19 +371,33 @@ export function registerClaudeCliIpc() {
   ipcMain.handle(
     'claude:refineSpec',
     async (
-      _event,
+      event,
       {
         currentSpec,
         feedback,
         workingDirectory,
+        requestId,
+        stream,
+        journeyId,
+        projectId,
+        sessionId,
       }: {
         currentSpec: string;
         feedback: string;
         workingDirectory?: string;
-      }
+      } & ClaudeCallOptions
     ) => {
-      const prompt = buildSpecRefinementPrompt(currentSpec, feedback);
-      return service.queryJson<Spec>(prompt, SPEC_SCHEMA, { workingDirectory });
+      // Follow-up feedback continues the refinement session instead of resending the specification
+      const conversation = new ClaudeConversation(service, sessionId);
+      return conversation.sendJson<Spec>(
+        {
+          prompt: buildSpecRefinementPrompt(currentSpec, feedback),
+          followUpPrompt: buildRefinementFollowUpPrompt(feedback, 'specification'),
+        },
+        SPEC_SCHEMA,
+        { workingDirectory, requestId, logContext: { journeyId, projectId }, promptName: 'refineSpec', promptInputs: { currentSpec, feedback } },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -242,9 +408,19 @@ export function registerClaudeCliIpc() {
   // Pre-built: Analyze a journey idea
   ipcMain.handle(
     'claude:analyzeJourney',
-    async (_event, { description, projectContext }: { description: string; projectContext?: string }) => {
+    async (
+      _event,
+      { description, projectContext, fresh }: { description: string; projectContext?: string } & ClaudeCallOptions
+    ) => {
       const prompt = buildJourneyAnalysisPrompt(description, projectContext);
-      return service.queryJson<JourneyAnalysis>(prompt, JOURNEY_ANALYSIS_SCHEMA);
+      // Cached - the overlay and journey cards ask for the same analysis repeatedly
+      return service.queryJson<JourneyAnalysis>(prompt, JOURNEY_ANALYSIS_SCHEMA, {
+        lane: 'background',
+        cache: true,
+        bypassCache: fresh,
+        promptName: 'analyzeJourney',
+        promptInputs: { description, projectContext },
+      });
     }
   );
 
@@ -260,7 +436,10 @@ export function registerClaudeCliIpc() {
       }: { featureDescription: string; techStack: string; existingStructure?: string }
     ) => {
       const prompt = buildImplementationPlanPrompt(featureDescription, techStack, existingStructure);
-      return service.queryJson<ImplementationPlan>(prompt, IMPLEMENTATION_PLAN_SCHEMA);
+      return service.queryJson<ImplementationPlan>(prompt, IMPLEMENTATION_PLAN_SCHEMA, {
+        promptName: 'createPlan',
+        promptInputs: { featureDescription, techStack, existingStructure },
+      });
     }
   );
 
@@ -274,10 +453,18 @@ export function registerClaudeCliIpc() {
         gitDiff,
         commitHistory,
         originalPlan,
-      }: { journeyName: string; gitDiff: string; commitHistory: string; originalPlan?: string }
+        fresh,
+      }: { journeyName: string; gitDiff: string; commitHistory: string; originalPlan?: string } & ClaudeCallOptions
     ) => {
       const prompt = buildJourneySummaryPrompt(journeyName, gitDiff, commitHistory, originalPlan);
-      return service.queryJson<JourneySummary>(prompt, JOURNEY_SUMMARY_SCHEMA);
+      // Cached - keyed on the diff and history, so any new commit misses
+      return service.queryJson<JourneySummary>(prompt, JOURNEY_SUMMARY_SCHEMA, {
+        lane: 'background',
+        cache: true,
+        bypassCache: fresh,
+        promptName: 'summarizeJourney',
+        promptInputs: { journeyName, gitDiff, commitHistory, originalPlan },
+      });
     }
   );
 
@@ -293,14 +480,22 @@ export function registerClaudeCliIpc() {
       {
         rawIntake,
         projectName,
+        projectId,
       }: {
         rawIntake: string;
         projectName: string;
-      }
+      } & ClaudeCallOptions
     ) => {
-      const prompt = buildProjectIntakeRefinementPrompt(rawIntake, projectName);
+      const template = resolvePromptTemplate('refineProjectIntake', projectId);
+      const prompt = buildProjectIntakeRefinementPrompt(rawIntake, projectName, template.body);
       // For the initial refinement, we get back markdown directly (not JSON)
-      const result = await service.query({ prompt });
+      const result = await service.query({
+        prompt,
+        logContext: { projectId },
+        promptName: 'refineProjectIntake',
+        promptInputs: { rawIntake, projectName },
+        promptVersion: describePromptTemplate(template),
+      });
       if (result.success && result.data) {
         return {
           success: true,
@@ -322,15 +517,20 @@ export function registerClaudeCliIpc() {
         newRaw,
         existingAiDoc,
         projectName,
+        projectId,
       }: {
         previousRaw: string;
         newRaw: string;
         existingAiDoc: string;
         projectName: string;
-      }
+      } & ClaudeCallOptions
     ) => {
       const prompt = buildProjectIntakeUpdatePrompt(previousRaw, newRaw, existingAiDoc, projectName);
-      return service.queryJson<ProjectIntakeUpdate>(prompt, PROJECT_INTAKE_UPDATE_SCHEMA);
+      return service.queryJson<ProjectIntakeUpdate>(prompt, PROJECT_INTAKE_UPDATE_SCHEMA, {
+        logContext: { projectId },
+        promptName: 'analyzeProjectIntakeChanges',
+        promptInputs: { previousRaw, newRaw, existingAiDoc, projectName },
+      });
     }
   );
 
@@ -347,15 +547,21 @@ export function registerClaudeCliIpc() {
         projectName,
         existingProposals,
         codebasePath,
+        projectId,
       }: {
         aiParsedIntake: string;
         projectName: string;
         existingProposals?: ExistingProposalContext[];
         codebasePath?: string;
-      }
+      } & ClaudeCallOptions
     ) => {
       const prompt = buildProposedJourneysPrompt(aiParsedIntake, projectName, existingProposals, codebasePath);
-      return service.queryJson<ProposedJourneysResult>(prompt, PROPOSED_JOURNEYS_SCHEMA);
+      return service.queryJson<ProposedJourneysResult>(prompt, PROPOSED_JOURNEYS_SCHEMA, {
+        lane: 'batch',
+        logContext: { projectId },
+        promptName: 'generateProposedJourneys',
+        promptInputs: { aiParsedIntake, projectName, existingProposals, codebasePath },
+      });
     }
   );
 
@@ -366,21 +572,36 @@ export function registerClaudeCliIpc() {
   ipcMain.handle(
     'claude:generateProposedChildJourneys',
     async (
-      _event,
+      event,
       {
         spec,
         journeyName,
         existingProposals,
         codebasePath,
+        requestId,
+        stream,
+        journeyId,
+        projectId,
       }: {
         spec: string;
         journeyName: string;
         existingProposals?: ExistingChildProposalContext[];
         codebasePath?: string;
-      }
+      } & ClaudeCallOptions
     ) => {
       const prompt = buildProposedChildJourneysPrompt(spec, journeyName, existingProposals, codebasePath);
-      return service.queryJson<ProposedChildJourneysResult>(prompt, PROPOSED_CHILD_JOURNEYS_SCHEMA);
+      return service.queryJson<ProposedChildJourneysResult>(
+        prompt,
+        PROPOSED_CHILD_JOURNEYS_SCHEMA,
+        {
+          requestId,
+          lane: 'batch',
+          logContext: { journeyId, projectId },
+          promptName: 'generateProposedChildJourneys',
+          promptInputs: { spec, journeyName, existingProposals, codebasePath },
+        },
+        streamToSender(event, stream)
+      );
     }
   );
 
@@ -395,13 +616,81 @@ export function registerClaudeCliIpc() {
       {
         rawText,
         projectName,
+        projectId,
       }: {
         rawText: string;
         projectName: string;
-      }
+      } & ClaudeCallOptions
     ) => {
       const prompt = buildParseJourneyIdeaPrompt(rawText, projectName);
-      return service.queryJson<ParsedJourneyIdea>(prompt, PARSED_JOURNEY_IDEA_SCHEMA);
+      return service.queryJson<ParsedJourneyIdea>(prompt, PARSED_JOURNEY_IDEA_SCHEMA, {
+        logContext: { projectId },
+        promptName: 'parseJourneyIdea',
+        promptInputs: { rawText, projectName },
+      });
+    }
+  );
+
+  // =============================================================================
+  // COMMIT & PR DRAFTING: Commit message and PR body from the journey and its diff
+  // =============================================================================
+
+  ipcMain.handle(
+    'claude:draftCommit',
+    async (
+      _event,
+      {
+        worktreePath,
+        journeyName,
+        journeyType,
+        spec,
+        plan,
+        checklist,
+        journeyId,
+        projectId,
+        fresh,
+      }: {
+        worktreePath: string;
+        journeyName: string;
+        journeyType: string;
+        spec?: string;
+        plan?: string;
+        checklist?: string;
+      } & ClaudeCallOptions
+    ) => {
+      const git = getGitService();
+      const diff = await git.getBranchDiff(worktreePath);
+      if (!diff) {
+        return { success: false, error: 'Could not diff this worktree against its base branch', durationMs: 0 };
+      }
+      if (diff.files.length === 0) {
+        return { success: false, error: `No changes against ${diff.baseBranch} to describe`, durationMs: 0 };
+      }
+
+      const patch = (await git.getBranchPatch(worktreePath, diff.baseBranch, COMMIT_DRAFT_PATCH_CHARS)) ?? '';
+      const context = {
+        journeyName,
+        journeyType,
+        baseBranch: diff.baseBranch,
+        spec,
+        plan,
+        checklist,
+        diffStat: diff.files
+          .map((file) => `${file.status} ${file.path}${file.binary ? ' (binary)' : ` +${file.insertions} -${file.deletions}`}`)
+          .join('\n'),
+        commitLog: diff.commits.map((commit) => `${commit.shortHash} ${commit.subject}`).join('\n'),
+        patch,
+      };
+
+      // Cached - keyed on the diff, so any new change misses
+      return service.queryJson<CommitDraft>(buildCommitDraftPrompt(context), COMMIT_DRAFT_SCHEMA, {
+        workingDirectory: worktreePath,
+        cache: true,
+        bypassCache: fresh,
+        logContext: { journeyId, projectId },
+        promptName: 'draftCommit',
+        promptInputs: context,
+      });
     }
   );
 
@@ -414,4 +703,9 @@ export function registerClaudeCliIpc() {
   ipcMain.handle('claude:clearQueue', async () => {
     return service.clearQueue();
   });
+
+  // Cancel a queued or running request - its pending call resolves with { cancelled: true }
+  ipcMain.handle('claude:cancel', async (_event, requestId: string) => {
+    return service.cancel(requestId);
+  });
 }
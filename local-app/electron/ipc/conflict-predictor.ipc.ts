@@ -0,0 +1,51 @@
+/**
+ * Conflict Predictor IPC Handlers - Warn when parallel journeys change the same files
+ */
+
+import { BrowserWindow, ipcMain } from 'electron'
+import { getConflictPredictorService } from '../services/conflict-predictor'
+import type { ConflictEvent, ConflictJourney } from '../services/conflict-predictor'
+
+// Journey cards in every window show conflict warnings
+function broadcast(event: ConflictEvent) {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send('conflicts:event', event)
+    }
+  }
+}
+
+export function registerConflictPredictorIpc() {
+  const service = getConflictPredictorService()
+  // Windows that unwatch everything when they close
+  const trackedSenders = new Set<number>()
+
+  /**
+   * Input: { projectPath, journeys } - the project's active journey branches
+   */
+  ipcMain.handle('conflicts:watch', async (event, { projectPath, journeys }: { projectPath: string; journeys: ConflictJourney[] }) => {
+    const sender = event.sender
+    if (!trackedSenders.has(sender.id)) {
+      trackedSenders.add(sender.id)
+      const senderId = sender.id
+      sender.once('destroyed', () => {
+        trackedSenders.delete(senderId)
+        service.unwatch(senderId)
+      })
+    }
+    service.watch(sender.id, projectPath, journeys, broadcast)
+    return service.getReport(projectPath)
+  })
+
+  ipcMain.handle('conflicts:unwatch', async (event, projectPath: string) => {
+    service.unwatch(event.sender.id, projectPath)
+  })
+
+  ipcMain.handle('conflicts:getReport', async (_event, projectPath: string) => {
+    return service.getReport(projectPath)
+  })
+
+  ipcMain.handle('conflicts:check', async (_event, projectPath: string) => {
+    service.check(projectPath)
+  })
+}
@@ -1,4 +1,6 @@
-import { ipcMain, dialog } from 'electron'
+import { ipcMain, dialog, app } from 'electron'
+import * as fs from 'fs'
+import * as path from 'path'
 
 export function registerDialogIpc() {
   // Open folder selection dialog
@@ -14,4 +16,20 @@ export function registerDialogIpc() {
 
     return result.filePaths[0]
   })
+
+  // Save markdown (e.g. a drafted PR body) to a file the user picks
+  ipcMain.handle('dialog:saveMarkdown', async (_event, { defaultName, content }: { defaultName: string; content: string }) => {
+    const result = await dialog.showSaveDialog({
+      title: 'Save Markdown',
+      defaultPath: path.join(app.getPath('downloads'), defaultName),
+      filters: [{ name: 'Markdown', extensions: ['md'] }],
+    })
+
+    if (result.canceled || !result.filePath) {
+      return null
+    }
+
+    fs.writeFileSync(result.filePath, content, 'utf-8')
+    return result.filePath
+  })
 }
@@ -95,4 +95,52 @@ export function registerGitIpc() {
   ipcMain.handle('git:getCurrentBranch', async (_event, worktreePath: string) => {
     return gitService.getCurrentBranch(worktreePath)
   })
+
+  /**
+   * Files, numstat and commits on a worktree's branch since it forked from the base branch
+   *
+   * Input: { worktreePath, baseBranch? } - baseBranch defaults to the project's default branch
+   */
+  ipcMain.handle('git:getBranchDiff', async (_event, { worktreePath, baseBranch }: { worktreePath: string; baseBranch?: string }) => {
+    return gitService.getBranchDiff(worktreePath, baseBranch)
+  })
+
+  /**
+   * Unified diff of one file on a worktree's branch
+   *
+   * Input: { worktreePath, filePath, baseBranch? }
+   */
+  ipcMain.handle(
+    'git:getFileDiff',
+    async (_event, { worktreePath, filePath, baseBranch }: { worktreePath: string; filePath: string; baseBranch?: string }) => {
+      return gitService.getFileDiff(worktreePath, filePath, baseBranch)
+    }
+  )
+
+  /**
+   * Stage everything in a worktree and commit it
+   *
+   * Input: { worktreePath, message }
+   * Output: { success, commit?, error? }
+   */
+  ipcMain.handle('git:commit', async (_event, { worktreePath, message }: { worktreePath: string; message: string }) => {
+    return gitService.commitAll(worktreePath, message)
+  })
+
+  /**
+   * Push a worktree's branch to origin with upstream tracking
+   */
+  ipcMain.handle('git:push', async (_event, worktreePath: string) => {
+    return gitService.push(worktreePath)
+  })
+
+  /**
+   * Rebase a worktree's branch onto its base branch
+   *
+   * Input: { worktreePath, baseBranch? }
+   * Output: { success, commit?, conflicts?, error? }
+   */
+  ipcMain.handle('git:rebase', async (_event, { worktreePath, baseBranch }: { worktreePath: string; baseBranch?: string }) => {
+    return gitService.rebaseOntoBase(worktreePath, baseBranch)
+  })
 }
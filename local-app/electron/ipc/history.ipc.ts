@@ -1,7 +1,13 @@
-import { ipcMain, shell } from 'electron'
+import { app, ipcMain, shell } from 'electron'
+import * as path from 'path'
 import { historyService } from '../services/history.service'
+import { historyAnalyticsService } from '../services/history-analytics'
+import { HistorySearchIndex } from '../services/history-search'
+import type { HistorySearchQuery } from '../services/history-search'
 
 export function registerHistoryIpc() {
+  const searchIndex = new HistorySearchIndex(path.join(app.getPath('userData'), 'history-search-index.json'))
+
   ipcMain.handle('history:getProjects', async () => {
     return historyService.getProjects()
   })
@@ -14,6 +20,24 @@ export function registerHistoryIpc() {
     return historyService.getSessionMessages(filePath)
   })
 
+  // Search every session; the index catches up with new and grown sessions first
+  ipcMain.handle('history:search', async (_event, query: HistorySearchQuery) => {
+    return searchIndex.search(query)
+  })
+
+  ipcMain.handle('history:getSearchStatus', async () => {
+    return searchIndex.getStatus()
+  })
+
+  ipcMain.handle('history:rebuildSearchIndex', async () => {
+    return searchIndex.rebuild()
+  })
+
+  // Token usage and tool activity per session, for the usage analytics view
+  ipcMain.handle('history:getUsage', async () => {
+    return historyAnalyticsService.getSessionUsage()
+  })
+
   ipcMain.handle('history:openInFinder', async (_event, filePath: string) => {
     shell.showItemInFolder(filePath)
   })
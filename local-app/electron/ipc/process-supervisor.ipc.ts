@@ -0,0 +1,69 @@
+/**
+ * Process Supervisor IPC Handlers - Start, stop and watch journey target processes
+ */
+
+import { BrowserWindow, ipcMain, shell } from 'electron'
+import { getProcessRowRecorder, getProcessSupervisor } from '../services/process-supervisor'
+import type { TargetProcessEvent, TargetStartRequest } from '../services/process-supervisor'
+
+// How long "open in browser" waits for a starting target
+const OPEN_READY_TIMEOUT_MS = 60000
+
+// Processes outlive the window that started them, so every window hears about them
+function broadcast(event: TargetProcessEvent) {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send('targets:event', event)
+    }
+  }
+}
+
+export function registerProcessSupervisorIpc() {
+  const supervisor = getProcessSupervisor()
+  // Nothing is supervised yet, so this machine's rows still open belong to an earlier run
+  getProcessRowRecorder().closeOrphanedRows()
+
+  ipcMain.handle('targets:start', async (_event, request: TargetStartRequest) => {
+    try {
+      return { success: true, process: supervisor.start(request, broadcast) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  })
+
+  ipcMain.handle('targets:stop', async (_event, { journeyId, targetId }: { journeyId: string; targetId: string }) => {
+    return supervisor.stop(journeyId, targetId)
+  })
+
+  ipcMain.handle('targets:restart', async (_event, { journeyId, targetId }: { journeyId: string; targetId: string }) => {
+    return supervisor.restart(journeyId, targetId)
+  })
+
+  ipcMain.handle('targets:list', async (_event, journeyId: string) => {
+    return supervisor.getProcesses(journeyId)
+  })
+
+  ipcMain.handle('targets:getLogs', async (_event, { journeyId, targetId }: { journeyId: string; targetId: string }) => {
+    return supervisor.getLogs(journeyId, targetId)
+  })
+
+  ipcMain.handle('targets:waitForReady', async (
+    _event,
+    { journeyId, timeoutMs, targetIds }: { journeyId: string; timeoutMs: number; targetIds?: string[] }
+  ) => {
+    return supervisor.waitForReady(journeyId, timeoutMs, targetIds)
+  })
+
+  // Wait for the target to be ready before opening it, instead of racing the dev server
+  ipcMain.handle('targets:openInBrowser', async (_event, { journeyId, targetId }: { journeyId: string; targetId: string }) => {
+    const [info] = await supervisor.waitForReady(journeyId, OPEN_READY_TIMEOUT_MS, [targetId])
+    if (!info?.port) {
+      return { success: false, error: 'Target is not running on a port' }
+    }
+    if (info.status !== 'ready' && info.status !== 'running') {
+      return { success: false, error: `${info.targetName} is ${info.status}${info.healthError ? `: ${info.healthError}` : ''}` }
+    }
+    await shell.openExternal(`http://localhost:${info.port}/`)
+    return { success: true }
+  })
+}
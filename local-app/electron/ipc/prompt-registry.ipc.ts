@@ -0,0 +1,84 @@
+import { app, ipcMain } from 'electron';
+import * as path from 'path';
+import { getAiProvider } from '../services/claude-cli/provider';
+import {
+  PromptRegistry,
+  setPromptRegistry,
+  buildPromptFromTemplate,
+  defaultPromptTemplate,
+  describePromptTemplate,
+  getPromptTemplateDefinition,
+} from '../services/prompt-registry';
+import type {
+  PromptCompareRequest,
+  PromptCompareResult,
+  PromptTemplateName,
+} from '../services/prompt-registry';
+
+/**
+ * Register prompt template registry handlers
+ * Must run before the Claude and VS Code handlers build their first prompt
+ */
+export function registerPromptRegistryIpc() {
+  const registry = new PromptRegistry(path.join(app.getPath('userData'), 'prompt-templates.json'));
+  setPromptRegistry(registry);
+
+  ipcMain.handle('prompts:list', async (_event, projectId?: string) => {
+    return registry.list(projectId);
+  });
+
+  ipcMain.handle('prompts:getVersions', async (_event, name: PromptTemplateName, projectId: string | null) => {
+    return registry.listVersions(name, projectId);
+  });
+
+  ipcMain.handle(
+    'prompts:saveVersion',
+    async (
+      _event,
+      { name, projectId, body, note }: { name: PromptTemplateName; projectId: string | null; body: string; note?: string }
+    ) => {
+      try {
+        return { success: true, version: registry.saveVersion(name, projectId, body, note) };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Build (and for runnable templates, run) the same inputs through two template versions
+  ipcMain.handle('prompts:compare', async (_event, request: PromptCompareRequest): Promise<PromptCompareResult[]> => {
+    const definition = getPromptTemplateDefinition(request.name);
+    if (!definition) {
+      throw new Error(`Unknown prompt template: ${request.name}`);
+    }
+
+    return Promise.all(
+      request.versionIds.map(async (versionId): Promise<PromptCompareResult> => {
+        const version = versionId ? registry.getVersion(versionId) : null;
+        const template = version
+          ? { source: version.projectId ? 'project' as const : 'global' as const, version: version.version, body: version.body }
+          : defaultPromptTemplate(request.name);
+        const label = describePromptTemplate(template);
+        const prompt = buildPromptFromTemplate(request.name, template.body, request.inputs);
+
+        if (!definition.runnable) {
+          return { versionId, label, prompt };
+        }
+
+        const options = {
+          workingDirectory: request.workingDirectory,
+          promptName: request.name,
+          promptInputs: request.inputs,
+          promptVersion: label,
+          logContext: { journeyId: request.journeyId, projectId: request.projectId },
+        };
+        const provider = getAiProvider();
+        const response = definition.jsonSchema
+          ? await provider.queryJson(prompt, definition.jsonSchema, options)
+          : await provider.query({ ...options, prompt });
+
+        return { versionId, label, prompt, response };
+      })
+    );
+  });
+}
@@ -11,6 +11,7 @@ import {
   buildTestingPrompt,
 } from '../services/vscode-launcher'
 import type { VSCodeLaunchOptions, JourneyLaunchRequest } from '../services/vscode-launcher'
+import { resolvePromptTemplate } from '../services/prompt-registry'
 
 export function registerVSCodeLauncherIpc() {
   const service = getVSCodeLauncherService()
@@ -45,15 +46,16 @@ export function registerVSCodeLauncherIpc() {
         lastActivity?: string
       }
     ) => {
+      const kickoffTemplate = resolvePromptTemplate('journeyKickoff', context.projectId).body
       switch (type) {
         case 'resume':
-          return buildResumePrompt(context, lastActivity)
+          return buildResumePrompt(context, lastActivity, kickoffTemplate)
         case 'review':
           return buildCodeReviewPrompt(context)
         case 'testing':
           return buildTestingPrompt(context)
         default:
-          return buildPromptForJourney(context)
+          return buildPromptForJourney(context, kickoffTemplate)
       }
     }
   )
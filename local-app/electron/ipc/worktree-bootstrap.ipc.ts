@@ -0,0 +1,32 @@
+/**
+ * Worktree Bootstrap IPC Handlers - Run a project's setup recipe in a journey worktree
+ */
+
+import { BrowserWindow, ipcMain } from 'electron'
+import { getWorktreeBootstrapService } from '../services/worktree-bootstrap'
+import type { WorktreeBootstrapEvent, WorktreeBootstrapRequest } from '../services/worktree-bootstrap'
+
+// Journey cards in every window show bootstrap progress
+function broadcast(event: WorktreeBootstrapEvent) {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send('worktreeBootstrap:event', event)
+    }
+  }
+}
+
+export function registerWorktreeBootstrapIpc() {
+  const service = getWorktreeBootstrapService()
+
+  ipcMain.handle('worktreeBootstrap:run', async (_event, request: WorktreeBootstrapRequest) => {
+    try {
+      return { success: true, run: service.run(request, broadcast) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  })
+
+  ipcMain.handle('worktreeBootstrap:getRun', async (_event, journeyId: string) => {
+    return service.getRun(journeyId)
+  })
+}
@@ -0,0 +1,30 @@
+/**
+ * Worktree Janitor IPC Handlers - Find and clean up leftover journey worktrees and branches
+ */
+
+import { ipcMain } from 'electron'
+import { getWorktreeJanitorService } from '../services/worktree-janitor'
+import type { WorktreeAuditRequest, WorktreeCleanupRequest } from '../services/worktree-janitor'
+
+export function registerWorktreeJanitorIpc() {
+  const service = getWorktreeJanitorService()
+
+  ipcMain.handle('worktreeJanitor:audit', async (_event, request: WorktreeAuditRequest) => {
+    try {
+      return { success: true, audit: await service.audit(request) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  })
+
+  /**
+   * Input: { projectPath, entries, deleteBranches, dryRun } - dryRun only reports what would happen
+   */
+  ipcMain.handle('worktreeJanitor:cleanup', async (_event, request: WorktreeCleanupRequest) => {
+    try {
+      return { success: true, results: await service.cleanup(request) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  })
+}
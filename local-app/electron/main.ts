@@ -3,7 +3,14 @@ import path from 'path'
 import { registerHistoryIpc } from './ipc/history.ipc'
 import { registerDialogIpc } from './ipc/dialog.ipc'
 import { registerClaudeCliIpc } from './ipc/claude-cli.ipc'
+import { registerAiLogIpc } from './ipc/ai-log.ipc'
+import { registerPromptRegistryIpc } from './ipc/prompt-registry.ipc'
 import { registerVSCodeLauncherIpc } from './ipc/vscode-launcher.ipc'
+import { registerAutopilotIpc } from './ipc/autopilot.ipc'
+import { registerWorktreeBootstrapIpc } from './ipc/worktree-bootstrap.ipc'
+import { registerWorktreeJanitorIpc } from './ipc/worktree-janitor.ipc'
+import { registerProcessSupervisorIpc } from './ipc/process-supervisor.ipc'
+import { registerConflictPredictorIpc } from './ipc/conflict-predictor.ipc'
 import { registerGitIpc } from './ipc/git.ipc'
 import { registerProjectDetailIpc } from './ipc/project-detail.ipc'
 import { registerJourneyDetailIpc } from './ipc/journey-detail.ipc'
@@ -172,9 +179,16 @@ app.whenReady().then(async () => {
   // Register IPC handlers
   registerHistoryIpc()
   registerDialogIpc()
+  registerAiLogIpc() // before Claude IPC so its provider logs requests
+  registerPromptRegistryIpc()
   registerClaudeCliIpc()
   registerVSCodeLauncherIpc()
+  registerAutopilotIpc()
   registerGitIpc()
+  registerWorktreeBootstrapIpc()
+  registerWorktreeJanitorIpc()
+  registerProcessSupervisorIpc()
+  registerConflictPredictorIpc()
   registerProjectDetailIpc()
   registerJourneyDetailIpc()
   registerTranscriptionsIpc()
@@ -209,6 +223,10 @@ app.on('before-quit', async () => {
   const { projectDetailWindowManager } = await import('./services/project-detail-window')
   const { journeyDetailWindowManager } = await import('./services/journey-detail-window')
   const { markdownViewerWindowManager } = await import('./services/markdown-viewer-window')
+  const { getProcessSupervisor } = await import('./services/process-supervisor')
+  const { getConflictPredictorService } = await import('./services/conflict-predictor')
+  getProcessSupervisor().stopAll()
+  getConflictPredictorService().stopAll()
   terminalWindowManager.closeAll()
   projectDetailWindowManager.closeAll()
   journeyDetailWindowManager.closeAll()
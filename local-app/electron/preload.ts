@@ -15,7 +15,9 @@ interface ClaudeSession {
   filePath: string
   messageCount: number
   timestamp: Date
+  startedAt: Date
   gitBranch: string
+  cwd: string
   firstMessage: string
 }
 
@@ -30,6 +32,12 @@ interface ClaudeMessage {
   timestamp: Date
   content: MessageContent[]
   model?: string
+  usage?: {
+    input_tokens: number
+    output_tokens: number
+    cache_read_input_tokens?: number
+    cache_creation_input_tokens?: number
+  }
   toolUseResult?: {
     durationMs?: number
     numFiles?: number
@@ -38,22 +46,232 @@ interface ClaudeMessage {
 }
 
 // Claude CLI service types
+type HistoryMessageRole = 'user' | 'assistant' | 'tool_result'
+
+interface HistorySearchQuery {
+  text?: string
+  projectId?: string
+  gitBranch?: string
+  from?: string
+  to?: string
+  tool?: string
+  role?: HistoryMessageRole
+  limit?: number
+}
+
+interface HistorySearchHit {
+  sessionId: string
+  projectId: string
+  filePath: string
+  messageIndex: number
+  uuid?: string
+  role: HistoryMessageRole
+  timestamp: string
+  gitBranch: string
+  snippet: string
+  highlights: Array<[number, number]>
+  toolNames: string[]
+  filePaths: string[]
+  terms: string[]
+  score: number
+}
+
+interface HistorySearchResult {
+  hits: HistorySearchHit[]
+  total: number
+}
+
+interface HistoryIndexStatus {
+  sessions: number
+  messages: number
+  lastIndexedAt: string | null
+  indexing: boolean
+}
+
+interface HistoryTokenTotals {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+}
+
+interface HistoryDayUsage extends HistoryTokenTotals {
+  toolCalls: number
+  toolErrors: number
+  activeMs: number
+}
+
+interface HistorySessionUsage {
+  sessionId: string
+  projectId: string
+  filePath: string
+  gitBranch: string
+  startedAt: string
+  endedAt: string
+  durationMs: number
+  activeMs: number
+  messageCount: number
+  tokens: HistoryTokenTotals
+  byModel: Record<string, HistoryTokenTotals>
+  tools: Record<string, { calls: number; errors: number }>
+  byDay: Record<string, HistoryDayUsage>
+}
+
 interface ClaudeCliRequest {
   prompt: string
   jsonSchema?: string
   workingDirectory?: string
   timeout?: number
   priority?: number
+  lane?: ClaudeQueueLane
+  requestId?: string
+  stream?: boolean
+  journeyId?: string
+  projectId?: string
+}
+
+type ClaudeQueueLane = 'interactive' | 'background' | 'batch' | 'autopilot'
+
+interface ClaudeCliStatus {
+  queueLength: number
+  activeRequests: number
+  lanes: Record<ClaudeQueueLane, { queued: number; active: number }>
 }
 
 interface ClaudeCliResponse<T = unknown> {
+  requestId?: string
   success: boolean
   data?: T
   rawOutput?: string
   error?: string
+  cancelled?: boolean
+  validationErrors?: string[]
+  invalidData?: unknown
+  repairAttempts?: number
+  cached?: boolean
+  sessionId?: string
   durationMs: number
 }
 
+// Per-call options for the pre-built Claude methods
+interface ClaudeCallOptions {
+  requestId?: string
+  stream?: boolean
+  // Tags recorded in the AI request log
+  journeyId?: string
+  projectId?: string
+  // Skip the response cache for cache-enabled calls
+  fresh?: boolean
+  // CLI session to continue for conversational calls (response.sessionId is the one to store)
+  sessionId?: string
+}
+
+// Conversational turn - followUpPrompt is sent instead of prompt when resuming a session
+interface ClaudeConversationRequest extends ClaudeCallOptions {
+  prompt: string
+  followUpPrompt: string
+  workingDirectory?: string
+  timeout?: number
+}
+
+// AI request log types
+type AiParseOutcome = 'text' | 'parsed' | 'invalid' | 'unparseable' | 'error' | 'cancelled'
+
+interface AiRequestLogEntry {
+  id: string
+  requestId?: string
+  timestamp: string
+  provider: 'cli' | 'fixture' | 'record'
+  promptName?: string
+  promptInputs?: Record<string, unknown>
+  promptVersion?: string
+  prompt: string
+  jsonSchema?: string
+  workingDirectory?: string
+  rawOutput?: string
+  success: boolean
+  error?: string
+  parseOutcome: AiParseOutcome
+  validationErrors?: string[]
+  durationMs: number
+  retryCount: number
+  cached?: boolean
+  journeyId?: string
+  projectId?: string
+  replayOf?: string
+}
+
+interface AiRequestLogFilter {
+  journeyId?: string
+  projectId?: string
+  promptName?: string
+  failuresOnly?: boolean
+  limit?: number
+}
+
+interface AiPromptStats {
+  promptName: string | null
+  count: number
+  failures: number
+  cancelled: number
+  failureRate: number
+  medianDurationMs: number
+  lastRunAt: string
+}
+
+// Prompt template registry types
+type PromptTemplateName = 'refineIntake' | 'generateSpec' | 'generatePlan' | 'refineProjectIntake' | 'journeyKickoff'
+
+interface PromptTemplateVersion {
+  id: string
+  name: PromptTemplateName
+  projectId: string | null
+  version: number
+  body: string
+  note?: string
+  createdAt: string
+}
+
+interface ResolvedPromptTemplate {
+  name: PromptTemplateName
+  body: string
+  source: 'project' | 'global' | 'default'
+  version: number
+  versionId: string | null
+}
+
+interface PromptTemplateSummary {
+  name: PromptTemplateName
+  label: string
+  description: string
+  variables: { name: string; description: string }[]
+  defaultBody: string
+  jsonSchema?: string
+  runnable: boolean
+  active: ResolvedPromptTemplate
+}
+
+interface PromptCompareRequest {
+  name: PromptTemplateName
+  versionIds: [string | null, string | null]
+  inputs: Record<string, string>
+  workingDirectory?: string
+  journeyId?: string
+  projectId?: string
+}
+
+interface PromptCompareResult {
+  versionId: string | null
+  label: string
+  prompt: string
+  response?: ClaudeCliResponse
+}
+
+type ClaudeStreamEvent =
+  | { requestId: string; type: 'text'; text: string }
+  | { requestId: string; type: 'tool_use'; toolName: string; input?: Record<string, unknown> }
+  | { requestId: string; type: 'tool_result'; toolName?: string; isError: boolean }
+
 interface JourneyAnalysis {
   title: string
   complexity: 1 | 2 | 3 | 4 | 5
@@ -182,6 +400,7 @@ interface JourneyLaunchRequest {
   journeyStage: JourneyStage
   worktreePath: string
   projectRootPath: string
+  projectId?: string
   customPrompt?: string
 }
 
@@ -220,6 +439,21 @@ interface ParsedJourneyIdea {
   type: 'feature_planning' | 'feature' | 'bug' | 'investigation'
 }
 
+interface CommitDraft {
+  commitMessage: string
+  prTitle: string
+  prBody: string
+}
+
+interface CommitDraftRequest {
+  worktreePath: string
+  journeyName: string
+  journeyType: string
+  spec?: string
+  plan?: string
+  checklist?: string
+}
+
 // Git types
 interface GitWorktree {
   path: string
@@ -250,6 +484,266 @@ interface RemoveWorktreeResult {
   error?: string
 }
 
+interface BranchDiffFile {
+  path: string
+  status: 'added' | 'modified' | 'deleted' | 'untracked'
+  insertions: number
+  deletions: number
+  binary: boolean
+}
+
+interface BranchCommit {
+  hash: string
+  shortHash: string
+  subject: string
+  author: string
+  date: string
+}
+
+interface BranchDiff {
+  baseBranch: string
+  mergeBase: string
+  branch: string
+  filesChanged: number
+  insertions: number
+  deletions: number
+  files: BranchDiffFile[]
+  commits: BranchCommit[]
+}
+
+interface FileDiff {
+  path: string
+  patch: string
+  binary: boolean
+  truncated: boolean
+}
+
+interface GitActionResult {
+  success: boolean
+  error?: string
+  commit?: string
+  conflicts?: string[]
+}
+
+interface DiffSummary {
+  filesChanged: number
+  insertions: number
+  deletions: number
+  files: { path: string; insertions: number; deletions: number; binary: boolean; untracked: boolean }[]
+}
+
+// Autopilot types
+type AutopilotStatus = 'running' | 'review' | 'budget_exhausted' | 'stopped' | 'failed'
+
+interface AutopilotBudget {
+  maxTurns: number
+  timeoutMs: number
+  allowedCommands: string[]
+}
+
+interface AutopilotStartRequest {
+  journeyId: string
+  projectId?: string
+  journeyName: string
+  worktreePath: string
+  plan: string
+  checklist?: { id: string; legName: string; items: { text: string; type: string; done: boolean; done_at?: string }[] }
+  budget?: Partial<AutopilotBudget>
+}
+
+interface AutopilotRun {
+  journeyId: string
+  requestId: string
+  status: AutopilotStatus
+  worktreePath: string
+  budget: AutopilotBudget
+  startedAt: string
+  finishedAt?: string
+  checklistId?: string
+  completedItems: number[]
+  transcript: string
+  summary?: string
+  error?: string
+  diff?: DiffSummary
+}
+
+type AutopilotEvent =
+  | { journeyId: string; type: 'output'; text: string }
+  | { journeyId: string; type: 'checklistItemDone'; checklistId: string; itemIndex: number }
+  | { journeyId: string; type: 'finished'; run: AutopilotRun }
+
+// Worktree bootstrap types
+interface WorktreeBootstrapRecipe {
+  files: { path: string; mode: 'copy' | 'symlink' }[]
+  commands: string[]
+  ports: { target_id: string; env_var: string }[]
+  env_file: string
+}
+
+interface BootstrapPortAssignment {
+  envVar: string
+  port: number
+}
+
+interface WorktreeBootstrapRequest {
+  journeyId: string
+  projectPath: string
+  worktreePath: string
+  recipe: WorktreeBootstrapRecipe
+  ports: BootstrapPortAssignment[]
+}
+
+interface BootstrapStep {
+  kind: 'file' | 'ports' | 'command'
+  label: string
+  status: 'pending' | 'running' | 'done' | 'skipped' | 'failed'
+  detail?: string
+}
+
+interface WorktreeBootstrapRun {
+  journeyId: string
+  status: 'running' | 'succeeded' | 'failed'
+  worktreePath: string
+  steps: BootstrapStep[]
+  ports: BootstrapPortAssignment[]
+  output: string
+  startedAt: string
+  finishedAt?: string
+  error?: string
+}
+
+type WorktreeBootstrapEvent =
+  | { journeyId: string; type: 'output'; text: string }
+  | { journeyId: string; type: 'step'; index: number; step: BootstrapStep }
+  | { journeyId: string; type: 'finished'; run: WorktreeBootstrapRun }
+
+// Worktree janitor types
+interface JanitorJourney {
+  id: string
+  name: string
+  stage: string
+  worktreePath: string | null
+  branchName: string | null
+}
+
+interface WorktreeAuditEntry {
+  kind: 'worktree' | 'directory' | 'branch' | 'journey'
+  path: string | null
+  branch: string | null
+  journeyId: string | null
+  journeyName: string | null
+  flags: ('merged' | 'finished' | 'stale' | 'orphaned' | 'missing')[]
+  lastActivityAt: string | null
+  uncommittedFiles: number | null
+}
+
+interface WorktreeAuditRequest {
+  projectPath: string
+  journeys: JanitorJourney[]
+  staleDays: number
+}
+
+interface WorktreeAudit {
+  baseBranch: string
+  entries: WorktreeAuditEntry[]
+}
+
+interface WorktreeCleanupRequest {
+  projectPath: string
+  entries: WorktreeAuditEntry[]
+  deleteBranches: boolean
+  dryRun: boolean
+}
+
+interface WorktreeCleanupResult {
+  entry: WorktreeAuditEntry
+  actions: string[]
+  skipped?: string
+  error?: string
+}
+
+// Target process types
+interface TargetStartRequest {
+  journeyId: string
+  targetId: string
+  targetName: string
+  command: string
+  cwd: string
+  port: number | null
+  env?: Record<string, string>
+  healthCheck?: { type: 'tcp' | 'http' | 'log'; path?: string; pattern?: string } | null
+  readinessTimeoutMs?: number
+}
+
+interface TargetProcessInfo {
+  journeyId: string
+  targetId: string
+  targetName: string
+  status: 'starting' | 'running' | 'ready' | 'unhealthy' | 'restarting' | 'stopped' | 'crashed'
+  pid: number | null
+  port: number | null
+  command: string
+  cwd: string
+  instance: number
+  restarts: number
+  startedAt?: string
+  exitCode?: number | null
+  nextRestartAt?: string
+  hasHealthCheck: boolean
+  readyAt?: string
+  healthError?: string
+}
+
+interface TargetLogLine {
+  stream: 'stdout' | 'stderr' | 'system'
+  text: string
+  at: string
+}
+
+type TargetProcessEvent =
+  | { type: 'started'; process: TargetProcessInfo }
+  | { type: 'health'; process: TargetProcessInfo }
+  | { type: 'exited'; process: TargetProcessInfo; rowStatus: 'stopped' | 'crashed' }
+  | { type: 'status'; process: TargetProcessInfo }
+  | { type: 'log'; journeyId: string; targetId: string; lines: TargetLogLine[] }
+
+// Conflict prediction types
+interface ConflictJourney {
+  id: string
+  name: string
+  branchName: string
+  worktreePath: string | null
+  canParallelize: boolean
+}
+
+interface JourneyChanges {
+  journeyId: string
+  journeyName: string
+  branchName: string
+  changedFiles: string[]
+  uncommittedFiles: string[]
+  error?: string
+}
+
+interface JourneyPairOverlap {
+  journeyIds: [string, string]
+  overlappingFiles: string[]
+  conflictingFiles: string[]
+  trialMerge: 'clean' | 'conflicts' | 'failed' | 'uncommitted'
+  plannedParallel: boolean
+  error?: string
+}
+
+interface ConflictReport {
+  projectPath: string
+  baseBranch: string
+  computedAt: string
+  journeys: JourneyChanges[]
+  pairs: JourneyPairOverlap[]
+}
+
+type ConflictEvent = { type: 'report'; report: ConflictReport }
+
 // Transcription types
 interface TranscriptionSession {
   id: string
@@ -313,6 +807,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getSessions: (projectId: string) => ipcRenderer.invoke('history:getSessions', projectId),
     getMessages: (filePath: string) => ipcRenderer.invoke('history:getMessages', filePath),
     openInFinder: (filePath: string) => ipcRenderer.invoke('history:openInFinder', filePath),
+    search: (query: HistorySearchQuery) => ipcRenderer.invoke('history:search', query),
+    getSearchStatus: () => ipcRenderer.invoke('history:getSearchStatus'),
+    rebuildSearchIndex: () => ipcRenderer.invoke('history:rebuildSearchIndex'),
+    getUsage: () => ipcRenderer.invoke('history:getUsage'),
   },
 
   // Terminal API
@@ -326,47 +824,90 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Dialog API
   dialog: {
     openFolder: () => ipcRenderer.invoke('dialog:openFolder'),
+    // Returns the saved path, or null if cancelled
+    saveMarkdown: (defaultName: string, content: string) =>
+      ipcRenderer.invoke('dialog:saveMarkdown', { defaultName, content }) as Promise<string | null>,
   },
 
   // Claude CLI API - AI-powered features using Claude Max subscription
   claude: {
     query: (request: ClaudeCliRequest) => ipcRenderer.invoke('claude:query', request),
+    converse: (request: ClaudeConversationRequest) =>
+      ipcRenderer.invoke('claude:converse', request) as Promise<ClaudeCliResponse<string>>,
     queryJson: <T>(prompt: string, jsonSchema: string, options?: Partial<ClaudeCliRequest>) =>
-      ipcRenderer.invoke('claude:queryJson', { prompt, jsonSchema, options }) as Promise<ClaudeCliResponse<T>>,
+      ipcRenderer.invoke('claude:queryJson', { prompt, jsonSchema, options, stream: options?.stream }) as Promise<ClaudeCliResponse<T>>,
+    // Stream events for requests made with { stream: true } - returns an unsubscribe function
+    onStream: (callback: (event: ClaudeStreamEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, data: ClaudeStreamEvent) => callback(data)
+      ipcRenderer.on('claude:stream', listener)
+      return () => {
+        ipcRenderer.removeListener('claude:stream', listener)
+      }
+    },
     // New intake/spec/plan workflow
-    refineIntake: (rawIntake: string, journeyType: JourneyType, projectContext?: string) =>
-      ipcRenderer.invoke('claude:refineIntake', { rawIntake, journeyType, projectContext }) as Promise<ClaudeCliResponse<RefinedIntake>>,
-    generateSpec: (refinedIntake: string, projectContext?: string, techStack?: string, workingDirectory?: string) =>
-      ipcRenderer.invoke('claude:generateSpec', { refinedIntake, projectContext, techStack, workingDirectory }) as Promise<ClaudeCliResponse<Spec>>,
-    refineSpec: (currentSpec: string, feedback: string, workingDirectory?: string) =>
-      ipcRenderer.invoke('claude:refineSpec', { currentSpec, feedback, workingDirectory }) as Promise<ClaudeCliResponse<Spec>>,
-    generatePlan: (spec: string, projectContext?: string, workingDirectory?: string) =>
-      ipcRenderer.invoke('claude:generatePlan', { spec, projectContext, workingDirectory }) as Promise<ClaudeCliResponse<Plan>>,
-    refinePlan: (currentPlan: string, feedback: string, workingDirectory?: string) =>
-      ipcRenderer.invoke('claude:refinePlan', { currentPlan, feedback, workingDirectory }) as Promise<ClaudeCliResponse<Plan>>,
+    refineIntake: (rawIntake: string, journeyType: JourneyType, projectContext?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:refineIntake', { rawIntake, journeyType, projectContext, ...options }) as Promise<ClaudeCliResponse<RefinedIntake>>,
+    generateSpec: (refinedIntake: string, projectContext?: string, techStack?: string, workingDirectory?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:generateSpec', { refinedIntake, projectContext, techStack, workingDirectory, ...options }) as Promise<ClaudeCliResponse<Spec>>,
+    refineSpec: (currentSpec: string, feedback: string, workingDirectory?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:refineSpec', { currentSpec, feedback, workingDirectory, ...options }) as Promise<ClaudeCliResponse<Spec>>,
+    generatePlan: (spec: string, projectContext?: string, workingDirectory?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:generatePlan', { spec, projectContext, workingDirectory, ...options }) as Promise<ClaudeCliResponse<Plan>>,
+    refinePlan: (currentPlan: string, feedback: string, workingDirectory?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:refinePlan', { currentPlan, feedback, workingDirectory, ...options }) as Promise<ClaudeCliResponse<Plan>>,
     // Legacy methods
-    analyzeJourney: (description: string, projectContext?: string) =>
-      ipcRenderer.invoke('claude:analyzeJourney', { description, projectContext }) as Promise<ClaudeCliResponse<JourneyAnalysis>>,
+    analyzeJourney: (description: string, projectContext?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:analyzeJourney', { description, projectContext, ...options }) as Promise<ClaudeCliResponse<JourneyAnalysis>>,
     createPlan: (featureDescription: string, techStack: string, existingStructure?: string) =>
       ipcRenderer.invoke('claude:createPlan', { featureDescription, techStack, existingStructure }) as Promise<ClaudeCliResponse<ImplementationPlan>>,
-    summarizeJourney: (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string) =>
-      ipcRenderer.invoke('claude:summarizeJourney', { journeyName, gitDiff, commitHistory, originalPlan }) as Promise<ClaudeCliResponse<JourneySummary>>,
-    getStatus: () => ipcRenderer.invoke('claude:getStatus') as Promise<{ queueLength: number; activeRequests: number }>,
+    summarizeJourney: (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:summarizeJourney', { journeyName, gitDiff, commitHistory, originalPlan, ...options }) as Promise<ClaudeCliResponse<JourneySummary>>,
+    getStatus: () => ipcRenderer.invoke('claude:getStatus') as Promise<ClaudeCliStatus>,
     clearQueue: () => ipcRenderer.invoke('claude:clearQueue') as Promise<number>,
+    cancel: (requestId: string) => ipcRenderer.invoke('claude:cancel', requestId) as Promise<boolean>,
     // Project intake methods
-    refineProjectIntake: (rawIntake: string, projectName: string) =>
-      ipcRenderer.invoke('claude:refineProjectIntake', { rawIntake, projectName }) as Promise<ClaudeCliResponse<ProjectIntakeRefinement>>,
-    analyzeProjectIntakeChanges: (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string) =>
-      ipcRenderer.invoke('claude:analyzeProjectIntakeChanges', { previousRaw, newRaw, existingAiDoc, projectName }) as Promise<ClaudeCliResponse<ProjectIntakeUpdate>>,
+    refineProjectIntake: (rawIntake: string, projectName: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:refineProjectIntake', { rawIntake, projectName, ...options }) as Promise<ClaudeCliResponse<ProjectIntakeRefinement>>,
+    analyzeProjectIntakeChanges: (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:analyzeProjectIntakeChanges', { previousRaw, newRaw, existingAiDoc, projectName, ...options }) as Promise<ClaudeCliResponse<ProjectIntakeUpdate>>,
     // Proposed journeys methods
-    generateProposedJourneys: (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string) =>
-      ipcRenderer.invoke('claude:generateProposedJourneys', { aiParsedIntake, projectName, existingProposals, codebasePath }) as Promise<ClaudeCliResponse<ProposedJourneysResult>>,
+    generateProposedJourneys: (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:generateProposedJourneys', { aiParsedIntake, projectName, existingProposals, codebasePath, ...options }) as Promise<ClaudeCliResponse<ProposedJourneysResult>>,
     // Proposed child journeys methods (for feature_planning journeys)
-    generateProposedChildJourneys: (spec: string, journeyName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string) =>
-      ipcRenderer.invoke('claude:generateProposedChildJourneys', { spec, journeyName, existingProposals, codebasePath }) as Promise<ClaudeCliResponse<ProposedChildJourneysResult>>,
+    generateProposedChildJourneys: (spec: string, journeyName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:generateProposedChildJourneys', { spec, journeyName, existingProposals, codebasePath, ...options }) as Promise<ClaudeCliResponse<ProposedChildJourneysResult>>,
     // Journey idea parsing methods
-    parseJourneyIdea: (rawText: string, projectName: string) =>
-      ipcRenderer.invoke('claude:parseJourneyIdea', { rawText, projectName }) as Promise<ClaudeCliResponse<ParsedJourneyIdea>>,
+    parseJourneyIdea: (rawText: string, projectName: string, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:parseJourneyIdea', { rawText, projectName, ...options }) as Promise<ClaudeCliResponse<ParsedJourneyIdea>>,
+    // Commit & PR drafting - the diff is read from the worktree
+    draftCommit: (request: CommitDraftRequest, options?: ClaudeCallOptions) =>
+      ipcRenderer.invoke('claude:draftCommit', { ...request, ...options }) as Promise<ClaudeCliResponse<CommitDraft>>,
+  },
+
+  // AI Request Log API - Persistent record of every Claude call
+  aiLog: {
+    list: (filter?: AiRequestLogFilter) =>
+      ipcRenderer.invoke('aiLog:list', filter) as Promise<AiRequestLogEntry[]>,
+    get: (id: string) =>
+      ipcRenderer.invoke('aiLog:get', id) as Promise<AiRequestLogEntry | null>,
+    getStats: (filter?: AiRequestLogFilter) =>
+      ipcRenderer.invoke('aiLog:getStats', filter) as Promise<AiPromptStats[]>,
+    rerun: (id: string) =>
+      ipcRenderer.invoke('aiLog:rerun', id) as Promise<AiRequestLogEntry | null>,
+    clear: () =>
+      ipcRenderer.invoke('aiLog:clear') as Promise<number>,
+  },
+
+  // Prompt template registry - versioned templates with per-project overrides
+  prompts: {
+    list: (projectId?: string) =>
+      ipcRenderer.invoke('prompts:list', projectId) as Promise<PromptTemplateSummary[]>,
+    getVersions: (name: PromptTemplateName, projectId: string | null) =>
+      ipcRenderer.invoke('prompts:getVersions', name, projectId) as Promise<PromptTemplateVersion[]>,
+    saveVersion: (request: { name: PromptTemplateName; projectId: string | null; body: string; note?: string }) =>
+      ipcRenderer.invoke('prompts:saveVersion', request) as Promise<{ success: boolean; version?: PromptTemplateVersion; error?: string }>,
+    compare: (request: PromptCompareRequest) =>
+      ipcRenderer.invoke('prompts:compare', request) as Promise<PromptCompareResult[]>,
   },
 
   // VS Code Launcher API - Opens VS Code with Claude Code
@@ -384,6 +925,96 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('vscode:generatePrompt', { type, context, lastActivity }) as Promise<string>,
   },
 
+  // Autopilot API - Unattended Claude runs in a journey's worktree
+  autopilot: {
+    start: (request: AutopilotStartRequest) =>
+      ipcRenderer.invoke('autopilot:start', request) as Promise<{ success: boolean; run?: AutopilotRun; error?: string }>,
+    stop: (journeyId: string) =>
+      ipcRenderer.invoke('autopilot:stop', journeyId) as Promise<boolean>,
+    getRun: (journeyId: string) =>
+      ipcRenderer.invoke('autopilot:getRun', journeyId) as Promise<AutopilotRun | null>,
+    // Events for every journey's runs - returns an unsubscribe function
+    onEvent: (callback: (event: AutopilotEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, data: AutopilotEvent) => callback(data)
+      ipcRenderer.on('autopilot:event', listener)
+      return () => {
+        ipcRenderer.removeListener('autopilot:event', listener)
+      }
+    },
+  },
+
+  // Worktree Bootstrap API - Project setup recipe run in journey worktrees
+  worktreeBootstrap: {
+    run: (request: WorktreeBootstrapRequest) =>
+      ipcRenderer.invoke('worktreeBootstrap:run', request) as Promise<{ success: boolean; run?: WorktreeBootstrapRun; error?: string }>,
+    getRun: (journeyId: string) =>
+      ipcRenderer.invoke('worktreeBootstrap:getRun', journeyId) as Promise<WorktreeBootstrapRun | null>,
+    // Events for every journey's runs - returns an unsubscribe function
+    onEvent: (callback: (event: WorktreeBootstrapEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, data: WorktreeBootstrapEvent) => callback(data)
+      ipcRenderer.on('worktreeBootstrap:event', listener)
+      return () => {
+        ipcRenderer.removeListener('worktreeBootstrap:event', listener)
+      }
+    },
+  },
+
+  // Worktree Janitor API - Leftover journey worktrees, branches and folders
+  worktreeJanitor: {
+    audit: (request: WorktreeAuditRequest) =>
+      ipcRenderer.invoke('worktreeJanitor:audit', request) as Promise<{ success: boolean; audit?: WorktreeAudit; error?: string }>,
+    cleanup: (request: WorktreeCleanupRequest) =>
+      ipcRenderer.invoke('worktreeJanitor:cleanup', request) as Promise<{ success: boolean; results?: WorktreeCleanupResult[]; error?: string }>,
+  },
+
+  // Targets API - Supervised target processes (dev servers) per journey
+  targets: {
+    start: (request: TargetStartRequest) =>
+      ipcRenderer.invoke('targets:start', request) as Promise<{ success: boolean; process?: TargetProcessInfo; error?: string }>,
+    stop: (journeyId: string, targetId: string) =>
+      ipcRenderer.invoke('targets:stop', { journeyId, targetId }) as Promise<boolean>,
+    restart: (journeyId: string, targetId: string) =>
+      ipcRenderer.invoke('targets:restart', { journeyId, targetId }) as Promise<boolean>,
+    list: (journeyId: string) =>
+      ipcRenderer.invoke('targets:list', journeyId) as Promise<TargetProcessInfo[]>,
+    getLogs: (journeyId: string, targetId: string) =>
+      ipcRenderer.invoke('targets:getLogs', { journeyId, targetId }) as Promise<TargetLogLine[]>,
+    // Resolves once the targets are no longer starting (or the timeout passes)
+    waitForReady: (journeyId: string, timeoutMs: number, targetIds?: string[]) =>
+      ipcRenderer.invoke('targets:waitForReady', { journeyId, timeoutMs, targetIds }) as Promise<TargetProcessInfo[]>,
+    openInBrowser: (journeyId: string, targetId: string) =>
+      ipcRenderer.invoke('targets:openInBrowser', { journeyId, targetId }) as Promise<{ success: boolean; error?: string }>,
+    // Events for every journey's targets - returns an unsubscribe function
+    onEvent: (callback: (event: TargetProcessEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, data: TargetProcessEvent) => callback(data)
+      ipcRenderer.on('targets:event', listener)
+      return () => {
+        ipcRenderer.removeListener('targets:event', listener)
+      }
+    },
+  },
+
+  // Conflicts API - Files changed by more than one journey branch
+  conflicts: {
+    // Checks now and every few minutes while the window watches - resolves with the last report
+    watch: (projectPath: string, journeys: ConflictJourney[]) =>
+      ipcRenderer.invoke('conflicts:watch', { projectPath, journeys }) as Promise<ConflictReport | null>,
+    unwatch: (projectPath: string) =>
+      ipcRenderer.invoke('conflicts:unwatch', projectPath) as Promise<void>,
+    getReport: (projectPath: string) =>
+      ipcRenderer.invoke('conflicts:getReport', projectPath) as Promise<ConflictReport | null>,
+    check: (projectPath: string) =>
+      ipcRenderer.invoke('conflicts:check', projectPath) as Promise<void>,
+    // Reports for every watched project - returns an unsubscribe function
+    onEvent: (callback: (event: ConflictEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, data: ConflictEvent) => callback(data)
+      ipcRenderer.on('conflicts:event', listener)
+      return () => {
+        ipcRenderer.removeListener('conflicts:event', listener)
+      }
+    },
+  },
+
   // Git API - Worktree management for journeys
   git: {
     isRepo: (projectPath: string) =>
@@ -402,6 +1033,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('git:getStatus', worktreePath) as Promise<GitStatus | null>,
     getCurrentBranch: (worktreePath: string) =>
       ipcRenderer.invoke('git:getCurrentBranch', worktreePath) as Promise<string | null>,
+    getBranchDiff: (worktreePath: string, baseBranch?: string) =>
+      ipcRenderer.invoke('git:getBranchDiff', { worktreePath, baseBranch }) as Promise<BranchDiff | null>,
+    getFileDiff: (worktreePath: string, filePath: string, baseBranch?: string) =>
+      ipcRenderer.invoke('git:getFileDiff', { worktreePath, filePath, baseBranch }) as Promise<FileDiff | null>,
+    commit: (worktreePath: string, message: string) =>
+      ipcRenderer.invoke('git:commit', { worktreePath, message }) as Promise<GitActionResult>,
+    push: (worktreePath: string) =>
+      ipcRenderer.invoke('git:push', worktreePath) as Promise<GitActionResult>,
+    rebase: (worktreePath: string, baseBranch?: string) =>
+      ipcRenderer.invoke('git:rebase', { worktreePath, baseBranch }) as Promise<GitActionResult>,
   },
 
   // Transcriptions API - Local file-based speech-to-text session storage
@@ -516,6 +1157,10 @@ declare global {
         getSessions: (projectId: string) => Promise<ClaudeSession[]>
         getMessages: (filePath: string) => Promise<ClaudeMessage[]>
         openInFinder: (filePath: string) => Promise<void>
+        search: (query: HistorySearchQuery) => Promise<HistorySearchResult>
+        getSearchStatus: () => Promise<HistoryIndexStatus>
+        rebuildSearchIndex: () => Promise<HistoryIndexStatus>
+        getUsage: () => Promise<HistorySessionUsage[]>
       }
       terminal: {
         open: (options: { cwd: string; title?: string; launchClaude?: boolean; sessionId?: string; initialPrompt?: string }) => Promise<string>
@@ -524,31 +1169,50 @@ declare global {
       }
       dialog: {
         openFolder: () => Promise<string | null>
+        saveMarkdown: (defaultName: string, content: string) => Promise<string | null>
       }
       claude: {
         query: (request: ClaudeCliRequest) => Promise<ClaudeCliResponse>
+        converse: (request: ClaudeConversationRequest) => Promise<ClaudeCliResponse<string>>
         queryJson: <T>(prompt: string, jsonSchema: string, options?: Partial<ClaudeCliRequest>) => Promise<ClaudeCliResponse<T>>
+        onStream: (callback: (event: ClaudeStreamEvent) => void) => () => void
         // New intake/spec/plan workflow
-        refineIntake: (rawIntake: string, journeyType: JourneyType, projectContext?: string) => Promise<ClaudeCliResponse<RefinedIntake>>
-        generateSpec: (refinedIntake: string, projectContext?: string, techStack?: string, workingDirectory?: string) => Promise<ClaudeCliResponse<Spec>>
-        refineSpec: (currentSpec: string, feedback: string, workingDirectory?: string) => Promise<ClaudeCliResponse<Spec>>
-        generatePlan: (spec: string, projectContext?: string, workingDirectory?: string) => Promise<ClaudeCliResponse<Plan>>
-        refinePlan: (currentPlan: string, feedback: string, workingDirectory?: string) => Promise<ClaudeCliResponse<Plan>>
+        refineIntake: (rawIntake: string, journeyType: JourneyType, projectContext?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<RefinedIntake>>
+        generateSpec: (refinedIntake: string, projectContext?: string, techStack?: string, workingDirectory?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<Spec>>
+        refineSpec: (currentSpec: string, feedback: string, workingDirectory?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<Spec>>
+        generatePlan: (spec: string, projectContext?: string, workingDirectory?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<Plan>>
+        refinePlan: (currentPlan: string, feedback: string, workingDirectory?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<Plan>>
         // Legacy methods
-        analyzeJourney: (description: string, projectContext?: string) => Promise<ClaudeCliResponse<JourneyAnalysis>>
+        analyzeJourney: (description: string, projectContext?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<JourneyAnalysis>>
         createPlan: (featureDescription: string, techStack: string, existingStructure?: string) => Promise<ClaudeCliResponse<ImplementationPlan>>
-        summarizeJourney: (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string) => Promise<ClaudeCliResponse<JourneySummary>>
-        getStatus: () => Promise<{ queueLength: number; activeRequests: number }>
+        summarizeJourney: (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<JourneySummary>>
+        getStatus: () => Promise<ClaudeCliStatus>
         clearQueue: () => Promise<number>
+        cancel: (requestId: string) => Promise<boolean>
         // Project intake methods
-        refineProjectIntake: (rawIntake: string, projectName: string) => Promise<ClaudeCliResponse<ProjectIntakeRefinement>>
-        analyzeProjectIntakeChanges: (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string) => Promise<ClaudeCliResponse<ProjectIntakeUpdate>>
+        refineProjectIntake: (rawIntake: string, projectName: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<ProjectIntakeRefinement>>
+        analyzeProjectIntakeChanges: (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<ProjectIntakeUpdate>>
         // Proposed journeys methods
-        generateProposedJourneys: (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string) => Promise<ClaudeCliResponse<ProposedJourneysResult>>
+        generateProposedJourneys: (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<ProposedJourneysResult>>
         // Proposed child journeys methods (for feature_planning journeys)
-        generateProposedChildJourneys: (spec: string, journeyName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string) => Promise<ClaudeCliResponse<ProposedChildJourneysResult>>
+        generateProposedChildJourneys: (spec: string, journeyName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<ProposedChildJourneysResult>>
         // Journey idea parsing methods
-        parseJourneyIdea: (rawText: string, projectName: string) => Promise<ClaudeCliResponse<ParsedJourneyIdea>>
+        parseJourneyIdea: (rawText: string, projectName: string, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<ParsedJourneyIdea>>
+        // Commit & PR drafting
+        draftCommit: (request: CommitDraftRequest, options?: ClaudeCallOptions) => Promise<ClaudeCliResponse<CommitDraft>>
+      }
+      aiLog: {
+        list: (filter?: AiRequestLogFilter) => Promise<AiRequestLogEntry[]>
+        get: (id: string) => Promise<AiRequestLogEntry | null>
+        getStats: (filter?: AiRequestLogFilter) => Promise<AiPromptStats[]>
+        rerun: (id: string) => Promise<AiRequestLogEntry | null>
+        clear: () => Promise<number>
+      }
+      prompts: {
+        list: (projectId?: string) => Promise<PromptTemplateSummary[]>
+        getVersions: (name: PromptTemplateName, projectId: string | null) => Promise<PromptTemplateVersion[]>
+        saveVersion: (request: { name: PromptTemplateName; projectId: string | null; body: string; note?: string }) => Promise<{ success: boolean; version?: PromptTemplateVersion; error?: string }>
+        compare: (request: PromptCompareRequest) => Promise<PromptCompareResult[]>
       }
       vscode: {
         getStatus: () => Promise<VSCodeStatus>
@@ -560,6 +1224,38 @@ declare global {
           lastActivity?: string
         ) => Promise<string>
       }
+      autopilot: {
+        start: (request: AutopilotStartRequest) => Promise<{ success: boolean; run?: AutopilotRun; error?: string }>
+        stop: (journeyId: string) => Promise<boolean>
+        getRun: (journeyId: string) => Promise<AutopilotRun | null>
+        onEvent: (callback: (event: AutopilotEvent) => void) => () => void
+      }
+      worktreeBootstrap: {
+        run: (request: WorktreeBootstrapRequest) => Promise<{ success: boolean; run?: WorktreeBootstrapRun; error?: string }>
+        getRun: (journeyId: string) => Promise<WorktreeBootstrapRun | null>
+        onEvent: (callback: (event: WorktreeBootstrapEvent) => void) => () => void
+      }
+      worktreeJanitor: {
+        audit: (request: WorktreeAuditRequest) => Promise<{ success: boolean; audit?: WorktreeAudit; error?: string }>
+        cleanup: (request: WorktreeCleanupRequest) => Promise<{ success: boolean; results?: WorktreeCleanupResult[]; error?: string }>
+      }
+      targets: {
+        start: (request: TargetStartRequest) => Promise<{ success: boolean; process?: TargetProcessInfo; error?: string }>
+        stop: (journeyId: string, targetId: string) => Promise<boolean>
+        restart: (journeyId: string, targetId: string) => Promise<boolean>
+        list: (journeyId: string) => Promise<TargetProcessInfo[]>
+        getLogs: (journeyId: string, targetId: string) => Promise<TargetLogLine[]>
+        waitForReady: (journeyId: string, timeoutMs: number, targetIds?: string[]) => Promise<TargetProcessInfo[]>
+        openInBrowser: (journeyId: string, targetId: string) => Promise<{ success: boolean; error?: string }>
+        onEvent: (callback: (event: TargetProcessEvent) => void) => () => void
+      }
+      conflicts: {
+        watch: (projectPath: string, journeys: ConflictJourney[]) => Promise<ConflictReport | null>
+        unwatch: (projectPath: string) => Promise<void>
+        getReport: (projectPath: string) => Promise<ConflictReport | null>
+        check: (projectPath: string) => Promise<void>
+        onEvent: (callback: (event: ConflictEvent) => void) => () => void
+      }
       git: {
         isRepo: (projectPath: string) => Promise<boolean>
         init: (projectPath: string) => Promise<{ success: boolean; error?: string }>
@@ -569,6 +1265,11 @@ declare global {
         removeWorktree: (options: { projectPath: string; worktreePath: string }) => Promise<RemoveWorktreeResult>
         getStatus: (worktreePath: string) => Promise<GitStatus | null>
         getCurrentBranch: (worktreePath: string) => Promise<string | null>
+        getBranchDiff: (worktreePath: string, baseBranch?: string) => Promise<BranchDiff | null>
+        getFileDiff: (worktreePath: string, filePath: string, baseBranch?: string) => Promise<FileDiff | null>
+        commit: (worktreePath: string, message: string) => Promise<GitActionResult>
+        push: (worktreePath: string) => Promise<GitActionResult>
+        rebase: (worktreePath: string, baseBranch?: string) => Promise<GitActionResult>
       }
       transcriptions: {
         getStoragePath: () => Promise<string>
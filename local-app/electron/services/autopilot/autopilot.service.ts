@@ -0,0 +1,229 @@
+/**
+ * Autopilot Service
+ * Runs Claude Code unattended in a journey's worktree against the approved plan,
+ * streaming its transcript, reporting checklist progress, and stopping for review
+ * with a diff summary when the work is done or the budget runs out.
+ * Waits for the journey's starting targets first so test steps don't race them.
+ */
+
+import * as fs from 'fs'
+import { getAiProvider } from '../claude-cli/provider'
+import type { ClaudeCliResponse, ClaudeStreamEvent } from '../claude-cli/types'
+import { getGitService } from '../git.service'
+import { getProcessSupervisor } from '../process-supervisor'
+import { buildAutopilotPrompt, CHECKLIST_DONE_PATTERN } from './prompts'
+import {
+  AutopilotEventHandler,
+  AutopilotRun,
+  AutopilotStartRequest,
+  AutopilotStatus,
+  DEFAULT_AUTOPILOT_BUDGET,
+} from './types'
+
+// Transcript kept on the run for windows that attach mid-run
+const MAX_TRANSCRIPT_CHARS = 20000
+
+// Longest a run waits for the journey's targets to pass their health checks
+const TARGET_READY_TIMEOUT_MS = 2 * 60 * 1000
+
+// Tool inputs worth showing next to the tool name, in order of preference
+const TOOL_DETAIL_KEYS = ['file_path', 'command', 'pattern', 'path', 'url']
+
+function describeToolUse(event: Extract<ClaudeStreamEvent, { type: 'tool_use' }>): string {
+  const key = TOOL_DETAIL_KEYS.find((k) => typeof event.input?.[k] === 'string')
+  const detail = key ? ` ${String(event.input![key]).split('\n')[0].slice(0, 120)}` : ''
+  return `\n▸ ${event.toolName}${detail}\n`
+}
+
+function describeOutcome(response: ClaudeCliResponse): AutopilotStatus {
+  if (response.cancelled) return 'stopped'
+  if (response.turnLimitReached || response.timedOut) return 'budget_exhausted'
+  return response.success ? 'review' : 'failed'
+}
+
+class AutopilotService {
+  private runs = new Map<string, AutopilotRun>()
+  // Runs still waiting for targets - Claude hasn't started yet - with what finishes them as stopped
+  private waitingForTargets = new Map<string, () => void>()
+
+  /**
+   * Start a run for a journey and return it right away
+   * Progress and the final result arrive through onEvent
+   */
+  start(request: AutopilotStartRequest, onEvent: AutopilotEventHandler): AutopilotRun {
+    const { journeyId, worktreePath } = request
+
+    if (this.runs.get(journeyId)?.status === 'running') {
+      throw new Error('Autopilot is already running for this journey')
+    }
+    if (!worktreePath || !fs.existsSync(worktreePath)) {
+      throw new Error(`Worktree not found: ${worktreePath || '(none)'}`)
+    }
+    if (!request.plan.trim()) {
+      throw new Error('Autopilot needs an approved plan to work from')
+    }
+
+    const budget = { ...DEFAULT_AUTOPILOT_BUDGET, ...request.budget }
+    const run: AutopilotRun = {
+      journeyId,
+      requestId: `autopilot-${journeyId}-${Date.now()}`,
+      status: 'running',
+      worktreePath,
+      budget,
+      startedAt: new Date().toISOString(),
+      checklistId: request.checklist?.id,
+      completedItems: [],
+      transcript: '',
+    }
+    this.runs.set(journeyId, run)
+
+    // A run stopped while waiting for targets takes no more output
+    const output = (text: string) => {
+      if (run.status !== 'running') return
+      run.transcript = (run.transcript + text).slice(-MAX_TRANSCRIPT_CHARS)
+      onEvent({ journeyId, type: 'output', text })
+    }
+
+    // Checklist markers can be split across text deltas, so match on whole lines
+    let lineBuffer = ''
+    const checkLine = (line: string) => {
+      const match = CHECKLIST_DONE_PATTERN.exec(line)
+      const checklist = request.checklist
+      if (!match || !checklist) return
+
+      const itemIndex = Number(match[1]) - 1
+      if (!checklist.items[itemIndex] || run.completedItems.includes(itemIndex)) return
+
+      run.completedItems.push(itemIndex)
+      onEvent({ journeyId, type: 'checklistItemDone', checklistId: checklist.id, itemIndex })
+    }
+
+    const handleStreamEvent = (event: ClaudeStreamEvent) => {
+      if (event.type === 'text') {
+        output(event.text)
+        lineBuffer += event.text
+        const lines = lineBuffer.split('\n')
+        lineBuffer = lines.pop() ?? ''
+        lines.forEach(checkLine)
+      } else if (event.type === 'tool_use') {
+        output(describeToolUse(event))
+      } else if (event.isError) {
+        output(`  ✗ ${event.toolName ?? 'tool'} failed\n`)
+      }
+    }
+
+    const finishStopped = () => {
+      run.status = 'stopped'
+      run.finishedAt = new Date().toISOString()
+      onEvent({ journeyId, type: 'finished', run: { ...run } })
+    }
+    this.waitingForTargets.set(journeyId, finishStopped)
+    this.waitForTargets(journeyId, output)
+      .then(() => {
+        // Stopped while waiting - stop() already finished the run
+        if (this.waitingForTargets.get(journeyId) !== finishStopped) return null
+        this.waitingForTargets.delete(journeyId)
+
+        return getAiProvider().stream(
+          {
+            prompt: buildAutopilotPrompt(request.journeyName, request.plan, budget.allowedCommands, request.checklist),
+            workingDirectory: worktreePath,
+            requestId: run.requestId,
+            lane: 'autopilot',
+            timeout: budget.timeoutMs,
+            maxTurns: budget.maxTurns,
+            permissionMode: 'acceptEdits',
+            allowedTools: budget.allowedCommands.map((command) => `Bash(${command}:*)`),
+            promptName: 'autopilot',
+            logContext: { journeyId, projectId: request.projectId },
+          },
+          handleStreamEvent
+        )
+      })
+      .then(async (response) => {
+        if (!response) return
+
+        checkLine(lineBuffer)
+
+        run.status = describeOutcome(response)
+        run.summary = response.success ? response.rawOutput : undefined
+        run.error = response.success ? undefined : response.error
+        run.diff = (await getGitService().getDiffSummary(worktreePath)) ?? undefined
+        run.finishedAt = new Date().toISOString()
+        onEvent({ journeyId, type: 'finished', run: { ...run } })
+      })
+      .catch((error) => {
+        if (run.status !== 'running') return
+        if (this.waitingForTargets.get(journeyId) === finishStopped) this.waitingForTargets.delete(journeyId)
+        run.status = 'failed'
+        run.error = error instanceof Error ? error.message : String(error)
+        run.finishedAt = new Date().toISOString()
+        onEvent({ journeyId, type: 'finished', run: { ...run } })
+      })
+
+    return { ...run }
+  }
+
+  /**
+   * Kill switch - stops the Claude process; the run finishes as 'stopped'
+   * A run still waiting for targets finishes right away
+   */
+  stop(journeyId: string): boolean {
+    const run = this.runs.get(journeyId)
+    if (!run || run.status !== 'running') return false
+
+    const finishStopped = this.waitingForTargets.get(journeyId)
+    if (finishStopped) {
+      this.waitingForTargets.delete(journeyId)
+      finishStopped()
+      return true
+    }
+    return getAiProvider().cancel(run.requestId)
+  }
+
+  /**
+   * Wait for targets that are still starting (or restarting) to settle
+   * Targets that end up unhealthy are reported in the transcript, but the run goes ahead
+   */
+  private async waitForTargets(journeyId: string, output: (text: string) => void) {
+    const supervisor = getProcessSupervisor()
+    const pending = supervisor
+      .getProcesses(journeyId)
+      .filter((info) => info.status === 'starting' || info.status === 'restarting')
+    if (pending.length === 0) return
+
+    output(`Waiting for ${pending.map((info) => info.targetName).join(', ')} to be ready...\n`)
+    const processes = await supervisor.waitForReady(
+      journeyId,
+      TARGET_READY_TIMEOUT_MS,
+      pending.map((info) => info.targetId)
+    )
+    for (const info of processes) {
+      if (info.status === 'ready' || info.status === 'running') {
+        output(`✓ ${info.targetName} is ${info.status}${info.port ? ` on port ${info.port}` : ''}\n`)
+      } else {
+        output(`⚠ ${info.targetName} is ${info.status}${info.healthError ? ` (${info.healthError})` : ''} - continuing anyway\n`)
+      }
+    }
+  }
+
+  /**
+   * Latest run for a journey (running or finished), if any
+   */
+  getRun(journeyId: string): AutopilotRun | null {
+    const run = this.runs.get(journeyId)
+    return run ? { ...run } : null
+  }
+}
+
+// Singleton instance
+let serviceInstance: AutopilotService | null = null
+
+export function getAutopilotService(): AutopilotService {
+  if (!serviceInstance) {
+    serviceInstance = new AutopilotService()
+  }
+  return serviceInstance
+}
+
+export { AutopilotService }
@@ -0,0 +1,19 @@
+/**
+ * Autopilot Service - Public API
+ */
+
+export { AutopilotService, getAutopilotService } from './autopilot.service'
+
+export type {
+  AutopilotBudget,
+  AutopilotChecklist,
+  AutopilotStartRequest,
+  AutopilotStatus,
+  AutopilotRun,
+  AutopilotEvent,
+  AutopilotEventHandler,
+} from './types'
+
+export { DEFAULT_AUTOPILOT_BUDGET } from './types'
+
+export { buildAutopilotPrompt, CHECKLIST_DONE_PATTERN } from './prompts'
@@ -0,0 +1,48 @@
+/**
+ * Prompt for unattended autopilot runs
+ */
+
+import type { AutopilotChecklist } from './types'
+
+/** Line Claude prints when it finishes a checklist item (1-based number) */
+export const CHECKLIST_DONE_PATTERN = /^\s*CHECKLIST_DONE:\s*(\d+)\s*$/
+
+export function buildAutopilotPrompt(
+  journeyName: string,
+  plan: string,
+  allowedCommands: string[],
+  checklist?: AutopilotChecklist
+): string {
+  const checklistSection = checklist && checklist.items.length > 0
+    ? `
+
+CHECKLIST (${checklist.legName}):
+${checklist.items.map((item, index) => `${index + 1}. [${item.done ? 'x' : ' '}] ${item.text}`).join('\n')}`
+    : ''
+
+  const checklistRule = checklistSection
+    ? `
+- Work through the unchecked checklist items in order
+- As soon as an item is finished, print a line containing only: CHECKLIST_DONE: <item number>`
+    : ''
+
+  // Any other command is denied in --print mode, so only ask for checks Claude can actually run
+  const checkRule = allowedCommands.length > 0
+    ? `- Check your work with the commands you are allowed to run (${allowedCommands.join(', ')}) where the project has them, and fix what you broke
+- Other shell commands will be denied - don't retry them`
+    : `- You cannot run shell commands - don't try to run tests or builds, and say in your summary that nothing was run`
+
+  return `You are implementing the journey "${journeyName}" unattended in this git worktree.
+Nobody is watching in real time - don't ask questions. Make reasonable decisions and list them in your final summary.
+
+APPROVED PLAN:
+${plan}${checklistSection}
+
+RULES:
+- Implement the plan, following the existing patterns in this codebase${checklistRule}
+${checkRule}
+- Do not commit, push or switch branches - your changes will be reviewed as a diff
+- Stay inside this worktree
+
+When you are done, or blocked, end with a short summary: what you changed, what is left, which checks you ran and their results, and what the reviewer should check.`
+}
@@ -0,0 +1,75 @@
+/**
+ * Types for the journey autopilot
+ */
+
+import type { ChecklistItem } from '@dev-orchestrator/shared'
+import type { DiffSummary } from '../git.service'
+
+export interface AutopilotBudget {
+  /** Claude turns before the run is stopped */
+  maxTurns: number
+  /** Wall-clock limit in ms */
+  timeoutMs: number
+  /** Command prefixes Claude may run in the shell (e.g. 'npm test') - empty means no shell at all */
+  allowedCommands: string[]
+}
+
+export const DEFAULT_AUTOPILOT_BUDGET: AutopilotBudget = {
+  maxTurns: 50,
+  timeoutMs: 30 * 60 * 1000,
+  allowedCommands: ['npm test', 'npm run test', 'npm run lint', 'npm run typecheck', 'npx tsc'],
+}
+
+export interface AutopilotChecklist {
+  id: string
+  legName: string
+  items: ChecklistItem[]
+}
+
+export interface AutopilotStartRequest {
+  journeyId: string
+  projectId?: string
+  journeyName: string
+  worktreePath: string
+  /** Approved plan, as text */
+  plan: string
+  /** Active checklist - items are ticked as Claude reports them done */
+  checklist?: AutopilotChecklist
+  budget?: Partial<AutopilotBudget>
+}
+
+/**
+ * running: Claude is working
+ * review: Claude finished; changes are waiting for review
+ * budget_exhausted: stopped at the turn or time limit
+ * stopped: killed by the user
+ * failed: the CLI errored
+ */
+export type AutopilotStatus = 'running' | 'review' | 'budget_exhausted' | 'stopped' | 'failed'
+
+export interface AutopilotRun {
+  journeyId: string
+  requestId: string
+  status: AutopilotStatus
+  worktreePath: string
+  budget: AutopilotBudget
+  startedAt: string
+  finishedAt?: string
+  checklistId?: string
+  /** Checklist item indexes Claude reported done during this run */
+  completedItems: number[]
+  /** Tail of the transcript, for windows that attach mid-run */
+  transcript: string
+  /** Claude's closing summary */
+  summary?: string
+  error?: string
+  /** Uncommitted changes in the worktree when the run ended */
+  diff?: DiffSummary
+}
+
+export type AutopilotEvent =
+  | { journeyId: string; type: 'output'; text: string }
+  | { journeyId: string; type: 'checklistItemDone'; checklistId: string; itemIndex: number }
+  | { journeyId: string; type: 'finished'; run: AutopilotRun }
+
+export type AutopilotEventHandler = (event: AutopilotEvent) => void
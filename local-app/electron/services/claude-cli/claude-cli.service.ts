@@ -3,98 +3,219 @@
  * Invokes Claude Code CLI to process AI requests, turning Claude Max into a local API
  */
 
-import { spawn } from 'child_process';
+import { spawn, ChildProcess } from 'child_process';
 import {
   ClaudeCliRequest,
   ClaudeCliResponse,
   ClaudeCliServiceConfig,
+  ClaudeStreamEventHandler,
+  ClaudeQueueLane,
+  ClaudeQueueLaneStatus,
   DEFAULT_CONFIG,
+  QUEUE_LANES,
   QueueItem,
 } from './types';
-import { parseClaudeResponse } from './parser';
+import { parseClaudeResponse, parseStreamJsonLine, StreamJsonMessage } from './parser';
+import { buildJsonPrompt } from './prompts';
+import { queryValidatedJson } from './structured-output';
+import { ResponseCache, responseCacheKey } from './response-cache';
+import type { AiProvider, AiProviderStatus } from './provider';
 
-class ClaudeCliService {
+// CLI session ids are UUIDs
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+const PERMISSION_MODES = new Set(['acceptEdits', 'bypassPermissions']);
+
+// Permission rules are single-quoted for the shell, so nothing that could end the quote or expand
+const ALLOWED_TOOL_PATTERN = /^[\w.:*/ ()@=,-]+$/;
+
+class ClaudeCliService implements AiProvider {
+  readonly kind = 'cli' as const;
   private config: ClaudeCliServiceConfig;
   private queue: QueueItem[] = [];
   private activeRequests = 0;
+  private activeByLane: Record<ClaudeQueueLane, number> = { interactive: 0, background: 0, batch: 0, autopilot: 0 };
   private requestCounter = 0;
+  private activeProcesses = new Map<string, ChildProcess>();
+  private cancelledRequests = new Set<string>();
+  private responseCache: ResponseCache;
 
   constructor(config: Partial<ClaudeCliServiceConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.responseCache = new ResponseCache(this.config.cacheMaxEntries);
   }
 
   /**
    * Send a prompt to Claude CLI and get a response
+   * Pass onStreamEvent to receive partial text and tool activity while it runs
+   */
+  async query<T = unknown>(
+    request: ClaudeCliRequest,
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    return this.withCache<T>(request, () => this.enqueue<T>(request, onStreamEvent), onStreamEvent);
+  }
+
+  /**
+   * Query with automatic JSON parsing
+   * Includes schema hint in prompt for better structured output; output that fails
+   * schema validation is sent back with the errors for up to maxRepairAttempts repairs
+   */
+  async queryJson<T>(
+    prompt: string,
+    jsonSchema: string,
+    options: Partial<ClaudeCliRequest> = {},
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    const request: ClaudeCliRequest = { ...options, prompt: buildJsonPrompt(prompt, jsonSchema), jsonSchema };
+
+    // Only the final validated result is cached, never an intermediate repair attempt
+    return this.withCache<T>(
+      request,
+      () => queryValidatedJson<T>(
+        (attempt, onEvent) => this.enqueue(attempt, onEvent),
+        request,
+        options.maxRepairAttempts ?? this.config.maxRepairAttempts,
+        onStreamEvent
+      ),
+      onStreamEvent
+    );
+  }
+
+  /**
+   * Query in streaming mode - partial text and tool activity go to onStreamEvent
    */
-  async query<T = unknown>(request: ClaudeCliRequest): Promise<ClaudeCliResponse<T>> {
+  async stream<T = unknown>(
+    request: ClaudeCliRequest,
+    onStreamEvent: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    return this.query<T>(request, onStreamEvent);
+  }
+
+  /**
+   * Drop all cached responses
+   */
+  clearCache(): number {
+    return this.responseCache.clear();
+  }
+
+  /**
+   * Serve opted-in requests from the response cache, caching successful results
+   */
+  private async withCache<T>(
+    request: ClaudeCliRequest,
+    run: () => Promise<ClaudeCliResponse<T>>,
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    // Conversation turns depend on session history the cache key can't see
+    if (!request.cache || request.resumeSessionId) return run();
+
+    const key = responseCacheKey(request);
+    if (!request.bypassCache) {
+      const hit = this.responseCache.get(key) as ClaudeCliResponse<T> | undefined;
+      if (hit) {
+        const requestId = request.requestId ?? `cache-${++this.requestCounter}-${Date.now()}`;
+        if (onStreamEvent && hit.rawOutput) {
+          onStreamEvent({ requestId, type: 'text', text: hit.rawOutput });
+        }
+        return { ...hit, requestId, cached: true, durationMs: 0 };
+      }
+    }
+
+    const response = await run();
+    if (response.success) {
+      this.responseCache.set(key, response, request.cacheTtlMs ?? this.config.cacheTtlMs);
+    }
+    return response;
+  }
+
+  private enqueue<T>(
+    request: ClaudeCliRequest,
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
     return new Promise((resolve, reject) => {
-      const id = `req-${++this.requestCounter}-${Date.now()}`;
+      const id = request.requestId ?? `req-${++this.requestCounter}-${Date.now()}`;
 
       this.queue.push({
         id,
         request,
+        lane: request.lane ?? 'interactive',
         resolve: resolve as (response: ClaudeCliResponse) => void,
         reject,
         addedAt: Date.now(),
+        onStreamEvent,
       });
 
-      // Sort by priority (higher first)
-      this.queue.sort((a, b) => (b.request.priority ?? 0) - (a.request.priority ?? 0));
-
       this.processQueue();
     });
   }
 
   /**
-   * Query with automatic JSON parsing
-   * Includes schema hint in prompt for better structured output
+   * Start queued requests until the global or every lane's concurrency limit is reached
    */
-  async queryJson<T>(
-    prompt: string,
-    jsonSchema: string,
-    options: Partial<ClaudeCliRequest> = {}
-  ): Promise<ClaudeCliResponse<T>> {
-    const fullPrompt = `You are an API that returns only valid JSON. No markdown code fences, no explanation, no extra text - just the raw JSON object.
-
-${prompt}
-
-Return a JSON object matching this TypeScript interface:
-${jsonSchema}`;
+  private processQueue(): void {
+    while (this.activeRequests < this.config.maxConcurrent) {
+      const item = this.takeNext();
+      if (!item) return;
+      this.runItem(item);
+    }
+  }
 
-    return this.query<T>({
-      ...options,
-      prompt: fullPrompt,
-      jsonSchema,
+  /**
+   * Remove and return the highest-scoring queued request whose lane has a free slot
+   * Ties go to the request queued first
+   */
+  private takeNext(): QueueItem | undefined {
+    const now = Date.now();
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    this.queue.forEach((item, index) => {
+      if (this.activeByLane[item.lane] >= this.config.lanes[item.lane].maxConcurrent) return;
+
+      const score = this.effectivePriority(item, now);
+      if (score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
     });
-  }
 
-  private async processQueue(): Promise<void> {
-    if (this.activeRequests >= this.config.maxConcurrent || this.queue.length === 0) {
-      return;
-    }
+    return bestIndex === -1 ? undefined : this.queue.splice(bestIndex, 1)[0];
+  }
 
-    const item = this.queue.shift();
-    if (!item) return;
+  /**
+   * Lane priority + request priority, plus one for every agingIntervalMs spent waiting
+   */
+  private effectivePriority(item: QueueItem, now: number): number {
+    return (
+      this.config.lanes[item.lane].basePriority +
+      (item.request.priority ?? 0) +
+      (now - item.addedAt) / this.config.agingIntervalMs
+    );
+  }
 
+  private async runItem(item: QueueItem): Promise<void> {
     this.activeRequests++;
+    this.activeByLane[item.lane]++;
 
     try {
-      const response = await this.executeWithRetry(item.request);
-      item.resolve(response);
+      const response = await this.executeWithRetry(item);
+      item.resolve({ ...response, requestId: item.id });
     } catch (error) {
       item.reject(error instanceof Error ? error : new Error(String(error)));
     } finally {
       this.activeRequests--;
+      this.activeByLane[item.lane]--;
       this.processQueue();
     }
   }
 
-  private async executeWithRetry(request: ClaudeCliRequest): Promise<ClaudeCliResponse> {
+  private async executeWithRetry(item: QueueItem): Promise<ClaudeCliResponse> {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       try {
-        return await this.executeRequest(request);
+        return await this.executeRequest(item);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -115,12 +236,61 @@ ${jsonSchema}`;
     };
   }
 
-  private executeRequest(request: ClaudeCliRequest): Promise<ClaudeCliResponse> {
+  private executeRequest(item: QueueItem): Promise<ClaudeCliResponse> {
+    const { request, onStreamEvent } = item;
+
     return new Promise((resolve) => {
       const startTime = Date.now();
       const timeout = request.timeout ?? this.config.defaultTimeout;
 
       const args = ['--print'];
+      const trackSession = !!(request.trackSession || request.resumeSessionId);
+
+      if (request.resumeSessionId) {
+        // Spawned through a shell, so only pass ids that need no quoting
+        if (!SESSION_ID_PATTERN.test(request.resumeSessionId)) {
+          resolve({
+            success: false,
+            error: `Invalid session id: ${request.resumeSessionId}`,
+            durationMs: 0,
+          });
+          return;
+        }
+        args.push('--resume', request.resumeSessionId);
+      }
+
+      if (request.maxTurns !== undefined) {
+        if (!Number.isInteger(request.maxTurns) || request.maxTurns < 1) {
+          resolve({ success: false, error: `Invalid turn limit: ${request.maxTurns}`, durationMs: 0 });
+          return;
+        }
+        args.push('--max-turns', String(request.maxTurns));
+      }
+
+      if (request.permissionMode) {
+        if (!PERMISSION_MODES.has(request.permissionMode)) {
+          resolve({ success: false, error: `Invalid permission mode: ${request.permissionMode}`, durationMs: 0 });
+          return;
+        }
+        args.push('--permission-mode', request.permissionMode);
+      }
+
+      if (request.allowedTools && request.allowedTools.length > 0) {
+        const invalid = request.allowedTools.find((tool) => !ALLOWED_TOOL_PATTERN.test(tool));
+        if (invalid !== undefined) {
+          resolve({ success: false, error: `Invalid allowed tool: ${invalid}`, durationMs: 0 });
+          return;
+        }
+        args.push('--allowedTools', ...request.allowedTools.map((tool) => `'${tool}'`));
+      }
+
+      // Streaming mode: newline-delimited JSON events, including token deltas
+      // Session mode: a single JSON result object carrying the session id
+      if (onStreamEvent) {
+        args.push('--output-format', 'stream-json', '--verbose', '--include-partial-messages');
+      } else if (trackSession) {
+        args.push('--output-format', 'json');
+      }
 
       // Extend PATH to include common install locations
       // Electron apps don't inherit shell PATH or aliases on macOS
@@ -135,23 +305,51 @@ ${jsonSchema}`;
         process.env.PATH,
       ].filter(Boolean).join(':');
 
+      // Detached so the shell and the claude process share a killable process group
       const proc = spawn('claude', args, {
         cwd: request.workingDirectory,
         shell: true,
+        detached: true,
         env: { ...process.env, PATH: extendedPath },
       });
+      this.activeProcesses.set(item.id, proc);
 
       let stdout = '';
       let stderr = '';
       let killed = false;
 
+      // Stream-json state: buffered partial line, final result and tool names by id
+      let lineBuffer = '';
+      let streamResult: StreamJsonMessage | null = null;
+      const toolNames = new Map<string, string>();
+
+      const handleStreamLine = (line: string) => {
+        const message = parseStreamJsonLine(line);
+        if (!message || !onStreamEvent) return;
+
+        if (message.type === 'result') {
+          streamResult = message;
+          return;
+        }
+
+        this.emitStreamEvents(message, item.id, toolNames, onStreamEvent);
+      };
+
       const timeoutId = setTimeout(() => {
         killed = true;
-        proc.kill('SIGTERM');
+        this.killProcess(proc);
       }, timeout);
 
       proc.stdout.on('data', (data) => {
-        stdout += data.toString();
+        const chunk = data.toString();
+        stdout += chunk;
+
+        if (onStreamEvent) {
+          lineBuffer += chunk;
+          const lines = lineBuffer.split('\n');
+          lineBuffer = lines.pop() ?? '';
+          lines.forEach(handleStreamLine);
+        }
       });
 
       proc.stderr.on('data', (data) => {
@@ -172,11 +370,29 @@ ${jsonSchema}`;
 
       proc.on('close', (code) => {
         clearTimeout(timeoutId);
+        this.activeProcesses.delete(item.id);
         const durationMs = Date.now() - startTime;
 
+        if (this.cancelledRequests.delete(item.id)) {
+          resolve({
+            success: false,
+            cancelled: true,
+            error: 'Request cancelled',
+            rawOutput: stdout,
+            durationMs,
+          });
+          return;
+        }
+
+        if (onStreamEvent && lineBuffer) {
+          handleStreamLine(lineBuffer);
+          lineBuffer = '';
+        }
+
         if (killed) {
           resolve({
             success: false,
+            timedOut: true,
             error: `Request timed out after ${timeout}ms`,
             rawOutput: stdout,
             durationMs,
@@ -184,6 +400,20 @@ ${jsonSchema}`;
           return;
         }
 
+        // A spent turn budget ends in an error result, whatever the exit code
+        const finalResult = streamResult as StreamJsonMessage | null;
+        if (finalResult?.subtype === 'error_max_turns') {
+          resolve({
+            success: false,
+            turnLimitReached: true,
+            error: `Stopped after reaching the turn limit (${request.maxTurns})`,
+            rawOutput: stdout,
+            sessionId: finalResult.session_id,
+            durationMs,
+          });
+          return;
+        }
+
         if (code !== 0) {
           resolve({
             success: false,
@@ -194,16 +424,45 @@ ${jsonSchema}`;
           return;
         }
 
+        // In streaming and session mode the answer text lives in the final result message
+        let output = stdout;
+        let sessionId: string | undefined;
+        if (onStreamEvent || trackSession) {
+          const result = onStreamEvent ? streamResult as StreamJsonMessage | null : parseStreamJsonLine(stdout);
+          if (!result) {
+            resolve({
+              success: false,
+              error: 'Claude CLI output ended without a result',
+              rawOutput: stdout,
+              durationMs,
+            });
+            return;
+          }
+          if (result.is_error) {
+            resolve({
+              success: false,
+              error: result.result || `Claude CLI reported an error (${result.subtype ?? 'unknown'})`,
+              rawOutput: result.result,
+              durationMs,
+            });
+            return;
+          }
+          output = result.result ?? '';
+          sessionId = trackSession ? result.session_id : undefined;
+        }
+
         // Try to parse as JSON if schema was provided
-        const parsed = parseClaudeResponse(stdout, !!request.jsonSchema);
+        const parsed = parseClaudeResponse(output, !!request.jsonSchema);
 
         // If JSON parsing was expected but failed, return an error with context
         if (request.jsonSchema && !parsed.success) {
-          const preview = stdout.slice(0, 300).replace(/\n/g, ' ');
+          const preview = output.slice(0, 300).replace(/\n/g, ' ');
           resolve({
             success: false,
             error: `Failed to parse response as JSON. Preview: ${preview}...`,
-            rawOutput: stdout,
+            rawOutput: output,
+            validationErrors: ['Response is not valid JSON'],
+            sessionId,
             durationMs,
           });
           return;
@@ -212,13 +471,16 @@ ${jsonSchema}`;
         resolve({
           success: true,
           data: parsed.data,
-          rawOutput: stdout,
+          rawOutput: output,
+          sessionId,
           durationMs,
         });
       });
 
       proc.on('error', (error) => {
         clearTimeout(timeoutId);
+        this.activeProcesses.delete(item.id);
+        this.cancelledRequests.delete(item.id);
         resolve({
           success: false,
           error: `Failed to spawn Claude CLI: ${error.message}`,
@@ -228,20 +490,108 @@ ${jsonSchema}`;
     });
   }
 
+  /**
+   * Translate a stream-json message into renderer-facing progress events
+   */
+  private emitStreamEvents(
+    message: StreamJsonMessage,
+    requestId: string,
+    toolNames: Map<string, string>,
+    onStreamEvent: ClaudeStreamEventHandler
+  ): void {
+    // Token-level text deltas (from --include-partial-messages)
+    if (message.type === 'stream_event') {
+      const delta = message.event?.delta;
+      if (message.event?.type === 'content_block_delta' && delta?.type === 'text_delta' && delta.text) {
+        onStreamEvent({ requestId, type: 'text', text: delta.text });
+      }
+      return;
+    }
+
+    const content = message.message?.content;
+    if (!Array.isArray(content)) return;
+
+    for (const block of content) {
+      if (message.type === 'assistant' && block.type === 'tool_use') {
+        toolNames.set(block.id, block.name);
+        onStreamEvent({ requestId, type: 'tool_use', toolName: block.name, input: block.input });
+      } else if (message.type === 'user' && block.type === 'tool_result') {
+        onStreamEvent({
+          requestId,
+          type: 'tool_result',
+          toolName: toolNames.get(block.tool_use_id),
+          isError: !!block.is_error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Terminate the whole process group, falling back to the shell process
+   */
+  private killProcess(proc: ChildProcess): void {
+    try {
+      if (proc.pid) {
+        process.kill(-proc.pid, 'SIGTERM');
+        return;
+      }
+    } catch {
+      // Group already gone or not a group leader
+    }
+    proc.kill('SIGTERM');
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
   /**
-   * Get current queue status
+   * Get current queue status, overall and per lane
    */
-  getStatus(): { queueLength: number; activeRequests: number } {
+  getStatus(): AiProviderStatus {
+    const lanes = {} as Record<ClaudeQueueLane, ClaudeQueueLaneStatus>;
+    for (const lane of QUEUE_LANES) {
+      lanes[lane] = {
+        queued: this.queue.filter((item) => item.lane === lane).length,
+        active: this.activeByLane[lane],
+      };
+    }
+
     return {
       queueLength: this.queue.length,
       activeRequests: this.activeRequests,
+      lanes,
     };
   }
 
+  /**
+   * Cancel a queued or running request
+   * The request's promise resolves with { cancelled: true }. Returns false if the id is unknown
+   */
+  cancel(requestId: string): boolean {
+    const queuedIndex = this.queue.findIndex((item) => item.id === requestId);
+    if (queuedIndex !== -1) {
+      const [item] = this.queue.splice(queuedIndex, 1);
+      item.resolve({
+        requestId,
+        success: false,
+        cancelled: true,
+        error: 'Request cancelled',
+        durationMs: 0,
+      });
+      return true;
+    }
+
+    const proc = this.activeProcesses.get(requestId);
+    if (proc) {
+      this.cancelledRequests.add(requestId);
+      this.killProcess(proc);
+      return true;
+    }
+
+    return false;
+  }
+
   /**
    * Clear pending requests (does not cancel active ones)
    */
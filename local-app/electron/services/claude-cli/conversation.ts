@@ -0,0 +1,89 @@
+/**
+ * Conversation handle
+ * Continues one CLI session across calls (--resume), so follow-up turns send only what is
+ * new instead of rebuilding the full context. If the session can no longer be resumed,
+ * the turn is retried as a new session with the full-context prompt.
+ */
+
+import type { AiProvider } from './provider';
+import type {
+  ClaudeCliRequest,
+  ClaudeCliResponse,
+  ClaudeStreamEventHandler,
+} from './types';
+
+/** Prompts for one turn - which one is sent depends on whether a session exists */
+export interface ConversationTurn {
+  /** Self-contained prompt used to start (or restart) the session */
+  prompt: string;
+  /** Shorter prompt for a resumed session */
+  followUpPrompt: string;
+}
+
+type TurnRunner<T> = (prompt: string, resumeSessionId?: string) => Promise<ClaudeCliResponse<T>>;
+
+class ClaudeConversation {
+  private provider: AiProvider;
+  private currentSessionId: string | undefined;
+
+  constructor(provider: AiProvider, sessionId?: string) {
+    this.provider = provider;
+    this.currentSessionId = sessionId;
+  }
+
+  /** Session the next turn resumes, if any */
+  get sessionId(): string | undefined {
+    return this.currentSessionId;
+  }
+
+  /**
+   * Send a raw-text turn
+   */
+  async send<T = unknown>(
+    turn: ConversationTurn,
+    options: Partial<ClaudeCliRequest> = {},
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    return this.run<T>(turn, (prompt, resumeSessionId) => {
+      const request: ClaudeCliRequest = { ...options, prompt, resumeSessionId, trackSession: true };
+      return onStreamEvent ? this.provider.stream<T>(request, onStreamEvent) : this.provider.query<T>(request);
+    });
+  }
+
+  /**
+   * Send a turn that must return JSON matching the schema hint
+   */
+  async sendJson<T>(
+    turn: ConversationTurn,
+    jsonSchema: string,
+    options: Partial<ClaudeCliRequest> = {},
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    return this.run<T>(turn, (prompt, resumeSessionId) =>
+      this.provider.queryJson<T>(prompt, jsonSchema, { ...options, resumeSessionId, trackSession: true }, onStreamEvent)
+    );
+  }
+
+  private async run<T>(turn: ConversationTurn, runTurn: TurnRunner<T>): Promise<ClaudeCliResponse<T>> {
+    let response: ClaudeCliResponse<T>;
+
+    if (this.currentSessionId) {
+      response = await runTurn(turn.followUpPrompt, this.currentSessionId);
+
+      // CLI-level failure (e.g. the session was pruned) - start over with full context
+      if (!response.success && !response.cancelled && !response.validationErrors) {
+        console.warn(`Could not resume Claude session ${this.currentSessionId}, starting a new one:`, response.error);
+        response = await runTurn(turn.prompt);
+      }
+    } else {
+      response = await runTurn(turn.prompt);
+    }
+
+    if (response.sessionId) {
+      this.currentSessionId = response.sessionId;
+    }
+    return response;
+  }
+}
+
+export { ClaudeConversation };
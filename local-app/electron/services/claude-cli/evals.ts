@@ -0,0 +1,275 @@
+/**
+ * Offline prompt evaluation
+ * Runs fixture intakes through the journey pipeline prompts and scores each step's
+ * output with assertions, producing a report with no timings or timestamps so it can
+ * be diffed between commits.
+ *
+ * Eval case layout (one directory per case under the evals directory):
+ *   <case>/case.json     - EvalCase
+ *   <case>/responses/    - recorded provider responses (see fixture-provider.ts)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { runJourneyPipeline } from './pipeline';
+import type { JourneyPipelineInput } from './pipeline';
+import {
+  buildProposedJourneysPrompt,
+  PROPOSED_JOURNEYS_SCHEMA,
+} from './prompts';
+import type { AiProvider, AiProviderKind } from './provider';
+import type { ClaudeCliResponse } from './types';
+
+export type EvalStep =
+  | 'refineIntake'
+  | 'generateSpec'
+  | 'generatePlan'
+  | 'generateProposedChildJourneys'
+  | 'generateProposedJourneys';
+
+export interface ProjectProposalsInput {
+  projectName: string;
+  aiParsedIntake: string;
+}
+
+export interface EvalExpectations {
+  /** Sections that must be present and non-empty, per step (all schema sections must be present) */
+  nonEmptySections?: Partial<Record<EvalStep, string[]>>;
+  /** Bounds on the number of proposed journeys (default 1-15) */
+  proposals?: { min?: number; max?: number };
+}
+
+export type EvalCase =
+  | { name: string; description?: string; kind: 'journey'; input: JourneyPipelineInput; expect?: EvalExpectations }
+  | { name: string; description?: string; kind: 'project'; input: ProjectProposalsInput; expect?: EvalExpectations };
+
+export type EvalAssertionName = 'schemaValid' | 'requiredSections' | 'noFabricatedSections' | 'proposalCount';
+
+export interface EvalAssertionResult {
+  name: EvalAssertionName;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface EvalStepReport {
+  step: EvalStep;
+  /** Short hash of the built prompt - changes whenever the prompt text does */
+  promptHash: string;
+  assertions: EvalAssertionResult[];
+}
+
+export interface EvalCaseReport {
+  name: string;
+  passed: boolean;
+  /** Step that failed; later steps were not run */
+  stoppedAt?: EvalStep;
+  steps: EvalStepReport[];
+}
+
+export interface EvalReport {
+  provider: AiProviderKind;
+  passed: number;
+  failed: number;
+  cases: EvalCaseReport[];
+}
+
+/** Top-level sections each step's schema defines */
+const STEP_SECTIONS: Record<EvalStep, string[]> = {
+  refineIntake: ['title', 'problem', 'proposedSolution', 'userStories', 'acceptanceCriteria', 'outOfScope', 'openQuestions'],
+  generateSpec: [
+    'overview', 'goals', 'nonGoals', 'technicalApproach', 'dataModel',
+    'apiChanges', 'uiChanges', 'testing', 'rollout', 'openQuestions',
+  ],
+  generatePlan: ['summary', 'estimatedEffort', 'phases', 'risks', 'milestones'],
+  generateProposedChildJourneys: ['journeys'],
+  generateProposedJourneys: ['journeys'],
+};
+
+/** Fields a single proposed journey may carry */
+const PROPOSAL_FIELDS: Partial<Record<EvalStep, string[]>> = {
+  generateProposedChildJourneys: ['name', 'description', 'early_plan', 'checklist_items'],
+  generateProposedJourneys: ['name', 'description', 'early_plan'],
+};
+
+const DEFAULT_PROPOSAL_BOUNDS = { min: 1, max: 15 };
+
+// Validation errors quoted per schema assertion
+const ERROR_PREVIEW_COUNT = 3;
+
+function hashPrompt(prompt: string): string {
+  return createHash('sha1').update(prompt).digest('hex').slice(0, 12);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+/**
+ * Score one step's output
+ * Invalid output is still checked for sections, so a schema regression shows what went missing
+ */
+export function scoreStep(
+  step: EvalStep,
+  prompt: string,
+  response: ClaudeCliResponse,
+  expect: EvalExpectations = {}
+): EvalStepReport {
+  const assertions: EvalAssertionResult[] = [];
+  const output = asRecord(response.data ?? response.invalidData);
+
+  assertions.push(
+    response.success
+      ? { name: 'schemaValid', passed: true }
+      : {
+          name: 'schemaValid',
+          passed: false,
+          detail: response.validationErrors?.slice(0, ERROR_PREVIEW_COUNT).join('; ') || response.error || 'Request failed',
+        }
+  );
+
+  if (output) {
+    const sections = STEP_SECTIONS[step];
+    const missing = sections.filter((section) => !(section in output));
+    const empty = (expect.nonEmptySections?.[step] ?? []).filter(
+      (section) => section in output && isEmpty(output[section])
+    );
+    const problems = [
+      ...missing.map((section) => `missing ${section}`),
+      ...empty.map((section) => `empty ${section}`),
+    ];
+    assertions.push({ name: 'requiredSections', passed: problems.length === 0, detail: problems.join(', ') || undefined });
+
+    const fabricated = Object.keys(output).filter((key) => !sections.includes(key));
+    const proposalFields = PROPOSAL_FIELDS[step];
+    if (proposalFields && Array.isArray(output.journeys)) {
+      output.journeys.forEach((journey, index) => {
+        for (const key of Object.keys(asRecord(journey) ?? {})) {
+          if (!proposalFields.includes(key)) fabricated.push(`journeys[${index}].${key}`);
+        }
+      });
+    }
+    assertions.push({
+      name: 'noFabricatedSections',
+      passed: fabricated.length === 0,
+      detail: fabricated.join(', ') || undefined,
+    });
+
+    if (proposalFields) {
+      const { min, max } = { ...DEFAULT_PROPOSAL_BOUNDS, ...expect.proposals };
+      const count = Array.isArray(output.journeys) ? output.journeys.length : 0;
+      assertions.push({
+        name: 'proposalCount',
+        passed: count >= min && count <= max,
+        detail: `${count} proposed (expected ${min}-${max})`,
+      });
+    }
+  }
+
+  return { step, promptHash: hashPrompt(prompt), assertions };
+}
+
+function summarizeCase(name: string, steps: EvalStepReport[], stoppedAt?: EvalStep): EvalCaseReport {
+  const passed = !stoppedAt && steps.every((step) => step.assertions.every((assertion) => assertion.passed));
+  return { name, passed, stoppedAt, steps };
+}
+
+/**
+ * Run a single eval case
+ * Repairs should be disabled on the provider so first-attempt output is what gets scored
+ */
+export async function runEvalCase(provider: AiProvider, evalCase: EvalCase): Promise<EvalCaseReport> {
+  const expect = evalCase.expect ?? {};
+
+  if (evalCase.kind === 'project') {
+    const { projectName, aiParsedIntake } = evalCase.input;
+    const prompt = buildProposedJourneysPrompt(aiParsedIntake, projectName, [], undefined);
+    // Same prompt name and inputs as the IPC handler, so responses recorded in the app replay here
+    const response = await provider.queryJson(prompt, PROPOSED_JOURNEYS_SCHEMA, {
+      lane: 'batch',
+      promptName: 'generateProposedJourneys',
+      promptInputs: { aiParsedIntake, projectName, existingProposals: [], codebasePath: undefined },
+    });
+    const step = scoreStep('generateProposedJourneys', prompt, response, expect);
+    return summarizeCase(evalCase.name, [step], response.success ? undefined : step.step);
+  }
+
+  const result = await runJourneyPipeline(provider, evalCase.input);
+  const steps = result.steps.map(({ step, prompt, response }) => scoreStep(step, prompt, response, expect));
+  return summarizeCase(evalCase.name, steps, result.failedStep);
+}
+
+/**
+ * Eval case directories under evalsDir, sorted by name
+ */
+export function loadEvalCases(evalsDir: string): { dir: string; evalCase: EvalCase }[] {
+  if (!fs.existsSync(evalsDir)) {
+    throw new Error(`Evals directory not found: ${evalsDir}`);
+  }
+
+  return fs.readdirSync(evalsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(evalsDir, entry.name, 'case.json')))
+    .map((entry) => entry.name)
+    .sort()
+    .map((name) => {
+      const dir = path.join(evalsDir, name);
+      const evalCase = JSON.parse(fs.readFileSync(path.join(dir, 'case.json'), 'utf-8')) as EvalCase;
+      return { dir, evalCase: { ...evalCase, name: evalCase.name ?? name } };
+    });
+}
+
+/**
+ * Run every case in evalsDir, each against the provider built for its directory
+ */
+export async function runEvals(
+  evalsDir: string,
+  providerForCase: (caseDir: string) => AiProvider
+): Promise<EvalReport> {
+  const cases: EvalCaseReport[] = [];
+  let kind: AiProviderKind = 'fixture';
+
+  for (const { dir, evalCase } of loadEvalCases(evalsDir)) {
+    const provider = providerForCase(dir);
+    kind = provider.kind;
+    cases.push(await runEvalCase(provider, evalCase));
+  }
+
+  const passed = cases.filter((c) => c.passed).length;
+  return { provider: kind, passed, failed: cases.length - passed, cases };
+}
+
+/**
+ * Markdown report - stable for identical results, so `git diff` shows only real changes
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const lines = [
+    '# Prompt eval report',
+    '',
+    `Provider: ${report.provider} · ${report.passed} passed · ${report.failed} failed`,
+    '',
+  ];
+
+  for (const evalCase of report.cases) {
+    lines.push(`## ${evalCase.passed ? 'PASS' : 'FAIL'} ${evalCase.name}`, '');
+    if (evalCase.stoppedAt) {
+      lines.push(`Stopped at ${evalCase.stoppedAt} - later steps not run`, '');
+    }
+    for (const step of evalCase.steps) {
+      lines.push(`### ${step.step} (prompt ${step.promptHash})`, '');
+      for (const assertion of step.assertions) {
+        const detail = assertion.detail ? ` - ${assertion.detail}` : '';
+        lines.push(`- [${assertion.passed ? 'x' : ' '}] ${assertion.name}${detail}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,298 @@
+/**
+ * Fixture AI Provider
+ * Replays recorded responses keyed by prompt name + builder inputs, so prompt-driven
+ * features run deterministically with no network. In record mode, misses are forwarded
+ * to a live provider and written back as new fixtures.
+ *
+ * Fixture file format (any *.json under the fixtures directory):
+ * {
+ *   "promptName": "generateSpec",
+ *   "inputs": { ... },            // omit to make this the default for promptName
+ *   "response": { "success": true, "rawOutput": "..." }
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { parseClaudeResponse } from './parser';
+import { buildJsonPrompt } from './prompts';
+import { queryValidatedJson } from './structured-output';
+import type { AiProvider, AiProviderStatus } from './provider';
+import {
+  ClaudeCliRequest,
+  ClaudeCliResponse,
+  ClaudeStreamEventHandler,
+  DEFAULT_CONFIG,
+  QUEUE_LANES,
+} from './types';
+
+export interface FixtureResponse {
+  success: boolean;
+  rawOutput?: string;
+  error?: string;
+}
+
+export interface AiFixture {
+  promptName?: string;
+  inputs?: Record<string, unknown>;
+  /** Full prompt text, kept for requests without a promptName */
+  prompt?: string;
+  response: FixtureResponse;
+}
+
+export interface FixtureProviderOptions {
+  fixturesDir: string;
+  /** Live provider used for misses; responses are recorded as new fixtures */
+  recordFrom?: AiProvider;
+  /** Repair prompts to try when replayed JSON fails validation (default: DEFAULT_CONFIG) */
+  maxRepairAttempts?: number;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal inputs always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Compute the lookup key for a request (or a fixture describing one)
+ * Named prompts are keyed by name + inputs; anonymous ones by the prompt text
+ */
+export function fixtureKey(promptName: string | undefined, inputs: Record<string, unknown> | undefined, prompt?: string): string {
+  const material = promptName
+    ? stableStringify({ promptName, inputs: inputs ?? {} })
+    : stableStringify({ prompt: prompt ?? '' });
+  return createHash('sha1').update(material).digest('hex').slice(0, 16);
+}
+
+function listJsonFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listJsonFiles(fullPath);
+    return entry.name.endsWith('.json') ? [fullPath] : [];
+  });
+}
+
+class FixtureProvider implements AiProvider {
+  readonly kind: 'fixture' | 'record';
+  private fixturesDir: string;
+  private recordFrom?: AiProvider;
+  private maxRepairAttempts: number;
+  private fixtures: Map<string, AiFixture> | null = null;
+  private defaults = new Map<string, AiFixture>();
+  private activeRequests = 0;
+
+  constructor(options: FixtureProviderOptions) {
+    this.fixturesDir = options.fixturesDir;
+    this.recordFrom = options.recordFrom;
+    this.maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_CONFIG.maxRepairAttempts;
+    this.kind = options.recordFrom ? 'record' : 'fixture';
+  }
+
+  async query<T = unknown>(request: ClaudeCliRequest): Promise<ClaudeCliResponse<T>> {
+    return this.respond<T>(request);
+  }
+
+  async queryJson<T>(
+    prompt: string,
+    jsonSchema: string,
+    options: Partial<ClaudeCliRequest> = {},
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    return queryValidatedJson<T>(
+      (request, onEvent) => this.respond(request, onEvent),
+      { ...options, prompt: buildJsonPrompt(prompt, jsonSchema), jsonSchema },
+      options.maxRepairAttempts ?? this.maxRepairAttempts,
+      onStreamEvent
+    );
+  }
+
+  async stream<T = unknown>(
+    request: ClaudeCliRequest,
+    onStreamEvent: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    return this.respond<T>(request, onStreamEvent);
+  }
+
+  // Replayed responses resolve immediately, so there is nothing to cancel
+  cancel(requestId: string): boolean {
+    return this.recordFrom?.cancel(requestId) ?? false;
+  }
+
+  getStatus(): AiProviderStatus {
+    const recordStatus = this.recordFrom?.getStatus();
+    return {
+      queueLength: recordStatus?.queueLength ?? 0,
+      activeRequests: this.activeRequests,
+      lanes: recordStatus?.lanes ?? Object.fromEntries(
+        QUEUE_LANES.map((lane) => [lane, { queued: 0, active: 0 }])
+      ) as AiProviderStatus['lanes'],
+    };
+  }
+
+  clearQueue(): number {
+    return this.recordFrom?.clearQueue() ?? 0;
+  }
+
+  /**
+   * Drop the in-memory index so fixture edits on disk are picked up
+   */
+  reload(): void {
+    this.fixtures = null;
+    this.defaults.clear();
+  }
+
+  private async respond<T>(
+    request: ClaudeCliRequest,
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    const startTime = Date.now();
+    const requestId = request.requestId ?? `fixture-${Date.now()}`;
+    const key = fixtureKey(request.promptName, request.promptInputs, request.prompt);
+
+    this.activeRequests++;
+    try {
+      const fixture = this.lookup(key, request.promptName);
+
+      if (!fixture) {
+        if (this.recordFrom) {
+          return await this.record<T>(request, key, onStreamEvent);
+        }
+        return {
+          requestId,
+          success: false,
+          error: `No fixture recorded for ${request.promptName ?? 'anonymous prompt'} (key ${key}) in ${this.fixturesDir}`,
+          durationMs: Date.now() - startTime,
+        };
+      }
+
+      return this.replay<T>(fixture, request, requestId, startTime, onStreamEvent);
+    } finally {
+      this.activeRequests--;
+    }
+  }
+
+  private replay<T>(
+    fixture: AiFixture,
+    request: ClaudeCliRequest,
+    requestId: string,
+    startTime: number,
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): ClaudeCliResponse<T> {
+    const { response } = fixture;
+    const rawOutput = response.rawOutput ?? '';
+
+    if (onStreamEvent && rawOutput) {
+      onStreamEvent({ requestId, type: 'text', text: rawOutput });
+    }
+
+    if (!response.success) {
+      return {
+        requestId,
+        success: false,
+        error: response.error ?? 'Recorded failure',
+        rawOutput,
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    // Parse exactly as the live service would
+    const parsed = parseClaudeResponse<T>(rawOutput, !!request.jsonSchema);
+    if (request.jsonSchema && !parsed.success) {
+      return {
+        requestId,
+        success: false,
+        error: 'Failed to parse recorded response as JSON',
+        rawOutput,
+        validationErrors: ['Response is not valid JSON'],
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    return {
+      requestId,
+      success: true,
+      data: parsed.data,
+      rawOutput,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  private async record<T>(
+    request: ClaudeCliRequest,
+    key: string,
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    const live = this.recordFrom!;
+    const response = onStreamEvent
+      ? await live.stream<T>(request, onStreamEvent)
+      : await live.query<T>(request);
+
+    // Cancellations are not a property of the prompt - never record them
+    if (response.cancelled) {
+      return response;
+    }
+
+    const fixture: AiFixture = {
+      promptName: request.promptName,
+      inputs: request.promptInputs,
+      prompt: request.promptName ? undefined : request.prompt,
+      response: {
+        success: response.success,
+        rawOutput: response.rawOutput,
+        error: response.error,
+      },
+    };
+
+    const dir = path.join(this.fixturesDir, request.promptName ?? 'anonymous');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(fixture, null, 2));
+    this.index().set(key, fixture);
+
+    return response;
+  }
+
+  private lookup(key: string, promptName?: string): AiFixture | undefined {
+    const exact = this.index().get(key);
+    if (exact) return exact;
+    return promptName ? this.defaults.get(promptName) : undefined;
+  }
+
+  private index(): Map<string, AiFixture> {
+    if (this.fixtures) return this.fixtures;
+
+    this.fixtures = new Map();
+    for (const file of listJsonFiles(this.fixturesDir)) {
+      try {
+        const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as AiFixture;
+        if (!fixture.response) continue;
+
+        if (fixture.promptName && !fixture.inputs) {
+          this.defaults.set(fixture.promptName, fixture);
+        } else {
+          this.fixtures.set(fixtureKey(fixture.promptName, fixture.inputs, fixture.prompt), fixture);
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable AI fixture ${file}:`, error);
+      }
+    }
+
+    return this.fixtures;
+  }
+}
+
+export { FixtureProvider };
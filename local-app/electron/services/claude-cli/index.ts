@@ -9,18 +9,71 @@ export {
   resetClaudeCliService,
 } from './claude-cli.service';
 
+export {
+  getAiProvider,
+  setAiProvider,
+  createAiProvider,
+  resolveAiProviderConfig,
+} from './provider';
+
+export type {
+  AiProvider,
+  AiProviderKind,
+  AiProviderConfig,
+  AiProviderStatus,
+} from './provider';
+
+export { FixtureProvider, fixtureKey } from './fixture-provider';
+export type { AiFixture, FixtureResponse } from './fixture-provider';
+
+export {
+  AiRequestLog,
+  LoggingAiProvider,
+  getAiRequestLog,
+  setAiRequestLog,
+  describeParseOutcome,
+} from './request-log';
+export type {
+  AiRequestLogEntry,
+  AiRequestLogFilter,
+  AiPromptStats,
+  AiParseOutcome,
+} from './request-log';
+
+export { ResponseCache, responseCacheKey } from './response-cache';
+
+export { ClaudeConversation } from './conversation';
+export type { ConversationTurn } from './conversation';
+
+export { runJourneyPipeline } from './pipeline';
+export type { JourneyPipelineInput, JourneyPipelineResult } from './pipeline';
+
+export { runEvals, runEvalCase, scoreStep, loadEvalCases, formatEvalReport } from './evals';
+export type { EvalCase, EvalExpectations, EvalReport, EvalCaseReport, EvalStepReport } from './evals';
+
 export type {
   ClaudeCliRequest,
   ClaudeCliResponse,
   ClaudeCliServiceConfig,
+  ClaudeQueueLane,
+  ClaudeQueueLaneConfig,
+  ClaudeQueueLaneStatus,
+  ClaudePermissionMode,
+  AiRequestLogContext,
+  ClaudeStreamEvent,
+  ClaudeStreamEventHandler,
   JourneyAnalysis,
   ImplementationPlan,
   JourneySummary,
 } from './types';
 
-export { DEFAULT_CONFIG } from './types';
+export { DEFAULT_CONFIG, QUEUE_LANES } from './types';
 
 export {
+  buildJsonPrompt,
+  buildRepairPrompt,
+  buildRefinementFollowUpPrompt,
+  SCHEMA_VALIDATORS,
   // New intake/spec/plan prompts
   buildIntakeRefinementPrompt,
   buildSpecGenerationPrompt,
@@ -36,6 +89,13 @@ export {
   JOURNEY_ANALYSIS_SCHEMA,
   IMPLEMENTATION_PLAN_SCHEMA,
   JOURNEY_SUMMARY_SCHEMA,
+  // Commit & PR drafting
+  buildCommitDraftPrompt,
+  COMMIT_DRAFT_SCHEMA,
 } from './prompts';
 
-export { parseClaudeResponse, validateShape } from './parser';
+export { parseClaudeResponse, parseStreamJsonLine, validateShape } from './parser';
+
+export { queryValidatedJson, validateStructuredOutput } from './structured-output';
+export { validate } from './validation';
+export type { SchemaValidator } from './validation';
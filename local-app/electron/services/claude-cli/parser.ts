@@ -177,3 +177,44 @@ export function validateShape<T>(data: unknown, requiredKeys: (keyof T)[]): data
 
   return true;
 }
+
+/**
+ * Content block inside a stream-json assistant/user message
+ */
+export type StreamJsonContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input?: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; is_error?: boolean };
+
+/**
+ * One line of `claude --print --output-format stream-json` output
+ * Only the fields the service consumes are typed
+ */
+export interface StreamJsonMessage {
+  type: 'system' | 'assistant' | 'user' | 'result' | 'stream_event';
+  subtype?: string;
+  session_id?: string;
+  message?: { content?: StreamJsonContentBlock[] | string };
+  event?: { type: string; delta?: { type: string; text?: string } };
+  result?: string;
+  is_error?: boolean;
+}
+
+/**
+ * Parse a single stream-json line, ignoring blank or malformed lines
+ */
+export function parseStreamJsonLine(line: string): StreamJsonMessage | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (typeof parsed === 'object' && parsed !== null && typeof parsed.type === 'string') {
+      return parsed as StreamJsonMessage;
+    }
+  } catch {
+    // Partial or non-JSON line (e.g. CLI warnings)
+  }
+
+  return null;
+}
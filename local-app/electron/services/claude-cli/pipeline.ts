@@ -0,0 +1,121 @@
+/**
+ * Journey pipeline runner
+ * Drives intake → spec → plan → proposed child journeys through any AiProvider,
+ * using the same prompt names as the IPC handlers so recorded fixtures line up.
+ */
+
+import type { AiProvider } from './provider';
+import type { ClaudeCliResponse } from './types';
+import {
+  buildIntakeRefinementPrompt,
+  buildSpecGenerationPrompt,
+  buildPlanGenerationPrompt,
+  buildProposedChildJourneysPrompt,
+  REFINED_INTAKE_SCHEMA,
+  SPEC_SCHEMA,
+  PLAN_SCHEMA,
+  PROPOSED_CHILD_JOURNEYS_SCHEMA,
+  ProposedChildJourneysResult,
+} from './prompts';
+
+export type JourneyType = 'feature_planning' | 'feature' | 'bug' | 'investigation';
+
+export interface JourneyPipelineInput {
+  journeyName: string;
+  journeyType: JourneyType;
+  rawIntake: string;
+  projectContext?: string;
+  techStack?: string;
+  codebasePath?: string;
+}
+
+export type JourneyPipelineStep = 'refineIntake' | 'generateSpec' | 'generatePlan' | 'generateProposedChildJourneys';
+
+export interface JourneyPipelineStepResult {
+  step: JourneyPipelineStep;
+  /** Prompt as built, before the JSON schema wrapper */
+  prompt: string;
+  response: ClaudeCliResponse;
+}
+
+export interface JourneyPipelineResult {
+  success: boolean;
+  /** Step that failed, if any - later steps are not run */
+  failedStep?: JourneyPipelineStep;
+  steps: JourneyPipelineStepResult[];
+  refinedIntake?: unknown;
+  spec?: unknown;
+  plan?: unknown;
+  proposedChildJourneys?: ProposedChildJourneysResult;
+}
+
+/**
+ * Run the full journey pipeline, stopping at the first failed step
+ * Each step's structured output is passed to the next as pretty-printed JSON
+ */
+export async function runJourneyPipeline(
+  provider: AiProvider,
+  input: JourneyPipelineInput
+): Promise<JourneyPipelineResult> {
+  const result: JourneyPipelineResult = { success: false, steps: [] };
+
+  const run = async (
+    step: JourneyPipelineStep,
+    prompt: string,
+    schema: string,
+    promptInputs: Record<string, unknown>
+  ): Promise<unknown | undefined> => {
+    const response = await provider.queryJson(prompt, schema, {
+      lane: 'batch',
+      promptName: step,
+      promptInputs,
+      workingDirectory: input.codebasePath,
+    });
+    result.steps.push({ step, prompt, response });
+
+    if (!response.success) {
+      result.failedStep = step;
+      return undefined;
+    }
+    return response.data;
+  };
+
+  const { rawIntake, journeyType, projectContext, techStack, journeyName, codebasePath } = input;
+
+  result.refinedIntake = await run(
+    'refineIntake',
+    buildIntakeRefinementPrompt(rawIntake, journeyType, projectContext),
+    REFINED_INTAKE_SCHEMA,
+    { rawIntake, journeyType, projectContext }
+  );
+  if (result.refinedIntake === undefined) return result;
+
+  const refinedIntake = JSON.stringify(result.refinedIntake, null, 2);
+  result.spec = await run(
+    'generateSpec',
+    buildSpecGenerationPrompt(refinedIntake, projectContext, techStack),
+    SPEC_SCHEMA,
+    { refinedIntake, projectContext, techStack }
+  );
+  if (result.spec === undefined) return result;
+
+  const spec = JSON.stringify(result.spec, null, 2);
+  result.plan = await run(
+    'generatePlan',
+    buildPlanGenerationPrompt(spec, projectContext),
+    PLAN_SCHEMA,
+    { spec, projectContext }
+  );
+  if (result.plan === undefined) return result;
+
+  result.proposedChildJourneys = (await run(
+    'generateProposedChildJourneys',
+    buildProposedChildJourneysPrompt(spec, journeyName, [], codebasePath),
+    PROPOSED_CHILD_JOURNEYS_SCHEMA,
+    { spec, journeyName, existingProposals: [], codebasePath }
+  )) as ProposedChildJourneysResult | undefined;
+  if (result.proposedChildJourneys === undefined) return result;
+
+  result.success = true;
+  return result;
+}
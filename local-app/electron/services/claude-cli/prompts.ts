@@ -3,6 +3,20 @@
  */
 
 import { JourneyAnalysis, ImplementationPlan, JourneySummary } from './types';
+import { arrayOf, number, object, oneOf, string, SchemaValidator } from './validation';
+import { renderPromptTemplate } from '../prompt-registry/render';
+
+/**
+ * Wrap a prompt with the JSON-only instructions used by queryJson
+ */
+export function buildJsonPrompt(prompt: string, jsonSchema: string): string {
+  return `You are an API that returns only valid JSON. No markdown code fences, no explanation, no extra text - just the raw JSON object.
+
+${prompt}
+
+Return a JSON object matching this TypeScript interface:
+${jsonSchema}`;
+}
 
 // =============================================================================
 // INTAKE REFINEMENT PROMPTS
@@ -18,53 +32,66 @@ export const REFINED_INTAKE_SCHEMA = `{
   openQuestions: string[];
 }`;
 
-/**
- * Build prompt for refining a raw intake into a structured format
- */
-export function buildIntakeRefinementPrompt(
-  rawIntake: string,
-  journeyType: 'feature_planning' | 'feature' | 'bug' | 'investigation',
-  projectContext?: string
-): string {
-  const typeSpecificGuidance = {
-    feature_planning: `This is a feature planning journey. Focus on:
+export const REFINED_INTAKE_VALIDATOR: SchemaValidator = object({
+  title: string(),
+  problem: string(),
+  proposedSolution: string(),
+  userStories: arrayOf(string()),
+  acceptanceCriteria: arrayOf(string()),
+  outOfScope: arrayOf(string()),
+  openQuestions: arrayOf(string()),
+});
+
+const INTAKE_TYPE_GUIDANCE = {
+  feature_planning: `This is a feature planning journey. Focus on:
 - Clarifying the problem being solved
 - Breaking down into user stories
 - Defining clear acceptance criteria
 - Identifying what's explicitly out of scope`,
-    feature: `This is a feature implementation journey. Focus on:
+  feature: `This is a feature implementation journey. Focus on:
 - Technical requirements
 - Implementation constraints
 - Integration points
 - Testing requirements`,
-    bug: `This is a bug fix journey. Focus on:
+  bug: `This is a bug fix journey. Focus on:
 - Reproducing the issue
 - Impact and severity
 - Expected vs actual behavior
 - Steps to reproduce`,
-    investigation: `This is an investigation journey. Focus on:
+  investigation: `This is an investigation journey. Focus on:
 - What needs to be learned/discovered
 - Success criteria for the investigation
 - Deliverables (documentation, POC, recommendation)
 - Time constraints`,
-  };
+};
 
-  let prompt = `Refine this raw feature intake into a well-structured format.
+/** Default template for intake refinement - variables: rawIntake, typeGuidance, projectContext */
+export const INTAKE_REFINEMENT_TEMPLATE = `Refine this raw feature intake into a well-structured format.
 
 Raw Intake:
-${rawIntake}
+{{rawIntake}}
 
-${typeSpecificGuidance[journeyType]}`;
-
-  if (projectContext) {
-    prompt += `\n\nProject Context:\n${projectContext}`;
-  }
+{{typeGuidance}}{{#projectContext}}
 
-  prompt += `
+Project Context:
+{{projectContext}}{{/projectContext}}
 
 Transform this into a clear, actionable intake document. Preserve the original intent but add structure, clarity, and completeness. If information is missing, note it in openQuestions.`;
 
-  return prompt;
+/**
+ * Build prompt for refining a raw intake into a structured format
+ */
+export function buildIntakeRefinementPrompt(
+  rawIntake: string,
+  journeyType: 'feature_planning' | 'feature' | 'bug' | 'investigation',
+  projectContext?: string,
+  template = INTAKE_REFINEMENT_TEMPLATE
+): string {
+  return renderPromptTemplate(template, {
+    rawIntake,
+    typeGuidance: INTAKE_TYPE_GUIDANCE[journeyType],
+    projectContext,
+  });
 }
 
 // =============================================================================
@@ -104,28 +131,49 @@ export const SPEC_SCHEMA = `{
   openQuestions: string[];
 }`;
 
-/**
- * Build prompt for generating a spec from a refined intake
- */
-export function buildSpecGenerationPrompt(
-  refinedIntake: string,
-  projectContext?: string,
-  techStack?: string
-): string {
-  let prompt = `Create a detailed technical specification from this refined intake.
+export const SPEC_VALIDATOR: SchemaValidator = object({
+  overview: string(),
+  goals: arrayOf(string()),
+  nonGoals: arrayOf(string()),
+  technicalApproach: object({
+    summary: string(),
+    components: arrayOf(object({ name: string(), purpose: string(), changes: string() })),
+  }),
+  dataModel: object({
+    newEntities: arrayOf(object({ name: string(), fields: arrayOf(string()) })),
+    modifiedEntities: arrayOf(object({ name: string(), changes: string() })),
+  }),
+  apiChanges: object({
+    newEndpoints: arrayOf(object({ method: string(), path: string(), purpose: string() })),
+    modifiedEndpoints: arrayOf(object({ method: string(), path: string(), changes: string() })),
+  }),
+  uiChanges: object({
+    newScreens: arrayOf(object({ name: string(), purpose: string() })),
+    modifiedScreens: arrayOf(object({ name: string(), changes: string() })),
+  }),
+  testing: object({
+    unitTests: arrayOf(string()),
+    integrationTests: arrayOf(string()),
+    e2eTests: arrayOf(string()),
+  }),
+  rollout: object({
+    featureFlags: arrayOf(string()),
+    migrationSteps: arrayOf(string()),
+    rollbackPlan: string(),
+  }),
+  openQuestions: arrayOf(string()),
+});
+
+/** Default template for spec generation - variables: refinedIntake, techStack, projectContext */
+export const SPEC_GENERATION_TEMPLATE = `Create a detailed technical specification from this refined intake.
 
 Refined Intake:
-${refinedIntake}`;
+{{refinedIntake}}{{#techStack}}
 
-  if (techStack) {
-    prompt += `\n\nTech Stack: ${techStack}`;
-  }
+Tech Stack: {{techStack}}{{/techStack}}{{#projectContext}}
 
-  if (projectContext) {
-    prompt += `\n\nProject Context:\n${projectContext}`;
-  }
-
-  prompt += `
+Project Context:
+{{projectContext}}{{/projectContext}}
 
 Generate a comprehensive spec that covers:
 1. Technical approach and architecture
@@ -137,7 +185,16 @@ Generate a comprehensive spec that covers:
 
 Be specific about what needs to be built, modified, or removed.`;
 
-  return prompt;
+/**
+ * Build prompt for generating a spec from a refined intake
+ */
+export function buildSpecGenerationPrompt(
+  refinedIntake: string,
+  projectContext?: string,
+  techStack?: string,
+  template = SPEC_GENERATION_TEMPLATE
+): string {
+  return renderPromptTemplate(template, { refinedIntake, techStack, projectContext });
 }
 
 // =============================================================================
@@ -164,6 +221,20 @@ Apply the user's feedback to update the specification. Preserve all existing con
 Be specific about what needs to be built, modified, or removed.`;
 }
 
+/**
+ * Follow-up turn for a resumed refinement session
+ * The document and earlier feedback are already in the conversation
+ */
+export function buildRefinementFollowUpPrompt(
+  feedback: string,
+  documentName: 'specification' | 'plan'
+): string {
+  return `More feedback on the ${documentName}:
+${feedback}
+
+Apply it to the latest version of the ${documentName} from this conversation. Preserve all content the feedback doesn't address.`;
+}
+
 // =============================================================================
 // PLAN GENERATION PROMPTS
 // =============================================================================
@@ -186,23 +257,32 @@ export const PLAN_SCHEMA = `{
   milestones: { name: string; criteria: string }[];
 }`;
 
-/**
- * Build prompt for generating an implementation plan from a spec
- */
-export function buildPlanGenerationPrompt(
-  spec: string,
-  projectContext?: string
-): string {
-  let prompt = `Create a detailed implementation plan from this technical specification.
+export const PLAN_VALIDATOR: SchemaValidator = object({
+  summary: string(),
+  estimatedEffort: oneOf('small', 'medium', 'large', 'x-large'),
+  phases: arrayOf(object({
+    name: string(),
+    description: string(),
+    tasks: arrayOf(object({
+      title: string(),
+      description: string(),
+      estimatedHours: number(),
+      dependencies: arrayOf(string()),
+      deliverables: arrayOf(string()),
+    })),
+  })),
+  risks: arrayOf(object({ risk: string(), mitigation: string(), severity: oneOf('low', 'medium', 'high') })),
+  milestones: arrayOf(object({ name: string(), criteria: string() })),
+});
+
+/** Default template for plan generation - variables: spec, projectContext */
+export const PLAN_GENERATION_TEMPLATE = `Create a detailed implementation plan from this technical specification.
 
 Specification:
-${spec}`;
-
-  if (projectContext) {
-    prompt += `\n\nProject Context:\n${projectContext}`;
-  }
+{{spec}}{{#projectContext}}
 
-  prompt += `
+Project Context:
+{{projectContext}}{{/projectContext}}
 
 Generate an actionable implementation plan that:
 1. Breaks work into logical phases
@@ -213,7 +293,15 @@ Generate an actionable implementation plan that:
 
 Each task should be independently completable and testable.`;
 
-  return prompt;
+/**
+ * Build prompt for generating an implementation plan from a spec
+ */
+export function buildPlanGenerationPrompt(
+  spec: string,
+  projectContext?: string,
+  template = PLAN_GENERATION_TEMPLATE
+): string {
+  return renderPromptTemplate(template, { spec, projectContext });
 }
 
 /**
@@ -250,6 +338,16 @@ export const JOURNEY_ANALYSIS_SCHEMA = `{
   dependencies: string[];
 }`;
 
+export const JOURNEY_ANALYSIS_VALIDATOR: SchemaValidator = object({
+  title: string(),
+  complexity: oneOf(1, 2, 3, 4, 5),
+  estimatedTasks: number(),
+  keyTasks: arrayOf(string()),
+  suggestedBranchName: string(),
+  risks: arrayOf(string()),
+  dependencies: arrayOf(string()),
+});
+
 export const IMPLEMENTATION_PLAN_SCHEMA = `{
   featureName: string;
   estimatedComplexity: 'low' | 'medium' | 'high';
@@ -264,6 +362,20 @@ export const IMPLEMENTATION_PLAN_SCHEMA = `{
   dependencies: string[];
 }`;
 
+export const IMPLEMENTATION_PLAN_VALIDATOR: SchemaValidator = object({
+  featureName: string(),
+  estimatedComplexity: oneOf('low', 'medium', 'high'),
+  steps: arrayOf(object({
+    order: number(),
+    title: string(),
+    description: string(),
+    filesToCreate: arrayOf(string()),
+    filesToModify: arrayOf(string()),
+  })),
+  risks: arrayOf(string()),
+  dependencies: arrayOf(string()),
+});
+
 export const JOURNEY_SUMMARY_SCHEMA = `{
   summary: string;
   status: 'on_track' | 'at_risk' | 'blocked';
@@ -273,6 +385,15 @@ export const JOURNEY_SUMMARY_SCHEMA = `{
   nextSteps: string[];
 }`;
 
+export const JOURNEY_SUMMARY_VALIDATOR: SchemaValidator = object({
+  summary: string(),
+  status: oneOf('on_track', 'at_risk', 'blocked'),
+  completedItems: arrayOf(string()),
+  remainingItems: arrayOf(string()),
+  blockers: arrayOf(string()),
+  nextSteps: arrayOf(string()),
+});
+
 /**
  * Build prompt for analyzing a new journey idea
  */
@@ -384,12 +505,22 @@ export const PROJECT_INTAKE_SCHEMA = `{
   document: string;
 }`;
 
+export const PROJECT_INTAKE_VALIDATOR: SchemaValidator = object({
+  document: string(),
+});
+
 export const PROJECT_INTAKE_UPDATE_SCHEMA = `{
   changes_summary: string;
   suggested_updates: string;
   updated_document: string;
 }`;
 
+export const PROJECT_INTAKE_UPDATE_VALIDATOR: SchemaValidator = object({
+  changes_summary: string(),
+  suggested_updates: string(),
+  updated_document: string(),
+});
+
 export interface ProjectIntakeRefinement {
   document: string;
 }
@@ -400,15 +531,8 @@ export interface ProjectIntakeUpdate {
   updated_document: string;
 }
 
-/**
- * Build prompt for refining a raw project intake into a structured document.
- * Only includes sections where information is explicitly provided.
- */
-export function buildProjectIntakeRefinementPrompt(
-  rawIntake: string,
-  projectName: string
-): string {
-  return `You are parsing a raw project intake document for a software project called "${projectName}".
+/** Default template for project intake refinement - variables: projectName, rawIntake */
+export const PROJECT_INTAKE_REFINEMENT_TEMPLATE = `You are parsing a raw project intake document for a software project called "{{projectName}}".
 
 Your task is to transform the raw intake into a well-structured document.
 
@@ -427,9 +551,20 @@ Available sections (include only if content exists):
 - Architecture Notes (include last, only if explicitly mentioned)
 
 Raw Intake:
-${rawIntake}
+{{rawIntake}}
 
 Format your response as a clean markdown document with appropriate headers (##) for each section you include. Return ONLY the document content, no preamble or explanation.`;
+
+/**
+ * Build prompt for refining a raw project intake into a structured document.
+ * Only includes sections where information is explicitly provided.
+ */
+export function buildProjectIntakeRefinementPrompt(
+  rawIntake: string,
+  projectName: string,
+  template = PROJECT_INTAKE_REFINEMENT_TEMPLATE
+): string {
+  return renderPromptTemplate(template, { projectName, rawIntake });
 }
 
 /**
@@ -489,6 +624,14 @@ export const PROPOSED_JOURNEYS_SCHEMA = `{
   ]
 }`;
 
+export const PROPOSED_JOURNEYS_VALIDATOR: SchemaValidator = object({
+  journeys: arrayOf(object({
+    name: string(),
+    description: string(),
+    early_plan: string(),
+  })),
+});
+
 export interface GeneratedProposedJourney {
   name: string;
   description: string;
@@ -609,6 +752,15 @@ export const PROPOSED_CHILD_JOURNEYS_SCHEMA = `{
   ]
 }`;
 
+export const PROPOSED_CHILD_JOURNEYS_VALIDATOR: SchemaValidator = object({
+  journeys: arrayOf(object({
+    name: string(),
+    description: string(),
+    early_plan: string(),
+    checklist_items: arrayOf(string()),
+  })),
+});
+
 export interface GeneratedChildJourney {
   name: string;
   description: string;
@@ -704,6 +856,73 @@ Return your response as valid JSON matching this schema:
 ${PROPOSED_CHILD_JOURNEYS_SCHEMA}`;
 }
 
+// =============================================================================
+// COMMIT & PULL REQUEST DRAFTING PROMPTS
+// =============================================================================
+
+export const COMMIT_DRAFT_SCHEMA = `{
+  commitMessage: string;  // Subject line (max 72 chars, imperative), blank line, wrapped body
+  prTitle: string;
+  prBody: string;         // Markdown
+}`;
+
+export const COMMIT_DRAFT_VALIDATOR: SchemaValidator = object({
+  commitMessage: string(),
+  prTitle: string(),
+  prBody: string(),
+});
+
+export interface CommitDraft {
+  commitMessage: string;
+  prTitle: string;
+  prBody: string;
+}
+
+export interface CommitDraftContext {
+  journeyName: string;
+  journeyType: string;
+  baseBranch: string;
+  spec?: string;
+  plan?: string;
+  checklist?: string;
+  diffStat: string;
+  commitLog: string;
+  patch: string;
+}
+
+/**
+ * Build prompt for drafting the final commit message and PR description of a journey
+ */
+export function buildCommitDraftPrompt(context: CommitDraftContext): string {
+  let prompt = `Draft the commit message and pull request description for this finished development journey.\n\n`;
+  prompt += `Journey: ${context.journeyName} (${context.journeyType})\n`;
+  prompt += `Target branch: ${context.baseBranch}\n\n`;
+
+  if (context.spec) {
+    prompt += `Specification:\n${context.spec}\n\n`;
+  }
+  if (context.plan) {
+    prompt += `Implementation Plan:\n${context.plan}\n\n`;
+  }
+  if (context.checklist) {
+    prompt += `Checklist:\n${context.checklist}\n\n`;
+  }
+
+  prompt += `Commits on the branch so far:\n${context.commitLog || '(none - all changes are uncommitted)'}\n\n`;
+  prompt += `Files changed:\n${context.diffStat}\n\n`;
+  prompt += `Diff:\n\`\`\`diff\n${context.patch}\n\`\`\`\n\n`;
+
+  prompt += `Guidelines:
+- Describe what the diff actually does; use the spec and plan for the why, not as a list of claims
+- Commit message: an imperative subject line of at most 72 characters, a blank line, then a short body wrapped at 72 characters
+- PR title: one line, plain language
+- PR body: markdown with a short summary, a "Changes" list, and a "Testing" section that only states what the checklist or diff shows was tested
+- Call out anything in the plan that the diff does not cover
+- No emoji, no marketing language`;
+
+  return prompt;
+}
+
 // =============================================================================
 // JOURNEY IDEA PARSING PROMPTS
 // =============================================================================
@@ -715,6 +934,13 @@ export const PARSED_JOURNEY_IDEA_SCHEMA = `{
   "type": "feature_planning | feature | bug | investigation"
 }`;
 
+export const PARSED_JOURNEY_IDEA_VALIDATOR: SchemaValidator = object({
+  name: string(),
+  description: string(),
+  early_plan: string(),
+  type: oneOf('feature_planning', 'feature', 'bug', 'investigation'),
+});
+
 export interface ParsedJourneyIdea {
   name: string;
   description: string;
@@ -761,3 +987,48 @@ ${PARSED_JOURNEY_IDEA_SCHEMA}`;
 
 // Type exports for the response shapes
 export type { JourneyAnalysis, ImplementationPlan, JourneySummary };
+
+// =============================================================================
+// STRUCTURED OUTPUT REPAIR
+// =============================================================================
+
+/**
+ * Runtime validators for every schema hint, looked up by the schema text passed to queryJson
+ */
+export const SCHEMA_VALIDATORS = new Map<string, SchemaValidator>([
+  [REFINED_INTAKE_SCHEMA, REFINED_INTAKE_VALIDATOR],
+  [SPEC_SCHEMA, SPEC_VALIDATOR],
+  [PLAN_SCHEMA, PLAN_VALIDATOR],
+  [JOURNEY_ANALYSIS_SCHEMA, JOURNEY_ANALYSIS_VALIDATOR],
+  [IMPLEMENTATION_PLAN_SCHEMA, IMPLEMENTATION_PLAN_VALIDATOR],
+  [JOURNEY_SUMMARY_SCHEMA, JOURNEY_SUMMARY_VALIDATOR],
+  [PROJECT_INTAKE_SCHEMA, PROJECT_INTAKE_VALIDATOR],
+  [PROJECT_INTAKE_UPDATE_SCHEMA, PROJECT_INTAKE_UPDATE_VALIDATOR],
+  [PROPOSED_JOURNEYS_SCHEMA, PROPOSED_JOURNEYS_VALIDATOR],
+  [PROPOSED_CHILD_JOURNEYS_SCHEMA, PROPOSED_CHILD_JOURNEYS_VALIDATOR],
+  [PARSED_JOURNEY_IDEA_SCHEMA, PARSED_JOURNEY_IDEA_VALIDATOR],
+  [COMMIT_DRAFT_SCHEMA, COMMIT_DRAFT_VALIDATOR],
+]);
+
+/**
+ * Build a follow-up prompt asking Claude to fix output that failed validation
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  invalidOutput: string,
+  errors: string[]
+): string {
+  return `${originalPrompt}
+
+---
+
+Your previous response did not match the required JSON structure.
+
+PREVIOUS RESPONSE:
+${invalidOutput}
+
+VALIDATION ERRORS:
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Return the corrected JSON object only. Keep all content that was valid, fix only what the errors describe, and include every required field.`;
+}
@@ -0,0 +1,118 @@
+/**
+ * AI Provider layer
+ * Every prompt-driven feature talks to an AiProvider rather than spawning `claude` directly,
+ * so the CLI can be swapped for a deterministic fixture replay (offline dev, CI).
+ *
+ * Selected via environment:
+ *   DEV_ORCHESTRATOR_AI_PROVIDER = cli (default) | fixture | record
+ *   DEV_ORCHESTRATOR_AI_FIXTURES = directory of recorded responses (fixture/record modes)
+ */
+
+import * as path from 'path';
+import { getClaudeCliService } from './claude-cli.service';
+import { FixtureProvider } from './fixture-provider';
+import { getAiRequestLog, LoggingAiProvider } from './request-log';
+import type {
+  ClaudeCliRequest,
+  ClaudeCliResponse,
+  ClaudeQueueLane,
+  ClaudeQueueLaneStatus,
+  ClaudeStreamEventHandler,
+} from './types';
+
+export type AiProviderKind = 'cli' | 'fixture' | 'record';
+
+export interface AiProviderStatus {
+  queueLength: number;
+  activeRequests: number;
+  lanes: Record<ClaudeQueueLane, ClaudeQueueLaneStatus>;
+}
+
+export interface AiProvider {
+  readonly kind: AiProviderKind;
+
+  /** Send a prompt and get the raw text response */
+  query<T = unknown>(request: ClaudeCliRequest): Promise<ClaudeCliResponse<T>>;
+
+  /** Send a prompt that must return JSON matching the schema hint */
+  queryJson<T>(
+    prompt: string,
+    jsonSchema: string,
+    options?: Partial<ClaudeCliRequest>,
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>>;
+
+  /** Like query, but reports partial text and tool activity while it runs */
+  stream<T = unknown>(
+    request: ClaudeCliRequest,
+    onStreamEvent: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>>;
+
+  /** Stop a queued or running request; false if the id is unknown */
+  cancel(requestId: string): boolean;
+
+  getStatus(): AiProviderStatus;
+
+  /** Clear pending requests (does not cancel active ones) */
+  clearQueue(): number;
+}
+
+export interface AiProviderConfig {
+  kind: AiProviderKind;
+  fixturesDir?: string;
+}
+
+/**
+ * Read provider selection from the environment
+ */
+export function resolveAiProviderConfig(env: NodeJS.ProcessEnv = process.env): AiProviderConfig {
+  const kind = env.DEV_ORCHESTRATOR_AI_PROVIDER;
+  const fixturesDir = env.DEV_ORCHESTRATOR_AI_FIXTURES
+    ? path.resolve(env.DEV_ORCHESTRATOR_AI_FIXTURES)
+    : undefined;
+
+  if (kind === 'fixture' || kind === 'record') {
+    return { kind, fixturesDir };
+  }
+
+  return { kind: 'cli' };
+}
+
+/**
+ * Build a provider for the given config
+ * Record mode replays existing fixtures and records CLI responses for misses
+ */
+export function createAiProvider(config: AiProviderConfig): AiProvider {
+  if (config.kind === 'cli') {
+    return getClaudeCliService();
+  }
+
+  if (!config.fixturesDir) {
+    throw new Error(`AI provider "${config.kind}" requires DEV_ORCHESTRATOR_AI_FIXTURES to be set`);
+  }
+
+  return new FixtureProvider({
+    fixturesDir: config.fixturesDir,
+    recordFrom: config.kind === 'record' ? getClaudeCliService() : undefined,
+  });
+}
+
+// Singleton instance
+let providerInstance: AiProvider | null = null;
+
+/**
+ * Get the app-wide provider, wrapped with request logging when a log is configured
+ * (configure the log before the first call)
+ */
+export function getAiProvider(): AiProvider {
+  if (!providerInstance) {
+    const provider = createAiProvider(resolveAiProviderConfig());
+    const log = getAiRequestLog();
+    providerInstance = log ? new LoggingAiProvider(provider, log) : provider;
+  }
+  return providerInstance;
+}
+
+export function setAiProvider(provider: AiProvider | null): void {
+  providerInstance = provider;
+}
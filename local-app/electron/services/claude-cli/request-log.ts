@@ -0,0 +1,287 @@
+/**
+ * AI request log
+ * Persists every provider call - prompt, raw output, parse outcome, timing - to a local
+ * JSONL file so calls can be inspected, diffed and re-run from the AI Activity view.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildJsonPrompt } from './prompts';
+import type { AiProvider, AiProviderKind, AiProviderStatus } from './provider';
+import type {
+  ClaudeCliRequest,
+  ClaudeCliResponse,
+  ClaudeStreamEventHandler,
+} from './types';
+
+/** How a call's output was interpreted */
+export type AiParseOutcome = 'text' | 'parsed' | 'invalid' | 'unparseable' | 'error' | 'cancelled';
+
+export interface AiRequestLogEntry {
+  id: string;
+  requestId?: string;
+  timestamp: string;
+  provider: AiProviderKind;
+  promptName?: string;
+  promptInputs?: Record<string, unknown>;
+  /** Prompt template version, for templated prompts */
+  promptVersion?: string;
+  /** Exact prompt text sent (JSON requests include the schema wrapper) */
+  prompt: string;
+  jsonSchema?: string;
+  workingDirectory?: string;
+  rawOutput?: string;
+  success: boolean;
+  error?: string;
+  parseOutcome: AiParseOutcome;
+  validationErrors?: string[];
+  durationMs: number;
+  /** Repair prompts sent after the first attempt */
+  retryCount: number;
+  /** Served from the response cache */
+  cached?: boolean;
+  journeyId?: string;
+  projectId?: string;
+  replayOf?: string;
+}
+
+export interface AiRequestLogFilter {
+  journeyId?: string;
+  projectId?: string;
+  promptName?: string;
+  failuresOnly?: boolean;
+  limit?: number;
+}
+
+export interface AiPromptStats {
+  /** Prompt builder name, or null for ad-hoc prompts */
+  promptName: string | null;
+  count: number;
+  failures: number;
+  cancelled: number;
+  /** Failures over non-cancelled calls, 0-1 */
+  failureRate: number;
+  medianDurationMs: number;
+  lastRunAt: string;
+}
+
+// Rewrite the file once it grows this far past maxEntries
+const COMPACT_SLACK = 1.25;
+
+export function describeParseOutcome(request: ClaudeCliRequest, response: ClaudeCliResponse): AiParseOutcome {
+  if (response.cancelled) return 'cancelled';
+  if (response.success) return request.jsonSchema ? 'parsed' : 'text';
+  if (response.validationErrors?.includes('Response is not valid JSON')) return 'unparseable';
+  if (response.validationErrors) return 'invalid';
+  return 'error';
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+class AiRequestLog {
+  private filePath: string;
+  private maxEntries: number;
+  private entries: AiRequestLogEntry[] | null = null;
+  private counter = 0;
+
+  constructor(filePath: string, maxEntries = 1000) {
+    this.filePath = filePath;
+    this.maxEntries = maxEntries;
+  }
+
+  append(entry: Omit<AiRequestLogEntry, 'id'>): AiRequestLogEntry {
+    const full: AiRequestLogEntry = { id: `ai-${Date.now()}-${++this.counter}`, ...entry };
+    const entries = this.load();
+    entries.push(full);
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      if (entries.length > this.maxEntries * COMPACT_SLACK) {
+        this.entries = entries.slice(-this.maxEntries);
+        fs.writeFileSync(this.filePath, this.entries.map((e) => JSON.stringify(e)).join('\n') + '\n');
+      } else {
+        fs.appendFileSync(this.filePath, JSON.stringify(full) + '\n');
+      }
+    } catch (error) {
+      console.error('Failed to write AI request log:', error);
+    }
+
+    return full;
+  }
+
+  /**
+   * Entries matching the filter, newest first
+   */
+  list(filter: AiRequestLogFilter = {}): AiRequestLogEntry[] {
+    const matches = this.load()
+      .filter((entry) => this.matches(entry, filter))
+      .reverse();
+    return filter.limit ? matches.slice(0, filter.limit) : matches;
+  }
+
+  get(id: string): AiRequestLogEntry | null {
+    return this.load().find((entry) => entry.id === id) ?? null;
+  }
+
+  /**
+   * Latency and failure rate per prompt type, slowest first
+   */
+  getStats(filter: AiRequestLogFilter = {}): AiPromptStats[] {
+    const groups = new Map<string | null, AiRequestLogEntry[]>();
+    for (const entry of this.load()) {
+      if (!this.matches(entry, { ...filter, promptName: undefined, failuresOnly: false })) continue;
+      const key = entry.promptName ?? null;
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+
+    return Array.from(groups.entries())
+      .map(([promptName, entries]) => {
+        const cancelled = entries.filter((e) => e.parseOutcome === 'cancelled').length;
+        const failures = entries.filter((e) => !e.success && e.parseOutcome !== 'cancelled').length;
+        const completed = entries.length - cancelled;
+        return {
+          promptName,
+          count: entries.length,
+          failures,
+          cancelled,
+          failureRate: completed ? failures / completed : 0,
+          // Cache hits and cancellations say nothing about how slow the prompt is
+          medianDurationMs: median(
+            entries.filter((e) => !e.cached && e.parseOutcome !== 'cancelled').map((e) => e.durationMs)
+          ),
+          lastRunAt: entries[entries.length - 1].timestamp,
+        };
+      })
+      .sort((a, b) => b.medianDurationMs - a.medianDurationMs);
+  }
+
+  clear(): number {
+    const count = this.load().length;
+    this.entries = [];
+    try {
+      if (fs.existsSync(this.filePath)) fs.unlinkSync(this.filePath);
+    } catch (error) {
+      console.error('Failed to clear AI request log:', error);
+    }
+    return count;
+  }
+
+  private matches(entry: AiRequestLogEntry, filter: AiRequestLogFilter): boolean {
+    if (filter.journeyId && entry.journeyId !== filter.journeyId) return false;
+    if (filter.projectId && entry.projectId !== filter.projectId) return false;
+    if (filter.promptName !== undefined && entry.promptName !== filter.promptName) return false;
+    if (filter.failuresOnly && (entry.success || entry.parseOutcome === 'cancelled')) return false;
+    return true;
+  }
+
+  private load(): AiRequestLogEntry[] {
+    if (this.entries) return this.entries;
+
+    this.entries = [];
+    if (!fs.existsSync(this.filePath)) return this.entries;
+
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.entries.push(JSON.parse(line) as AiRequestLogEntry);
+      } catch {
+        // Skip a partially written trailing line
+      }
+    }
+    return this.entries;
+  }
+}
+
+/**
+ * Provider decorator that records every call in the request log
+ */
+class LoggingAiProvider implements AiProvider {
+  private inner: AiProvider;
+  private log: AiRequestLog;
+
+  constructor(inner: AiProvider, log: AiRequestLog) {
+    this.inner = inner;
+    this.log = log;
+  }
+
+  get kind(): AiProviderKind {
+    return this.inner.kind;
+  }
+
+  async query<T = unknown>(request: ClaudeCliRequest): Promise<ClaudeCliResponse<T>> {
+    return this.record(request, await this.inner.query<T>(request));
+  }
+
+  async queryJson<T>(
+    prompt: string,
+    jsonSchema: string,
+    options: Partial<ClaudeCliRequest> = {},
+    onStreamEvent?: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    const response = await this.inner.queryJson<T>(prompt, jsonSchema, options, onStreamEvent);
+    return this.record({ ...options, prompt: buildJsonPrompt(prompt, jsonSchema), jsonSchema }, response);
+  }
+
+  async stream<T = unknown>(
+    request: ClaudeCliRequest,
+    onStreamEvent: ClaudeStreamEventHandler
+  ): Promise<ClaudeCliResponse<T>> {
+    return this.record(request, await this.inner.stream<T>(request, onStreamEvent));
+  }
+
+  cancel(requestId: string): boolean {
+    return this.inner.cancel(requestId);
+  }
+
+  getStatus(): AiProviderStatus {
+    return this.inner.getStatus();
+  }
+
+  clearQueue(): number {
+    return this.inner.clearQueue();
+  }
+
+  private record<T>(request: ClaudeCliRequest, response: ClaudeCliResponse<T>): ClaudeCliResponse<T> {
+    this.log.append({
+      requestId: response.requestId ?? request.requestId,
+      timestamp: new Date().toISOString(),
+      provider: this.inner.kind,
+      promptName: request.promptName,
+      promptInputs: request.promptInputs,
+      promptVersion: request.promptVersion,
+      prompt: request.prompt,
+      jsonSchema: request.jsonSchema,
+      workingDirectory: request.workingDirectory,
+      rawOutput: response.rawOutput,
+      success: response.success,
+      error: response.error,
+      parseOutcome: describeParseOutcome(request, response),
+      validationErrors: response.validationErrors,
+      durationMs: response.durationMs,
+      retryCount: response.repairAttempts ?? 0,
+      cached: response.cached,
+      journeyId: request.logContext?.journeyId,
+      projectId: request.logContext?.projectId,
+      replayOf: request.logContext?.replayOf,
+    });
+    return response;
+  }
+}
+
+// Singleton instance - null until the app configures a log location
+let logInstance: AiRequestLog | null = null;
+
+export function getAiRequestLog(): AiRequestLog | null {
+  return logInstance;
+}
+
+export function setAiRequestLog(log: AiRequestLog | null): void {
+  logInstance = log;
+}
+
+export { AiRequestLog, LoggingAiProvider };
@@ -0,0 +1,85 @@
+/**
+ * Content-addressed response cache
+ * Opt-in per request: identical prompt + schema + working directory + CLAUDE.md
+ * contents resolve from memory instead of re-running the CLI.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { ClaudeCliRequest, ClaudeCliResponse } from './types';
+
+interface CacheEntry {
+  response: ClaudeCliResponse;
+  expiresAt: number;
+}
+
+function hashClaudeMd(workingDirectory?: string): string {
+  if (!workingDirectory) return '';
+
+  try {
+    const content = fs.readFileSync(path.join(workingDirectory, 'CLAUDE.md'));
+    return createHash('sha1').update(content).digest('hex');
+  } catch {
+    // No CLAUDE.md - nothing extra feeds into the prompt
+    return '';
+  }
+}
+
+/**
+ * Cache key for a request - changes whenever anything Claude would see changes
+ */
+export function responseCacheKey(request: ClaudeCliRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      request.prompt,
+      request.jsonSchema ?? '',
+      request.workingDirectory ?? '',
+      hashClaudeMd(request.workingDirectory),
+    ]))
+    .digest('hex');
+}
+
+class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): ClaudeCliResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so the Map's order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.response;
+  }
+
+  set(key: string, response: ClaudeCliResponse, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: Date.now() + ttlMs });
+
+    // Evict least recently used
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): number {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+}
+
+export { ResponseCache };
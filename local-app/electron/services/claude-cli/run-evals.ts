@@ -0,0 +1,72 @@
+/**
+ * Offline prompt evals for the journey pipeline prompts
+ * Replays each case's recorded responses and writes a report to diff between commits:
+ *
+ * npx ts-node electron/services/claude-cli/run-evals.ts [evalsDir] [--out report.md] [--json] [--record]
+ *
+ *   evalsDir  - defaults to electron/services/claude-cli/fixtures/evals
+ *   --out     - report path (default: <evalsDir>/report.md, or report.json with --json)
+ *   --record  - run misses through the Claude CLI and save them as new responses;
+ *               delete a case's responses/ directory to re-record it after a prompt change
+ *
+ * Exits non-zero if any case fails (for CI).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getClaudeCliService } from './claude-cli.service';
+import { FixtureProvider } from './fixture-provider';
+import { formatEvalReport, runEvals } from './evals';
+
+const DEFAULT_EVALS_DIR = path.join(__dirname, 'fixtures', 'evals');
+
+function parseArgs(argv: string[]) {
+  const options = { evalsDir: DEFAULT_EVALS_DIR, out: undefined as string | undefined, json: false, record: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') options.out = argv[++i];
+    else if (arg === '--json') options.json = true;
+    else if (arg === '--record') options.record = true;
+    else options.evalsDir = path.resolve(arg);
+  }
+
+  return options;
+}
+
+async function main() {
+  const { evalsDir, out, json, record } = parseArgs(process.argv.slice(2));
+  console.log(`🧪 Running prompt evals from ${evalsDir}${record ? ' (recording misses)' : ''}...\n`);
+
+  const report = await runEvals(evalsDir, (caseDir) => new FixtureProvider({
+    fixturesDir: path.join(caseDir, 'responses'),
+    recordFrom: record ? getClaudeCliService() : undefined,
+    // Score first-attempt output - a repaired response would hide a prompt regression
+    maxRepairAttempts: 0,
+  }));
+
+  for (const evalCase of report.cases) {
+    const failures = evalCase.steps.flatMap((step) =>
+      step.assertions.filter((a) => !a.passed).map((a) => `${step.step}.${a.name}${a.detail ? ` (${a.detail})` : ''}`)
+    );
+    console.log(`${evalCase.passed ? '✅' : '❌'} ${evalCase.name}${failures.length ? ` - ${failures.join(', ')}` : ''}`);
+    if (evalCase.stoppedAt) {
+      console.log(`   stopped at ${evalCase.stoppedAt}`);
+    }
+  }
+
+  const reportPath = path.resolve(out ?? path.join(evalsDir, json ? 'report.json' : 'report.md'));
+  fs.writeFileSync(reportPath, json ? JSON.stringify(report, null, 2) + '\n' : formatEvalReport(report));
+  console.log(`\n📄 Report written to ${reportPath}`);
+
+  if (report.failed > 0) {
+    console.log(`\n❌ ${report.failed} of ${report.cases.length} eval cases failed`);
+    process.exit(1);
+  }
+  console.log(`\n✨ All ${report.cases.length} eval cases passed`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
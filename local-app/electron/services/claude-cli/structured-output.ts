@@ -0,0 +1,85 @@
+/**
+ * Schema-validated JSON queries with automatic repair
+ * Shared by every AiProvider's queryJson: output is checked against the runtime
+ * validator for its schema, and on failure Claude is re-prompted with the exact
+ * validation errors until it passes or the repair budget runs out.
+ */
+
+import type {
+  ClaudeCliRequest,
+  ClaudeCliResponse,
+  ClaudeStreamEventHandler,
+} from './types';
+import { buildRepairPrompt, SCHEMA_VALIDATORS } from './prompts';
+import { validate } from './validation';
+
+export type JsonQueryExecutor = <T>(
+  request: ClaudeCliRequest,
+  onStreamEvent?: ClaudeStreamEventHandler
+) => Promise<ClaudeCliResponse<T>>;
+
+// How many validation errors to inline in the top-level error message
+const ERROR_PREVIEW_COUNT = 3;
+
+/**
+ * Validate parsed output against the validator registered for its schema
+ * Schemas without a validator (ad-hoc renderer queries) only need to be valid JSON
+ */
+export function validateStructuredOutput(jsonSchema: string | undefined, data: unknown): string[] {
+  const validator = jsonSchema ? SCHEMA_VALIDATORS.get(jsonSchema) : undefined;
+  return validator ? validate(validator, data) : [];
+}
+
+/**
+ * Run a JSON request, re-prompting with validation errors up to maxRepairAttempts times
+ * The request must already carry the JSON-wrapped prompt and its jsonSchema
+ */
+export async function queryValidatedJson<T>(
+  execute: JsonQueryExecutor,
+  request: ClaudeCliRequest,
+  maxRepairAttempts: number,
+  onStreamEvent?: ClaudeStreamEventHandler
+): Promise<ClaudeCliResponse<T>> {
+  let current = request;
+  let totalDurationMs = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await execute<T>(current, onStreamEvent);
+    totalDurationMs += response.durationMs;
+
+    // Transport failures, timeouts and cancellations are not repairable
+    if (response.cancelled || (!response.success && !response.validationErrors)) {
+      return { ...response, durationMs: totalDurationMs, repairAttempts: attempt };
+    }
+
+    const errors = response.validationErrors ?? validateStructuredOutput(request.jsonSchema, response.data);
+    if (errors.length === 0) {
+      return { ...response, durationMs: totalDurationMs, repairAttempts: attempt };
+    }
+
+    if (attempt >= maxRepairAttempts) {
+      const preview = errors.slice(0, ERROR_PREVIEW_COUNT).join('; ');
+      const more = errors.length > ERROR_PREVIEW_COUNT ? ` (+${errors.length - ERROR_PREVIEW_COUNT} more)` : '';
+      return {
+        requestId: response.requestId,
+        success: false,
+        error: `Response failed schema validation after ${attempt} repair attempt(s): ${preview}${more}`,
+        rawOutput: response.rawOutput,
+        invalidData: response.data,
+        validationErrors: errors,
+        repairAttempts: attempt,
+        sessionId: response.sessionId,
+        durationMs: totalDurationMs,
+      };
+    }
+
+    current = {
+      ...request,
+      prompt: buildRepairPrompt(request.prompt, response.rawOutput ?? '', errors),
+      // Conversation turns repair inside the session that produced the invalid output
+      resumeSessionId: response.sessionId ?? request.resumeSessionId,
+      // Distinct inputs so fixtures and logs can tell repair calls apart
+      promptInputs: request.promptInputs ? { ...request.promptInputs, repairErrors: errors } : undefined,
+    };
+  }
+}
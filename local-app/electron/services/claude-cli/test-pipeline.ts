@@ -0,0 +1,42 @@
+/**
+ * End-to-end check of the intake → spec → plan → proposed journeys pipeline
+ * Uses whichever AI provider the environment selects, so it can run offline:
+ *
+ * DEV_ORCHESTRATOR_AI_PROVIDER=fixture \
+ * DEV_ORCHESTRATOR_AI_FIXTURES=electron/services/claude-cli/fixtures/pipeline \
+ *   npx ts-node electron/services/claude-cli/test-pipeline.ts
+ *
+ * Exits non-zero if any step fails (for CI).
+ */
+
+import { getAiProvider } from './provider';
+import { runJourneyPipeline } from './pipeline';
+
+async function testPipeline() {
+  const provider = getAiProvider();
+  console.log(`🧪 Running journey pipeline with the "${provider.kind}" provider...\n`);
+
+  const result = await runJourneyPipeline(provider, {
+    journeyName: 'Dark mode',
+    journeyType: 'feature_planning',
+    rawIntake: 'Add a dark mode toggle to the settings page with system preference detection',
+    projectContext: 'React + Tailwind + Electron desktop app',
+  });
+
+  for (const { step, response } of result.steps) {
+    const status = response.success ? '✅' : '❌';
+    console.log(`${status} ${step} (${response.durationMs}ms)${response.error ? ` - ${response.error}` : ''}`);
+  }
+
+  if (!result.success) {
+    console.log(`\n❌ Pipeline failed at ${result.failedStep}`);
+    process.exit(1);
+  }
+
+  console.log(`\n✨ Pipeline complete: ${result.proposedChildJourneys?.journeys.length ?? 0} proposed child journeys`);
+}
+
+testPipeline().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -16,22 +16,121 @@ export interface ClaudeCliRequest {
   /** Timeout in milliseconds (default: 120000 = 2 min) */
   timeout?: number;
 
-  /** Priority for queue ordering (higher = sooner) */
+  /** Priority for queue ordering within the lane (higher = sooner) */
   priority?: number;
+
+  /** Queue lane to schedule in (default: 'interactive') */
+  lane?: ClaudeQueueLane;
+
+  /** Caller-supplied id used to correlate stream events (generated if omitted) */
+  requestId?: string;
+
+  /** Name of the operation that built the prompt (e.g. 'generateSpec'), used to key fixtures */
+  promptName?: string;
+
+  /** Inputs passed to the prompt builder, used to key fixtures */
+  promptInputs?: Record<string, unknown>;
+
+  /** Prompt template version the prompt was built from (e.g. 'project v3'), recorded in the log */
+  promptVersion?: string;
+
+  /** Override the service's maxRepairAttempts for this JSON request */
+  maxRepairAttempts?: number;
+
+  /** Serve identical requests from the response cache (opt-in) */
+  cache?: boolean;
+
+  /** Skip the cache lookup but still cache the fresh result ("regenerate fresh") */
+  bypassCache?: boolean;
+
+  /** Override the service's cacheTtlMs for this request */
+  cacheTtlMs?: number;
+
+  /** CLI session to continue (--resume); the prompt only needs what is new since the last turn */
+  resumeSessionId?: string;
+
+  /** Report the CLI session id in the response so the conversation can be continued */
+  trackSession?: boolean;
+
+  /** Agentic runs: stop after this many turns (--max-turns) */
+  maxTurns?: number;
+
+  /** Agentic runs: let Claude use tools without asking (--permission-mode) */
+  permissionMode?: ClaudePermissionMode;
+
+  /** Agentic runs: permission rules allowed on top of the mode (--allowedTools), e.g. 'Bash(npm test:*)' */
+  allowedTools?: string[];
+
+  /** Journey/project the request was made for, recorded in the AI request log */
+  logContext?: AiRequestLogContext;
+}
+
+/**
+ * Queue lanes, each with its own concurrency
+ * interactive: user is waiting on the result; background: auto-fetched cards/overlay data;
+ * batch: long multi-item generation runs; autopilot: unattended coding sessions in a worktree
+ */
+export type ClaudeQueueLane = 'interactive' | 'background' | 'batch' | 'autopilot';
+
+export const QUEUE_LANES: ClaudeQueueLane[] = ['interactive', 'background', 'batch', 'autopilot'];
+
+/** CLI permission modes that don't need a human to approve each tool call */
+export type ClaudePermissionMode = 'acceptEdits' | 'bypassPermissions';
+
+export interface ClaudeQueueLaneConfig {
+  /** Max requests from this lane running at once */
+  maxConcurrent: number;
+  /** Head start over other lanes when they compete for a free slot */
+  basePriority: number;
+}
+
+export interface ClaudeQueueLaneStatus {
+  queued: number;
+  active: number;
+}
+
+export interface AiRequestLogContext {
+  journeyId?: string;
+  projectId?: string;
+  /** Id of the log entry this request re-runs */
+  replayOf?: string;
 }
 
 export interface ClaudeCliResponse<T = unknown> {
+  requestId?: string;
   success: boolean;
   data?: T;
   rawOutput?: string;
   error?: string;
+  /** True when the request was stopped via cancel() */
+  cancelled?: boolean;
+  /** Schema violations in the final attempt (set when structured output never validated) */
+  validationErrors?: string[];
+  /** Parsed payload that failed validation, kept for inspection */
+  invalidData?: unknown;
+  /** Number of repair prompts sent after the first attempt */
+  repairAttempts?: number;
+  /** True when served from the response cache without running the CLI */
+  cached?: boolean;
+  /** CLI session this turn ran in (set for session-tracking requests) */
+  sessionId?: string;
+  /** Stopped because the request's maxTurns was reached */
+  turnLimitReached?: boolean;
+  /** Stopped because the request's timeout elapsed */
+  timedOut?: boolean;
   durationMs: number;
 }
 
 export interface ClaudeCliServiceConfig {
-  /** Max concurrent requests (default: 1 to avoid rate limits) */
+  /** Max concurrent requests across all lanes */
   maxConcurrent: number;
 
+  /** Per-lane concurrency and priority */
+  lanes: Record<ClaudeQueueLane, ClaudeQueueLaneConfig>;
+
+  /** Waiting this long raises a queued request's priority by one, so no lane starves */
+  agingIntervalMs: number;
+
   /** Default timeout in ms */
   defaultTimeout: number;
 
@@ -43,16 +142,48 @@ export interface ClaudeCliServiceConfig {
 
   /** Base delay between retries in ms (doubles each retry) */
   retryDelayMs: number;
+
+  /** Repair prompts to send when JSON output fails schema validation */
+  maxRepairAttempts: number;
+
+  /** How long cached responses stay valid in ms */
+  cacheTtlMs: number;
+
+  /** Max responses kept in the cache (least recently used are evicted) */
+  cacheMaxEntries: number;
 }
 
 export const DEFAULT_CONFIG: ClaudeCliServiceConfig = {
-  maxConcurrent: 1,
+  // Room for every lane at once - the lane limits decide what runs, so a long autopilot
+  // or batch run never holds the slot interactive requests need
+  maxConcurrent: 4,
+  lanes: {
+    interactive: { maxConcurrent: 1, basePriority: 2 },
+    background: { maxConcurrent: 1, basePriority: 1 },
+    batch: { maxConcurrent: 1, basePriority: 0 },
+    autopilot: { maxConcurrent: 1, basePriority: 0 },
+  },
+  agingIntervalMs: 30000,
   defaultTimeout: 120000,
   retryOnError: true,
   maxRetries: 2,
   retryDelayMs: 1000,
+  maxRepairAttempts: 2,
+  cacheTtlMs: 15 * 60 * 1000,
+  cacheMaxEntries: 200,
 };
 
+/**
+ * Progress event emitted while a streaming request runs
+ * Built from the CLI's `--output-format stream-json` messages
+ */
+export type ClaudeStreamEvent =
+  | { requestId: string; type: 'text'; text: string }
+  | { requestId: string; type: 'tool_use'; toolName: string; input?: Record<string, unknown> }
+  | { requestId: string; type: 'tool_result'; toolName?: string; isError: boolean };
+
+export type ClaudeStreamEventHandler = (event: ClaudeStreamEvent) => void;
+
 // Pre-defined prompts for common journey operations
 export interface JourneyAnalysis {
   title: string;
@@ -91,7 +222,9 @@ export interface JourneySummary {
 export interface QueueItem {
   id: string;
   request: ClaudeCliRequest;
+  lane: ClaudeQueueLane;
   resolve: (response: ClaudeCliResponse) => void;
   reject: (error: Error) => void;
   addedAt: number;
+  onStreamEvent?: ClaudeStreamEventHandler;
 }
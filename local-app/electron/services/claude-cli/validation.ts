@@ -0,0 +1,73 @@
+/**
+ * Minimal runtime validators for structured Claude output
+ * Each validator returns a list of human-readable errors (empty = valid),
+ * phrased so they can be fed straight back to Claude in a repair prompt.
+ */
+
+export type SchemaValidator = (value: unknown, path: string) => string[];
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function at(path: string): string {
+  return path || '(root)';
+}
+
+export function string(): SchemaValidator {
+  return (value, path) =>
+    typeof value === 'string' ? [] : [`${at(path)}: expected string, got ${describe(value)}`];
+}
+
+export function number(): SchemaValidator {
+  return (value, path) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? []
+      : [`${at(path)}: expected number, got ${describe(value)}`];
+}
+
+export function oneOf<T extends string | number>(...allowed: T[]): SchemaValidator {
+  return (value, path) =>
+    allowed.includes(value as T)
+      ? []
+      : [`${at(path)}: expected one of ${allowed.map((a) => JSON.stringify(a)).join(', ')}, got ${JSON.stringify(value)}`];
+}
+
+export function arrayOf(item: SchemaValidator): SchemaValidator {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return [`${at(path)}: expected array, got ${describe(value)}`];
+    }
+    return value.flatMap((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+export function object(shape: Record<string, SchemaValidator>): SchemaValidator {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return [`${at(path)}: expected object, got ${describe(value)}`];
+    }
+
+    const record = value as Record<string, unknown>;
+    return Object.entries(shape).flatMap(([key, validator]) => {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (!(key in record)) {
+        return [`${keyPath}: missing required field`];
+      }
+      return validator(record[key], keyPath);
+    });
+  };
+}
+
+export function optional(inner: SchemaValidator): SchemaValidator {
+  return (value, path) => (value === undefined || value === null ? [] : inner(value, path));
+}
+
+/**
+ * Run a validator from the root
+ */
+export function validate(validator: SchemaValidator, value: unknown): string[] {
+  return validator(value, '');
+}
@@ -0,0 +1,239 @@
+/**
+ * Conflict Predictor Service
+ * Periodically collects the files each active journey branch changes, flags journeys
+ * that touch the same files and trial-merges those branches with `git merge-tree`
+ * to find the overlaps that will really conflict - before anyone gets to merge time.
+ */
+
+import { execFile } from 'child_process'
+import type { SimpleGit } from 'simple-git'
+import * as fs from 'fs'
+import { getGitService } from '../git.service'
+import {
+  ConflictEventHandler,
+  ConflictJourney,
+  ConflictReport,
+  JourneyChanges,
+  JourneyPairOverlap,
+} from './types'
+
+// How often watched projects are re-checked
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+
+const MERGE_TREE_TIMEOUT_MS = 30000
+
+type TrialMerge = Pick<JourneyPairOverlap, 'trialMerge' | 'conflictingFiles' | 'error'>
+
+function splitNullSeparated(output: string): string[] {
+  return output.split('\0').filter(Boolean)
+}
+
+interface ProjectWatch {
+  journeys: ConflictJourney[]
+  // Windows watching the project
+  owners: Set<number>
+  onEvent: ConflictEventHandler
+  timer: NodeJS.Timeout
+  running: boolean
+  rerun: boolean
+}
+
+class ConflictPredictorService {
+  private watches = new Map<string, ProjectWatch>()
+  private reports = new Map<string, ConflictReport>()
+
+  /**
+   * Check a project's journeys now and every few minutes until every owner unwatches it
+   * Calling it again with a different journey list re-checks straight away.
+   */
+  watch(ownerId: number, projectPath: string, journeys: ConflictJourney[], onEvent: ConflictEventHandler) {
+    const existing = this.watches.get(projectPath)
+    if (existing) {
+      existing.owners.add(ownerId)
+      existing.onEvent = onEvent
+      const changed = JSON.stringify(existing.journeys) !== JSON.stringify(journeys)
+      existing.journeys = journeys
+      if (changed) this.check(projectPath)
+      return
+    }
+
+    this.watches.set(projectPath, {
+      journeys,
+      owners: new Set([ownerId]),
+      onEvent,
+      timer: setInterval(() => this.check(projectPath), CHECK_INTERVAL_MS),
+      running: false,
+      rerun: false,
+    })
+    this.check(projectPath)
+  }
+
+  unwatch(ownerId: number, projectPath?: string) {
+    for (const [watchedPath, watch] of this.watches) {
+      if (projectPath && watchedPath !== projectPath) continue
+      watch.owners.delete(ownerId)
+      if (watch.owners.size === 0) {
+        clearInterval(watch.timer)
+        this.watches.delete(watchedPath)
+      }
+    }
+  }
+
+  getReport(projectPath: string): ConflictReport | null {
+    return this.reports.get(projectPath) ?? null
+  }
+
+  /**
+   * Re-check a watched project now - a check already in progress runs again when it finishes
+   */
+  check(projectPath: string) {
+    const watch = this.watches.get(projectPath)
+    if (!watch) return
+    if (watch.running) {
+      watch.rerun = true
+      return
+    }
+
+    watch.running = true
+    this.analyze(projectPath, watch.journeys)
+      .then((report) => {
+        this.reports.set(projectPath, report)
+        watch.onEvent({ type: 'report', report })
+      })
+      .catch((error) => {
+        console.error('Conflict check failed:', error)
+      })
+      .finally(() => {
+        watch.running = false
+        if (watch.rerun && this.watches.get(projectPath) === watch) {
+          watch.rerun = false
+          this.check(projectPath)
+        }
+      })
+  }
+
+  stopAll() {
+    for (const watch of this.watches.values()) {
+      clearInterval(watch.timer)
+    }
+    this.watches.clear()
+  }
+
+  /**
+   * Changed files of every journey branch, and the overlaps between each pair
+   */
+  async analyze(projectPath: string, journeys: ConflictJourney[]): Promise<ConflictReport> {
+    const gitService = getGitService()
+    const git = gitService.getGit(projectPath)
+    const baseBranch = await gitService.getDefaultBranch(projectPath)
+    const baseRef = await gitService.resolveBaseRef(projectPath, baseBranch)
+
+    const changes: JourneyChanges[] = []
+    for (const journey of journeys) {
+      changes.push(await this.getJourneyChanges(git, baseRef, journey))
+    }
+
+    const pairs: JourneyPairOverlap[] = []
+    for (let i = 0; i < journeys.length; i++) {
+      for (let j = i + 1; j < journeys.length; j++) {
+        const a = changes[i]
+        const b = changes[j]
+        if (a.error || b.error) continue
+
+        const bFiles = new Set(b.changedFiles)
+        const overlappingFiles = a.changedFiles.filter((file) => bFiles.has(file))
+        if (overlappingFiles.length === 0) continue
+
+        // The trial merge only sees commits - it can't speak for files one side hasn't committed
+        const uncommittedOnly = overlappingFiles.every(
+          (file) => a.uncommittedFiles.includes(file) || b.uncommittedFiles.includes(file)
+        )
+        const merge: TrialMerge = uncommittedOnly
+          ? { trialMerge: 'uncommitted', conflictingFiles: [] }
+          : await this.trialMerge(projectPath, journeys[i].branchName, journeys[j].branchName)
+
+        pairs.push({
+          journeyIds: [journeys[i].id, journeys[j].id],
+          overlappingFiles,
+          plannedParallel: journeys[i].canParallelize && journeys[j].canParallelize,
+          ...merge,
+        })
+      }
+    }
+
+    return { projectPath, baseBranch, computedAt: new Date().toISOString(), journeys: changes, pairs }
+  }
+
+  private async getJourneyChanges(git: SimpleGit, baseRef: string, journey: ConflictJourney): Promise<JourneyChanges> {
+    const changes: JourneyChanges = {
+      journeyId: journey.id,
+      journeyName: journey.name,
+      branchName: journey.branchName,
+      changedFiles: [],
+      uncommittedFiles: [],
+    }
+
+    try {
+      try {
+        await git.raw(['rev-parse', '--verify', `refs/heads/${journey.branchName}`])
+      } catch {
+        throw new Error('Branch does not exist')
+      }
+
+      // Three dots: changes on the branch since it forked, not what the base gained since
+      const committed = splitNullSeparated(
+        await git.raw(['diff', '--name-only', '-z', '--no-renames', `${baseRef}...refs/heads/${journey.branchName}`])
+      )
+      const committedSet = new Set(committed)
+
+      if (journey.worktreePath && fs.existsSync(journey.worktreePath)) {
+        const status = await getGitService().getGit(journey.worktreePath).status()
+        changes.uncommittedFiles = status.files
+          .map((file) => file.path)
+          .filter((file) => !committedSet.has(file))
+      }
+      changes.changedFiles = [...committed, ...changes.uncommittedFiles].sort()
+    } catch (error) {
+      changes.error = error instanceof Error ? error.message : String(error)
+    }
+    return changes
+  }
+
+  /**
+   * Merge two branches in memory without touching any checkout (git 2.38+)
+   */
+  private trialMerge(projectPath: string, branchA: string, branchB: string): Promise<TrialMerge> {
+    return new Promise((resolve) => {
+      execFile(
+        'git',
+        ['merge-tree', '--write-tree', '--name-only', '--no-messages', `refs/heads/${branchA}`, `refs/heads/${branchB}`],
+        { cwd: projectPath, timeout: MERGE_TREE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          // Exit code 1 means the merge has conflicts; the first line is the resulting tree
+          const exitCode = error ? (typeof error.code === 'number' ? error.code : -1) : 0
+          if (exitCode === 0) {
+            resolve({ trialMerge: 'clean', conflictingFiles: [] })
+          } else if (exitCode === 1) {
+            const conflictingFiles = stdout.split('\n').slice(1).map((line) => line.trim()).filter(Boolean)
+            resolve({ trialMerge: 'conflicts', conflictingFiles })
+          } else {
+            resolve({ trialMerge: 'failed', conflictingFiles: [], error: stderr.trim() || error?.message })
+          }
+        }
+      )
+    })
+  }
+
+}
+
+// Singleton instance
+let serviceInstance: ConflictPredictorService | null = null
+
+export function getConflictPredictorService(): ConflictPredictorService {
+  if (!serviceInstance) {
+    serviceInstance = new ConflictPredictorService()
+  }
+  return serviceInstance
+}
+
+export { ConflictPredictorService }
@@ -0,0 +1,15 @@
+/**
+ * Conflict Predictor Service - Public API
+ */
+
+export { ConflictPredictorService, getConflictPredictorService } from './conflict-predictor.service'
+
+export type {
+  ConflictJourney,
+  JourneyChanges,
+  TrialMergeResult,
+  JourneyPairOverlap,
+  ConflictReport,
+  ConflictEvent,
+  ConflictEventHandler,
+} from './types'
@@ -0,0 +1,56 @@
+/**
+ * Types for cross-journey conflict prediction
+ */
+
+export interface ConflictJourney {
+  id: string
+  name: string
+  branchName: string
+  worktreePath: string | null
+  canParallelize: boolean
+}
+
+export interface JourneyChanges {
+  journeyId: string
+  journeyName: string
+  branchName: string
+  /** Files changed on the branch since it forked from the base branch, committed or not */
+  changedFiles: string[]
+  /** The subset of changedFiles that is only changed in the worktree, not committed */
+  uncommittedFiles: string[]
+  /** Why the branch couldn't be read */
+  error?: string
+}
+
+/**
+ * clean: the branches merge without conflicts
+ * conflicts: the trial merge stopped on conflicts
+ * failed: the trial merge couldn't run
+ * uncommitted: every shared file is uncommitted on one side, so there was nothing to trial-merge
+ */
+export type TrialMergeResult = 'clean' | 'conflicts' | 'failed' | 'uncommitted'
+
+export interface JourneyPairOverlap {
+  journeyIds: [string, string]
+  /** Files both journeys change */
+  overlappingFiles: string[]
+  /** Files the trial merge of the two branches conflicts on (committed changes only) */
+  conflictingFiles: string[]
+  trialMerge: TrialMergeResult
+  /** Both journeys were planned to run in parallel */
+  plannedParallel: boolean
+  error?: string
+}
+
+export interface ConflictReport {
+  projectPath: string
+  baseBranch: string
+  computedAt: string
+  journeys: JourneyChanges[]
+  /** Only pairs that change at least one file in common */
+  pairs: JourneyPairOverlap[]
+}
+
+export type ConflictEvent = { type: 'report'; report: ConflictReport }
+
+export type ConflictEventHandler = (event: ConflictEvent) => void
@@ -27,6 +27,69 @@ export interface GitStatus {
   untracked: number
 }
 
+export interface DiffFileSummary {
+  path: string
+  insertions: number
+  deletions: number
+  binary: boolean
+  untracked: boolean
+}
+
+export interface DiffSummary {
+  filesChanged: number
+  insertions: number
+  deletions: number
+  files: DiffFileSummary[]
+}
+
+export type BranchFileStatus = 'added' | 'modified' | 'deleted' | 'untracked'
+
+export interface BranchDiffFile {
+  path: string
+  status: BranchFileStatus
+  insertions: number
+  deletions: number
+  binary: boolean
+}
+
+export interface BranchCommit {
+  hash: string
+  shortHash: string
+  subject: string
+  author: string
+  date: string
+}
+
+export interface BranchDiff {
+  baseBranch: string
+  /** Commit the journey branch forked from - the diff is taken against this */
+  mergeBase: string
+  branch: string
+  filesChanged: number
+  insertions: number
+  deletions: number
+  files: BranchDiffFile[]
+  /** Commits on the branch since the merge base, newest first */
+  commits: BranchCommit[]
+}
+
+export interface FileDiff {
+  path: string
+  /** Unified diff with full-file context, empty for binary files */
+  patch: string
+  binary: boolean
+  truncated: boolean
+}
+
+export interface GitActionResult {
+  success: boolean
+  error?: string
+  /** Hash of the new commit (commit) or the new HEAD (rebase) */
+  commit?: string
+  /** Files that conflicted - the rebase was aborted and the branch left as it was */
+  conflicts?: string[]
+}
+
 export interface CreateWorktreeOptions {
   projectPath: string
   branchName: string
@@ -50,6 +113,11 @@ export interface RemoveWorktreeResult {
   error?: string
 }
 
+// Patches larger than this are cut off rather than sent to the renderer
+const MAX_PATCH_CHARS = 500000
+
+const NAME_STATUS: Record<string, BranchFileStatus> = { A: 'added', D: 'deleted' }
+
 // Helper to create kebab-case slug from journey name
 export function slugify(name: string): string {
   return name
@@ -65,7 +133,10 @@ export function toBranchName(journeyName: string): string {
 }
 
 class GitService {
-  private getGit(projectPath: string): SimpleGit {
+  /**
+   * simple-git client for a checkout - also used by services that run their own git commands
+   */
+  getGit(projectPath: string): SimpleGit {
     const options: Partial<SimpleGitOptions> = {
       baseDir: projectPath,
       binary: 'git',
@@ -153,7 +224,8 @@ class GitService {
       const worktrees: Worktree[] = []
       let current: Partial<Worktree> = {}
 
-      for (const line of result.split('\n')) {
+      // Output is trimmed, so the last block has no blank line after it - add one
+      for (const line of [...result.split('\n'), '']) {
         if (line.startsWith('worktree ')) {
           current.path = line.substring(9)
         } else if (line.startsWith('HEAD ')) {
@@ -329,6 +401,316 @@ class GitService {
     }
   }
 
+  /**
+   * Summarize uncommitted changes in a worktree (tracked changes against HEAD plus untracked files)
+   */
+  async getDiffSummary(worktreePath: string): Promise<DiffSummary | null> {
+    if (!fs.existsSync(worktreePath)) {
+      return null
+    }
+
+    const git = this.getGit(worktreePath)
+
+    try {
+      const [diff, status] = await Promise.all([git.diffSummary(['HEAD']), git.status()])
+
+      const files: DiffFileSummary[] = diff.files.map((file) => ({
+        path: file.file,
+        insertions: file.binary ? 0 : file.insertions,
+        deletions: file.binary ? 0 : file.deletions,
+        binary: file.binary,
+        untracked: false,
+      }))
+      for (const untrackedPath of status.not_added) {
+        files.push({ path: untrackedPath, insertions: 0, deletions: 0, binary: false, untracked: true })
+      }
+
+      return {
+        filesChanged: files.length,
+        insertions: diff.insertions,
+        deletions: diff.deletions,
+        files,
+      }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Everything on a worktree's branch that isn't on the base branch yet:
+   * committed and uncommitted changes since the merge base, plus untracked files
+   */
+  async getBranchDiff(worktreePath: string, baseBranch?: string): Promise<BranchDiff | null> {
+    if (!fs.existsSync(worktreePath)) {
+      return null
+    }
+
+    const git = this.getGit(worktreePath)
+
+    try {
+      const base = baseBranch || (await this.getDefaultBranch(worktreePath))
+      const mergeBase = await this.getMergeBase(git, base)
+
+      const [numstat, nameStatus, untracked, branch, log] = await Promise.all([
+        git.raw(['diff', '--numstat', '--no-renames', '-z', mergeBase]),
+        git.raw(['diff', '--name-status', '--no-renames', '-z', mergeBase]),
+        git.raw(['ls-files', '--others', '--exclude-standard', '-z']),
+        git.revparse(['--abbrev-ref', 'HEAD']),
+        git.log({ from: mergeBase, to: 'HEAD' }),
+      ])
+
+      // --name-status -z is "<status>\0<path>\0" per file
+      const statuses = new Map<string, BranchFileStatus>()
+      const statusParts = nameStatus.split('\0').filter(Boolean)
+      for (let i = 0; i + 1 < statusParts.length; i += 2) {
+        statuses.set(statusParts[i + 1], NAME_STATUS[statusParts[i]] ?? 'modified')
+      }
+
+      // --numstat -z is "<insertions>\t<deletions>\t<path>\0", with '-' counts for binary files
+      const files: BranchDiffFile[] = numstat.split('\0').filter(Boolean).map((line) => {
+        const [insertions, deletions, ...pathParts] = line.split('\t')
+        const filePath = pathParts.join('\t')
+        const binary = insertions === '-'
+        return {
+          path: filePath,
+          status: statuses.get(filePath) ?? 'modified',
+          insertions: binary ? 0 : Number(insertions),
+          deletions: binary ? 0 : Number(deletions),
+          binary,
+        }
+      })
+
+      for (const untrackedPath of untracked.split('\0').filter(Boolean)) {
+        const content = this.readWorktreeFile(worktreePath, untrackedPath)
+        files.push({
+          path: untrackedPath,
+          status: 'untracked',
+          insertions: content === null ? 0 : content.replace(/\n$/, '').split('\n').length,
+          deletions: 0,
+          binary: content === null,
+        })
+      }
+
+      return {
+        baseBranch: base,
+        mergeBase,
+        branch: branch.trim(),
+        filesChanged: files.length,
+        insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+        files,
+        commits: log.all.map((commit) => ({
+          hash: commit.hash,
+          shortHash: commit.hash.slice(0, 7),
+          subject: commit.message,
+          author: commit.author_name,
+          date: commit.date,
+        })),
+      }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Unified diff of one file against the merge base with the base branch
+   */
+  async getFileDiff(worktreePath: string, filePath: string, baseBranch?: string): Promise<FileDiff | null> {
+    if (!fs.existsSync(worktreePath)) {
+      return null
+    }
+
+    const git = this.getGit(worktreePath)
+
+    try {
+      const tracked = (await git.raw(['ls-files', '--', filePath])).trim() !== ''
+      const base = baseBranch || (await this.getDefaultBranch(worktreePath))
+      const mergeBase = await this.getMergeBase(git, base)
+      const existedAtBase = await git
+        .raw(['cat-file', '-e', `${mergeBase}:${filePath}`])
+        .then(() => true, () => false)
+
+      // Untracked files have nothing to diff against, so show them as all added
+      if (!tracked && !existedAtBase) {
+        const content = this.readWorktreeFile(worktreePath, filePath)
+        if (content === null) {
+          return { path: filePath, patch: '', binary: true, truncated: false }
+        }
+        const lines = content.replace(/\n$/, '').split('\n')
+        const patch = [
+          '--- /dev/null',
+          `+++ b/${filePath}`,
+          `@@ -0,0 +1,${lines.length} @@`,
+          ...lines.map((line) => `+${line}`),
+        ].join('\n')
+        return this.toFileDiff(filePath, patch)
+      }
+
+      // Large context so the side-by-side view shows the whole file around each change
+      const patch = await git.raw(['diff', '--no-renames', '-U100000', mergeBase, '--', filePath])
+      if (/^Binary files .* differ$/m.test(patch)) {
+        return { path: filePath, patch: '', binary: true, truncated: false }
+      }
+      return this.toFileDiff(filePath, patch)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Unified diff of everything on the branch since the merge base (untracked files are not included)
+   * Cut off at maxChars for prompts
+   */
+  async getBranchPatch(worktreePath: string, baseBranch?: string, maxChars = MAX_PATCH_CHARS): Promise<string | null> {
+    if (!fs.existsSync(worktreePath)) {
+      return null
+    }
+
+    const git = this.getGit(worktreePath)
+
+    try {
+      const base = baseBranch || (await this.getDefaultBranch(worktreePath))
+      const patch = await git.raw(['diff', '--no-renames', await this.getMergeBase(git, base)])
+      return patch.length > maxChars ? `${patch.slice(0, maxChars)}\n... (diff truncated)` : patch
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Stage every change in the worktree (including untracked files) and commit it
+   */
+  async commitAll(worktreePath: string, message: string): Promise<GitActionResult> {
+    if (!message.trim()) {
+      return { success: false, error: 'Commit message is empty' }
+    }
+
+    const git = this.getGit(worktreePath)
+
+    try {
+      await git.add(['-A'])
+      const status = await git.status()
+      if (status.files.length === 0) {
+        return { success: false, error: 'Nothing to commit' }
+      }
+
+      const result = await git.commit(message.trim())
+      return { success: true, commit: result.commit }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Push the worktree's branch to origin, setting it as the upstream
+   */
+  async push(worktreePath: string): Promise<GitActionResult> {
+    const git = this.getGit(worktreePath)
+
+    try {
+      const remotes = await git.getRemotes()
+      if (!remotes.some((remote) => remote.name === 'origin')) {
+        return { success: false, error: 'This repository has no "origin" remote' }
+      }
+
+      const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim()
+      await git.push(['--set-upstream', 'origin', branch])
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Rebase the worktree's branch onto the base branch (origin's copy when there is a remote)
+   * A conflicting rebase is aborted so the worktree is never left mid-rebase
+   */
+  async rebaseOntoBase(worktreePath: string, baseBranch?: string): Promise<GitActionResult> {
+    const git = this.getGit(worktreePath)
+
+    try {
+      const status = await git.status()
+      if (!status.isClean()) {
+        return { success: false, error: 'Commit or stash your changes before rebasing' }
+      }
+
+      const base = baseBranch || (await this.getDefaultBranch(worktreePath))
+      const remotes = await git.getRemotes()
+      let onto = base
+      if (remotes.some((remote) => remote.name === 'origin')) {
+        await git.fetch('origin', base)
+        onto = `origin/${base}`
+      }
+
+      try {
+        await git.rebase([onto])
+      } catch (error) {
+        const conflicts = (await git.raw(['diff', '--name-only', '--diff-filter=U']))
+          .split('\n')
+          .filter(Boolean)
+        await git.rebase(['--abort']).catch(() => undefined)
+        return {
+          success: false,
+          error: conflicts.length > 0
+            ? `Rebase onto ${onto} conflicts - aborted`
+            : error instanceof Error ? error.message : String(error),
+          conflicts,
+        }
+      }
+
+      const head = await git.revparse(['HEAD'])
+      return { success: true, commit: head.trim() }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * Ref to compare against for the base branch: the local branch, or origin's when there is no local one
+   */
+  async resolveBaseRef(projectPath: string, baseBranch: string): Promise<string> {
+    try {
+      await this.getGit(projectPath).raw(['rev-parse', '--verify', `refs/heads/${baseBranch}`])
+      return baseBranch
+    } catch {
+      return `origin/${baseBranch}`
+    }
+  }
+
+  /**
+   * Fork point of HEAD and the base branch, preferring the local branch over origin's
+   */
+  private async getMergeBase(git: SimpleGit, baseBranch: string): Promise<string> {
+    try {
+      return (await git.raw(['merge-base', 'HEAD', baseBranch])).trim()
+    } catch {
+      return (await git.raw(['merge-base', 'HEAD', `origin/${baseBranch}`])).trim()
+    }
+  }
+
+  /**
+   * Text content of a worktree file, or null for binary or unreadable files
+   */
+  private readWorktreeFile(worktreePath: string, filePath: string): string | null {
+    try {
+      const buffer = fs.readFileSync(path.join(worktreePath, filePath))
+      if (buffer.includes(0)) return null
+      return buffer.toString('utf-8')
+    } catch {
+      return null
+    }
+  }
+
+  private toFileDiff(filePath: string, patch: string): FileDiff {
+    const truncated = patch.length > MAX_PATCH_CHARS
+    return {
+      path: filePath,
+      patch: truncated ? patch.slice(0, patch.lastIndexOf('\n', MAX_PATCH_CHARS)) : patch,
+      binary: false,
+      truncated,
+    }
+  }
+
   /**
    * Get the current branch of a worktree
    */
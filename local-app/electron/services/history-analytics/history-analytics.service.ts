@@ -0,0 +1,195 @@
+/**
+ * Claude Code History Analytics
+ * Reads token usage, models and tool calls out of every session transcript. Results are
+ * cached per file and only recomputed for sessions that changed since the last call.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as readline from 'readline'
+import { historyService, toClaudeMessage } from '../history.service'
+import type { RawEntry, TokenUsage } from '../history.service'
+import type { DayUsage, SessionUsage, TokenTotals, ToolCallStats } from './types'
+
+// A pause longer than this between messages is time away, not time working
+const IDLE_GAP_MS = 5 * 60 * 1000
+
+interface CachedUsage {
+  size: number
+  mtimeMs: number
+  usage: SessionUsage | null
+}
+
+interface CountedResponse {
+  usage: TokenUsage
+  model: string
+  day: string
+}
+
+function emptyTotals(): TokenTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 }
+}
+
+function addUsage(totals: TokenTotals, usage: TokenUsage): void {
+  totals.inputTokens += usage.input_tokens || 0
+  totals.outputTokens += usage.output_tokens || 0
+  totals.cacheReadTokens += usage.cache_read_input_tokens || 0
+  totals.cacheCreationTokens += usage.cache_creation_input_tokens || 0
+}
+
+function localDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+async function summarizeSession(filePath: string, projectId: string): Promise<SessionUsage | null> {
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  })
+
+  const tools: Record<string, ToolCallStats> = {}
+  const byDay: Record<string, DayUsage> = {}
+  // Latest usage per API message - streamed responses write it on every chunk
+  const responses = new Map<string, CountedResponse>()
+  const toolNamesById = new Map<string, string>()
+  let messageCount = 0
+  let gitBranch = ''
+  let first: Date | null = null
+  let last: Date | null = null
+  let activeMs = 0
+
+  const getDay = (day: string) => {
+    byDay[day] ??= { ...emptyTotals(), toolCalls: 0, toolErrors: 0, activeMs: 0 }
+    return byDay[day]
+  }
+  const getTool = (name: string) => {
+    tools[name] ??= { calls: 0, errors: 0 }
+    return tools[name]
+  }
+
+  for await (const line of rl) {
+    if (!line.trim()) continue
+
+    try {
+      const entry: RawEntry = JSON.parse(line)
+      const message = toClaudeMessage(entry)
+      if (!message) continue
+
+      messageCount++
+      if (entry.gitBranch && !gitBranch) gitBranch = entry.gitBranch
+
+      const timestamp = message.timestamp
+      const day = getDay(localDay(timestamp))
+      if (last) {
+        const gap = timestamp.getTime() - last.getTime()
+        if (gap > 0 && gap <= IDLE_GAP_MS) {
+          activeMs += gap
+          day.activeMs += gap
+        }
+      }
+      if (!first || timestamp < first) first = timestamp
+      if (!last || timestamp > last) last = timestamp
+
+      if (message.type === 'assistant' && message.usage) {
+        const key = entry.message?.id || entry.uuid || `line-${messageCount}`
+        const counted = responses.get(key)
+        responses.set(key, {
+          usage: message.usage,
+          model: message.model || 'unknown',
+          day: counted?.day ?? localDay(timestamp),
+        })
+      }
+
+      for (const block of message.content) {
+        if (block.type === 'tool_use' && block.name) {
+          getTool(block.name).calls++
+          day.toolCalls++
+          if (block.id) toolNamesById.set(block.id, block.name)
+        } else if (block.type === 'tool_result' && block.is_error) {
+          const name = (block.tool_use_id && toolNamesById.get(block.tool_use_id)) || 'unknown'
+          getTool(name).errors++
+          day.toolErrors++
+        }
+      }
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  if (messageCount === 0 || !first || !last) return null
+
+  const tokens = emptyTotals()
+  const byModel: Record<string, TokenTotals> = {}
+  for (const { usage, model, day } of responses.values()) {
+    addUsage(tokens, usage)
+    byModel[model] ??= emptyTotals()
+    addUsage(byModel[model], usage)
+    addUsage(getDay(day), usage)
+  }
+
+  return {
+    sessionId: path.basename(filePath, '.jsonl'),
+    projectId,
+    filePath,
+    gitBranch: gitBranch || 'unknown',
+    startedAt: first.toISOString(),
+    endedAt: last.toISOString(),
+    durationMs: last.getTime() - first.getTime(),
+    activeMs,
+    messageCount,
+    tokens,
+    byModel,
+    tools,
+    byDay,
+  }
+}
+
+class HistoryAnalyticsService {
+  private cache = new Map<string, CachedUsage>()
+
+  /**
+   * Usage for every session under ~/.claude/projects, oldest first
+   */
+  async getSessionUsage(): Promise<SessionUsage[]> {
+    const projectsDir = historyService.getProjectsDir()
+    if (!fs.existsSync(projectsDir)) return []
+
+    const nextCache = new Map<string, CachedUsage>()
+    const folders = fs.readdirSync(projectsDir).filter((folder) => folder.startsWith('-'))
+
+    for (const folder of folders) {
+      const folderPath = path.join(projectsDir, folder)
+      if (!fs.statSync(folderPath).isDirectory()) continue
+
+      for (const file of fs.readdirSync(folderPath).filter((f) => f.endsWith('.jsonl'))) {
+        const filePath = path.join(folderPath, file)
+        try {
+          const stats = fs.statSync(filePath)
+          const cached = this.cache.get(filePath)
+          if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+            nextCache.set(filePath, cached)
+            continue
+          }
+          nextCache.set(filePath, {
+            size: stats.size,
+            mtimeMs: stats.mtimeMs,
+            usage: await summarizeSession(filePath, folder),
+          })
+        } catch (error) {
+          console.error(`Failed to read usage from ${filePath}:`, error)
+        }
+      }
+    }
+
+    // Sessions deleted since the last call drop out with the old cache
+    this.cache = nextCache
+    return [...nextCache.values()]
+      .map((entry) => entry.usage)
+      .filter((usage): usage is SessionUsage => usage !== null)
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+  }
+}
+
+export const historyAnalyticsService = new HistoryAnalyticsService()
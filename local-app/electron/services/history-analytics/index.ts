@@ -0,0 +1,12 @@
+/**
+ * History Analytics - Public API
+ */
+
+export { historyAnalyticsService } from './history-analytics.service'
+
+export type {
+  TokenTotals,
+  ToolCallStats,
+  DayUsage,
+  SessionUsage,
+} from './types'
@@ -0,0 +1,47 @@
+/**
+ * Types for token usage and tool activity analytics over Claude Code history
+ */
+
+export interface TokenTotals {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+}
+
+export interface ToolCallStats {
+  calls: number
+  /** Results that came back with is_error */
+  errors: number
+}
+
+export interface DayUsage extends TokenTotals {
+  toolCalls: number
+  toolErrors: number
+  activeMs: number
+}
+
+/**
+ * Usage for one session transcript. Streamed responses repeat their usage across
+ * several entries, so each API message is counted once.
+ */
+export interface SessionUsage {
+  sessionId: string
+  /** Encoded folder name under ~/.claude/projects */
+  projectId: string
+  filePath: string
+  gitBranch: string
+  /** ISO timestamps of the first and last message */
+  startedAt: string
+  endedAt: string
+  /** First to last message */
+  durationMs: number
+  /** Time spent working - gaps between messages longer than the idle cutoff don't count */
+  activeMs: number
+  messageCount: number
+  tokens: TokenTotals
+  byModel: Record<string, TokenTotals>
+  tools: Record<string, ToolCallStats>
+  /** Keyed by local day, YYYY-MM-DD */
+  byDay: Record<string, DayUsage>
+}
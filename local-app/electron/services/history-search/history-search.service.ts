@@ -0,0 +1,430 @@
+/**
+ * Claude Code History Search
+ * Indexes every session under ~/.claude/projects - message text, tools used, files touched,
+ * git branch - into a JSON file under the app's data directory. Each refresh only reads
+ * sessions that changed since the last one, and only the lines appended to them.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { historyService, toClaudeMessage } from '../history.service'
+import type { ClaudeMessage, RawEntry } from '../history.service'
+import type {
+  HistoryIndexStatus,
+  HistorySearchHit,
+  HistorySearchQuery,
+  HistorySearchResult,
+  IndexedHistoryMessage,
+  IndexedHistorySession,
+} from './types'
+
+interface IndexFile {
+  version: number
+  lastIndexedAt: string | null
+  sessions: IndexedHistorySession[]
+}
+
+// Bump when the indexed fields change - older files are rebuilt from scratch
+const INDEX_VERSION = 1
+const MAX_TEXT_LENGTH = 4000
+const MAX_TOOL_RESULT_LENGTH = 500
+const SNIPPET_LENGTH = 200
+const SNIPPET_LEAD = 60
+// Searches within this long of the last refresh reuse it
+const REFRESH_INTERVAL_MS = 15_000
+const DEFAULT_LIMIT = 50
+const READ_CHUNK_BYTES = 256 * 1024
+// Changes are written this long after the last refresh that made them
+const SAVE_DELAY_MS = 5_000
+// Tool input fields that name a file
+const FILE_PATH_KEYS = ['file_path', 'notebook_path', 'path']
+
+/**
+ * Lowercased words, ignoring single characters
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter((token) => token.length > 1)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Whole words starting with any of the terms
+function termPattern(terms: string[]): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}_]*`, 'giu')
+}
+
+function toIndexedMessage(message: ClaudeMessage, messageIndex: number, gitBranch: string): IndexedHistoryMessage {
+  const parts: string[] = []
+  const toolNames = new Set<string>()
+  const filePaths = new Set<string>()
+
+  for (const block of message.content) {
+    if (block.type === 'text' && block.text) {
+      parts.push(block.text)
+    } else if (block.type === 'tool_use') {
+      if (block.name) toolNames.add(block.name)
+      for (const key of FILE_PATH_KEYS) {
+        const value = block.input?.[key]
+        if (typeof value === 'string') filePaths.add(value)
+      }
+      if (typeof block.input?.command === 'string') parts.push(block.input.command)
+    } else if (block.type === 'tool_result' && typeof block.content === 'string') {
+      parts.push(block.content.slice(0, MAX_TOOL_RESULT_LENGTH))
+    }
+  }
+
+  return {
+    messageIndex,
+    uuid: message.uuid,
+    role: message.type,
+    timestamp: message.timestamp.toISOString(),
+    gitBranch,
+    text: parts.join('\n').replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH),
+    toolNames: [...toolNames],
+    filePaths: [...filePaths],
+  }
+}
+
+/**
+ * Stream complete lines from byte offset `start`, a chunk at a time
+ * A partly written last line is left for next time - resolves with the offset after the last full line
+ */
+async function readCompleteLines(filePath: string, start: number, onLine: (line: string) => void): Promise<number> {
+  const stream = fs.createReadStream(filePath, { start, highWaterMark: READ_CHUNK_BYTES })
+  let end = start
+  let chunkStart = start
+  // Pieces of a line that spans chunks
+  let pending: Buffer[] = []
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    let lineStart = 0
+    let newline = chunk.indexOf(0x0a)
+    while (newline !== -1) {
+      const piece = chunk.subarray(lineStart, newline)
+      const line = pending.length > 0 ? Buffer.concat([...pending, piece]) : piece
+      pending = []
+      onLine(line.toString('utf-8'))
+      lineStart = newline + 1
+      end = chunkStart + lineStart
+      newline = chunk.indexOf(0x0a, lineStart)
+    }
+    if (lineStart < chunk.length) pending.push(chunk.subarray(lineStart))
+    chunkStart += chunk.length
+  }
+  return end
+}
+
+export class HistorySearchIndex {
+  private filePath: string
+  private sessions: Map<string, IndexedHistorySession> | null = null
+  private lastIndexedAt: string | null = null
+  private lastRefreshAt = 0
+  private refreshing: Promise<void> | null = null
+  // Flattened messages and word → message positions, rebuilt after each change
+  private documents: Array<{ session: IndexedHistorySession; message: IndexedHistoryMessage }> | null = null
+  private postings = new Map<string, number[]>()
+  private saveTimer: NodeJS.Timeout | null = null
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  /**
+   * Pick up new, grown and deleted session files. Concurrent callers share one refresh.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.indexChangedSessions().finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  /**
+   * Throw the index away and read every session again
+   */
+  async rebuild(): Promise<HistoryIndexStatus> {
+    await this.refreshing
+    this.sessions = new Map()
+    this.documents = null
+    await this.refresh()
+    return this.getStatus()
+  }
+
+  getStatus(): HistoryIndexStatus {
+    const sessions = [...this.load().values()]
+    return {
+      sessions: sessions.length,
+      messages: sessions.reduce((sum, session) => sum + session.messages.length, 0),
+      lastIndexedAt: this.lastIndexedAt,
+      indexing: this.refreshing !== null,
+    }
+  }
+
+  /**
+   * Messages matching every query word and all filters, best matches first
+   * (newest first when there are no words)
+   */
+  async search(query: HistorySearchQuery): Promise<HistorySearchResult> {
+    if (Date.now() - this.lastRefreshAt > REFRESH_INTERVAL_MS) {
+      await this.refresh()
+    }
+
+    const documents = this.getDocuments()
+    const terms = [...new Set(tokenize(query.text ?? ''))]
+    const candidates = terms.length > 0 ? this.findCandidates(terms) : documents.map((_, index) => index)
+
+    const tool = query.tool?.toLowerCase()
+    const branch = query.gitBranch?.toLowerCase()
+    const matches = candidates
+      .map((index) => documents[index])
+      .filter(({ session, message }) => {
+        if (query.projectId && session.projectId !== query.projectId) return false
+        if (query.role && message.role !== query.role) return false
+        if (branch && !message.gitBranch.toLowerCase().includes(branch)) return false
+        if (tool && !message.toolNames.some((name) => name.toLowerCase() === tool)) return false
+        if (query.from && message.timestamp < query.from) return false
+        if (query.to && message.timestamp > query.to) return false
+        return true
+      })
+
+    const limit = query.limit ?? DEFAULT_LIMIT
+    if (terms.length === 0) {
+      // Filters alone can match most of the index - only build hits for the newest
+      const newest = matches
+        .sort((a, b) => b.message.timestamp.localeCompare(a.message.timestamp))
+        .slice(0, limit)
+      return { hits: newest.map(({ session, message }) => this.toHit(session, message, terms, null)), total: matches.length }
+    }
+
+    const pattern = termPattern(terms)
+    const hits = matches
+      .map(({ session, message }) => this.toHit(session, message, terms, pattern))
+      .sort((a, b) => b.score - a.score || b.timestamp.localeCompare(a.timestamp))
+
+    return { hits: hits.slice(0, limit), total: hits.length }
+  }
+
+  private async indexChangedSessions(): Promise<void> {
+    const sessions = this.load()
+    const projectsDir = historyService.getProjectsDir()
+    const seen = new Set<string>()
+    let changed = false
+
+    const folders = fs.existsSync(projectsDir)
+      ? fs.readdirSync(projectsDir).filter((folder) => folder.startsWith('-'))
+      : []
+
+    for (const folder of folders) {
+      const folderPath = path.join(projectsDir, folder)
+      if (!fs.statSync(folderPath).isDirectory()) continue
+
+      for (const file of fs.readdirSync(folderPath).filter((f) => f.endsWith('.jsonl'))) {
+        const filePath = path.join(folderPath, file)
+        seen.add(filePath)
+        try {
+          const stats = fs.statSync(filePath)
+          const existing = sessions.get(filePath)
+          if (existing && existing.mtimeMs === stats.mtimeMs) continue
+
+          // A file that shrank was rewritten - start over
+          const session = existing && stats.size >= existing.indexedBytes
+            ? existing
+            : {
+                sessionId: path.basename(file, '.jsonl'),
+                projectId: folder,
+                filePath,
+                indexedBytes: 0,
+                mtimeMs: 0,
+                gitBranch: 'unknown',
+                messages: [],
+              }
+          await this.indexAppendedLines(session)
+          session.mtimeMs = stats.mtimeMs
+          sessions.set(filePath, session)
+          changed = true
+        } catch (error) {
+          console.error(`Failed to index ${filePath}:`, error)
+        }
+      }
+    }
+
+    for (const filePath of sessions.keys()) {
+      if (!seen.has(filePath)) {
+        sessions.delete(filePath)
+        changed = true
+      }
+    }
+
+    this.lastRefreshAt = Date.now()
+    this.lastIndexedAt = new Date().toISOString()
+    if (changed) {
+      this.documents = null
+      this.scheduleSave()
+    }
+  }
+
+  private async indexAppendedLines(session: IndexedHistorySession): Promise<void> {
+    session.indexedBytes = await readCompleteLines(session.filePath, session.indexedBytes, (line) => {
+      if (!line.trim()) return
+      try {
+        const entry: RawEntry = JSON.parse(line)
+        if (entry.gitBranch) session.gitBranch = entry.gitBranch
+
+        const message = toClaudeMessage(entry)
+        if (message) {
+          session.messages.push(toIndexedMessage(message, session.messages.length, session.gitBranch))
+        }
+      } catch {
+        // Skip malformed lines
+      }
+    })
+  }
+
+  private getDocuments() {
+    if (this.documents) return this.documents
+
+    this.documents = []
+    this.postings = new Map()
+    for (const session of this.load().values()) {
+      for (const message of session.messages) {
+        const index = this.documents.length
+        this.documents.push({ session, message })
+        const tokens = new Set(tokenize([message.text, ...message.filePaths, ...message.toolNames].join(' ')))
+        for (const token of tokens) {
+          const list = this.postings.get(token)
+          if (list) {
+            list.push(index)
+          } else {
+            this.postings.set(token, [index])
+          }
+        }
+      }
+    }
+    return this.documents
+  }
+
+  // Messages with a word starting with each of the terms
+  private findCandidates(terms: string[]): number[] {
+    let result: Set<number> | null = null
+    for (const term of terms) {
+      const matches = new Set<number>()
+      for (const [token, list] of this.postings) {
+        if (!token.startsWith(term)) continue
+        for (const index of list) {
+          if (!result || result.has(index)) matches.add(index)
+        }
+      }
+      result = matches
+      if (result.size === 0) break
+    }
+    return result ? [...result] : []
+  }
+
+  private toHit(
+    session: IndexedHistorySession,
+    message: IndexedHistoryMessage,
+    terms: string[],
+    pattern: RegExp | null
+  ): HistorySearchHit {
+    const text = message.text
+    let score = 0
+    let firstMatch = -1
+
+    if (pattern) {
+      for (const match of text.matchAll(pattern)) {
+        if (firstMatch === -1) firstMatch = match.index ?? 0
+        // Whole-word matches count double
+        score += terms.includes(match[0].toLowerCase()) ? 2 : 1
+      }
+      // Matches only in file paths or tool names
+      if (score === 0) score = 1
+    }
+
+    const start = firstMatch > SNIPPET_LEAD ? firstMatch - SNIPPET_LEAD : 0
+    const snippet = `${start > 0 ? '…' : ''}${text.slice(start, start + SNIPPET_LENGTH)}${
+      start + SNIPPET_LENGTH < text.length ? '…' : ''
+    }`
+    const highlights: Array<[number, number]> = pattern
+      ? [...snippet.matchAll(pattern)].map((match) => [match.index ?? 0, (match.index ?? 0) + match[0].length])
+      : []
+
+    return {
+      sessionId: session.sessionId,
+      projectId: session.projectId,
+      filePath: session.filePath,
+      messageIndex: message.messageIndex,
+      uuid: message.uuid,
+      role: message.role,
+      timestamp: message.timestamp,
+      gitBranch: message.gitBranch,
+      snippet,
+      highlights,
+      toolNames: message.toolNames,
+      filePaths: message.filePaths,
+      terms,
+      score,
+    }
+  }
+
+  private load(): Map<string, IndexedHistorySession> {
+    if (this.sessions) return this.sessions
+
+    this.sessions = new Map()
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as IndexFile
+        if (file.version === INDEX_VERSION) {
+          for (const session of file.sessions) {
+            this.sessions.set(session.filePath, session)
+          }
+          this.lastIndexedAt = file.lastIndexedAt
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load history search index, rebuilding:', error)
+    }
+    return this.sessions
+  }
+
+  /**
+   * Write the index once refreshes settle down, one save at a time
+   * A save lost on quit only means re-reading those lines on the next refresh
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.saving = this.saving
+        .then(() => this.save())
+        .catch((error) => {
+          console.error('Failed to save history search index:', error)
+        })
+    }, SAVE_DELAY_MS)
+  }
+
+  /**
+   * Serialize one session at a time into a temp file, then swap it in
+   */
+  private async save(): Promise<void> {
+    const sessions = [...this.load().values()]
+    const tempPath = `${this.filePath}.tmp`
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    const handle = await fs.promises.open(tempPath, 'w')
+    try {
+      await handle.write(`{"version":${INDEX_VERSION},"lastIndexedAt":${JSON.stringify(this.lastIndexedAt)},"sessions":[`)
+      for (let i = 0; i < sessions.length; i++) {
+        await handle.write(`${i > 0 ? ',' : ''}${JSON.stringify(sessions[i])}`)
+      }
+      await handle.write(']}')
+    } finally {
+      await handle.close()
+    }
+    await fs.promises.rename(tempPath, this.filePath)
+  }
+}
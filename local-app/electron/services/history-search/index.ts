@@ -0,0 +1,15 @@
+/**
+ * History Search - Public API
+ */
+
+export { HistorySearchIndex, tokenize } from './history-search.service'
+
+export type {
+  HistoryMessageRole,
+  IndexedHistoryMessage,
+  IndexedHistorySession,
+  HistorySearchQuery,
+  HistorySearchHit,
+  HistorySearchResult,
+  HistoryIndexStatus,
+} from './types'
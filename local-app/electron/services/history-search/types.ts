@@ -0,0 +1,83 @@
+/**
+ * Types for the Claude Code history search index
+ */
+
+export type HistoryMessageRole = 'user' | 'assistant' | 'tool_result'
+
+/**
+ * One searchable message. messageIndex is its position in getSessionMessages(),
+ * so the conversation viewer can scroll straight to it.
+ */
+export interface IndexedHistoryMessage {
+  messageIndex: number
+  uuid?: string
+  role: HistoryMessageRole
+  /** ISO timestamp */
+  timestamp: string
+  gitBranch: string
+  /** Message text, capped - tool results only keep their start */
+  text: string
+  toolNames: string[]
+  /** Files the message's tool calls read or changed */
+  filePaths: string[]
+}
+
+export interface IndexedHistorySession {
+  sessionId: string
+  /** Encoded folder name under ~/.claude/projects */
+  projectId: string
+  filePath: string
+  /** Bytes indexed so far - appended lines are read from here */
+  indexedBytes: number
+  mtimeMs: number
+  /** Branch of the latest entry that had one, for appended lines without it */
+  gitBranch: string
+  messages: IndexedHistoryMessage[]
+}
+
+export interface HistorySearchQuery {
+  /** Words to find - every word must match, as a whole word or a word prefix */
+  text?: string
+  projectId?: string
+  gitBranch?: string
+  /** ISO timestamps, inclusive */
+  from?: string
+  to?: string
+  tool?: string
+  role?: HistoryMessageRole
+  limit?: number
+}
+
+export interface HistorySearchHit {
+  sessionId: string
+  projectId: string
+  filePath: string
+  messageIndex: number
+  uuid?: string
+  role: HistoryMessageRole
+  timestamp: string
+  gitBranch: string
+  /** Excerpt around the first match */
+  snippet: string
+  /** [start, end) ranges of matched words within the snippet */
+  highlights: Array<[number, number]>
+  toolNames: string[]
+  filePaths: string[]
+  /** Query words, for highlighting inside the conversation */
+  terms: string[]
+  score: number
+}
+
+export interface HistorySearchResult {
+  hits: HistorySearchHit[]
+  /** Matches before the limit was applied */
+  total: number
+}
+
+export interface HistoryIndexStatus {
+  sessions: number
+  messages: number
+  /** ISO timestamp of the last completed refresh, null before the first */
+  lastIndexedAt: string | null
+  indexing: boolean
+}
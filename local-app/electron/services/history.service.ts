@@ -17,7 +17,9 @@ export interface ClaudeSession {
   filePath: string
   messageCount: number
   timestamp: Date
+  startedAt: Date
   gitBranch: string
+  cwd: string
   firstMessage: string
 }
 
@@ -36,6 +38,7 @@ export interface ClaudeMessage {
     is_error?: boolean
   }>
   model?: string
+  usage?: TokenUsage
   toolUseResult?: {
     durationMs?: number
     numFiles?: number
@@ -43,9 +46,18 @@ export interface ClaudeMessage {
   }
 }
 
-interface RawEntry {
+export interface TokenUsage {
+  input_tokens: number
+  output_tokens: number
+  cache_read_input_tokens?: number
+  cache_creation_input_tokens?: number
+}
+
+export interface RawEntry {
   type: string
   message?: {
+    // API message id - streamed responses repeat it across several entries
+    id?: string
     role: string
     content:
       | string
@@ -61,9 +73,11 @@ interface RawEntry {
           is_error?: boolean
         }>
     model?: string
+    usage?: TokenUsage
   }
   timestamp?: string
   gitBranch?: string
+  cwd?: string
   model?: string
   uuid?: string
   toolUseResult?: {
@@ -73,6 +87,68 @@ interface RawEntry {
   }
 }
 
+/**
+ * The message as the conversation viewer shows it, or null for entries it skips
+ * (summaries, thinking-only turns). Positions in getSessionMessages() count only these.
+ */
+export function toClaudeMessage(entry: RawEntry): ClaudeMessage | null {
+  if ((entry.type !== 'user' && entry.type !== 'assistant') || !entry.message) {
+    return null
+  }
+
+  // Normalize content to always be an array
+  let normalizedContent: ClaudeMessage['content'] = []
+  let isToolResult = false
+
+  if (typeof entry.message.content === 'string') {
+    // Simple string content - wrap in array
+    normalizedContent = [{ type: 'text', text: entry.message.content }]
+  } else if (Array.isArray(entry.message.content)) {
+    // Array content - extract from various block types
+    for (const block of entry.message.content) {
+      if (block.type === 'text' && block.text) {
+        // Regular text block
+        normalizedContent.push({ type: 'text', text: block.text })
+      } else if (block.type === 'tool_use') {
+        // Tool use - include name, id, AND input
+        normalizedContent.push({
+          type: 'tool_use',
+          name: block.name,
+          id: block.id,
+          input: block.input,
+        })
+      } else if (block.type === 'tool_result') {
+        // Tool result - include the content
+        isToolResult = true
+        normalizedContent.push({
+          type: 'tool_result',
+          tool_use_id: block.tool_use_id,
+          content: block.content,
+          is_error: block.is_error,
+        })
+      }
+      // Skip: thinking blocks, etc.
+    }
+
+    // Skip if no displayable content after filtering
+    if (normalizedContent.length === 0) {
+      return null
+    }
+  } else {
+    return null // Skip if content is invalid
+  }
+
+  return {
+    uuid: entry.uuid,
+    type: isToolResult ? 'tool_result' : (entry.type as 'user' | 'assistant'),
+    timestamp: entry.timestamp ? new Date(entry.timestamp) : new Date(),
+    content: normalizedContent,
+    model: entry.message.model || entry.model,
+    usage: entry.message.usage,
+    toolUseResult: entry.toolUseResult,
+  }
+}
+
 class ClaudeHistoryService {
   private claudeDir: string
 
@@ -114,8 +190,12 @@ class ClaudeHistoryService {
     return basicDecode
   }
 
+  getProjectsDir(): string {
+    return path.join(this.claudeDir, 'projects')
+  }
+
   async getProjects(): Promise<ClaudeProject[]> {
-    const projectsDir = path.join(this.claudeDir, 'projects')
+    const projectsDir = this.getProjectsDir()
 
     if (!fs.existsSync(projectsDir)) {
       return []
@@ -188,7 +268,9 @@ class ClaudeHistoryService {
       let messageCount = 0
       let firstMessage = ''
       let timestamp = new Date(0)
+      let startedAt: Date | null = null
       let gitBranch = ''
+      let cwd = ''
 
       for await (const line of rl) {
         if (!line.trim()) continue
@@ -204,12 +286,19 @@ class ClaudeHistoryService {
               if (entryTime > timestamp) {
                 timestamp = entryTime
               }
+              if (!startedAt || entryTime < startedAt) {
+                startedAt = entryTime
+              }
             }
 
             if (entry.gitBranch && !gitBranch) {
               gitBranch = entry.gitBranch
             }
 
+            if (entry.cwd && !cwd) {
+              cwd = entry.cwd
+            }
+
             // Get first user message as preview (strip IDE context tags)
             if (entry.type === 'user' && !firstMessage && entry.message?.content) {
               let rawText = ''
@@ -262,7 +351,9 @@ class ClaudeHistoryService {
         filePath,
         messageCount,
         timestamp,
+        startedAt: startedAt || timestamp,
         gitBranch: gitBranch || 'unknown',
+        cwd,
         firstMessage,
       }
     } catch {
@@ -289,57 +380,9 @@ class ClaudeHistoryService {
       try {
         const entry: RawEntry = JSON.parse(line)
 
-        if ((entry.type === 'user' || entry.type === 'assistant') && entry.message) {
-          // Normalize content to always be an array
-          let normalizedContent: ClaudeMessage['content'] = []
-          let isToolResult = false
-
-          if (typeof entry.message.content === 'string') {
-            // Simple string content - wrap in array
-            normalizedContent = [{ type: 'text', text: entry.message.content }]
-          } else if (Array.isArray(entry.message.content)) {
-            // Array content - extract from various block types
-            for (const block of entry.message.content) {
-              if (block.type === 'text' && block.text) {
-                // Regular text block
-                normalizedContent.push({ type: 'text', text: block.text })
-              } else if (block.type === 'tool_use') {
-                // Tool use - include name, id, AND input
-                normalizedContent.push({
-                  type: 'tool_use',
-                  name: block.name,
-                  id: block.id,
-                  input: block.input,
-                })
-              } else if (block.type === 'tool_result') {
-                // Tool result - include the content
-                isToolResult = true
-                normalizedContent.push({
-                  type: 'tool_result',
-                  tool_use_id: block.tool_use_id,
-                  content: block.content,
-                  is_error: block.is_error,
-                })
-              }
-              // Skip: thinking blocks, etc.
-            }
-
-            // Skip if no displayable content after filtering
-            if (normalizedContent.length === 0) {
-              continue
-            }
-          } else {
-            continue // Skip if content is invalid
-          }
-
-          messages.push({
-            uuid: entry.uuid,
-            type: isToolResult ? 'tool_result' : (entry.type as 'user' | 'assistant'),
-            timestamp: entry.timestamp ? new Date(entry.timestamp) : new Date(),
-            content: normalizedContent,
-            model: entry.message.model || entry.model,
-            toolUseResult: entry.toolUseResult,
-          })
+        const message = toClaudeMessage(entry)
+        if (message) {
+          messages.push(message)
         }
       } catch {
         // Skip malformed lines
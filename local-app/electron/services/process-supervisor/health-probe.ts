@@ -0,0 +1,56 @@
+/**
+ * Health probes for supervised targets
+ * Each probe resolves to null when the target answers, or a short reason when it doesn't.
+ */
+
+import * as http from 'http'
+import * as net from 'net'
+
+// Dev servers bind to either loopback family depending on the tool and Node version
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1']
+
+const PROBE_TIMEOUT_MS = 2000
+
+function probeTcpHost(host: string, port: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port })
+    const finish = (reason: string | null) => {
+      socket.destroy()
+      resolve(reason)
+    }
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => finish(`Port ${port} timed out`))
+    socket.once('connect', () => finish(null))
+    socket.once('error', (error) => finish(`Port ${port}: ${error.message}`))
+  })
+}
+
+function probeHttpHost(host: string, port: number, path: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const request = http.get({ host, port, path, timeout: PROBE_TIMEOUT_MS }, (response) => {
+      response.resume()
+      const status = response.statusCode ?? 0
+      // Redirects count as up - dev servers often send / on to a login page or add a slash
+      resolve(status >= 200 && status < 400 ? null : `GET ${path} returned ${status}`)
+    })
+    request.once('timeout', () => request.destroy(new Error('timed out')))
+    request.once('error', (error) => resolve(`GET ${path}: ${error.message}`))
+  })
+}
+
+async function firstHealthyHost(probe: (host: string) => Promise<string | null>): Promise<string | null> {
+  let reason: string | null = null
+  for (const host of LOOPBACK_HOSTS) {
+    reason = await probe(host)
+    if (!reason) return null
+  }
+  return reason
+}
+
+export function probeTcp(port: number): Promise<string | null> {
+  return firstHealthyHost((host) => probeTcpHost(host, port))
+}
+
+export function probeHttp(port: number, path: string): Promise<string | null> {
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`
+  return firstHealthyHost((host) => probeHttpHost(host, port, normalizedPath))
+}
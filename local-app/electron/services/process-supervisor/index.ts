@@ -0,0 +1,15 @@
+/**
+ * Process Supervisor Service - Public API
+ */
+
+export { ProcessSupervisor, getProcessSupervisor } from './process-supervisor.service'
+export { getProcessRowRecorder } from './process-rows'
+
+export type {
+  TargetStartRequest,
+  TargetProcessStatus,
+  TargetProcessInfo,
+  TargetLogLine,
+  TargetProcessEvent,
+  TargetProcessEventHandler,
+} from './types'
@@ -0,0 +1,159 @@
+/**
+ * session_processes rows for supervised targets
+ * Written here in the main process, so every spawn, health change and exit is recorded
+ * whether or not a window is open to hear about it.
+ */
+
+import * as os from 'os'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { ProcessStatus } from '@dev-orchestrator/shared'
+import type { TargetProcessEvent } from './types'
+
+type RowEvent = Extract<TargetProcessEvent, { type: 'started' | 'health' | 'exited' }>
+
+// Row statuses of a live process - the others have ended
+const LIVE_STATUSES: ProcessStatus[] = ['starting', 'running', 'ready', 'unhealthy']
+
+// Rows are tagged with the machine that supervises them
+const HOST = os.hostname()
+
+let client: SupabaseClient | null | undefined
+
+/**
+ * Same database the windows use - null when it isn't configured
+ */
+function getClient(): SupabaseClient | null {
+  if (client === undefined) {
+    const url = import.meta.env.VITE_SUPABASE_URL
+    const key = import.meta.env.VITE_SUPABASE_SERVICE_ROLE_KEY
+    client = url && key ? createClient(url, key) : null
+    if (!client) {
+      console.warn('Supabase is not configured - target processes will not be recorded')
+    }
+  }
+  return client
+}
+
+export function isRowEvent(event: TargetProcessEvent): event is RowEvent {
+  return event.type === 'started' || event.type === 'health' || event.type === 'exited'
+}
+
+/**
+ * Active session for a journey, starting one if there is none
+ */
+async function getOrCreateActiveSession(db: SupabaseClient, journeyId: string, workspace: string): Promise<string> {
+  const { data: active, error: activeError } = await db
+    .from('journey_sessions')
+    .select('id')
+    .eq('journey_id', journeyId)
+    .eq('status', 'active')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (activeError) throw activeError
+  if (active) return active.id
+
+  const { data, error } = await db
+    .from('journey_sessions')
+    .insert({
+      journey_id: journeyId,
+      editor_workspace: workspace,
+      status: 'active',
+      notes: 'Started for target processes',
+    })
+    .select('id')
+    .single()
+  if (error) throw error
+  return data.id
+}
+
+class ProcessRowRecorder {
+  // Row per spawned instance, keyed by journeyId:targetId:instance
+  private rows = new Map<string, string>()
+  // Rows are written one at a time so an exit never lands before its start
+  private writes = Promise.resolve()
+
+  /**
+   * Close rows this machine left open in an earlier run of the app - none of them are supervised any more
+   * Rows of other desktops sharing the database are theirs to close
+   */
+  closeOrphanedRows(): Promise<void> {
+    return this.enqueue(async (db) => {
+      const { error } = await db
+        .from('session_processes')
+        .update({ status: 'stopped', ended_at: new Date().toISOString() })
+        .eq('host', HOST)
+        .in('status', LIVE_STATUSES)
+      if (error) throw error
+    })
+  }
+
+  record(event: RowEvent): Promise<void> {
+    const { journeyId, targetId, instance } = event.process
+    const rowKey = `${journeyId}:${targetId}:${instance}`
+
+    return this.enqueue(async (db) => {
+      if (event.type === 'started') {
+        const sessionId = await getOrCreateActiveSession(db, journeyId, event.process.cwd)
+        const { data, error } = await db
+          .from('session_processes')
+          .insert({
+            session_id: sessionId,
+            target_id: targetId,
+            pid: event.process.pid,
+            port: event.process.port,
+            host: HOST,
+            // 'starting' until a health check passes, 'running' for targets without one
+            status: event.process.status === 'starting' ? 'starting' : 'running',
+          })
+          .select('id')
+          .single()
+        if (error) throw error
+        this.rows.set(rowKey, data.id)
+        return
+      }
+
+      // The insert failed - there is no row to update
+      const rowId = this.rows.get(rowKey)
+      if (!rowId) return
+
+      if (event.type === 'health') {
+        const { error } = await db
+          .from('session_processes')
+          .update({ status: event.process.status === 'ready' ? 'ready' : 'unhealthy' })
+          .eq('id', rowId)
+        if (error) throw error
+        return
+      }
+
+      this.rows.delete(rowKey)
+      const { error } = await db
+        .from('session_processes')
+        .update({ status: event.rowStatus, ended_at: new Date().toISOString() })
+        .eq('id', rowId)
+      if (error) throw error
+    })
+  }
+
+  private enqueue(write: (db: SupabaseClient) => Promise<void>): Promise<void> {
+    const db = getClient()
+    if (!db) return this.writes
+
+    this.writes = this.writes
+      .then(() => write(db))
+      .catch((error) => {
+        console.error('Failed to record target process:', error)
+      })
+    return this.writes
+  }
+}
+
+// Singleton instance
+let recorderInstance: ProcessRowRecorder | null = null
+
+export function getProcessRowRecorder(): ProcessRowRecorder {
+  if (!recorderInstance) {
+    recorderInstance = new ProcessRowRecorder()
+  }
+  return recorderInstance
+}
@@ -0,0 +1,488 @@
+/**
+ * Process Supervisor
+ * Runs project targets (dev servers, workers) for journeys in their worktrees,
+ * keeps a rolling log per target, restarts crashed processes with backoff,
+ * probes targets with a health check until they are ready, and records each
+ * instance in session_processes.
+ */
+
+import { ChildProcess, spawn } from 'child_process'
+import * as fs from 'fs'
+import { probeHttp, probeTcp } from './health-probe'
+import { getProcessRowRecorder, isRowEvent } from './process-rows'
+import {
+  TargetLogLine,
+  TargetProcessEvent,
+  TargetProcessEventHandler,
+  TargetProcessInfo,
+  TargetStartRequest,
+} from './types'
+
+// Lines kept per target - older lines roll off
+const MAX_LOG_LINES = 1000
+
+const RESTART_BASE_DELAY_MS = 1000
+const RESTART_MAX_DELAY_MS = 30000
+// Crashes in a row (without a stable run between) before giving up
+const MAX_CONSECUTIVE_CRASHES = 5
+// A run this long counts as stable and resets the backoff
+const STABLE_RUN_MS = 60000
+// Time a stopped process gets to exit before it is killed
+const STOP_GRACE_MS = 5000
+
+const DEFAULT_READINESS_TIMEOUT_MS = 60000
+// Probe often while waiting for readiness, then settle into a slower liveness check
+const READINESS_PROBE_INTERVAL_MS = 1000
+const HEALTH_PROBE_INTERVAL_MS = 5000
+// Failed probes in a row before a ready target counts as unhealthy
+const UNHEALTHY_AFTER_FAILURES = 3
+// How often waitForReady looks at the targets again
+const READY_POLL_MS = 500
+
+interface SupervisedProcess {
+  info: TargetProcessInfo
+  request: TargetStartRequest
+  proc: ChildProcess | null
+  logs: TargetLogLine[]
+  onEvent: TargetProcessEventHandler
+  stopRequested: boolean
+  restartRequested: boolean
+  restartTimer: NodeJS.Timeout | null
+  healthTimer: NodeJS.Timeout | null
+  healthFailures: number
+  // Compiled pattern of a log health check
+  readyPattern: RegExp | null
+  // Incomplete trailing line per stream
+  partial: { stdout: string; stderr: string }
+}
+
+function processKey(journeyId: string, targetId: string): string {
+  return `${journeyId}:${targetId}`
+}
+
+/**
+ * Compile a log health check's pattern, or null for other probes
+ */
+function readyPatternFor(request: TargetStartRequest): RegExp | null {
+  const check = request.healthCheck
+  if (!check) return null
+
+  if (check.type === 'log') {
+    if (!check.pattern?.trim()) {
+      throw new Error(`${request.targetName}'s log health check has no pattern`)
+    }
+    try {
+      return new RegExp(check.pattern)
+    } catch (error) {
+      throw new Error(`Invalid log pattern for ${request.targetName}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  if (!request.port) {
+    throw new Error(`${request.targetName} needs a port for its ${check.type.toUpperCase()} health check`)
+  }
+  return null
+}
+
+/**
+ * Terminate the whole process group, falling back to the shell process
+ */
+function killProcess(proc: ChildProcess, signal: NodeJS.Signals) {
+  try {
+    if (proc.pid) {
+      process.kill(-proc.pid, signal)
+      return
+    }
+  } catch {
+    // Group already gone or not a group leader
+  }
+  proc.kill(signal)
+}
+
+class ProcessSupervisor {
+  private processes = new Map<string, SupervisedProcess>()
+
+  /**
+   * Start a target for a journey
+   * State changes and log lines arrive through onEvent, including those of automatic restarts
+   */
+  start(request: TargetStartRequest, onEvent: TargetProcessEventHandler): TargetProcessInfo {
+    const key = processKey(request.journeyId, request.targetId)
+    const existing = this.processes.get(key)
+
+    if (existing?.proc) {
+      throw new Error(`${request.targetName} is already running`)
+    }
+    if (!request.command.trim()) {
+      throw new Error(`${request.targetName} has no start command`)
+    }
+    if (!fs.existsSync(request.cwd)) {
+      throw new Error(`Directory not found: ${request.cwd}`)
+    }
+    const readyPattern = readyPatternFor(request)
+
+    if (existing?.restartTimer) {
+      clearTimeout(existing.restartTimer)
+    }
+
+    const entry: SupervisedProcess = {
+      info: {
+        journeyId: request.journeyId,
+        targetId: request.targetId,
+        targetName: request.targetName,
+        status: 'stopped',
+        pid: null,
+        port: request.port,
+        command: request.command,
+        cwd: request.cwd,
+        instance: existing?.info.instance ?? 0,
+        restarts: 0,
+        hasHealthCheck: !!request.healthCheck,
+      },
+      request,
+      proc: null,
+      // Keep earlier output so a crash before a manual start stays readable
+      logs: existing?.logs ?? [],
+      onEvent,
+      stopRequested: false,
+      restartRequested: false,
+      restartTimer: null,
+      healthTimer: null,
+      healthFailures: 0,
+      readyPattern,
+      partial: { stdout: '', stderr: '' },
+    }
+    this.processes.set(key, entry)
+
+    this.spawn(entry)
+    return { ...entry.info }
+  }
+
+  /**
+   * Stop a target (or cancel its pending restart)
+   */
+  stop(journeyId: string, targetId: string): boolean {
+    const entry = this.processes.get(processKey(journeyId, targetId))
+    if (!entry) return false
+
+    if (entry.restartTimer) {
+      clearTimeout(entry.restartTimer)
+      entry.restartTimer = null
+      this.update(entry, { status: 'stopped', nextRestartAt: undefined })
+      this.log(entry, 'system', 'Restart cancelled')
+      return true
+    }
+
+    const proc = entry.proc
+    if (!proc) return false
+
+    entry.stopRequested = true
+    killProcess(proc, 'SIGTERM')
+    setTimeout(() => {
+      if (entry.proc === proc) {
+        this.log(entry, 'system', `Still running after ${STOP_GRACE_MS / 1000}s - killing`)
+        killProcess(proc, 'SIGKILL')
+      }
+    }, STOP_GRACE_MS)
+    return true
+  }
+
+  /**
+   * Stop a running target and start it again with a fresh backoff
+   */
+  restart(journeyId: string, targetId: string): boolean {
+    const entry = this.processes.get(processKey(journeyId, targetId))
+    if (!entry) return false
+
+    if (entry.proc) {
+      entry.restartRequested = true
+      return this.stop(journeyId, targetId)
+    }
+
+    if (entry.restartTimer) {
+      clearTimeout(entry.restartTimer)
+      entry.restartTimer = null
+    }
+    this.update(entry, { restarts: 0 })
+    this.spawn(entry)
+    return true
+  }
+
+  /**
+   * Targets started for a journey, running or not
+   */
+  getProcesses(journeyId: string): TargetProcessInfo[] {
+    return [...this.processes.values()]
+      .filter((entry) => entry.info.journeyId === journeyId)
+      .map((entry) => ({ ...entry.info }))
+  }
+
+  getLogs(journeyId: string, targetId: string): TargetLogLine[] {
+    return [...(this.processes.get(processKey(journeyId, targetId))?.logs ?? [])]
+  }
+
+  /**
+   * Resolve once none of a journey's targets are still starting or waiting to restart
+   * (or the timeout passes), with their statuses at that point
+   */
+  waitForReady(journeyId: string, timeoutMs: number, targetIds?: string[]): Promise<TargetProcessInfo[]> {
+    const deadline = Date.now() + timeoutMs
+    const current = () => this.getProcesses(journeyId)
+      .filter((info) => !targetIds || targetIds.includes(info.targetId))
+    const isSettled = (processes: TargetProcessInfo[]) =>
+      processes.every((info) => info.status !== 'starting' && info.status !== 'restarting')
+
+    return new Promise((resolve) => {
+      const check = () => {
+        const processes = current()
+        if (isSettled(processes) || Date.now() >= deadline) {
+          resolve(processes)
+        } else {
+          setTimeout(check, READY_POLL_MS)
+        }
+      }
+      check()
+    })
+  }
+
+  /**
+   * Stop everything - used when the app quits
+   */
+  stopAll() {
+    for (const { info } of this.processes.values()) {
+      this.stop(info.journeyId, info.targetId)
+    }
+  }
+
+  private spawn(entry: SupervisedProcess) {
+    const { request } = entry
+    const portEnv: Record<string, string> = request.port ? { PORT: String(request.port) } : {}
+
+    this.update(entry, {
+      status: 'starting',
+      pid: null,
+      instance: entry.info.instance + 1,
+      startedAt: new Date().toISOString(),
+      exitCode: undefined,
+      nextRestartAt: undefined,
+      readyAt: undefined,
+      healthError: undefined,
+    })
+    this.log(entry, 'system', `$ ${request.command}${request.port ? ` (port ${request.port})` : ''}`)
+
+    // Login shell so the user's PATH (nvm, rbenv, homebrew) applies
+    // Detached so the shell and the server share a killable process group
+    const shell = process.env.SHELL || '/bin/zsh'
+    const proc = spawn(shell, ['-lc', request.command], {
+      cwd: request.cwd,
+      env: { ...process.env, ...portEnv, ...request.env },
+      detached: true,
+    })
+    entry.proc = proc
+    entry.stopRequested = false
+
+    proc.stdout?.on('data', (data: Buffer) => this.output(entry, 'stdout', data.toString()))
+    proc.stderr?.on('data', (data: Buffer) => this.output(entry, 'stderr', data.toString()))
+
+    proc.on('spawn', () => {
+      if (entry.proc !== proc) return
+      // Targets with a health check stay 'starting' until it passes
+      const status = request.healthCheck ? 'starting' : 'running'
+      this.update(entry, { status, pid: proc.pid ?? null }, false)
+      this.emit(entry, { type: 'started', process: { ...entry.info } })
+      if (request.healthCheck) {
+        this.watchHealth(entry, proc)
+      }
+    })
+
+    proc.on('error', (error) => {
+      this.log(entry, 'system', `Failed to start: ${error.message}`)
+      // A process that never spawned gets no close event
+      if (entry.info.status === 'starting') {
+        this.handleExit(entry, proc, null)
+      }
+    })
+
+    proc.on('close', (code) => this.handleExit(entry, proc, code))
+  }
+
+  private handleExit(entry: SupervisedProcess, proc: ChildProcess, code: number | null) {
+    // Ignore instances that were already handled or replaced
+    if (entry.proc !== proc) return
+    entry.proc = null
+    if (entry.healthTimer) {
+      clearTimeout(entry.healthTimer)
+      entry.healthTimer = null
+    }
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (entry.partial[stream]) {
+        this.log(entry, stream, entry.partial[stream])
+        entry.partial[stream] = ''
+      }
+    }
+
+    if (entry.stopRequested) {
+      entry.stopRequested = false
+      this.update(entry, { status: 'stopped', pid: null, exitCode: code }, false)
+      this.log(entry, 'system', 'Stopped')
+      this.emit(entry, { type: 'exited', process: { ...entry.info }, rowStatus: 'stopped' })
+
+      if (entry.restartRequested) {
+        entry.restartRequested = false
+        this.update(entry, { restarts: 0 }, false)
+        this.spawn(entry)
+      }
+      return
+    }
+
+    // Dev servers aren't expected to exit on their own, so any exit counts as a crash
+    const ranFor = Date.now() - new Date(entry.info.startedAt ?? 0).getTime()
+    const crashes = ranFor >= STABLE_RUN_MS ? 0 : entry.info.restarts
+
+    if (crashes >= MAX_CONSECUTIVE_CRASHES) {
+      this.update(entry, { status: 'crashed', pid: null, exitCode: code }, false)
+      this.log(entry, 'system', `Exited with code ${code} - crashed ${crashes + 1} times in a row, not restarting`)
+      this.emit(entry, { type: 'exited', process: { ...entry.info }, rowStatus: 'crashed' })
+      return
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** crashes, RESTART_MAX_DELAY_MS)
+    this.update(entry, {
+      status: 'restarting',
+      pid: null,
+      exitCode: code,
+      restarts: crashes + 1,
+      nextRestartAt: new Date(Date.now() + delay).toISOString(),
+    }, false)
+    this.log(entry, 'system', `Exited with code ${code} - restarting in ${delay / 1000}s`)
+    this.emit(entry, { type: 'exited', process: { ...entry.info }, rowStatus: 'crashed' })
+
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = null
+      this.spawn(entry)
+    }, delay)
+  }
+
+  /**
+   * Probe a freshly spawned instance until it is ready, then keep checking it stays healthy
+   * Log checks are settled by output() - here they only enforce the readiness timeout
+   */
+  private watchHealth(entry: SupervisedProcess, proc: ChildProcess) {
+    const check = entry.request.healthCheck
+    if (!check) return
+
+    const timeoutMs = entry.request.readinessTimeoutMs ?? DEFAULT_READINESS_TIMEOUT_MS
+    const deadline = Date.now() + timeoutMs
+    entry.healthFailures = 0
+
+    const schedule = (delay: number) => {
+      entry.healthTimer = setTimeout(probe, delay)
+    }
+
+    const probe = async () => {
+      entry.healthTimer = null
+      if (entry.proc !== proc) return
+
+      if (check.type === 'log') {
+        if (entry.info.status === 'starting') {
+          this.markUnhealthy(entry, `No output matched /${check.pattern}/ within ${timeoutMs / 1000}s`)
+        }
+        return
+      }
+
+      const port = entry.info.port!
+      const reason = check.type === 'http' ? await probeHttp(port, check.path || '/') : await probeTcp(port)
+      if (entry.proc !== proc) return
+
+      if (!reason) {
+        entry.healthFailures = 0
+        if (entry.info.status !== 'ready') this.markReady(entry)
+        schedule(HEALTH_PROBE_INTERVAL_MS)
+        return
+      }
+
+      entry.healthFailures += 1
+      if (entry.info.status === 'starting') {
+        if (Date.now() >= deadline) {
+          this.markUnhealthy(entry, `Not ready after ${timeoutMs / 1000}s - ${reason}`)
+        } else {
+          this.update(entry, { healthError: reason }, false)
+        }
+      } else if (entry.info.status === 'ready' && entry.healthFailures >= UNHEALTHY_AFTER_FAILURES) {
+        this.markUnhealthy(entry, reason)
+      }
+      schedule(entry.info.status === 'starting' ? READINESS_PROBE_INTERVAL_MS : HEALTH_PROBE_INTERVAL_MS)
+    }
+
+    schedule(check.type === 'log' ? timeoutMs : READINESS_PROBE_INTERVAL_MS)
+  }
+
+  private markReady(entry: SupervisedProcess) {
+    const waited = Date.now() - new Date(entry.info.startedAt ?? 0).getTime()
+    this.update(entry, { status: 'ready', readyAt: new Date().toISOString(), healthError: undefined }, false)
+    this.log(entry, 'system', `Ready after ${(waited / 1000).toFixed(1)}s`)
+    this.emit(entry, { type: 'health', process: { ...entry.info } })
+  }
+
+  private markUnhealthy(entry: SupervisedProcess, reason: string) {
+    this.update(entry, { status: 'unhealthy', healthError: reason }, false)
+    this.log(entry, 'system', `Unhealthy: ${reason}`)
+    this.emit(entry, { type: 'health', process: { ...entry.info } })
+  }
+
+  private output(entry: SupervisedProcess, stream: 'stdout' | 'stderr', text: string) {
+    const lines = (entry.partial[stream] + text).split('\n')
+    entry.partial[stream] = lines.pop() ?? ''
+    if (lines.length === 0) return
+
+    this.appendLines(entry, lines.map((line) => ({ stream, text: line, at: new Date().toISOString() })))
+
+    // Log health checks are ready on the first matching line, even after the timeout
+    const waitingForLog = entry.info.status === 'starting' || entry.info.status === 'unhealthy'
+    if (entry.readyPattern && entry.info.pid && waitingForLog && lines.some((line) => entry.readyPattern!.test(line))) {
+      this.markReady(entry)
+    }
+  }
+
+  private log(entry: SupervisedProcess, stream: TargetLogLine['stream'], text: string) {
+    this.appendLines(entry, [{ stream, text, at: new Date().toISOString() }])
+  }
+
+  private appendLines(entry: SupervisedProcess, lines: TargetLogLine[]) {
+    entry.logs.push(...lines)
+    if (entry.logs.length > MAX_LOG_LINES) {
+      entry.logs.splice(0, entry.logs.length - MAX_LOG_LINES)
+    }
+    this.emit(entry, { type: 'log', journeyId: entry.info.journeyId, targetId: entry.info.targetId, lines })
+  }
+
+  /**
+   * Change the process info; notify windows unless a started/exited event follows
+   */
+  private update(entry: SupervisedProcess, changes: Partial<TargetProcessInfo>, notify = true) {
+    entry.info = { ...entry.info, ...changes }
+    if (notify) {
+      this.emit(entry, { type: 'status', process: { ...entry.info } })
+    }
+  }
+
+  private emit(entry: SupervisedProcess, event: TargetProcessEvent) {
+    if (isRowEvent(event)) {
+      getProcessRowRecorder().record(event)
+    }
+    entry.onEvent(event)
+  }
+}
+
+// Singleton instance
+let supervisorInstance: ProcessSupervisor | null = null
+
+export function getProcessSupervisor(): ProcessSupervisor {
+  if (!supervisorInstance) {
+    supervisorInstance = new ProcessSupervisor()
+  }
+  return supervisorInstance
+}
+
+export { ProcessSupervisor }
@@ -0,0 +1,78 @@
+/**
+ * Types for the target process supervisor
+ */
+
+import type { TargetHealthCheck } from '@dev-orchestrator/shared'
+
+export interface TargetStartRequest {
+  journeyId: string
+  targetId: string
+  targetName: string
+  command: string
+  /** Worktree (or the target's subdirectory of it) */
+  cwd: string
+  /** Port assigned to this journey's instance of the target */
+  port: number | null
+  /** Extra environment, e.g. the port under the target's own variable name */
+  env?: Record<string, string>
+  /** Probe that decides when the target is ready - without one, running is enough */
+  healthCheck?: TargetHealthCheck | null
+  /** Time to pass the probe after each spawn before the target counts as unhealthy */
+  readinessTimeoutMs?: number
+}
+
+/**
+ * starting: spawned, not yet confirmed alive (or not yet passing its health check)
+ * running: process is up - targets without a health check
+ * ready: process is up and passing its health check
+ * unhealthy: process is up but missed the readiness timeout or stopped answering
+ * restarting: crashed, waiting out the backoff before the next attempt
+ * stopped: stopped by the user (or never started)
+ * crashed: crashed too often in a row - no more automatic restarts
+ */
+export type TargetProcessStatus = 'starting' | 'running' | 'ready' | 'unhealthy' | 'restarting' | 'stopped' | 'crashed'
+
+export interface TargetProcessInfo {
+  journeyId: string
+  targetId: string
+  targetName: string
+  status: TargetProcessStatus
+  pid: number | null
+  port: number | null
+  command: string
+  cwd: string
+  /** Increments on every spawn, so each one maps to its own session_processes row */
+  instance: number
+  /** Automatic restarts since the last manual start */
+  restarts: number
+  startedAt?: string
+  exitCode?: number | null
+  /** When the next automatic restart happens, while restarting */
+  nextRestartAt?: string
+  /** Whether the process has a health check deciding ready/unhealthy */
+  hasHealthCheck: boolean
+  readyAt?: string
+  /** Why the last health probe failed */
+  healthError?: string
+}
+
+export interface TargetLogLine {
+  stream: 'stdout' | 'stderr' | 'system'
+  text: string
+  at: string
+}
+
+/**
+ * started: a new instance is running (insert a session_processes row)
+ * health: the running instance became ready or unhealthy (update its row)
+ * exited: an instance ended - rowStatus is what its row should record
+ * status: any other change (spawning, restart cancelled)
+ */
+export type TargetProcessEvent =
+  | { type: 'started'; process: TargetProcessInfo }
+  | { type: 'health'; process: TargetProcessInfo }
+  | { type: 'exited'; process: TargetProcessInfo; rowStatus: 'stopped' | 'crashed' }
+  | { type: 'status'; process: TargetProcessInfo }
+  | { type: 'log'; journeyId: string; targetId: string; lines: TargetLogLine[] }
+
+export type TargetProcessEventHandler = (event: TargetProcessEvent) => void
@@ -0,0 +1,29 @@
+/**
+ * Prompt Template Registry - Public API
+ */
+
+export {
+  PromptRegistry,
+  getPromptRegistry,
+  setPromptRegistry,
+  resolvePromptTemplate,
+  defaultPromptTemplate,
+  describePromptTemplate,
+} from './prompt-registry.service';
+
+export { PROMPT_TEMPLATES, getPromptTemplateDefinition, buildPromptFromTemplate } from './templates';
+export { renderPromptTemplate, findTemplateVariables } from './render';
+export type { PromptVariables } from './render';
+
+export type {
+  PromptTemplateName,
+  PromptTemplateVariable,
+  PromptTemplateDefinition,
+  PromptTemplateVersion,
+  PromptTemplateSource,
+  ResolvedPromptTemplate,
+  PromptTemplateSummary,
+  PromptTemplateInputs,
+  PromptCompareRequest,
+  PromptCompareResult,
+} from './types';
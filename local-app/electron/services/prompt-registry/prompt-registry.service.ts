@@ -0,0 +1,170 @@
+/**
+ * Prompt Template Registry
+ * Named prompt templates with a version history and per-project overrides, stored as
+ * JSON under the app's data directory so wording can change without a release.
+ *
+ * Resolution order: latest project version → latest global version → built-in template.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findTemplateVariables } from './render';
+import { getPromptTemplateDefinition, PROMPT_TEMPLATES } from './templates';
+import type {
+  PromptTemplateName,
+  PromptTemplateSummary,
+  PromptTemplateVersion,
+  ResolvedPromptTemplate,
+} from './types';
+
+interface RegistryFile {
+  versions: PromptTemplateVersion[];
+}
+
+/**
+ * Built-in template as a resolved template (version 0)
+ */
+export function defaultPromptTemplate(name: PromptTemplateName): ResolvedPromptTemplate {
+  const definition = getPromptTemplateDefinition(name);
+  if (!definition) {
+    throw new Error(`Unknown prompt template: ${name}`);
+  }
+  return { name, body: definition.defaultBody, source: 'default', version: 0, versionId: null };
+}
+
+/**
+ * Short label for logs and the compare view, e.g. "project v3"
+ */
+export function describePromptTemplate(template: Pick<ResolvedPromptTemplate, 'source' | 'version'>): string {
+  return template.source === 'default' ? 'built-in' : `${template.source} v${template.version}`;
+}
+
+class PromptRegistry {
+  private filePath: string;
+  private versions: PromptTemplateVersion[] | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Every template with the version in effect for the project (or globally)
+   */
+  list(projectId?: string): PromptTemplateSummary[] {
+    return PROMPT_TEMPLATES.map((definition) => ({
+      ...definition,
+      active: this.resolve(definition.name, projectId),
+    }));
+  }
+
+  /**
+   * Versions saved for one scope, newest first
+   */
+  listVersions(name: PromptTemplateName, projectId: string | null): PromptTemplateVersion[] {
+    return this.load()
+      .filter((v) => v.name === name && v.projectId === projectId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  getVersion(id: string): PromptTemplateVersion | null {
+    return this.load().find((v) => v.id === id) ?? null;
+  }
+
+  resolve(name: PromptTemplateName, projectId?: string): ResolvedPromptTemplate {
+    const latest = (projectId && this.listVersions(name, projectId)[0]) || this.listVersions(name, null)[0];
+    if (!latest) return defaultPromptTemplate(name);
+
+    return {
+      name,
+      body: latest.body,
+      source: latest.projectId ? 'project' : 'global',
+      version: latest.version,
+      versionId: latest.id,
+    };
+  }
+
+  /**
+   * Save a new version for the scope - it takes effect immediately
+   * Throws if the body references variables the template doesn't provide
+   */
+  saveVersion(
+    name: PromptTemplateName,
+    projectId: string | null,
+    body: string,
+    note?: string
+  ): PromptTemplateVersion {
+    const definition = getPromptTemplateDefinition(name);
+    if (!definition) {
+      throw new Error(`Unknown prompt template: ${name}`);
+    }
+    if (!body.trim()) {
+      throw new Error('Template body is empty');
+    }
+
+    const known = new Set(definition.variables.map((v) => v.name));
+    const unknown = findTemplateVariables(body).filter((variable) => !known.has(variable));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown template variable(s): ${unknown.join(', ')}`);
+    }
+
+    const previous = this.listVersions(name, projectId)[0];
+    const version: PromptTemplateVersion = {
+      id: `prompt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      projectId,
+      version: (previous?.version ?? 0) + 1,
+      body,
+      note: note?.trim() || undefined,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.load().push(version);
+    this.persist();
+    return version;
+  }
+
+  private persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const file: RegistryFile = { versions: this.load() };
+      fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2));
+    } catch (error) {
+      console.error('Failed to write prompt registry:', error);
+    }
+  }
+
+  private load(): PromptTemplateVersion[] {
+    if (this.versions) return this.versions;
+
+    this.versions = [];
+    if (!fs.existsSync(this.filePath)) return this.versions;
+
+    try {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as RegistryFile;
+      this.versions = Array.isArray(file.versions) ? file.versions : [];
+    } catch (error) {
+      console.error('Failed to read prompt registry:', error);
+    }
+    return this.versions;
+  }
+}
+
+// Singleton instance - null until the app configures a storage location
+let registryInstance: PromptRegistry | null = null;
+
+export function getPromptRegistry(): PromptRegistry | null {
+  return registryInstance;
+}
+
+export function setPromptRegistry(registry: PromptRegistry | null): void {
+  registryInstance = registry;
+}
+
+/**
+ * Template in effect for a project, falling back to the built-in one when no registry is configured
+ */
+export function resolvePromptTemplate(name: PromptTemplateName, projectId?: string): ResolvedPromptTemplate {
+  return registryInstance?.resolve(name, projectId) ?? defaultPromptTemplate(name);
+}
+
+export { PromptRegistry };
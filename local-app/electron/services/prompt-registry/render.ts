@@ -0,0 +1,29 @@
+/**
+ * Prompt template rendering
+ * Templates use {{name}} for variables and {{#name}}...{{/name}} for sections that only
+ * render when the variable is non-empty. Sections do not nest.
+ */
+
+export type PromptVariables = Record<string, string | undefined>;
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+export function renderPromptTemplate(body: string, variables: PromptVariables): string {
+  const withSections = body.replace(SECTION_PATTERN, (_match, name: string, inner: string) =>
+    variables[name] ? inner : ''
+  );
+  // Single pass, so variable values are never re-scanned for placeholders
+  return withSections.replace(VARIABLE_PATTERN, (_match, name: string) => variables[name] ?? '');
+}
+
+/**
+ * Variable names a template references, in order of first use
+ */
+export function findTemplateVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(/\{\{[#/]?(\w+)\}\}/g)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
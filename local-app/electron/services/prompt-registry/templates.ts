@@ -0,0 +1,131 @@
+/**
+ * Built-in prompt templates
+ * Default bodies come from the prompt builders, so a template with no saved versions
+ * renders exactly what the builder always produced.
+ */
+
+import {
+  buildIntakeRefinementPrompt,
+  buildSpecGenerationPrompt,
+  buildPlanGenerationPrompt,
+  buildProjectIntakeRefinementPrompt,
+  INTAKE_REFINEMENT_TEMPLATE,
+  SPEC_GENERATION_TEMPLATE,
+  PLAN_GENERATION_TEMPLATE,
+  PROJECT_INTAKE_REFINEMENT_TEMPLATE,
+  REFINED_INTAKE_SCHEMA,
+  SPEC_SCHEMA,
+  PLAN_SCHEMA,
+} from '../claude-cli/prompts';
+import { buildPromptForJourney, JOURNEY_KICKOFF_TEMPLATE } from '../vscode-launcher/prompts';
+import type { JourneyStage, JourneyType } from '@dev-orchestrator/shared';
+import type { PromptTemplateDefinition, PromptTemplateInputs, PromptTemplateName } from './types';
+
+type IntakeJourneyType = Parameters<typeof buildIntakeRefinementPrompt>[1];
+
+export const PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+  {
+    name: 'refineIntake',
+    label: 'Intake refinement',
+    description: 'Turns a raw journey intake into a structured intake document',
+    variables: [
+      { name: 'rawIntake', description: 'Intake text as written or dictated' },
+      { name: 'typeGuidance', description: 'Focus areas for the journey type (feature, bug, ...)' },
+      { name: 'projectContext', description: 'Optional project context' },
+    ],
+    defaultBody: INTAKE_REFINEMENT_TEMPLATE,
+    jsonSchema: REFINED_INTAKE_SCHEMA,
+    runnable: true,
+  },
+  {
+    name: 'generateSpec',
+    label: 'Spec generation',
+    description: 'Writes a technical specification from the refined intake',
+    variables: [
+      { name: 'refinedIntake', description: 'AI-refined intake document' },
+      { name: 'techStack', description: 'Optional tech stack summary' },
+      { name: 'projectContext', description: 'Optional project context' },
+    ],
+    defaultBody: SPEC_GENERATION_TEMPLATE,
+    jsonSchema: SPEC_SCHEMA,
+    runnable: true,
+  },
+  {
+    name: 'generatePlan',
+    label: 'Plan generation',
+    description: 'Breaks a spec into a phased implementation plan',
+    variables: [
+      { name: 'spec', description: 'Journey specification' },
+      { name: 'projectContext', description: 'Optional project context' },
+    ],
+    defaultBody: PLAN_GENERATION_TEMPLATE,
+    jsonSchema: PLAN_SCHEMA,
+    runnable: true,
+  },
+  {
+    name: 'refineProjectIntake',
+    label: 'Project intake refinement',
+    description: 'Turns a raw project intake into a markdown project document',
+    variables: [
+      { name: 'projectName', description: 'Project name' },
+      { name: 'rawIntake', description: 'Project intake text' },
+    ],
+    defaultBody: PROJECT_INTAKE_REFINEMENT_TEMPLATE,
+    runnable: true,
+  },
+  {
+    name: 'journeyKickoff',
+    label: 'VS Code journey kickoff',
+    description: 'First chat message sent when a journey is opened in VS Code',
+    variables: [
+      { name: 'typePrefix', description: 'Opening line for the journey type' },
+      { name: 'journeyName', description: 'Journey name' },
+      { name: 'journeyStage', description: 'Current stage id' },
+      { name: 'stagePrompt', description: 'Stage-specific request' },
+    ],
+    defaultBody: JOURNEY_KICKOFF_TEMPLATE,
+    runnable: false,
+  },
+];
+
+export function getPromptTemplateDefinition(name: PromptTemplateName): PromptTemplateDefinition | undefined {
+  return PROMPT_TEMPLATES.find((definition) => definition.name === name);
+}
+
+/**
+ * Build the final prompt for a template body from compare-mode inputs
+ * Goes through the same builders the live handlers use
+ */
+export function buildPromptFromTemplate(
+  name: PromptTemplateName,
+  body: string,
+  inputs: PromptTemplateInputs
+): string {
+  switch (name) {
+    case 'refineIntake':
+      return buildIntakeRefinementPrompt(
+        inputs.rawIntake ?? '',
+        (inputs.journeyType as IntakeJourneyType) ?? 'feature',
+        inputs.projectContext,
+        body
+      );
+    case 'generateSpec':
+      return buildSpecGenerationPrompt(inputs.refinedIntake ?? '', inputs.projectContext, inputs.techStack, body);
+    case 'generatePlan':
+      return buildPlanGenerationPrompt(inputs.spec ?? '', inputs.projectContext, body);
+    case 'refineProjectIntake':
+      return buildProjectIntakeRefinementPrompt(inputs.rawIntake ?? '', inputs.projectName ?? '', body);
+    case 'journeyKickoff':
+      return buildPromptForJourney(
+        {
+          journeyId: inputs.journeyId ?? '',
+          journeyName: inputs.journeyName ?? '',
+          journeyType: (inputs.journeyType as JourneyType) ?? 'feature',
+          journeyStage: (inputs.journeyStage as JourneyStage) ?? 'intake',
+          worktreePath: '',
+          projectRootPath: '',
+        },
+        body
+      );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Types for the prompt template registry
+ */
+
+import type { ClaudeCliResponse } from '../claude-cli/types';
+
+export type PromptTemplateName =
+  | 'refineIntake'
+  | 'generateSpec'
+  | 'generatePlan'
+  | 'refineProjectIntake'
+  | 'journeyKickoff';
+
+export interface PromptTemplateVariable {
+  name: string;
+  description: string;
+}
+
+export interface PromptTemplateDefinition {
+  name: PromptTemplateName;
+  label: string;
+  description: string;
+  variables: PromptTemplateVariable[];
+  /** Built-in template text (version 0) */
+  defaultBody: string;
+  /** Schema hint for prompts that return JSON */
+  jsonSchema?: string;
+  /** False for prompts handed to another tool instead of run through the AI provider */
+  runnable: boolean;
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  name: PromptTemplateName;
+  /** Project the version overrides the template for; null for the global version */
+  projectId: string | null;
+  /** Increments per template and scope, starting at 1 */
+  version: number;
+  body: string;
+  note?: string;
+  createdAt: string;
+}
+
+/** Where the template in effect came from - project override, global edit or built-in */
+export type PromptTemplateSource = 'project' | 'global' | 'default';
+
+export interface ResolvedPromptTemplate {
+  name: PromptTemplateName;
+  body: string;
+  source: PromptTemplateSource;
+  /** 0 for the built-in template */
+  version: number;
+  versionId: string | null;
+}
+
+export interface PromptTemplateSummary extends PromptTemplateDefinition {
+  active: ResolvedPromptTemplate;
+}
+
+/** Inputs compare mode uses to build a prompt, gathered from a journey or project */
+export type PromptTemplateInputs = Record<string, string>;
+
+export interface PromptCompareRequest {
+  name: PromptTemplateName;
+  /** Version ids to compare; null selects the built-in template */
+  versionIds: [string | null, string | null];
+  inputs: PromptTemplateInputs;
+  workingDirectory?: string;
+  journeyId?: string;
+  projectId?: string;
+}
+
+export interface PromptCompareResult {
+  versionId: string | null;
+  label: string;
+  prompt: string;
+  /** Absent for templates that aren't runnable */
+  response?: ClaudeCliResponse;
+}
@@ -4,6 +4,7 @@
  */
 
 import type { JourneyType, JourneyStage } from '@dev-orchestrator/shared'
+import { renderPromptTemplate } from '../prompt-registry/render'
 
 interface PromptContext {
   journeyId: string
@@ -55,27 +56,36 @@ const TYPE_PREFIXES: Record<JourneyType, string> = {
   investigation: "I'm conducting a technical investigation:",
 }
 
-/**
- * Build a contextual prompt for a journey based on its type and stage
- */
-export function buildPromptForJourney(context: PromptContext): string {
-  const typePrefix = TYPE_PREFIXES[context.journeyType]
-  const stagePrompt = STAGE_PROMPTS[context.journeyStage] || 'Help me with the next step.'
-
-  return `${typePrefix} "${context.journeyName}"
+/** Default kickoff template - variables: typePrefix, journeyName, journeyStage, stagePrompt */
+export const JOURNEY_KICKOFF_TEMPLATE = `{{typePrefix}} "{{journeyName}}"
 
-Current stage: ${context.journeyStage}
+Current stage: {{journeyStage}}
 
-${stagePrompt}
+{{stagePrompt}}
 
 Please start by exploring the codebase in this worktree to understand the context.`
+
+/**
+ * Build a contextual prompt for a journey based on its type and stage
+ */
+export function buildPromptForJourney(context: PromptContext, template = JOURNEY_KICKOFF_TEMPLATE): string {
+  return renderPromptTemplate(template, {
+    typePrefix: TYPE_PREFIXES[context.journeyType],
+    journeyName: context.journeyName,
+    journeyStage: context.journeyStage,
+    stagePrompt: STAGE_PROMPTS[context.journeyStage] || 'Help me with the next step.',
+  })
 }
 
 /**
  * Build a prompt for resuming work on a journey
  */
-export function buildResumePrompt(context: PromptContext, lastActivity?: string): string {
-  const base = buildPromptForJourney(context)
+export function buildResumePrompt(
+  context: PromptContext,
+  lastActivity?: string,
+  template = JOURNEY_KICKOFF_TEMPLATE
+): string {
+  const base = buildPromptForJourney(context, template)
 
   if (lastActivity) {
     return `${base}
@@ -40,6 +40,8 @@ export interface JourneyLaunchRequest {
   journeyStage: JourneyStage
   worktreePath: string
   projectRootPath: string
+  /** Selects the project's kickoff prompt template, if it has one */
+  projectId?: string
   customPrompt?: string
 }
 
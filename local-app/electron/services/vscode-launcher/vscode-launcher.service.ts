@@ -17,6 +17,7 @@ import {
   VSCODE_INIT_DELAY,
 } from './types'
 import { buildPromptForJourney } from './prompts'
+import { resolvePromptTemplate } from '../prompt-registry'
 
 const execAsync = promisify(exec)
 
@@ -364,7 +365,9 @@ class VSCodeLauncherService {
       projectRootPath: request.projectRootPath,
     })
 
-    const prompt = request.customPrompt || buildPromptForJourney(request)
+    const prompt =
+      request.customPrompt ||
+      buildPromptForJourney(request, resolvePromptTemplate('journeyKickoff', request.projectId).body)
 
     // Check for CLAUDE.md to add as context
     const contextFiles: string[] = []
@@ -0,0 +1,17 @@
+/**
+ * Worktree Bootstrap Service - Public API
+ */
+
+export { WorktreeBootstrapService, getWorktreeBootstrapService } from './worktree-bootstrap.service'
+
+export type {
+  BootstrapPortAssignment,
+  WorktreeBootstrapRequest,
+  BootstrapStepKind,
+  BootstrapStepStatus,
+  BootstrapStep,
+  WorktreeBootstrapStatus,
+  WorktreeBootstrapRun,
+  WorktreeBootstrapEvent,
+  WorktreeBootstrapEventHandler,
+} from './types'
@@ -0,0 +1,57 @@
+/**
+ * Types for worktree bootstrap
+ */
+
+import type { WorktreeBootstrapRecipe } from '@dev-orchestrator/shared'
+
+export interface BootstrapPortAssignment {
+  envVar: string
+  port: number
+}
+
+export interface WorktreeBootstrapRequest {
+  journeyId: string
+  /** Project root_path - recipe files are copied or linked from here */
+  projectPath: string
+  worktreePath: string
+  recipe: WorktreeBootstrapRecipe
+  /** Ports already offset for this journey */
+  ports: BootstrapPortAssignment[]
+}
+
+export type BootstrapStepKind = 'file' | 'ports' | 'command'
+
+/**
+ * skipped: nothing to do (file already present, or an earlier step failed)
+ */
+export type BootstrapStepStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed'
+
+export interface BootstrapStep {
+  kind: BootstrapStepKind
+  label: string
+  status: BootstrapStepStatus
+  /** Why the step was skipped or failed */
+  detail?: string
+}
+
+export type WorktreeBootstrapStatus = 'running' | 'succeeded' | 'failed'
+
+export interface WorktreeBootstrapRun {
+  journeyId: string
+  status: WorktreeBootstrapStatus
+  worktreePath: string
+  steps: BootstrapStep[]
+  ports: BootstrapPortAssignment[]
+  /** Tail of the command output, for windows that attach mid-run */
+  output: string
+  startedAt: string
+  finishedAt?: string
+  error?: string
+}
+
+export type WorktreeBootstrapEvent =
+  | { journeyId: string; type: 'output'; text: string }
+  | { journeyId: string; type: 'step'; index: number; step: BootstrapStep }
+  | { journeyId: string; type: 'finished'; run: WorktreeBootstrapRun }
+
+export type WorktreeBootstrapEventHandler = (event: WorktreeBootstrapEvent) => void
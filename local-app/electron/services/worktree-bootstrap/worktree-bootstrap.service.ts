@@ -0,0 +1,251 @@
+/**
+ * Worktree Bootstrap Service
+ * Prepares a fresh journey worktree from the project's recipe: copies or links
+ * untracked files (env files, keys) from the main checkout, writes the journey's
+ * ports into an env file, then runs the setup commands in order.
+ */
+
+import { spawn } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+import type { BootstrapFile } from '@dev-orchestrator/shared'
+import {
+  BootstrapStep,
+  WorktreeBootstrapEventHandler,
+  WorktreeBootstrapRequest,
+  WorktreeBootstrapRun,
+} from './types'
+
+// Output kept on the run for windows that attach mid-run
+const MAX_OUTPUT_CHARS = 20000
+
+const DEFAULT_ENV_FILE = '.env.local'
+
+const ENV_VAR_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Resolve a recipe path inside a directory, refusing paths that escape it
+ */
+function resolveInside(dir: string, relativePath: string): string {
+  const root = path.resolve(dir)
+  const resolved = path.resolve(root, relativePath)
+  if (path.isAbsolute(relativePath) || !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Path must be relative to the project: ${relativePath}`)
+  }
+  return resolved
+}
+
+/**
+ * Set KEY=value lines in an env file, keeping everything else as is
+ */
+function upsertEnvVars(filePath: string, values: Record<string, string>) {
+  const lines = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8').split('\n') : []
+  if (lines[lines.length - 1] === '') lines.pop()
+
+  for (const [key, value] of Object.entries(values)) {
+    const pattern = new RegExp(`^\\s*(export\\s+)?${key}\\s*=`)
+    const index = lines.findIndex((line) => pattern.test(line))
+    if (index >= 0) {
+      lines[index] = `${key}=${value}`
+    } else {
+      lines.push(`${key}=${value}`)
+    }
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, lines.join('\n') + '\n')
+}
+
+class WorktreeBootstrapService {
+  private runs = new Map<string, WorktreeBootstrapRun>()
+
+  /**
+   * Start bootstrapping a worktree and return the run right away
+   * Progress and the final result arrive through onEvent
+   */
+  run(request: WorktreeBootstrapRequest, onEvent: WorktreeBootstrapEventHandler): WorktreeBootstrapRun {
+    const { journeyId, worktreePath, recipe } = request
+
+    if (this.runs.get(journeyId)?.status === 'running') {
+      throw new Error('This worktree is already being bootstrapped')
+    }
+    if (!worktreePath || !fs.existsSync(worktreePath)) {
+      throw new Error(`Worktree not found: ${worktreePath || '(none)'}`)
+    }
+
+    const steps: BootstrapStep[] = [
+      ...recipe.files.map((file): BootstrapStep => ({
+        kind: 'file',
+        label: `${file.mode === 'symlink' ? 'Link' : 'Copy'} ${file.path}`,
+        status: 'pending',
+      })),
+      ...(request.ports.length > 0
+        ? [{ kind: 'ports' as const, label: `Write ports to ${recipe.env_file || DEFAULT_ENV_FILE}`, status: 'pending' as const }]
+        : []),
+      ...recipe.commands.map((command): BootstrapStep => ({ kind: 'command', label: command, status: 'pending' })),
+    ]
+
+    const run: WorktreeBootstrapRun = {
+      journeyId,
+      status: 'running',
+      worktreePath,
+      steps,
+      ports: request.ports,
+      output: '',
+      startedAt: new Date().toISOString(),
+    }
+    this.runs.set(journeyId, run)
+
+    this.execute(request, run, onEvent)
+      .then(() => {
+        run.status = run.steps.some((step) => step.status === 'failed') ? 'failed' : 'succeeded'
+      })
+      .catch((error) => {
+        run.status = 'failed'
+        run.error = error instanceof Error ? error.message : String(error)
+      })
+      .finally(() => {
+        run.finishedAt = new Date().toISOString()
+        onEvent({ journeyId, type: 'finished', run: { ...run, steps: run.steps.map((step) => ({ ...step })) } })
+      })
+
+    return { ...run, steps: run.steps.map((step) => ({ ...step })) }
+  }
+
+  /**
+   * Latest run for a journey (running or finished), if any
+   */
+  getRun(journeyId: string): WorktreeBootstrapRun | null {
+    const run = this.runs.get(journeyId)
+    return run ? { ...run, steps: run.steps.map((step) => ({ ...step })) } : null
+  }
+
+  private async execute(
+    request: WorktreeBootstrapRequest,
+    run: WorktreeBootstrapRun,
+    onEvent: WorktreeBootstrapEventHandler
+  ) {
+    const { journeyId, projectPath, worktreePath, recipe } = request
+    const portEnv = Object.fromEntries(request.ports.map(({ envVar, port }) => [envVar, String(port)]))
+
+    const output = (text: string) => {
+      run.output = (run.output + text).slice(-MAX_OUTPUT_CHARS)
+      onEvent({ journeyId, type: 'output', text })
+    }
+
+    const update = (index: number, changes: Partial<BootstrapStep>) => {
+      run.steps[index] = { ...run.steps[index], ...changes }
+      onEvent({ journeyId, type: 'step', index, step: { ...run.steps[index] } })
+    }
+
+    const actions: (() => Promise<string | void>)[] = [
+      ...recipe.files.map((file) => async () => this.placeFile(projectPath, worktreePath, file)),
+      ...(request.ports.length > 0
+        ? [async () => this.writePorts(worktreePath, recipe.env_file || DEFAULT_ENV_FILE, portEnv)]
+        : []),
+      ...recipe.commands.map((command) => () => this.runCommand(command, worktreePath, portEnv, output)),
+    ]
+
+    for (let index = 0; index < actions.length; index++) {
+      update(index, { status: 'running' })
+      if (run.steps[index].kind === 'command') {
+        output(`\n$ ${run.steps[index].label}\n`)
+      }
+
+      try {
+        const skipped = await actions[index]()
+        update(index, skipped ? { status: 'skipped', detail: skipped } : { status: 'done' })
+      } catch (error) {
+        update(index, { status: 'failed', detail: error instanceof Error ? error.message : String(error) })
+        // Later steps usually depend on earlier ones (install before build)
+        for (let rest = index + 1; rest < actions.length; rest++) {
+          update(rest, { status: 'skipped', detail: 'An earlier step failed' })
+        }
+        return
+      }
+    }
+  }
+
+  /**
+   * Copy or link one file from the main checkout
+   * Returns a reason when there was nothing to do
+   */
+  private placeFile(projectPath: string, worktreePath: string, file: BootstrapFile): string | void {
+    const source = resolveInside(projectPath, file.path)
+    const target = resolveInside(worktreePath, file.path)
+
+    if (!fs.existsSync(source)) {
+      return 'Not found in the project root'
+    }
+
+    const existing = fs.lstatSync(target, { throwIfNoEntry: false })
+    if (existing && !(file.mode === 'symlink' && existing.isSymbolicLink())) {
+      // Re-runs leave files that were already placed (or edited) alone
+      return 'Already present'
+    }
+
+    fs.mkdirSync(path.dirname(target), { recursive: true })
+    if (file.mode === 'symlink') {
+      if (existing) fs.unlinkSync(target)
+      fs.symlinkSync(source, target)
+    } else {
+      fs.cpSync(source, target, { recursive: true })
+    }
+  }
+
+  private writePorts(worktreePath: string, envFile: string, portEnv: Record<string, string>) {
+    const invalid = Object.keys(portEnv).filter((key) => !ENV_VAR_PATTERN.test(key))
+    if (invalid.length > 0) {
+      throw new Error(`Invalid environment variable name: ${invalid.join(', ')}`)
+    }
+
+    const filePath = resolveInside(worktreePath, envFile)
+    if (fs.lstatSync(filePath, { throwIfNoEntry: false })?.isSymbolicLink()) {
+      // Writing through the link would change the ports of the main checkout
+      throw new Error(`${envFile} is a symlink - copy it instead so ports can differ per worktree`)
+    }
+    upsertEnvVars(filePath, portEnv)
+  }
+
+  /**
+   * Run a setup command in a login shell so the user's PATH (nvm, homebrew) applies
+   */
+  private runCommand(
+    command: string,
+    cwd: string,
+    portEnv: Record<string, string>,
+    output: (text: string) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const shell = process.env.SHELL || '/bin/zsh'
+      const proc = spawn(shell, ['-lc', command], {
+        cwd,
+        env: { ...process.env, ...portEnv },
+      })
+
+      proc.stdout.on('data', (data: Buffer) => output(data.toString()))
+      proc.stderr.on('data', (data: Buffer) => output(data.toString()))
+
+      proc.on('error', reject)
+      proc.on('close', (code) => {
+        if (code === 0) {
+          resolve()
+        } else {
+          reject(new Error(`Exited with code ${code}`))
+        }
+      })
+    })
+  }
+}
+
+// Singleton instance
+let serviceInstance: WorktreeBootstrapService | null = null
+
+export function getWorktreeBootstrapService(): WorktreeBootstrapService {
+  if (!serviceInstance) {
+    serviceInstance = new WorktreeBootstrapService()
+  }
+  return serviceInstance
+}
+
+export { WorktreeBootstrapService }
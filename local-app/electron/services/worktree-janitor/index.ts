@@ -0,0 +1,16 @@
+/**
+ * Worktree Janitor Service - Public API
+ */
+
+export { WorktreeJanitorService, getWorktreeJanitorService } from './worktree-janitor.service'
+
+export type {
+  JanitorJourney,
+  WorktreeFlag,
+  WorktreeEntryKind,
+  WorktreeAuditEntry,
+  WorktreeAuditRequest,
+  WorktreeAudit,
+  WorktreeCleanupRequest,
+  WorktreeCleanupResult,
+} from './types'
@@ -0,0 +1,72 @@
+/**
+ * Types for the worktree janitor
+ */
+
+/**
+ * The journey fields the janitor reconciles against (journeys live in Supabase, so the renderer passes them in)
+ */
+export interface JanitorJourney {
+  id: string
+  name: string
+  stage: string
+  worktreePath: string | null
+  branchName: string | null
+}
+
+/**
+ * merged: the branch is fully contained in the base branch
+ * finished: the journey is deployed or complete
+ * stale: no commits or other branch activity for longer than the stale threshold
+ * orphaned: no journey points at the worktree, branch or directory
+ * missing: a journey points at a worktree that no longer exists
+ */
+export type WorktreeFlag = 'merged' | 'finished' | 'stale' | 'orphaned' | 'missing'
+
+/**
+ * worktree: a registered git worktree
+ * directory: a folder under .worktrees that git doesn't know about
+ * branch: a journey branch with no worktree checked out
+ * journey: a journey whose worktree is gone
+ */
+export type WorktreeEntryKind = 'worktree' | 'directory' | 'branch' | 'journey'
+
+export interface WorktreeAuditEntry {
+  kind: WorktreeEntryKind
+  path: string | null
+  branch: string | null
+  journeyId: string | null
+  journeyName: string | null
+  flags: WorktreeFlag[]
+  /** ISO date the branch was last worked on - null when it has no commits or reflog of its own */
+  lastActivityAt: string | null
+  /** Uncommitted or untracked files - null when they couldn't be read */
+  uncommittedFiles: number | null
+}
+
+export interface WorktreeAuditRequest {
+  projectPath: string
+  journeys: JanitorJourney[]
+  staleDays: number
+}
+
+export interface WorktreeAudit {
+  baseBranch: string
+  entries: WorktreeAuditEntry[]
+}
+
+export interface WorktreeCleanupRequest {
+  projectPath: string
+  entries: WorktreeAuditEntry[]
+  /** Also delete branches - unmerged branches are always kept */
+  deleteBranches: boolean
+  dryRun: boolean
+}
+
+export interface WorktreeCleanupResult {
+  entry: WorktreeAuditEntry
+  /** What was done, or what would be done on a dry run */
+  actions: string[]
+  /** Why the entry was left alone */
+  skipped?: string
+  error?: string
+}
@@ -0,0 +1,408 @@
+/**
+ * Worktree Janitor Service
+ * Reconciles a project's git worktrees, journey branches and .worktrees folders with
+ * its journeys, flags what can go (merged, finished, stale, orphaned, missing) and
+ * cleans up in batches. Anything with uncommitted work, running targets or unmerged
+ * commits is kept.
+ */
+
+import type { SimpleGit } from 'simple-git'
+import * as fs from 'fs'
+import * as path from 'path'
+import { getGitService } from '../git.service'
+import { getProcessSupervisor } from '../process-supervisor'
+import type { TargetProcessStatus } from '../process-supervisor'
+import {
+  JanitorJourney,
+  WorktreeAudit,
+  WorktreeAuditEntry,
+  WorktreeAuditRequest,
+  WorktreeCleanupRequest,
+  WorktreeCleanupResult,
+  WorktreeFlag,
+} from './types'
+
+const JOURNEY_BRANCH_PREFIX = 'journey/'
+
+// Journey stages after which the worktree has no more work to do
+const FINISHED_STAGES = ['deployed', 'complete']
+
+const LIVE_PROCESS_STATUSES: TargetProcessStatus[] = ['starting', 'running', 'ready', 'unhealthy', 'restarting']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Resolve symlinks so paths from git and paths stored on journeys compare equal
+ */
+function normalizePath(value: string): string {
+  const resolved = path.resolve(value)
+  try {
+    return fs.realpathSync(resolved)
+  } catch {
+    return resolved
+  }
+}
+
+/**
+ * Number of uncommitted or untracked files in a checkout, or null when git can't read it
+ */
+async function countUncommittedFiles(checkoutPath: string): Promise<number | null> {
+  try {
+    const status = await getGitService().getGit(checkoutPath).status()
+    return status.files.length
+  } catch {
+    return null
+  }
+}
+
+class WorktreeJanitorService {
+  /**
+   * Compare the project's worktrees and journey branches with its journeys
+   */
+  async audit(request: WorktreeAuditRequest): Promise<WorktreeAudit> {
+    const { projectPath, journeys, staleDays } = request
+    const gitService = getGitService()
+    if (!(await gitService.isGitRepo(projectPath))) {
+      throw new Error('Not a git repository')
+    }
+
+    const git = gitService.getGit(projectPath)
+    const baseBranch = await gitService.getDefaultBranch(projectPath)
+    const baseRef = await gitService.resolveBaseRef(projectPath, baseBranch)
+    const lastActivity = await this.getBranchActivity(git, baseRef)
+    const mergedBranches = await this.getMergedBranches(git, baseBranch, baseRef)
+    const staleBefore = Date.now() - staleDays * DAY_MS
+
+    const journeysByPath = new Map<string, JanitorJourney>()
+    const journeysByBranch = new Map<string, JanitorJourney>()
+    for (const journey of journeys) {
+      if (journey.worktreePath) journeysByPath.set(normalizePath(journey.worktreePath), journey)
+      if (journey.branchName) journeysByBranch.set(journey.branchName, journey)
+    }
+
+    const flagsFor = (journey: JanitorJourney | undefined, branch: string | null): WorktreeFlag[] => {
+      const flags: WorktreeFlag[] = []
+      if (branch && mergedBranches.has(branch)) flags.push('merged')
+      if (journey && FINISHED_STAGES.includes(journey.stage)) flags.push('finished')
+      // Branches with no activity of their own yet are never stale
+      const lastActivityAt = branch ? lastActivity.get(branch) : null
+      if (lastActivityAt && new Date(lastActivityAt).getTime() < staleBefore) flags.push('stale')
+      if (!journey) flags.push('orphaned')
+      return flags
+    }
+
+    const entries: WorktreeAuditEntry[] = []
+    const seenPaths = new Set<string>()
+    const checkedOutBranches = new Set<string>()
+
+    // Registered worktrees, except the main checkout
+    for (const worktree of await gitService.listWorktrees(projectPath)) {
+      if (worktree.isMain) continue
+      const worktreePath = normalizePath(worktree.path)
+      const branch = worktree.branch === 'detached' ? null : worktree.branch
+      const journey = journeysByPath.get(worktreePath) ?? (branch ? journeysByBranch.get(branch) : undefined)
+      seenPaths.add(worktreePath)
+      if (branch) checkedOutBranches.add(branch)
+
+      const exists = fs.existsSync(worktreePath)
+      const flags = flagsFor(journey, branch)
+      // Registered but deleted from disk - git worktree prune clears it
+      if (!exists) flags.push('missing')
+
+      entries.push({
+        kind: 'worktree',
+        path: worktreePath,
+        branch,
+        journeyId: journey?.id ?? null,
+        journeyName: journey?.name ?? null,
+        flags,
+        lastActivityAt: branch ? lastActivity.get(branch) ?? null : null,
+        uncommittedFiles: exists ? await countUncommittedFiles(worktreePath) : 0,
+      })
+    }
+
+    // Folders under .worktrees that git no longer tracks
+    const worktreesDir = path.join(projectPath, '.worktrees')
+    if (fs.existsSync(worktreesDir)) {
+      for (const dirent of fs.readdirSync(worktreesDir, { withFileTypes: true })) {
+        if (!dirent.isDirectory()) continue
+        const dirPath = normalizePath(path.join(worktreesDir, dirent.name))
+        if (seenPaths.has(dirPath)) continue
+        seenPaths.add(dirPath)
+
+        const journey = journeysByPath.get(dirPath)
+        entries.push({
+          kind: 'directory',
+          path: dirPath,
+          branch: null,
+          journeyId: journey?.id ?? null,
+          journeyName: journey?.name ?? null,
+          flags: journey ? ['missing'] : ['orphaned'],
+          lastActivityAt: null,
+          uncommittedFiles: await this.countDirectoryWork(dirPath),
+        })
+      }
+    }
+
+    // Journey branches with nothing checked out
+    for (const [branch, lastActivityAt] of lastActivity) {
+      if (checkedOutBranches.has(branch)) continue
+      const journey = journeysByBranch.get(branch)
+      if (!journey && !branch.startsWith(JOURNEY_BRANCH_PREFIX)) continue
+
+      entries.push({
+        kind: 'branch',
+        path: null,
+        branch,
+        journeyId: journey?.id ?? null,
+        journeyName: journey?.name ?? null,
+        flags: flagsFor(journey, branch),
+        lastActivityAt,
+        uncommittedFiles: 0,
+      })
+    }
+
+    // Journeys pointing at a worktree that is gone
+    for (const [worktreePath, journey] of journeysByPath) {
+      if (seenPaths.has(worktreePath)) continue
+      entries.push({
+        kind: 'journey',
+        path: worktreePath,
+        branch: journey.branchName,
+        journeyId: journey.id,
+        journeyName: journey.name,
+        flags: ['missing'],
+        lastActivityAt: journey.branchName ? lastActivity.get(journey.branchName) ?? null : null,
+        uncommittedFiles: 0,
+      })
+    }
+
+    return { baseBranch, entries }
+  }
+
+  /**
+   * Remove the given entries, or describe what would be removed on a dry run
+   * Every entry is re-checked first - the audit may be out of date.
+   */
+  async cleanup(request: WorktreeCleanupRequest): Promise<WorktreeCleanupResult[]> {
+    const { projectPath, entries, deleteBranches, dryRun } = request
+    const gitService = getGitService()
+    if (!(await gitService.isGitRepo(projectPath))) {
+      throw new Error('Not a git repository')
+    }
+
+    const git = gitService.getGit(projectPath)
+    const baseBranch = await gitService.getDefaultBranch(projectPath)
+    const baseRef = await gitService.resolveBaseRef(projectPath, baseBranch)
+    const results: WorktreeCleanupResult[] = []
+
+    for (const entry of entries) {
+      const result: WorktreeCleanupResult = { entry, actions: [] }
+      results.push(result)
+
+      try {
+        const skipped = await this.checkProtected(projectPath, entry)
+        if (skipped) {
+          result.skipped = skipped
+          continue
+        }
+
+        if (entry.kind === 'worktree' && entry.path) {
+          result.actions.push(`Remove worktree ${entry.path}`)
+          if (!dryRun) {
+            const removed = await gitService.removeWorktree({ projectPath, worktreePath: entry.path })
+            if (!removed.success) throw new Error(removed.error || 'Failed to remove worktree')
+          }
+        } else if (entry.kind === 'directory' && entry.path) {
+          result.actions.push(`Delete folder ${entry.path}`)
+          if (!dryRun) fs.rmSync(entry.path, { recursive: true, force: true })
+        } else if (entry.kind === 'journey') {
+          result.actions.push('Prune the stale worktree record')
+          if (!dryRun) await git.raw(['worktree', 'prune'])
+        }
+
+        if (entry.journeyId && entry.kind !== 'branch') {
+          result.actions.push(`Clear the worktree path on "${entry.journeyName}"`)
+        }
+
+        if (entry.branch && (entry.kind === 'worktree' || entry.kind === 'branch')) {
+          if (!deleteBranches) {
+            if (entry.kind === 'branch') result.skipped = 'Branch deletion is turned off'
+          } else if (await this.isMerged(git, entry.branch, baseRef)) {
+            result.actions.push(`Delete branch ${entry.branch}`)
+            if (!dryRun) await git.raw(['branch', '-D', entry.branch])
+          } else {
+            result.actions.push(`Keep branch ${entry.branch} - it has no merged work on ${baseBranch}`)
+          }
+        }
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Reason an entry must be kept, or null when it is safe to clean up
+   */
+  private async checkProtected(projectPath: string, entry: WorktreeAuditEntry): Promise<string | null> {
+    // Folders are deleted outright, so only one the audit could have listed - directly under
+    // .worktrees and still unknown to git
+    if (entry.kind === 'directory') {
+      if (!entry.path) return 'No folder given'
+      const worktreesDir = normalizePath(path.join(projectPath, '.worktrees'))
+      const dirPath = normalizePath(entry.path)
+      if (path.dirname(dirPath) !== worktreesDir) {
+        return `Not a folder in ${worktreesDir}`
+      }
+      const worktrees = await getGitService().listWorktrees(projectPath)
+      if (worktrees.length === 0) {
+        return 'Could not list the project\'s worktrees'
+      }
+      if (worktrees.some((worktree) => normalizePath(worktree.path) === dirPath)) {
+        return 'Git tracks it as a worktree again - run the audit again'
+      }
+    }
+
+    if (entry.journeyId) {
+      const running = getProcessSupervisor()
+        .getProcesses(entry.journeyId)
+        .filter((info) => LIVE_PROCESS_STATUSES.includes(info.status))
+      if (running.length > 0) {
+        return `${running.map((info) => info.targetName).join(', ')} still running`
+      }
+    }
+
+    if (!entry.path || !fs.existsSync(entry.path) || entry.kind === 'journey') {
+      return null
+    }
+
+    const uncommitted = entry.kind === 'directory'
+      ? await this.countDirectoryWork(entry.path)
+      : await countUncommittedFiles(entry.path)
+    if (uncommitted === null) {
+      return 'Could not confirm it has no uncommitted work - remove it by hand if nothing in it is needed'
+    }
+    if (uncommitted > 0) {
+      return `${uncommitted} uncommitted file${uncommitted === 1 ? '' : 's'}`
+    }
+    return null
+  }
+
+  /**
+   * Uncommitted files in a folder git no longer tracks as a worktree: 0 when empty,
+   * its git status when it is still a checkout of its own, otherwise unknown
+   * (git would otherwise report the status of the project checkout around it)
+   */
+  private async countDirectoryWork(dirPath: string): Promise<number | null> {
+    try {
+      if (fs.readdirSync(dirPath).length === 0) return 0
+      const topLevel = await getGitService().getGit(dirPath).revparse(['--show-toplevel'])
+      if (normalizePath(topLevel) !== dirPath) return null
+    } catch {
+      return null
+    }
+    return countUncommittedFiles(dirPath)
+  }
+
+  /**
+   * When each local branch was last worked on: its newest reflog entry (a commit, reset or
+   * the branch being created), else its newest commit that isn't on the base branch.
+   * The tip's own commit date says nothing - a branch created today from an old base
+   * commit would look abandoned. Null when there is neither.
+   */
+  private async getBranchActivity(git: SimpleGit, baseRef: string): Promise<Map<string, string | null>> {
+    const output = await git.raw(['for-each-ref', '--format=%(refname:short)', 'refs/heads/'])
+    const activity = new Map<string, string | null>()
+
+    for (const branch of output.split('\n').map((line) => line.trim())) {
+      if (!branch) continue
+      let lastActivityAt: string | null = null
+      try {
+        const reflog = await git.raw(['log', '-g', '-1', '--date=iso-strict', '--format=%gd', `refs/heads/${branch}`])
+        lastActivityAt = reflog.match(/@\{(.+)\}$/)?.[1] ?? null
+      } catch {
+        // No reflog - fall back to the branch's own commits
+      }
+      if (!lastActivityAt) {
+        try {
+          lastActivityAt = (await git.raw(['log', '-1', '--format=%cI', `${baseRef}..refs/heads/${branch}`])).trim() || null
+        } catch {
+          lastActivityAt = null
+        }
+      }
+      activity.set(branch, lastActivityAt)
+    }
+    return activity
+  }
+
+  /**
+   * Journey branches that were worked on and are now contained in the base branch
+   */
+  private async getMergedBranches(git: SimpleGit, baseBranch: string, baseRef: string): Promise<Set<string>> {
+    const merged = new Set<string>()
+    let output: string
+    try {
+      output = await git.raw(['branch', '--merged', baseRef, '--format=%(refname:short)'])
+    } catch {
+      return merged
+    }
+
+    for (const branch of output.split('\n').map((line) => line.trim())) {
+      if (!branch || branch === baseBranch) continue
+      if (await this.hasBeenWorkedOn(git, branch)) merged.add(branch)
+    }
+    return merged
+  }
+
+  /**
+   * A branch nobody has committed to yet is also contained in the base branch, so it only
+   * counts as worked on once its reflog shows a change after it was created
+   */
+  private async hasBeenWorkedOn(git: SimpleGit, branch: string): Promise<boolean> {
+    try {
+      const reflog = await git.raw(['reflog', 'show', '--format=%H', `refs/heads/${branch}`])
+      return reflog.trim().split('\n').length > 1
+    } catch {
+      // No reflog - can't tell merged from untouched
+      return false
+    }
+  }
+
+  /**
+   * Whether the branch was worked on and deleting it loses no commits
+   */
+  private async isMerged(git: SimpleGit, branch: string, baseRef: string): Promise<boolean> {
+    if (!(await this.hasBeenWorkedOn(git, branch))) return false
+
+    // simple-git only rejects when git writes to stderr, so exit-code checks like
+    // merge-base --is-ancestor can't be used here
+    try {
+      const output = await git.raw([
+        'branch',
+        '--merged',
+        baseRef,
+        '--list',
+        branch,
+        '--format=%(refname:short)',
+      ])
+      return output.trim() === branch
+    } catch {
+      return false
+    }
+  }
+
+}
+
+// Singleton instance
+let serviceInstance: WorktreeJanitorService | null = null
+
+export function getWorktreeJanitorService(): WorktreeJanitorService {
+  if (!serviceInstance) {
+    serviceInstance = new WorktreeJanitorService()
+  }
+  return serviceInstance
+}
+
+export { WorktreeJanitorService }
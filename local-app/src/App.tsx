@@ -1,11 +1,28 @@
+import { useEffect } from 'react'
 import { Layout } from './components/layout/Layout'
 import { HistoryTab } from './components/history/HistoryTab'
 import { TranscriptionsTab } from './components/transcriptions'
 import { ProjectsTab } from './components/projects'
 import { JourneysTab } from './components/journeys'
+import { AiActivityTab } from './components/ai-activity'
+import { PromptsTab } from './components/prompts'
 import { SpeechToText } from './components/SpeechToText'
+import { subscribeToWorktreeBootstrapEvents } from './stores/worktreeBootstrapStore'
+import { subscribeToConflictEvents } from './stores/conflictStore'
 
 function App() {
+  // Worktree setup progress shown on journey cards
+  useEffect(() => {
+    if (!window.electronAPI?.worktreeBootstrap) return
+    return subscribeToWorktreeBootstrapEvents()
+  }, [])
+
+  // Conflict warnings shown on journey cards
+  useEffect(() => {
+    if (!window.electronAPI?.conflicts) return
+    return subscribeToConflictEvents()
+  }, [])
+
   return (
     <>
       <Layout>
@@ -31,6 +48,10 @@ function App() {
               return <ProjectsTab />
             case 'journeys':
               return <JourneysTab />
+            case 'ai-activity':
+              return <AiActivityTab />
+            case 'prompts':
+              return <PromptsTab />
             default:
               return null
           }
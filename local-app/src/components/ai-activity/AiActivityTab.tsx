@@ -0,0 +1,158 @@
+import { useEffect, useMemo } from 'react'
+import { useAiActivityStore } from '../../stores/aiActivityStore'
+import { useProjects } from '../../hooks/useProjects'
+import { useJourneys } from '../../hooks/useJourneys'
+import { Button } from '../common/Button'
+import { AiPromptStatsTable } from './AiPromptStatsTable'
+import { AiCallList } from './AiCallList'
+import { AiCallDetail } from './AiCallDetail'
+
+const selectClassName =
+  'px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+
+export function AiActivityTab() {
+  const {
+    entries,
+    stats,
+    filter,
+    selectedEntry,
+    compareEntry,
+    isLoading,
+    isRerunning,
+    error,
+    load,
+    setFilter,
+    selectEntry,
+    setCompareEntry,
+    rerun,
+    clearLog,
+  } = useAiActivityStore()
+  const { projects } = useProjects()
+  const { journeys } = useJourneys(filter.projectId)
+
+  // Load on mount
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // Other runs of the selected prompt, for diffing
+  const otherRuns = useMemo(() => {
+    if (!selectedEntry) return []
+    return entries.filter(
+      (e) =>
+        e.id !== selectedEntry.id &&
+        e.promptName === selectedEntry.promptName &&
+        (selectedEntry.promptName !== undefined || e.prompt === selectedEntry.prompt)
+    )
+  }, [entries, selectedEntry])
+
+  const handleClear = () => {
+    if (window.confirm('Delete all logged AI calls?')) {
+      clearLog()
+    }
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Error banner */}
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/50 border-b border-red-300 dark:border-red-700 px-4 py-2 text-sm text-red-700 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2">
+        <select
+          value={filter.projectId ?? ''}
+          onChange={(e) => setFilter({ projectId: e.target.value || undefined, journeyId: undefined })}
+          className={selectClassName}
+        >
+          <option value="">All projects</option>
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <select
+          value={filter.journeyId ?? ''}
+          onChange={(e) => setFilter({ journeyId: e.target.value || undefined })}
+          className={selectClassName}
+        >
+          <option value="">All journeys</option>
+          {journeys.map((j) => (
+            <option key={j.id} value={j.id}>{j.name}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={!!filter.failuresOnly}
+            onChange={(e) => setFilter({ failuresOnly: e.target.checked })}
+          />
+          Failures only
+        </label>
+        {filter.promptName && (
+          <button
+            onClick={() => setFilter({ promptName: undefined })}
+            className="px-2 py-0.5 text-xs rounded bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300"
+          >
+            {filter.promptName} ×
+          </button>
+        )}
+        <div className="flex-1" />
+        <Button variant="ghost" size="sm" onClick={load} disabled={isLoading}>
+          Refresh
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleClear}>
+          Clear log
+        </Button>
+      </div>
+
+      {/* Per-prompt stats */}
+      {stats.length > 0 && (
+        <div className="max-h-48 overflow-auto border-b border-gray-200 dark:border-gray-700">
+          <AiPromptStatsTable
+            stats={stats}
+            selectedPromptName={filter.promptName}
+            onSelectPrompt={(promptName) => setFilter({ promptName })}
+          />
+        </div>
+      )}
+
+      {/* Main content area */}
+      <div className="flex-1 flex overflow-hidden">
+        <div className="w-80 border-r border-gray-200 dark:border-gray-700 overflow-hidden flex flex-col">
+          <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              AI Calls{' '}
+              {entries.length > 0 && <span className="text-gray-500">({entries.length})</span>}
+            </h3>
+          </div>
+          <AiCallList
+            entries={entries}
+            selectedId={selectedEntry?.id ?? null}
+            onSelect={selectEntry}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col bg-white dark:bg-gray-900">
+          {selectedEntry ? (
+            <AiCallDetail
+              entry={selectedEntry}
+              otherRuns={otherRuns}
+              compareEntry={compareEntry}
+              onCompare={setCompareEntry}
+              onRerun={() => rerun(selectedEntry.id)}
+              isRerunning={isRerunning}
+            />
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
+              <p>Select a call to inspect, diff or re-run it</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
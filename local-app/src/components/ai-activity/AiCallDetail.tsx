@@ -0,0 +1,118 @@
+import { ReactNode } from 'react'
+import { Button } from '../common/Button'
+import { AiRunDiff } from './AiRunDiff'
+import { outcomeStyles } from './AiCallList'
+import type { AiRequestLogEntry } from '../../types/aiLog'
+
+interface AiCallDetailProps {
+  entry: AiRequestLogEntry
+  /** Other logged runs of the same prompt, newest first */
+  otherRuns: AiRequestLogEntry[]
+  compareEntry: AiRequestLogEntry | null
+  onCompare: (entry: AiRequestLogEntry | null) => void
+  onRerun: () => void
+  isRerunning: boolean
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="mb-4">
+      <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{title}</h4>
+      {children}
+    </div>
+  )
+}
+
+function TextBlock({ text }: { text: string }) {
+  return (
+    <pre className="max-h-80 overflow-auto p-2 text-xs font-mono whitespace-pre-wrap border border-gray-200 dark:border-gray-700 rounded bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200">
+      {text}
+    </pre>
+  )
+}
+
+export function AiCallDetail({ entry, otherRuns, compareEntry, onCompare, onRerun, isRerunning }: AiCallDetailProps) {
+  const outcome = outcomeStyles[entry.parseOutcome]
+
+  return (
+    <div className="flex-1 overflow-auto p-4">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-mono font-semibold text-gray-900 dark:text-white">
+              {entry.promptName ?? 'Ad hoc prompt'}
+            </h3>
+            <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${outcome.className}`}>{outcome.label}</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {new Date(entry.timestamp).toLocaleString()} · {(entry.durationMs / 1000).toFixed(1)}s · {entry.provider}
+            {entry.promptVersion && ` · template ${entry.promptVersion}`}
+            {entry.cached && ' · from cache'}
+            {entry.retryCount > 0 && ` · ${entry.retryCount} repair attempt${entry.retryCount === 1 ? '' : 's'}`}
+            {entry.workingDirectory && ` · ${entry.workingDirectory}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {otherRuns.length > 0 && (
+            <select
+              value={compareEntry?.id ?? ''}
+              onChange={(e) => onCompare(otherRuns.find((run) => run.id === e.target.value) ?? null)}
+              className="px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+            >
+              <option value="">Diff against...</option>
+              {otherRuns.map((run) => (
+                <option key={run.id} value={run.id}>
+                  {new Date(run.timestamp).toLocaleString()} ({outcomeStyles[run.parseOutcome].label})
+                </option>
+              ))}
+            </select>
+          )}
+          <Button size="sm" onClick={onRerun} disabled={isRerunning}>
+            {isRerunning ? 'Running...' : 'Re-run'}
+          </Button>
+        </div>
+      </div>
+
+      {compareEntry ? (
+        <Section title={`Diff: ${new Date(compareEntry.timestamp).toLocaleString()} → this run`}>
+          <AiRunDiff before={compareEntry} after={entry} />
+        </Section>
+      ) : (
+        <>
+          {entry.error && (
+            <Section title="Error">
+              <div className="p-2 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-300">
+                {entry.error}
+              </div>
+            </Section>
+          )}
+
+          {entry.validationErrors && entry.validationErrors.length > 0 && (
+            <Section title="Validation errors">
+              <ul className="text-xs font-mono list-disc list-inside text-amber-700 dark:text-amber-300">
+                {entry.validationErrors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </Section>
+          )}
+
+          <Section title="Output">
+            <TextBlock text={entry.rawOutput || '(no output)'} />
+          </Section>
+
+          {entry.promptInputs && (
+            <Section title="Inputs">
+              <TextBlock text={JSON.stringify(entry.promptInputs, null, 2)} />
+            </Section>
+          )}
+
+          <Section title="Prompt">
+            <TextBlock text={entry.prompt} />
+          </Section>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import type { AiRequestLogEntry, AiParseOutcome } from '../../types/aiLog'
+
+interface AiCallListProps {
+  entries: AiRequestLogEntry[]
+  selectedId: string | null
+  onSelect: (entry: AiRequestLogEntry) => void
+  isLoading: boolean
+}
+
+export const outcomeStyles: Record<AiParseOutcome, { label: string; className: string }> = {
+  parsed: { label: 'Parsed', className: 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300' },
+  text: { label: 'Text', className: 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300' },
+  invalid: { label: 'Invalid', className: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300' },
+  unparseable: { label: 'Not JSON', className: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300' },
+  error: { label: 'Error', className: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300' },
+}
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+export function AiCallList({ entries, selectedId, onSelect, isLoading }: AiCallListProps) {
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="flex-1 overflow-auto p-2">
+        {[1, 2, 3, 4].map((i) => (
+          <div key={i} className="p-3 mb-2 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse">
+            <div className="h-4 w-1/2 bg-gray-200 dark:bg-gray-700 rounded mb-2" />
+            <div className="h-3 w-1/3 bg-gray-200 dark:bg-gray-700 rounded" />
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400 text-sm p-4 text-center">
+        No AI calls logged yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      {entries.map((entry) => {
+        const outcome = outcomeStyles[entry.parseOutcome]
+        return (
+          <button
+            key={entry.id}
+            onClick={() => onSelect(entry)}
+            className={`w-full text-left px-3 py-2 border-b border-gray-100 dark:border-gray-800 transition-colors ${
+              selectedId === entry.id
+                ? 'bg-blue-50 dark:bg-gray-700'
+                : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-mono text-gray-800 dark:text-gray-200 truncate">
+                {entry.promptName ?? 'ad hoc'}
+              </span>
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${outcome.className}`}>
+                {outcome.label}
+              </span>
+            </div>
+            <div className="mt-0.5 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>{formatTime(entry.timestamp)}</span>
+              <span>{(entry.durationMs / 1000).toFixed(1)}s</span>
+              {entry.retryCount > 0 && <span>{entry.retryCount} repair{entry.retryCount === 1 ? '' : 's'}</span>}
+              {entry.cached && <span className="text-purple-500">cached</span>}
+              {entry.replayOf && <span className="text-blue-500">re-run</span>}
+            </div>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
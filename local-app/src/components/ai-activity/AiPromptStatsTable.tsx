@@ -0,0 +1,67 @@
+import type { AiPromptStats } from '../../types/aiLog'
+
+interface AiPromptStatsTableProps {
+  stats: AiPromptStats[]
+  selectedPromptName?: string
+  onSelectPrompt: (promptName: string | undefined) => void
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
+export function AiPromptStatsTable({ stats, selectedPromptName, onSelectPrompt }: AiPromptStatsTableProps) {
+  if (stats.length === 0) {
+    return null
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="px-3 py-1.5 font-medium">Prompt</th>
+          <th className="px-3 py-1.5 font-medium text-right">Calls</th>
+          <th className="px-3 py-1.5 font-medium text-right">Median latency</th>
+          <th className="px-3 py-1.5 font-medium text-right">Failure rate</th>
+        </tr>
+      </thead>
+      <tbody>
+        {stats.map((row) => {
+          const name = row.promptName ?? undefined
+          const isSelected = selectedPromptName !== undefined && selectedPromptName === name
+          // Flag prompts that fail often enough to be worth reworking
+          const failureClass = row.failureRate >= 0.2
+            ? 'text-red-600 dark:text-red-400 font-medium'
+            : row.failureRate > 0
+              ? 'text-amber-600 dark:text-amber-400'
+              : 'text-gray-600 dark:text-gray-300'
+
+          return (
+            <tr
+              key={row.promptName ?? '(ad hoc)'}
+              onClick={() => name && onSelectPrompt(isSelected ? undefined : name)}
+              className={`border-t border-gray-100 dark:border-gray-800 ${
+                name ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50' : ''
+              } ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+            >
+              <td className="px-3 py-1.5 font-mono text-gray-800 dark:text-gray-200">
+                {row.promptName ?? <span className="italic text-gray-400">(ad hoc)</span>}
+              </td>
+              <td className="px-3 py-1.5 text-right text-gray-600 dark:text-gray-300">
+                {row.count}
+                {row.cancelled > 0 && <span className="text-gray-400"> ({row.cancelled} cancelled)</span>}
+              </td>
+              <td className="px-3 py-1.5 text-right text-gray-600 dark:text-gray-300">
+                {formatMs(row.medianDurationMs)}
+              </td>
+              <td className={`px-3 py-1.5 text-right ${failureClass}`}>
+                {(row.failureRate * 100).toFixed(0)}%
+                <span className="text-gray-400 font-normal"> ({row.failures})</span>
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
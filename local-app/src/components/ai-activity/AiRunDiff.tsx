@@ -0,0 +1,58 @@
+import { useMemo, useState } from 'react'
+import { diffLines } from '../../lib/lineDiff'
+import type { AiRequestLogEntry } from '../../types/aiLog'
+
+interface AiRunDiffProps {
+  before: AiRequestLogEntry
+  after: AiRequestLogEntry
+}
+
+type DiffField = 'rawOutput' | 'prompt'
+
+const lineStyles = {
+  same: 'text-gray-600 dark:text-gray-400',
+  added: 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  removed: 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+}
+
+const linePrefix = { same: ' ', added: '+', removed: '-' }
+
+export function AiRunDiff({ before, after }: AiRunDiffProps) {
+  const [field, setField] = useState<DiffField>('rawOutput')
+
+  const lines = useMemo(
+    () => diffLines(before[field] ?? '', after[field] ?? ''),
+    [before, after, field]
+  )
+  const changed = lines.filter((line) => line.type !== 'same').length
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="flex items-center gap-2 mb-2">
+        {(['rawOutput', 'prompt'] as DiffField[]).map((f) => (
+          <button
+            key={f}
+            onClick={() => setField(f)}
+            className={`px-2 py-1 text-xs rounded transition-colors ${
+              field === f
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {f === 'rawOutput' ? 'Output' : 'Prompt'}
+          </button>
+        ))}
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {changed === 0 ? 'Identical' : `${changed} changed line${changed === 1 ? '' : 's'}`}
+        </span>
+      </div>
+      <pre className="flex-1 overflow-auto text-xs font-mono border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-gray-900">
+        {lines.map((line, index) => (
+          <div key={index} className={`px-2 whitespace-pre-wrap ${lineStyles[line.type]}`}>
+            {linePrefix[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+export { AiActivityTab } from './AiActivityTab'
+export { AiCallList } from './AiCallList'
+export { AiCallDetail } from './AiCallDetail'
+export { AiRunDiff } from './AiRunDiff'
+export { AiPromptStatsTable } from './AiPromptStatsTable'
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react'
+import type { ClaudeStreamState } from '../../stores/claudeCliStore'
+
+interface StreamingProgressProps {
+  stream: ClaudeStreamState | null
+  label?: string
+}
+
+// Only the tail of long outputs is rendered to keep re-renders cheap
+const MAX_VISIBLE_CHARS = 4000
+
+export function StreamingProgress({ stream, label = 'Claude is working...' }: StreamingProgressProps) {
+  const outputRef = useRef<HTMLPreElement>(null)
+
+  // Keep the newest tokens in view
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight
+    }
+  }, [stream?.text])
+
+  if (!stream) return null
+
+  const visibleText = stream.text.length > MAX_VISIBLE_CHARS
+    ? '…' + stream.text.slice(-MAX_VISIBLE_CHARS)
+    : stream.text
+
+  return (
+    <div className="mb-3 border border-blue-200 dark:border-blue-800 rounded-md bg-blue-50 dark:bg-blue-900/20">
+      <div className="flex items-center gap-2 px-3 py-2 text-xs text-blue-700 dark:text-blue-300">
+        <div className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+        <span className="font-medium">
+          {stream.currentTool ? `Running ${stream.currentTool}...` : label}
+        </span>
+        {stream.toolCalls > 0 && (
+          <span className="ml-auto text-blue-500 dark:text-blue-400">
+            {stream.toolCalls} tool call{stream.toolCalls !== 1 ? 's' : ''}
+            {stream.toolErrors > 0 && ` (${stream.toolErrors} failed)`}
+          </span>
+        )}
+      </div>
+      {visibleText && (
+        <pre
+          ref={outputRef}
+          className="max-h-40 overflow-y-auto px-3 pb-2 text-xs font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words"
+        >
+          {visibleText}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -62,7 +62,7 @@ function Toast({ toast, onDismiss }: ToastProps) {
       }`}
     >
       {icon}
-      <p className="text-sm text-gray-800 dark:text-white flex-1">{toast.message}</p>
+      <p className="text-sm text-gray-800 dark:text-white flex-1 whitespace-pre-line">{toast.message}</p>
       <button
         onClick={() => onDismiss(toast.id)}
         className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-white transition-colors"
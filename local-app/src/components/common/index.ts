@@ -1,3 +1,4 @@
 export { Button } from './Button'
 export { Modal } from './Modal'
 export { Input } from './Input'
+export { StreamingProgress } from './StreamingProgress'
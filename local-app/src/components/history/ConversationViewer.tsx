@@ -5,22 +5,26 @@ import type { ClaudeMessage } from '../../types/history'
 interface ConversationViewerProps {
   messages: ClaudeMessage[]
   isLoading: boolean
+  // Message to scroll to and words to highlight, e.g. from a history search hit
+  focusedMessage?: { index: number; terms: string[] } | null
 }
 
 interface MessageBubbleProps {
   message: ClaudeMessage
-  searchQuery: string
+  highlightTerms: string[]
   isCurrentMatch: boolean
   matchRef?: React.RefObject<HTMLDivElement>
 }
 
-function highlightText(text: string, query: string, isCurrentMatch: boolean): React.ReactNode {
-  if (!query) return text
+function highlightText(text: string, terms: string[], isCurrentMatch: boolean): React.ReactNode {
+  const active = terms.filter(Boolean)
+  if (active.length === 0) return text
 
-  const parts = text.split(new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi'))
+  const pattern = active.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')
+  const parts = text.split(new RegExp(`(${pattern})`, 'gi'))
 
   return parts.map((part, i) => {
-    if (part.toLowerCase() === query.toLowerCase()) {
+    if (active.some((term) => part.toLowerCase() === term.toLowerCase())) {
       return (
         <mark
           key={i}
@@ -89,7 +93,7 @@ function formatToolInput(input?: Record<string, unknown>): string {
   }
 }
 
-function MessageBubble({ message, searchQuery, isCurrentMatch, matchRef }: MessageBubbleProps) {
+function MessageBubble({ message, highlightTerms, isCurrentMatch, matchRef }: MessageBubbleProps) {
   const isUser = message.type === 'user'
   const isToolResult = message.type === 'tool_result'
 
@@ -182,7 +186,7 @@ function MessageBubble({ message, searchQuery, isCurrentMatch, matchRef }: Messa
           {/* Text content */}
           {textContent && (
             <div className="text-sm text-gray-300 whitespace-pre-wrap break-words">
-              {highlightText(textContent, searchQuery, isCurrentMatch)}
+              {highlightText(textContent, highlightTerms, isCurrentMatch)}
             </div>
           )}
 
@@ -218,7 +222,7 @@ function MessageBubble({ message, searchQuery, isCurrentMatch, matchRef }: Messa
   )
 }
 
-export function ConversationViewer({ messages, isLoading }: ConversationViewerProps) {
+export function ConversationViewer({ messages, isLoading, focusedMessage }: ConversationViewerProps) {
   const parentRef = useRef<HTMLDivElement>(null)
   const searchInputRef = useRef<HTMLInputElement>(null)
   const currentMatchRef = useRef<HTMLDivElement>(null)
@@ -297,6 +301,13 @@ export function ConversationViewer({ messages, isLoading }: ConversationViewerPr
     }
   }, [currentMatchIndex, matchingMessages])
 
+  // Scroll to the focused message once its session has loaded
+  useEffect(() => {
+    if (focusedMessage && focusedMessage.index < messages.length) {
+      virtualizer.scrollToIndex(focusedMessage.index, { align: 'center' })
+    }
+  }, [focusedMessage, messages])
+
   const virtualizer = useVirtualizer({
     count: messages.length,
     getScrollElement: () => parentRef.current,
@@ -328,7 +339,8 @@ export function ConversationViewer({ messages, isLoading }: ConversationViewerPr
     )
   }
 
-  const currentMatchMessageIndex = matchingMessages[currentMatchIndex]
+  const currentMatchMessageIndex = searchQuery ? matchingMessages[currentMatchIndex] : focusedMessage?.index
+  const highlightTerms = searchQuery ? [searchQuery] : focusedMessage?.terms ?? []
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden">
@@ -419,7 +431,7 @@ export function ConversationViewer({ messages, isLoading }: ConversationViewerPr
               >
                 <MessageBubble
                   message={message}
-                  searchQuery={searchQuery}
+                  highlightTerms={highlightTerms}
                   isCurrentMatch={isCurrentMatch}
                   matchRef={isCurrentMatch ? currentMatchRef : undefined}
                 />
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react'
+import type {
+  ClaudeProject,
+  HistoryIndexStatus,
+  HistoryMessageRole,
+  HistorySearchHit,
+  HistorySearchQuery,
+  HistorySearchResult,
+} from '../../types/history'
+
+interface HistorySearchPanelProps {
+  projects: ClaudeProject[]
+  result: HistorySearchResult | null
+  status: HistoryIndexStatus | null
+  isSearching: boolean
+  // Open session and focused message, to mark the hit being viewed
+  selectedFilePath: string | null
+  focusedIndex: number | null
+  onSearch: (query: HistorySearchQuery) => void
+  onOpenHit: (hit: HistorySearchHit) => void
+  onRebuild: () => void
+  onLoadStatus: () => void
+}
+
+const COMMON_TOOLS = ['Bash', 'Read', 'Edit', 'Write', 'Grep', 'Glob', 'Task', 'WebFetch']
+
+const ROLE_LABELS: Record<HistoryMessageRole, string> = {
+  user: 'You',
+  assistant: 'Claude',
+  tool_result: 'Tool result',
+}
+
+const inputClass =
+  'w-full px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-800 dark:text-gray-200 focus:outline-none focus:border-blue-500'
+
+function HighlightedSnippet({ hit }: { hit: HistorySearchHit }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  hit.highlights.forEach(([start, end], i) => {
+    if (start > position) parts.push(hit.snippet.slice(position, start))
+    parts.push(
+      <mark key={i} className="bg-yellow-300 text-gray-900 rounded px-0.5">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    )
+    position = end
+  })
+  parts.push(hit.snippet.slice(position))
+  return <>{parts}</>
+}
+
+function hitKey(hit: HistorySearchHit) {
+  return `${hit.filePath}:${hit.messageIndex}`
+}
+
+/**
+ * Search every Claude Code session at once, with filters
+ */
+export function HistorySearchPanel({
+  projects,
+  result,
+  status,
+  isSearching,
+  selectedFilePath,
+  focusedIndex,
+  onSearch,
+  onOpenHit,
+  onRebuild,
+  onLoadStatus,
+}: HistorySearchPanelProps) {
+  const [text, setText] = useState('')
+  const [projectId, setProjectId] = useState('')
+  const [gitBranch, setGitBranch] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [tool, setTool] = useState('')
+  const [role, setRole] = useState<HistoryMessageRole | ''>('')
+
+  useEffect(() => {
+    onLoadStatus()
+  }, [onLoadStatus])
+
+  const handleSearch = () => {
+    onSearch({
+      text: text.trim() || undefined,
+      projectId: projectId || undefined,
+      gitBranch: gitBranch.trim() || undefined,
+      // Date inputs are local days - cover the whole of each
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+      tool: tool.trim() || undefined,
+      role: role || undefined,
+    })
+  }
+
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? id
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <form
+        className="p-3 space-y-2 border-b border-gray-200 dark:border-gray-700"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSearch()
+        }}
+      >
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Search all sessions..."
+          autoFocus
+          className="w-full px-3 py-1.5 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-800 dark:text-gray-200 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          <select value={role} onChange={(e) => setRole(e.target.value as HistoryMessageRole | '')} className={inputClass}>
+            <option value="">Any role</option>
+            {(Object.keys(ROLE_LABELS) as HistoryMessageRole[]).map((r) => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+          <input value={gitBranch} onChange={(e) => setGitBranch(e.target.value)} placeholder="Branch" className={inputClass} />
+          <input value={tool} onChange={(e) => setTool(e.target.value)} placeholder="Tool" list="history-search-tools" className={inputClass} />
+          <datalist id="history-search-tools">
+            {COMMON_TOOLS.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} title="From" className={inputClass} />
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} title="To" className={inputClass} />
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="submit"
+            disabled={isSearching}
+            className="px-3 py-1 text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors disabled:opacity-50"
+          >
+            {isSearching ? 'Searching...' : 'Search'}
+          </button>
+          <span className="flex-1 text-xs text-gray-500 truncate">
+            {status && `${status.messages.toLocaleString()} messages in ${status.sessions} sessions`}
+          </span>
+          <button
+            type="button"
+            onClick={onRebuild}
+            disabled={isSearching}
+            className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+            title="Re-read every session from scratch"
+          >
+            Rebuild index
+          </button>
+        </div>
+      </form>
+
+      <div className="flex-1 overflow-auto">
+        {result && (
+          <p className="px-3 py-2 text-xs text-gray-500">
+            {result.total === 0
+              ? 'No matches'
+              : result.total > result.hits.length
+                ? `Top ${result.hits.length} of ${result.total} matches`
+                : `${result.total} ${result.total === 1 ? 'match' : 'matches'}`}
+          </p>
+        )}
+        {result?.hits.map((hit) => {
+          const isSelected = hit.filePath === selectedFilePath && hit.messageIndex === focusedIndex
+          return (
+            <button
+              key={hitKey(hit)}
+              onClick={() => onOpenHit(hit)}
+              className={`w-full text-left px-3 py-2 border-b border-gray-100 dark:border-gray-800 transition-colors ${
+                isSelected ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                <span className="font-medium text-gray-700 dark:text-gray-300 truncate">{projectName(hit.projectId)}</span>
+                <span className="font-mono truncate">{hit.gitBranch}</span>
+                <span className="ml-auto shrink-0">{new Date(hit.timestamp).toLocaleDateString()}</span>
+              </div>
+              <div className="text-xs text-gray-700 dark:text-gray-300 break-words">
+                <span className="text-gray-400 mr-1">{ROLE_LABELS[hit.role]}:</span>
+                <HighlightedSnippet hit={hit} />
+              </div>
+              {(hit.toolNames.length > 0 || hit.filePaths.length > 0) && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {hit.toolNames.map((name) => (
+                    <span key={name} className="text-[10px] font-mono bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 px-1 rounded">
+                      {name}
+                    </span>
+                  ))}
+                  {hit.filePaths.slice(0, 2).map((filePath) => (
+                    <span key={filePath} className="text-[10px] font-mono text-gray-500 truncate max-w-full" title={filePath}>
+                      {filePath.split('/').slice(-2).join('/')}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
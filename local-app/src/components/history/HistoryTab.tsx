@@ -1,8 +1,10 @@
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useHistoryStore } from '../../stores/historyStore'
 import { ProjectTabs } from './ProjectTabs'
 import { SessionList } from './SessionList'
 import { ConversationViewer } from './ConversationViewer'
+import { HistorySearchPanel } from './HistorySearchPanel'
+import { UsageAnalyticsPanel } from './UsageAnalyticsPanel'
 
 export function HistoryTab() {
   const {
@@ -20,7 +22,20 @@ export function HistoryTab() {
     selectSession,
     openTerminal,
     openSessionInFinder,
+    searchResult,
+    searchStatus,
+    isSearching,
+    focusedMessage,
+    search,
+    loadSearchStatus,
+    rebuildSearchIndex,
+    openSearchHit,
+    usage,
+    isLoadingUsage,
+    loadUsage,
   } = useHistoryStore()
+  const [showSearch, setShowSearch] = useState(false)
+  const [showUsage, setShowUsage] = useState(false)
 
   // Load projects on mount
   useEffect(() => {
@@ -55,65 +70,105 @@ export function HistoryTab() {
       />
 
       {/* Main content area */}
-      <div className="flex-1 flex overflow-hidden">
-        {/* Session list */}
-        <div className="w-80 border-r border-gray-200 dark:border-gray-700 overflow-hidden flex flex-col">
-          <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
-            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
-              Sessions {sessions.length > 0 && `(${sessions.length})`}
-            </h3>
+      {showUsage ? (
+        <UsageAnalyticsPanel
+          projects={projects}
+          usage={usage}
+          isLoading={isLoadingUsage}
+          onLoad={loadUsage}
+          onClose={() => setShowUsage(false)}
+        />
+      ) : (
+        <div className="flex-1 flex overflow-hidden">
+          {/* Session list */}
+          <div className={`${showSearch ? 'w-96' : 'w-80'} border-r border-gray-200 dark:border-gray-700 overflow-hidden flex flex-col`}>
+            <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                {showSearch ? 'Search all sessions' : <>Sessions {sessions.length > 0 && `(${sessions.length})`}</>}
+              </h3>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setShowUsage(true)}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Usage
+                </button>
+                <button
+                  onClick={() => setShowSearch(!showSearch)}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {showSearch ? 'Back to sessions' : 'Search'}
+                </button>
+              </div>
+            </div>
+            {showSearch ? (
+              <HistorySearchPanel
+                projects={projects}
+                result={searchResult}
+                status={searchStatus}
+                isSearching={isSearching}
+                selectedFilePath={selectedSession?.filePath ?? null}
+                focusedIndex={focusedMessage?.index ?? null}
+                onSearch={search}
+                onOpenHit={openSearchHit}
+                onRebuild={rebuildSearchIndex}
+                onLoadStatus={loadSearchStatus}
+              />
+            ) : (
+              <SessionList
+                sessions={sessions}
+                selectedSession={selectedSession}
+                onSelectSession={selectSession}
+                isLoading={isLoadingSessions}
+                projects={projects}
+              />
+            )}
           </div>
-          <SessionList
-            sessions={sessions}
-            selectedSession={selectedSession}
-            onSelectSession={selectSession}
-            isLoading={isLoadingSessions}
-            projects={projects}
-          />
-        </div>
 
-        {/* Conversation viewer */}
-        <div className="flex-1 overflow-hidden flex flex-col">
-          {selectedSession ? (
-            <>
-              <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex items-center justify-between">
-                <div>
+          {/* Conversation viewer */}
+          <div className="flex-1 overflow-hidden flex flex-col">
+            {selectedSession ? (
+              <>
+                <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex items-center justify-between">
+                  <div>
+                    <button
+                      onClick={() => {
+                        console.log('Opening in Finder:', selectedSession.filePath)
+                        openSessionInFinder(selectedSession.filePath)
+                      }}
+                      className="text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 hover:underline cursor-pointer transition-colors flex items-center gap-1.5"
+                      title="Open in Finder"
+                    >
+                      {selectedSession.id.split('-').slice(0, 3).join('-')}
+                      <svg className="w-3.5 h-3.5 opacity-60 group-hover:opacity-100" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                      </svg>
+                    </button>
+                    <p className="text-xs text-gray-500">
+                      {selectedSession.messageCount || messages.length} messages • {selectedSession.gitBranch}
+                    </p>
+                  </div>
                   <button
-                    onClick={() => {
-                      console.log('Opening in Finder:', selectedSession.filePath)
-                      openSessionInFinder(selectedSession.filePath)
-                    }}
-                    className="text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 hover:underline cursor-pointer transition-colors flex items-center gap-1.5"
-                    title="Open in Finder"
+                    onClick={handleOpenTerminal}
+                    className="px-3 py-1.5 text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors"
                   >
-                    {selectedSession.id.split('-').slice(0, 3).join('-')}
-                    <svg className="w-3.5 h-3.5 opacity-60 group-hover:opacity-100" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                    </svg>
+                    Open Terminal
                   </button>
-                  <p className="text-xs text-gray-500">
-                    {selectedSession.messageCount} messages • {selectedSession.gitBranch}
-                  </p>
                 </div>
-                <button
-                  onClick={handleOpenTerminal}
-                  className="px-3 py-1.5 text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors"
-                >
-                  Open Terminal
-                </button>
+                <ConversationViewer
+                  messages={messages}
+                  isLoading={isLoadingMessages}
+                  focusedMessage={focusedMessage}
+                />
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-gray-500">
+                <p>Select a session to view the conversation</p>
               </div>
-              <ConversationViewer
-                messages={messages}
-                isLoading={isLoadingMessages}
-              />
-            </>
-          ) : (
-            <div className="flex-1 flex items-center justify-center text-gray-500">
-              <p>Select a session to view the conversation</p>
-            </div>
-          )}
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   )
 }
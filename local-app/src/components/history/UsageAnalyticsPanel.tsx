@@ -0,0 +1,256 @@
+import { useEffect, useMemo, useState } from 'react'
+import { formatDuration } from '@dev-orchestrator/shared'
+import { computeUsageAnalytics, fetchSessionJourneys, formatTokens, tokensIn } from '../../lib/usageAnalytics'
+import type { SessionJourney, UsageSummary } from '../../lib/usageAnalytics'
+import type { ClaudeProject, SessionUsage } from '../../types/history'
+
+interface UsageAnalyticsPanelProps {
+  projects: ClaudeProject[]
+  usage: SessionUsage[] | null
+  isLoading: boolean
+  onLoad: () => void
+  onClose: () => void
+}
+
+const DAY_OPTIONS = [7, 30, 90]
+const TOP_TOOLS = 10
+
+const selectClass =
+  'px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{title}</h4>
+      {children}
+    </section>
+  )
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+      <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+      <p className="text-lg font-semibold text-gray-900 dark:text-white">{value}</p>
+      {detail && <p className="text-xs text-gray-500 dark:text-gray-400">{detail}</p>}
+    </div>
+  )
+}
+
+function UsageTable({ rows, nameHeader }: { rows: UsageSummary[]; nameHeader: string }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+          <th className="py-1">{nameHeader}</th>
+          <th className="py-1 text-right">Sessions</th>
+          <th className="py-1 text-right">Active time</th>
+          <th className="py-1 text-right">Avg session</th>
+          <th className="py-1 text-right">Tokens in</th>
+          <th className="py-1 text-right">Tokens out</th>
+          <th className="py-1 text-right">Tool calls</th>
+          <th className="py-1 text-right">Failed</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-b border-gray-100 dark:border-gray-800">
+            <td className="py-1.5 text-gray-800 dark:text-gray-200 truncate max-w-xs" title={row.label}>{row.label}</td>
+            <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{row.sessions}</td>
+            <td className="py-1.5 text-right text-gray-800 dark:text-gray-200">{formatDuration(row.activeMs)}</td>
+            <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{formatDuration(row.averageSessionMs)}</td>
+            <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{formatTokens(tokensIn(row.tokens))}</td>
+            <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{formatTokens(row.tokens.outputTokens)}</td>
+            <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{row.toolCalls}</td>
+            <td className={`py-1.5 text-right ${row.toolErrors > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'}`}>
+              {row.toolErrors}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+/**
+ * Token usage and tool activity across Claude Code sessions - per project, journey and day
+ */
+export function UsageAnalyticsPanel({ projects, usage, isLoading, onLoad, onClose }: UsageAnalyticsPanelProps) {
+  const [days, setDays] = useState(30)
+  const [projectId, setProjectId] = useState('')
+  const [sessionJourneys, setSessionJourneys] = useState<Map<string, SessionJourney>>(new Map())
+  const [journeysError, setJourneysError] = useState<string | null>(null)
+
+  useEffect(() => {
+    onLoad()
+  }, [onLoad])
+
+  useEffect(() => {
+    fetchSessionJourneys()
+      .then(setSessionJourneys)
+      .catch((err) => setJourneysError(err instanceof Error ? err.message : 'Failed to load journey links'))
+  }, [])
+
+  const projectNames = useMemo(() => new Map(projects.map((p) => [p.id, p.name])), [projects])
+  const analytics = useMemo(
+    () => computeUsageAnalytics(usage ?? [], { days, projectId: projectId || null, projectNames, sessionJourneys }),
+    [usage, days, projectId, projectNames, sessionJourneys]
+  )
+
+  const { totals } = analytics
+  const dailyTokens = analytics.byDay.map((day) => tokensIn(day) + day.outputTokens)
+  const maxDailyTokens = Math.max(1, ...dailyTokens)
+  const topTools = analytics.tools.slice(0, TOP_TOOLS)
+  const maxToolCalls = Math.max(1, ...topTools.map((tool) => tool.calls))
+  const failingTools = analytics.tools.filter((tool) => tool.errors > 0).sort((a, b) => b.errors - a.errors)
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Usage</h3>
+        <div className="flex-1" />
+        <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={selectClass}>
+          <option value="">All projects</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+        <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={selectClass}>
+          {DAY_OPTIONS.map((option) => (
+            <option key={option} value={option}>Last {option} days</option>
+          ))}
+        </select>
+        <button
+          onClick={onLoad}
+          disabled={isLoading}
+          className="px-3 py-1 text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Reading...' : 'Refresh'}
+        </button>
+        <button onClick={onClose} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+          Back to sessions
+        </button>
+      </div>
+
+      {!usage ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500">
+          <p>{isLoading ? 'Reading session transcripts...' : 'No usage loaded'}</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat label="Sessions" value={String(totals.sessions)} detail={`${totals.messages.toLocaleString()} messages`} />
+            <Stat label="Active time" value={formatDuration(totals.activeMs)} detail={`${formatDuration(totals.averageSessionMs)} avg session`} />
+            <Stat
+              label="Tokens"
+              value={formatTokens(tokensIn(totals.tokens) + totals.tokens.outputTokens)}
+              detail={`${formatTokens(tokensIn(totals.tokens))} in • ${formatTokens(totals.tokens.outputTokens)} out`}
+            />
+            <Stat
+              label="Tool calls"
+              value={totals.toolCalls.toLocaleString()}
+              detail={totals.toolCalls > 0 ? `${((totals.toolErrors / totals.toolCalls) * 100).toFixed(1)}% failed` : undefined}
+            />
+          </div>
+
+          <Section title="Tokens per day">
+            <div className="flex items-end gap-0.5 h-32">
+              {analytics.byDay.map((day, i) => (
+                <div
+                  key={day.day}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${day.day}: ${formatTokens(tokensIn(day))} in, ${formatTokens(day.outputTokens)} out, ${day.toolCalls} tool calls, ${formatDuration(day.activeMs)} active`}
+                >
+                  <div
+                    className="w-full bg-blue-400 dark:bg-blue-600 rounded-t"
+                    style={{ height: `${(dailyTokens[i] / maxDailyTokens) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>{analytics.byDay[0]?.day}</span>
+              <span>{analytics.byDay[analytics.byDay.length - 1]?.day}</span>
+            </div>
+          </Section>
+
+          <Section title="Journeys by active time">
+            {analytics.byJourney.length > 0 ? (
+              <UsageTable rows={analytics.byJourney} nameHeader="Journey" />
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {journeysError ?? 'No sessions in this window are linked to a journey. Open a journey\'s Conversations tab to link them.'}
+              </p>
+            )}
+          </Section>
+
+          {!projectId && (
+            <Section title="Projects by active time">
+              <UsageTable rows={analytics.byProject} nameHeader="Project" />
+            </Section>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Section title="Most used tools">
+              <div className="space-y-1">
+                {topTools.map((tool) => (
+                  <div key={tool.name} className="flex items-center gap-2 text-sm">
+                    <span className="w-28 font-mono text-xs text-gray-700 dark:text-gray-300 truncate" title={tool.name}>{tool.name}</span>
+                    <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-800 rounded">
+                      <div
+                        className="h-3 bg-blue-400 dark:bg-blue-600 rounded"
+                        style={{ width: `${(tool.calls / maxToolCalls) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-12 text-right text-gray-600 dark:text-gray-300">{tool.calls}</span>
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Failing tool calls">
+              {failingTools.length > 0 ? (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {failingTools.map((tool) => (
+                      <tr key={tool.name} className="border-b border-gray-100 dark:border-gray-800">
+                        <td className="py-1 font-mono text-xs text-gray-700 dark:text-gray-300">{tool.name}</td>
+                        <td className="py-1 text-right text-red-600 dark:text-red-400">{tool.errors}</td>
+                        <td className="py-1 text-right text-xs text-gray-500 dark:text-gray-400">
+                          {tool.calls > 0 ? `${((tool.errors / tool.calls) * 100).toFixed(0)}% of ${tool.calls}` : ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No failed tool calls</p>
+              )}
+            </Section>
+          </div>
+
+          {analytics.models.length > 0 && (
+            <Section title="Models">
+              <table className="w-full text-sm">
+                <tbody>
+                  {analytics.models.map((model) => (
+                    <tr key={model.model} className="border-b border-gray-100 dark:border-gray-800">
+                      <td className="py-1 font-mono text-xs text-gray-700 dark:text-gray-300">{model.model}</td>
+                      <td className="py-1 text-right text-gray-600 dark:text-gray-300">{formatTokens(tokensIn(model.tokens))} in</td>
+                      <td className="py-1 text-right text-gray-600 dark:text-gray-300">{formatTokens(model.tokens.outputTokens)} out</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+          )}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Tokens in include cached context. Active time leaves out pauses of more than five minutes; a session
+            with any activity in the window counts in full.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
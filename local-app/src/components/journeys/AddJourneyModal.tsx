@@ -46,6 +46,7 @@ export function AddJourneyModal({ isOpen, onClose, projectId, projectName, onSub
 
         <JourneyIdeaInput
           projectName={projectName}
+          projectId={projectId}
           onSubmit={handleIdeaSubmit}
           placeholder="Example: I need to add a dark mode toggle to the settings page. It should save the preference and apply it across all screens..."
           showTypeSelector={true}
@@ -1,7 +1,10 @@
 import { useState } from 'react'
+import type { BlockingLinks } from '@dev-orchestrator/shared'
 import type { Journey, JourneyStage } from '../../types'
 import { TypeBadge } from './TypeBadge'
 import { StageRow } from './StageRow'
+import { WorktreeBootstrapStatus } from './WorktreeBootstrapStatus'
+import { JourneyConflictWarning } from './JourneyConflictWarning'
 import { Button } from '../common/Button'
 
 interface GroupOption {
@@ -13,6 +16,7 @@ interface JourneyCardProps {
   journey: Journey
   parentJourneyName?: string  // Name of parent journey if this is a child
   availableGroups?: GroupOption[]  // Groups this journey can be moved to
+  blocking?: BlockingLinks  // Unfinished journeys this one blocks or is blocked by
   onUpdateStage: (stage: JourneyStage) => void
   onStart: () => void
   onDelete: () => void
@@ -20,12 +24,14 @@ interface JourneyCardProps {
   onOpenInVSCode?: () => void
   onOpenParent?: () => void  // Click handler to open parent journey
   onAssignToGroup?: (groupId: string | null) => void  // null = remove from group
+  onBootstrap?: () => void  // Re-run the project's worktree setup recipe
 }
 
 export function JourneyCard({
   journey,
   parentJourneyName,
   availableGroups = [],
+  blocking,
   onUpdateStage,
   onStart,
   onDelete,
@@ -33,6 +39,7 @@ export function JourneyCard({
   onOpenInVSCode,
   onOpenParent,
   onAssignToGroup,
+  onBootstrap,
 }: JourneyCardProps) {
   const [showMoreMenu, setShowMoreMenu] = useState(false)
   const isStarted = journey.branch_name !== null
@@ -68,6 +75,28 @@ export function JourneyCard({
         </div>
       )}
 
+      {/* Blocking links */}
+      {blocking && (blocking.blockedBy.length > 0 || blocking.blocks.length > 0) && (
+        <div className="flex flex-wrap gap-1 mb-2 -mt-1">
+          {blocking.blockedBy.length > 0 && (
+            <span
+              className="text-[10px] px-1.5 py-0.5 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 rounded"
+              title={blocking.blockedBy.map(j => j.name).join(', ')}
+            >
+              Blocked by {blocking.blockedBy.length === 1 ? blocking.blockedBy[0].name : `${blocking.blockedBy.length} journeys`}
+            </span>
+          )}
+          {blocking.blocks.length > 0 && (
+            <span
+              className="text-[10px] px-1.5 py-0.5 bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 rounded"
+              title={blocking.blocks.map(j => j.name).join(', ')}
+            >
+              Blocks {blocking.blocks.length === 1 ? blocking.blocks[0].name : `${blocking.blocks.length} journeys`}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Header: Name, type badge, actions */}
       <div className="flex items-start justify-between gap-3 mb-2">
         <div className="flex-1 min-w-0">
@@ -177,6 +206,26 @@ export function JourneyCard({
                     </>
                   )}
 
+                  {/* Re-run worktree setup */}
+                  {onBootstrap && journey.worktree_path && (
+                    <>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onBootstrap()
+                          setShowMoreMenu(false)
+                        }}
+                        className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                        Re-run worktree setup
+                      </button>
+                      <div className="border-t border-gray-200 dark:border-gray-700 my-1" />
+                    </>
+                  )}
+
                   {/* Delete option */}
                   <button
                     onClick={(e) => {
@@ -210,6 +259,12 @@ export function JourneyCard({
         </div>
       )}
 
+      {/* Worktree setup progress */}
+      {journey.worktree_path && <WorktreeBootstrapStatus journeyId={journey.id} />}
+
+      {/* Files other journeys also change */}
+      {journey.branch_name && <JourneyConflictWarning journeyId={journey.id} />}
+
       {/* Tags */}
       {journey.tags && journey.tags.length > 0 && (
         <div className="flex flex-wrap gap-1 mb-3">
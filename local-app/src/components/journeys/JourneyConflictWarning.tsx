@@ -0,0 +1,41 @@
+import { useMemo } from 'react'
+import { getJourneyConflictWarnings, useConflictStore } from '../../stores/conflictStore'
+
+interface JourneyConflictWarningProps {
+  journeyId: string
+}
+
+// Files listed in the tooltip before "and N more"
+const MAX_TOOLTIP_FILES = 10
+
+function fileList(files: string[]): string {
+  const shown = files.slice(0, MAX_TOOLTIP_FILES).join('\n')
+  return files.length > MAX_TOOLTIP_FILES ? `${shown}\n...and ${files.length - MAX_TOOLTIP_FILES} more` : shown
+}
+
+/**
+ * Warnings on a journey card for other journeys that change the same files
+ */
+export function JourneyConflictWarning({ journeyId }: JourneyConflictWarningProps) {
+  const reports = useConflictStore((state) => state.reports)
+  const warnings = useMemo(() => getJourneyConflictWarnings(reports, journeyId), [reports, journeyId])
+
+  if (warnings.length === 0) return null
+
+  return (
+    <ul className="mb-2 space-y-0.5" onClick={(e) => e.stopPropagation()}>
+      {warnings.map(({ otherJourneyId, otherJourneyName, pair }) => {
+        const conflicts = pair.conflictingFiles.length
+        return conflicts > 0 ? (
+          <li key={otherJourneyId} className="text-xs text-red-600 dark:text-red-400" title={fileList(pair.conflictingFiles)}>
+            ⚠ Conflicts with {otherJourneyName} in {conflicts} file{conflicts === 1 ? '' : 's'}
+          </li>
+        ) : (
+          <li key={otherJourneyId} className="text-xs text-amber-600 dark:text-amber-400" title={fileList(pair.overlappingFiles)}>
+            ⚠ Also changed by {otherJourneyName}: {pair.overlappingFiles.length} file{pair.overlappingFiles.length === 1 ? '' : 's'}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import type { Journey, JourneyUpdate } from '../../types'
+import type { Journey, JourneyStage, JourneyUpdate } from '../../types'
 import { Button } from '../common/Button'
 import {
   TabNavigation,
@@ -8,6 +8,11 @@ import {
   SpecTab,
   PlanTab,
   ChecklistsTab,
+  AutopilotTab,
+  TargetsTab,
+  DiffTab,
+  ShipTab,
+  ClaudeSessionsTab,
   LinksTab,
   type JourneyTab,
 } from './detail-tabs'
@@ -16,6 +21,7 @@ interface JourneyDetailPanelProps {
   journey: Journey
   onClose: () => void
   onUpdate: (updates: JourneyUpdate) => Promise<void>
+  onStageChange: (stage: JourneyStage, note?: string) => Promise<boolean>
   onOpenClaudeCode?: () => void
   onDelete: () => void
 }
@@ -24,6 +30,7 @@ export function JourneyDetailPanel({
   journey,
   onClose,
   onUpdate,
+  onStageChange,
   onOpenClaudeCode,
   onDelete,
 }: JourneyDetailPanelProps) {
@@ -32,7 +39,7 @@ export function JourneyDetailPanel({
   const renderTabContent = () => {
     switch (activeTab) {
       case 'overview':
-        return <OverviewTab journey={journey} onUpdate={onUpdate} />
+        return <OverviewTab journey={journey} onUpdate={onUpdate} onStageChange={onStageChange} />
       case 'intake':
         return <IntakeTab journey={journey} />
       case 'spec':
@@ -41,6 +48,16 @@ export function JourneyDetailPanel({
         return <PlanTab journey={journey} />
       case 'checklists':
         return <ChecklistsTab journey={journey} />
+      case 'autopilot':
+        return <AutopilotTab journey={journey} project={null} />
+      case 'targets':
+        return <TargetsTab journey={journey} project={null} />
+      case 'diff':
+        return <DiffTab journey={journey} />
+      case 'ship':
+        return <ShipTab journey={journey} project={null} />
+      case 'conversations':
+        return <ClaudeSessionsTab journey={journey} project={null} />
       case 'links':
         return <LinksTab journey={journey} />
       default:
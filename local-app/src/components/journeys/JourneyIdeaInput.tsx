@@ -20,6 +20,8 @@ interface PendingSubmission {
 
 interface JourneyIdeaInputProps {
   projectName: string
+  /** Optional: Project the idea belongs to, for the AI request log */
+  projectId?: string
   onSubmit: (parsed: ParsedResult) => Promise<void>
   /** Optional: Force a specific journey type instead of AI detection */
   forceType?: JourneyType
@@ -38,6 +40,7 @@ const journeyTypeLabels: Record<JourneyType, string> = {
 
 export function JourneyIdeaInput({
   projectName,
+  projectId,
   onSubmit,
   forceType,
   placeholder = 'Describe your feature, bug, or investigation idea...',
@@ -87,7 +90,7 @@ export function JourneyIdeaInput({
   const processSubmission = useCallback(async (submissionId: string, rawText: string, typeOvr: JourneyType | null) => {
     try {
       // Parse with AI
-      const result = await parse(rawText, projectName)
+      const result = await parse(rawText, projectName, projectId)
       if (!result) {
         setPendingSubmissions(prev => prev.map(s =>
           s.id === submissionId
@@ -120,7 +123,7 @@ export function JourneyIdeaInput({
           : s
       ))
     }
-  }, [parse, projectName, forceType, onSubmit])
+  }, [parse, projectName, projectId, forceType, onSubmit])
 
   const handleSubmit = useCallback(() => {
     if (!text.trim()) return
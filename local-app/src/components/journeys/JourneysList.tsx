@@ -1,11 +1,14 @@
 import { useState, useMemo, useCallback, useEffect } from 'react'
 import { useVSCodeLaunch } from '../../hooks/useVSCodeLaunch'
 import { JourneyCard } from './JourneyCard'
+import { useWorktreeBootstrapStore } from '../../stores/worktreeBootstrapStore'
 import { JourneyIdeaInput } from './JourneyIdeaInput'
 import { Button } from '../common/Button'
 import { ToastContainer, ToastData } from '../common/Toast'
 import type { Journey, JourneyStage, JourneyType, Project } from '../../types'
-import { getStagesForType, getInitialStage, getSupabase } from '@dev-orchestrator/shared'
+import { getStagesForType, getInitialStage, getSupabase, getBlockingLinks, transitionJourneyStage } from '@dev-orchestrator/shared'
+import type { JourneyLink } from '@dev-orchestrator/shared'
+import { getStageTransitionOptions, stageChangeErrorMessage } from '../../lib/stageTransitions'
 
 // Journey type configuration
 const journeyTypeConfig: Record<JourneyType, { icon: string; label: string; description: string }> = {
@@ -129,12 +132,14 @@ export function JourneysList({
   compact = false,
 }: JourneysListProps) {
   const { launchForJourney } = useVSCodeLaunch()
+  const bootstrapWorktree = useWorktreeBootstrapStore((state) => state.bootstrap)
   const [activeType, setActiveType] = useState<JourneyType>('feature_planning')
   const [activeStatusFilter, setActiveStatusFilter] = useState<StatusFilter>('active')
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
   const [toasts, setToasts] = useState<ToastData[]>([])
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set())
   const [spawnedFromMap, setSpawnedFromMap] = useState<Map<string, string>>(new Map())
+  const [blockLinks, setBlockLinks] = useState<JourneyLink[]>([])
 
   // Fetch spawned_from links
   useEffect(() => {
@@ -161,6 +166,25 @@ export function JourneysList({
       })
   }, [journeys])
 
+  // Fetch blocks links so both the blocker's and the blocked journey's cards get a badge
+  useEffect(() => {
+    if (journeys.length === 0) {
+      setBlockLinks([])
+      return
+    }
+
+    getSupabase()
+      .from('journey_links')
+      .select('*')
+      .eq('relationship', 'blocks')
+      .in('from_journey_id', journeys.map(j => j.id))
+      .then(({ data }) => {
+        if (data) setBlockLinks(data)
+      })
+  }, [journeys])
+
+  const blockingLinks = useMemo(() => getBlockingLinks(journeys, blockLinks), [journeys, blockLinks])
+
   // Toast helpers
   const showToast = useCallback((message: string, type: ToastData['type'] = 'error') => {
     const id = `toast-${Date.now()}`
@@ -223,10 +247,17 @@ export function JourneysList({
   }, [])
 
   const handleUpdateStage = async (id: string, stage: JourneyStage) => {
+    const journey = journeys.find(j => j.id === id)
+    if (!journey) return
     try {
-      await onUpdateJourney(id, { stage })
+      const { warnings } = await transitionJourneyStage(journey, stage, {
+        ...getStageTransitionOptions(project),
+        update: onUpdateJourney,
+      })
+      warnings.forEach(warning => showToast(warning, 'error'))
     } catch (err) {
       console.error('Failed to update journey stage:', err)
+      showToast(stageChangeErrorMessage(stage, err), 'error')
     }
   }
 
@@ -250,12 +281,23 @@ export function JourneysList({
 
       await onStartJourney(journey.id, result.branchName, result.worktreePath)
       showToast(`Started journey on branch: ${result.branchName}`, 'success')
+
+      // Install dependencies, copy env files and assign ports in the background
+      bootstrapWorktree(project, journey, result.worktreePath)
     } catch (err) {
       console.error('Failed to start journey:', err)
       showToast(err instanceof Error ? err.message : 'Failed to start journey', 'error')
     }
   }
 
+  const handleBootstrap = async (journey: Journey) => {
+    if (!journey.worktree_path) return
+    const started = await bootstrapWorktree(project, journey, journey.worktree_path)
+    if (!started) {
+      showToast(useWorktreeBootstrapStore.getState().errors[journey.id] || 'Failed to start worktree setup', 'error')
+    }
+  }
+
   const handleDelete = async (id: string) => {
     try {
       const journey = journeys.find(j => j.id === id)
@@ -429,6 +471,7 @@ export function JourneysList({
           <div className="bg-gray-100 dark:bg-gray-800/50 rounded-lg p-4 mb-4 border border-gray-200 dark:border-transparent shrink-0">
             <JourneyIdeaInput
               projectName={project.name}
+              projectId={project.id}
               onSubmit={handleQuickCreate}
               forceType={activeType}
               placeholder={`Describe your ${activeConfig.label.toLowerCase()} idea...`}
@@ -562,6 +605,7 @@ export function JourneysList({
                               journey={journey}
                               parentJourneyName={group.parent?.name}
                               availableGroups={availableGroups}
+                              blocking={blockingLinks.get(journey.id)}
                               onUpdateStage={(stage) => handleUpdateStage(journey.id, stage)}
                               onStart={() => handleStart(journey)}
                               onDelete={() => setDeleteConfirm(journey.id)}
@@ -569,6 +613,7 @@ export function JourneysList({
                               onOpenInVSCode={() => handleOpenInVSCode(journey)}
                               onOpenParent={() => group.parent && handleOpenJourneyDetail(group.parent)}
                               onAssignToGroup={(groupId) => handleAssignToGroup(journey.id, groupId)}
+                              onBootstrap={() => handleBootstrap(journey)}
                             />
                           ))}
                         </div>
@@ -582,12 +627,14 @@ export function JourneysList({
                     key={journey.id}
                     journey={journey}
                     availableGroups={availableGroups}
+                    blocking={blockingLinks.get(journey.id)}
                     onUpdateStage={(stage) => handleUpdateStage(journey.id, stage)}
                     onStart={() => handleStart(journey)}
                     onDelete={() => setDeleteConfirm(journey.id)}
                     onClick={() => handleOpenJourneyDetail(journey)}
                     onOpenInVSCode={() => handleOpenInVSCode(journey)}
                     onAssignToGroup={(groupId) => handleAssignToGroup(journey.id, groupId)}
+                    onBootstrap={() => handleBootstrap(journey)}
                   />
                 ))
               })}
@@ -3,11 +3,15 @@ import { useProjects } from '../../hooks/useProjects'
 import { useJourneys } from '../../hooks/useJourneys'
 import { useVSCodeLaunch } from '../../hooks/useVSCodeLaunch'
 import { JourneyCard } from './JourneyCard'
+import { useWorktreeBootstrapStore } from '../../stores/worktreeBootstrapStore'
+import { useConflictWatch } from '../../stores/conflictStore'
 import { JourneyIdeaInput } from './JourneyIdeaInput'
 import { Button } from '../common/Button'
 import { ToastContainer, ToastData } from '../common/Toast'
 import type { Journey, JourneyStage, JourneyType } from '../../types'
-import { getStagesForType, getInitialStage, getSupabase } from '@dev-orchestrator/shared'
+import { getStagesForType, getInitialStage, getSupabase, getBlockingLinks, transitionJourneyStage } from '@dev-orchestrator/shared'
+import type { JourneyLink } from '@dev-orchestrator/shared'
+import { getStageTransitionOptions, stageChangeErrorMessage } from '../../lib/stageTransitions'
 
 const STORAGE_KEY_LAST_PROJECT = 'dev-orchestrator:last-project-id'
 
@@ -150,7 +154,11 @@ export function JourneysTab() {
   }, [selectedProject?.id])
 
   const { journeys, loading, error, createJourney, updateJourney, deleteJourney, startJourney } = useJourneys(selectedProject?.id)
+
+  // Warn on cards when journey branches change the same files
+  useConflictWatch(selectedProject, journeys)
   const { openVSCode } = useVSCodeLaunch()
+  const bootstrapWorktree = useWorktreeBootstrapStore((state) => state.bootstrap)
   const [activeType, setActiveType] = useState<JourneyType>('feature_planning')
   const [activeStatusFilter, setActiveStatusFilter] = useState<StatusFilter>('active')
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
@@ -159,6 +167,7 @@ export function JourneysTab() {
   const [gitStatus, setGitStatus] = useState<ProjectGitStatus>({ isRepo: true, checking: true })
   const [isInitializingGit, setIsInitializingGit] = useState(false)
   const [spawnedFromMap, setSpawnedFromMap] = useState<Map<string, string>>(new Map())
+  const [blockLinks, setBlockLinks] = useState<JourneyLink[]>([])
 
   // Fetch spawned_from links for all journeys to find linked planning journeys
   useEffect(() => {
@@ -185,6 +194,25 @@ export function JourneysTab() {
       })
   }, [journeys])
 
+  // Fetch blocks links so both the blocker's and the blocked journey's cards get a badge
+  useEffect(() => {
+    if (journeys.length === 0) {
+      setBlockLinks([])
+      return
+    }
+
+    getSupabase()
+      .from('journey_links')
+      .select('*')
+      .eq('relationship', 'blocks')
+      .in('from_journey_id', journeys.map(j => j.id))
+      .then(({ data }) => {
+        if (data) setBlockLinks(data)
+      })
+  }, [journeys])
+
+  const blockingLinks = useMemo(() => getBlockingLinks(journeys, blockLinks), [journeys, blockLinks])
+
   // Register all journeys with worktrees and projects for VS Code overlay tracking
   useEffect(() => {
     // Register journeys with worktrees
@@ -322,10 +350,17 @@ export function JourneysTab() {
   }, [journeys, activeType])
 
   const handleUpdateStage = async (id: string, stage: JourneyStage) => {
+    const journey = journeys.find(j => j.id === id)
+    if (!journey) return
     try {
-      await updateJourney(id, { stage })
+      const { warnings } = await transitionJourneyStage(journey, stage, {
+        ...getStageTransitionOptions(selectedProject),
+        update: updateJourney,
+      })
+      warnings.forEach(warning => showToast(warning, 'error'))
     } catch (err) {
       console.error('Failed to update journey stage:', err)
+      showToast(stageChangeErrorMessage(stage, err), 'error')
     }
   }
 
@@ -354,12 +389,23 @@ export function JourneysTab() {
       // Update the journey with the worktree info
       await startJourney(journey.id, result.branchName, result.worktreePath)
       showToast(`Started journey on branch: ${result.branchName}`, 'success')
+
+      // Install dependencies, copy env files and assign ports in the background
+      bootstrapWorktree(selectedProject, journey, result.worktreePath)
     } catch (err) {
       console.error('Failed to start journey:', err)
       showToast(err instanceof Error ? err.message : 'Failed to start journey', 'error')
     }
   }
 
+  const handleBootstrap = async (journey: Journey) => {
+    if (!selectedProject || !journey.worktree_path) return
+    const started = await bootstrapWorktree(selectedProject, journey, journey.worktree_path)
+    if (!started) {
+      showToast(useWorktreeBootstrapStore.getState().errors[journey.id] || 'Failed to start worktree setup', 'error')
+    }
+  }
+
   const handleDelete = async (id: string) => {
     try {
       // Find the journey to check if it has a worktree
@@ -616,6 +662,7 @@ export function JourneysTab() {
             <div className="bg-gray-100 dark:bg-gray-800/50 rounded-lg p-4 mb-4 border border-gray-200 dark:border-transparent shrink-0">
               <JourneyIdeaInput
                 projectName={selectedProject?.name || 'Project'}
+                projectId={selectedProject?.id}
                 onSubmit={handleQuickCreate}
                 forceType={activeType}
                 placeholder={`Describe your ${activeConfig.label.toLowerCase()} idea...`}
@@ -764,6 +811,7 @@ export function JourneysTab() {
                                   journey={journey}
                                   parentJourneyName={group.parent?.name}
                                   availableGroups={availableGroups}
+                                  blocking={blockingLinks.get(journey.id)}
                                   onUpdateStage={(stage) => handleUpdateStage(journey.id, stage)}
                                   onStart={() => handleStart(journey)}
                                   onDelete={() => setDeleteConfirm(journey.id)}
@@ -771,6 +819,7 @@ export function JourneysTab() {
                                   onOpenInVSCode={() => handleOpenInVSCode(journey)}
                                   onOpenParent={() => group.parent && handleOpenJourneyDetail(group.parent)}
                                   onAssignToGroup={(groupId) => handleAssignToGroup(journey.id, groupId)}
+                                  onBootstrap={() => handleBootstrap(journey)}
                                 />
                               ))}
                             </div>
@@ -785,12 +834,14 @@ export function JourneysTab() {
                         key={journey.id}
                         journey={journey}
                         availableGroups={availableGroups}
+                        blocking={blockingLinks.get(journey.id)}
                         onUpdateStage={(stage) => handleUpdateStage(journey.id, stage)}
                         onStart={() => handleStart(journey)}
                         onDelete={() => setDeleteConfirm(journey.id)}
                         onClick={() => handleOpenJourneyDetail(journey)}
                         onOpenInVSCode={() => handleOpenInVSCode(journey)}
                         onAssignToGroup={(groupId) => handleAssignToGroup(journey.id, groupId)}
+                        onBootstrap={() => handleBootstrap(journey)}
                       />
                     ))
                   })}
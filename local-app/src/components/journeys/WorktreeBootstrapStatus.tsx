@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react'
+import { Modal } from '../common/Modal'
+import { useWorktreeBootstrapStore } from '../../stores/worktreeBootstrapStore'
+import type { BootstrapStepStatus, WorktreeBootstrapRun } from '../../types/worktreeBootstrap'
+
+interface WorktreeBootstrapStatusProps {
+  journeyId: string
+}
+
+const STEP_ICONS: Record<BootstrapStepStatus, { icon: string; className: string }> = {
+  pending: { icon: '○', className: 'text-gray-400' },
+  running: { icon: '◐', className: 'text-blue-500' },
+  done: { icon: '✓', className: 'text-green-600 dark:text-green-400' },
+  skipped: { icon: '–', className: 'text-gray-400' },
+  failed: { icon: '✗', className: 'text-red-600 dark:text-red-400' },
+}
+
+// Only the tail of the output is rendered to keep re-renders cheap
+const MAX_VISIBLE_CHARS = 8000
+
+function BootstrapLog({ run }: { run: WorktreeBootstrapRun }) {
+  const outputRef = useRef<HTMLPreElement>(null)
+
+  // Keep the newest output in view
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight
+    }
+  }, [run.output])
+
+  const visibleOutput = run.output.length > MAX_VISIBLE_CHARS
+    ? '…' + run.output.slice(-MAX_VISIBLE_CHARS)
+    : run.output
+
+  return (
+    <div className="p-4 space-y-3">
+      <ul className="space-y-1">
+        {run.steps.map((step, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            <span className={`w-4 shrink-0 text-center ${STEP_ICONS[step.status].className}`}>
+              {STEP_ICONS[step.status].icon}
+            </span>
+            <span className={step.kind === 'command' ? 'font-mono text-xs mt-0.5' : ''}>{step.label}</span>
+            {step.detail && (
+              <span className="ml-auto text-xs text-gray-500 dark:text-gray-400 shrink-0">{step.detail}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {run.ports.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Ports: {run.ports.map(({ envVar, port }) => `${envVar}=${port}`).join(', ')}
+        </p>
+      )}
+
+      {run.error && <p className="text-xs text-red-600 dark:text-red-400">{run.error}</p>}
+
+      {visibleOutput && (
+        <pre
+          ref={outputRef}
+          className="max-h-72 overflow-y-auto p-2 text-xs font-mono whitespace-pre-wrap break-words border border-gray-200 dark:border-gray-700 rounded bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+        >
+          {visibleOutput}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+/**
+ * One-line bootstrap progress for a journey card, with the full log in a modal
+ */
+export function WorktreeBootstrapStatus({ journeyId }: WorktreeBootstrapStatusProps) {
+  const run = useWorktreeBootstrapStore((state) => state.runs[journeyId])
+  const error = useWorktreeBootstrapStore((state) => state.errors[journeyId])
+  const load = useWorktreeBootstrapStore((state) => state.load)
+  const [showLog, setShowLog] = useState(false)
+
+  useEffect(() => {
+    load(journeyId)
+  }, [journeyId, load])
+
+  if (!run && !error) return null
+
+  const currentStep = run?.steps.find((step) => step.status === 'running')
+
+  return (
+    <div className="mb-2" onClick={(e) => e.stopPropagation()}>
+      {error ? (
+        <span className="text-xs text-red-600 dark:text-red-400">Worktree setup: {error}</span>
+      ) : run?.status === 'running' ? (
+        <button onClick={() => setShowLog(true)} className="flex items-center gap-1.5 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+          <span className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+          Setting up worktree{currentStep ? `: ${currentStep.label}` : '...'}
+        </button>
+      ) : run?.status === 'failed' ? (
+        <button onClick={() => setShowLog(true)} className="text-xs text-red-600 dark:text-red-400 hover:underline">
+          Worktree setup failed - view log
+        </button>
+      ) : (
+        <button onClick={() => setShowLog(true)} className="text-xs text-gray-500 dark:text-gray-400 hover:underline">
+          Worktree ready
+          {run && run.ports.length > 0 && ` · ${run.ports.map(({ envVar, port }) => `${envVar} ${port}`).join(', ')}`}
+        </button>
+      )}
+
+      {run && (
+        <Modal isOpen={showLog} onClose={() => setShowLog(false)} title="Worktree setup">
+          <BootstrapLog run={run} />
+        </Modal>
+      )}
+    </div>
+  )
+}
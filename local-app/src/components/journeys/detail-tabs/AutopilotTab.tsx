@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from 'react'
+import { useJourneyChecklists, useJourneyPlan } from '@dev-orchestrator/shared'
+import type { Journey, JourneyStage, Project } from '@dev-orchestrator/shared'
+import { Button } from '../../common/Button'
+import { useAutopilotStore } from '../../../stores/autopilotStore'
+import type { AutopilotStatus } from '../../../types/autopilot'
+
+interface AutopilotTabProps {
+  journey: Journey
+  project: Project | null
+}
+
+// Stages that come after the plan is approved
+const AUTOPILOT_STAGES: JourneyStage[] = ['implementing', 'fixing', 'in_progress']
+
+const DEFAULT_MAX_TURNS = 50
+const DEFAULT_TIME_LIMIT_MINUTES = 30
+const DEFAULT_ALLOWED_COMMANDS = 'npm test, npm run test, npm run lint, npm run typecheck, npx tsc'
+
+// Only the tail of the transcript is rendered to keep re-renders cheap
+const MAX_VISIBLE_CHARS = 8000
+
+const STATUS_BANNERS: Record<Exclude<AutopilotStatus, 'running'>, { title: string; className: string }> = {
+  review: {
+    title: 'Finished - ready for review',
+    className: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200',
+  },
+  budget_exhausted: {
+    title: 'Stopped at the budget limit - review what was done',
+    className: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200',
+  },
+  stopped: {
+    title: 'Stopped',
+    className: 'bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300',
+  },
+  failed: {
+    title: 'Autopilot failed',
+    className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300',
+  },
+}
+
+export function AutopilotTab({ journey, project }: AutopilotTabProps) {
+  const run = useAutopilotStore((state) => state.runs[journey.id])
+  const error = useAutopilotStore((state) => state.errors[journey.id])
+  const { load, start, stop } = useAutopilotStore()
+  const { plan, loading: planLoading } = useJourneyPlan(journey.id)
+  const { getActiveChecklist, refetch: refetchChecklists } = useJourneyChecklists(journey.id)
+
+  const [maxTurns, setMaxTurns] = useState(DEFAULT_MAX_TURNS)
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(DEFAULT_TIME_LIMIT_MINUTES)
+  const [allowedCommands, setAllowedCommands] = useState(DEFAULT_ALLOWED_COMMANDS)
+  const [isStarting, setIsStarting] = useState(false)
+  const transcriptRef = useRef<HTMLPreElement>(null)
+
+  const isRunning = run?.status === 'running'
+  const checklist = getActiveChecklist()
+  // Journeys spawned from a planning journey carry their early plan in the description
+  const planText = plan?.content ? JSON.stringify(plan.content, null, 2) : journey.description ?? ''
+  const isApproved = AUTOPILOT_STAGES.includes(journey.stage)
+
+  useEffect(() => {
+    load(journey.id)
+  }, [journey.id, load])
+
+  // Pick up ticks written while the run was going
+  useEffect(() => {
+    if (run?.status && run.status !== 'running') {
+      refetchChecklists()
+    }
+  }, [run?.status, refetchChecklists])
+
+  // Keep the newest output in view
+  useEffect(() => {
+    if (transcriptRef.current) {
+      transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight
+    }
+  }, [run?.transcript])
+
+  const handleStart = async () => {
+    if (!journey.worktree_path) return
+    setIsStarting(true)
+    try {
+      await start({
+        journeyId: journey.id,
+        projectId: project?.id,
+        journeyName: journey.name,
+        worktreePath: journey.worktree_path,
+        plan: planText,
+        checklist: checklist
+          ? { id: checklist.id, legName: checklist.leg_name, items: checklist.items }
+          : undefined,
+        budget: {
+          maxTurns,
+          timeoutMs: timeLimitMinutes * 60 * 1000,
+          allowedCommands: allowedCommands.split(',').map((command) => command.trim()).filter(Boolean),
+        },
+      })
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const blocker = !journey.worktree_path
+    ? 'Autopilot works in the journey\'s worktree - create one first.'
+    : !isApproved
+      ? 'Approve the plan (move the journey to implementing) before starting autopilot.'
+      : !planLoading && !planText.trim()
+        ? 'This journey has no plan to work from.'
+        : null
+
+  const transcript = run?.transcript ?? ''
+  const visibleTranscript = transcript.length > MAX_VISIBLE_CHARS
+    ? '…' + transcript.slice(-MAX_VISIBLE_CHARS)
+    : transcript
+  const banner = run && run.status !== 'running' ? STATUS_BANNERS[run.status] : null
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex items-end gap-3 flex-wrap">
+        <label className="text-xs text-gray-600 dark:text-gray-300">
+          Max turns
+          <input
+            type="number"
+            min={1}
+            value={maxTurns}
+            onChange={(e) => setMaxTurns(Math.max(1, Number(e.target.value) || 1))}
+            disabled={isRunning}
+            className="block mt-1 w-24 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+          />
+        </label>
+        <label className="text-xs text-gray-600 dark:text-gray-300">
+          Time limit (min)
+          <input
+            type="number"
+            min={1}
+            value={timeLimitMinutes}
+            onChange={(e) => setTimeLimitMinutes(Math.max(1, Number(e.target.value) || 1))}
+            disabled={isRunning}
+            className="block mt-1 w-24 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+          />
+        </label>
+        <label className="text-xs text-gray-600 dark:text-gray-300 flex-1 min-w-[16rem]" title="Command prefixes Claude may run, comma separated - everything else in the shell is denied">
+          Allowed commands
+          <input
+            type="text"
+            value={allowedCommands}
+            onChange={(e) => setAllowedCommands(e.target.value)}
+            disabled={isRunning}
+            placeholder="None - Claude can't run tests"
+            className="block mt-1 w-full px-2 py-1 text-sm font-mono border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+          />
+        </label>
+        {isRunning ? (
+          <Button variant="danger" size="sm" onClick={() => stop(journey.id)}>
+            Stop autopilot
+          </Button>
+        ) : (
+          <Button size="sm" onClick={handleStart} disabled={!!blocker || planLoading || isStarting}>
+            {isStarting ? 'Starting...' : run ? 'Run autopilot again' : 'Start autopilot'}
+          </Button>
+        )}
+        {isRunning && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Started {new Date(run.startedAt).toLocaleTimeString()} · up to {run.budget.maxTurns} turns /{' '}
+            {Math.round(run.budget.timeoutMs / 60000)} min
+          </span>
+        )}
+      </div>
+
+      {blocker && !run && <p className="text-sm text-gray-500 dark:text-gray-400">{blocker}</p>}
+
+      {error && (
+        <div className="p-2 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Result */}
+      {run && banner && (
+        <div className={`p-3 border rounded ${banner.className}`}>
+          <div className="text-sm font-medium">{banner.title}</div>
+          {run.error && run.status !== 'stopped' && <div className="text-xs mt-1">{run.error}</div>}
+          {run.budget.allowedCommands.length === 0 && (
+            <div className="text-xs mt-1">No commands were allowed, so nothing was tested - run the checks yourself.</div>
+          )}
+          {run.summary && <p className="text-sm mt-2 whitespace-pre-wrap">{run.summary}</p>}
+          {run.diff && (
+            <div className="mt-3">
+              <div className="text-xs font-medium">
+                {run.diff.filesChanged} file{run.diff.filesChanged === 1 ? '' : 's'} changed ·{' '}
+                <span className="text-green-600 dark:text-green-400">+{run.diff.insertions}</span>{' '}
+                <span className="text-red-600 dark:text-red-400">-{run.diff.deletions}</span>
+              </div>
+              <ul className="mt-1 text-xs font-mono space-y-0.5">
+                {run.diff.files.map((file) => (
+                  <li key={file.path} className="flex gap-2">
+                    <span className="w-20 shrink-0 text-right">
+                      {file.untracked ? 'new' : file.binary ? 'binary' : `+${file.insertions} -${file.deletions}`}
+                    </span>
+                    <span className="truncate">{file.path}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Checklist progress */}
+      {checklist && checklist.items.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+            {checklist.leg_name}
+          </h4>
+          <ul className="space-y-1">
+            {checklist.items.map((item, index) => {
+              const done = item.done || (run?.checklistId === checklist.id && run.completedItems.includes(index))
+              return (
+                <li key={index} className="flex items-center gap-2 text-sm">
+                  <span className={done ? 'text-green-600 dark:text-green-400' : 'text-gray-400'}>{done ? '☑' : '☐'}</span>
+                  <span className={done ? 'text-gray-500 dark:text-gray-400 line-through' : 'text-gray-800 dark:text-gray-200'}>
+                    {item.text}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Transcript */}
+      {run && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1 flex items-center gap-2">
+            Transcript
+            {isRunning && <span className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />}
+          </h4>
+          <pre
+            ref={transcriptRef}
+            className="max-h-[28rem] overflow-y-auto p-2 text-xs font-mono whitespace-pre-wrap break-words border border-gray-200 dark:border-gray-700 rounded bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+          >
+            {visibleTranscript || 'Waiting for Claude...'}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
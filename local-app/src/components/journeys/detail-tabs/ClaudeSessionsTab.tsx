@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useJourneyClaudeSessions, useJourneys } from '@dev-orchestrator/shared'
+import type { ClaudeSessionMatchReason, Journey, JourneyClaudeSession, Project } from '@dev-orchestrator/shared'
+import { Button } from '../../common/Button'
+import { ConversationViewer } from '../../history/ConversationViewer'
+import { findJourneyClaudeSessions } from '../../../lib/claudeSessionMatcher'
+import type { ClaudeMessage } from '../../../types/history'
+
+interface ClaudeSessionsTabProps {
+  journey: Journey
+  project: Project | null
+}
+
+const REASON_BADGES: Record<ClaudeSessionMatchReason, { label: string; title: string; className: string }> = {
+  worktree: {
+    label: 'Worktree',
+    title: "Ran in this journey's worktree",
+    className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  },
+  branch: {
+    label: 'Branch',
+    title: "Ran on this journey's branch",
+    className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  },
+  time_window: {
+    label: 'Time window',
+    title: 'Ran while a session for this journey was open',
+    className: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+  },
+}
+
+export function ClaudeSessionsTab({ journey, project }: ClaudeSessionsTabProps) {
+  const { claudeSessions, loading, error, saveMatches } = useJourneyClaudeSessions(journey.id)
+  const { journeys, loading: journeysLoading } = useJourneys(journey.project_id)
+  const [scanning, setScanning] = useState(false)
+  const [scanError, setScanError] = useState<string | null>(null)
+  const [viewing, setViewing] = useState<JourneyClaudeSession | null>(null)
+  const [messages, setMessages] = useState<ClaudeMessage[]>([])
+  const [messagesLoading, setMessagesLoading] = useState(false)
+  const scannedJourneyId = useRef<string | null>(null)
+
+  // Matching runs over the whole project so a session can go to the journey with the best claim
+  const handleScan = useCallback(async () => {
+    if (!project) return
+    setScanning(true)
+    setScanError(null)
+    try {
+      const matches = await findJourneyClaudeSessions(project, journeys)
+      await saveMatches(matches)
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : 'Failed to match Claude sessions')
+    } finally {
+      setScanning(false)
+    }
+  }, [project, journeys, saveMatches])
+
+  // Scan once per journey, as soon as the project's journeys are in
+  useEffect(() => {
+    if (journeysLoading || !project || scannedJourneyId.current === journey.id) return
+    scannedJourneyId.current = journey.id
+    handleScan()
+  }, [journey.id, journeysLoading, project, handleScan])
+
+  useEffect(() => {
+    setViewing(null)
+  }, [journey.id])
+
+  const handleView = async (session: JourneyClaudeSession) => {
+    if (viewing?.id === session.id) {
+      setViewing(null)
+      return
+    }
+    setViewing(session)
+    setMessagesLoading(true)
+    try {
+      setMessages(await window.electronAPI.history.getMessages(session.file_path))
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : 'Failed to load conversation')
+      setMessages([])
+    } finally {
+      setMessagesLoading(false)
+    }
+  }
+
+  // Resume needs the session's own directory - Claude looks transcripts up by cwd
+  const handleResume = async (session: JourneyClaudeSession) => {
+    const cwd = session.cwd || journey.worktree_path || project?.root_path
+    if (!cwd) return
+    try {
+      await window.electronAPI.terminal.open({
+        cwd,
+        title: `Claude: ${journey.name}`,
+        launchClaude: true,
+        sessionId: session.claude_session_id,
+      })
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : 'Failed to resume session')
+    }
+  }
+
+  if (loading && claudeSessions.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-48 text-gray-500 dark:text-gray-400">
+        Loading conversations...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-red-600 dark:text-red-400 p-4">
+        Error loading conversations: {error.message}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Claude Code sessions matched to this journey by worktree, branch and when they ran.
+        </p>
+        <Button variant="secondary" size="sm" onClick={handleScan} disabled={scanning || !project}>
+          {scanning ? 'Scanning...' : 'Rescan'}
+        </Button>
+      </div>
+
+      {scanError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{scanError}</p>
+      )}
+
+      {claudeSessions.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          <p className="text-sm">{scanning ? 'Looking for conversations...' : 'No Claude Code sessions linked yet'}</p>
+          {!scanning && (
+            <p className="text-xs mt-1">Sessions run in the journey's worktree or on its branch show up here.</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {claudeSessions.map((session) => {
+            const badge = REASON_BADGES[session.match_reason]
+            const isViewing = viewing?.id === session.id
+            return (
+              <div
+                key={session.id}
+                className={`bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border ${
+                  isViewing ? 'border-blue-500' : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800 dark:text-gray-200 line-clamp-2">
+                      {session.first_message || session.claude_session_id}
+                    </p>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                      <span className={`px-1.5 py-0.5 rounded ${badge.className}`} title={badge.title}>
+                        {badge.label}
+                      </span>
+                      {session.git_branch && <span className="font-mono truncate">{session.git_branch}</span>}
+                      <span className="shrink-0">{new Date(session.last_active_at).toLocaleString()}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => handleView(session)}>
+                      {isViewing ? 'Hide' : 'View'}
+                    </Button>
+                    <Button size="sm" onClick={() => handleResume(session)}>
+                      Resume
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {viewing && (
+        <div className="h-[32rem] flex flex-col border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+          <ConversationViewer messages={messages} isLoading={messagesLoading} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { Journey } from '@dev-orchestrator/shared'
+import { Button } from '../../common/Button'
+import { foldUnchanged, toSideBySide, type DiffCell } from '../../../lib/unifiedDiff'
+import type { BranchDiff, BranchFileStatus, FileDiff } from '../../../types/git'
+
+interface DiffTabProps {
+  journey: Journey
+}
+
+const STATUS_LABELS: Record<BranchFileStatus, { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-600 dark:text-green-400' },
+  untracked: { label: 'U', className: 'text-green-600 dark:text-green-400' },
+  modified: { label: 'M', className: 'text-amber-600 dark:text-amber-400' },
+  deleted: { label: 'D', className: 'text-red-600 dark:text-red-400' },
+}
+
+function Cell({ cell, side }: { cell: DiffCell | null; side: 'left' | 'right' }) {
+  const changedClass = side === 'left'
+    ? 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+    : 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+
+  if (!cell) {
+    return <td colSpan={2} className="bg-gray-50 dark:bg-gray-800/50" />
+  }
+  return (
+    <>
+      <td className="w-10 px-1 text-right text-gray-400 select-none align-top">{cell.number}</td>
+      <td className={`px-2 whitespace-pre-wrap break-all align-top ${cell.changed ? changedClass : 'text-gray-700 dark:text-gray-300'}`}>
+        {cell.text || ' '}
+      </td>
+    </>
+  )
+}
+
+function SideBySideDiff({ fileDiff, showFullFile }: { fileDiff: FileDiff; showFullFile: boolean }) {
+  const rows = useMemo(() => {
+    const sideBySide = toSideBySide(fileDiff.patch)
+    return showFullFile ? sideBySide : foldUnchanged(sideBySide)
+  }, [fileDiff.patch, showFullFile])
+
+  if (fileDiff.binary) {
+    return <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Binary file - no preview.</p>
+  }
+  if (rows.length === 0) {
+    return <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No changes.</p>
+  }
+
+  return (
+    <table className="w-full table-fixed text-xs font-mono border-collapse">
+      <colgroup>
+        <col className="w-10" />
+        <col />
+        <col className="w-10" />
+        <col />
+      </colgroup>
+      <tbody>
+        {rows.map((row, index) =>
+          row.type === 'lines' ? (
+            <tr key={index}>
+              <Cell cell={row.left} side="left" />
+              <Cell cell={row.right} side="right" />
+            </tr>
+          ) : (
+            <tr key={index}>
+              <td colSpan={4} className="px-2 py-0.5 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-300">
+                {row.type === 'hunk' ? row.header : `⋯ ${row.count} unchanged line${row.count === 1 ? '' : 's'}`}
+              </td>
+            </tr>
+          )
+        )}
+      </tbody>
+    </table>
+  )
+}
+
+/**
+ * Side-by-side review of everything on the journey's branch against its base branch
+ */
+export function DiffTab({ journey }: DiffTabProps) {
+  const worktreePath = journey.worktree_path
+  const [diff, setDiff] = useState<BranchDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [fileDiff, setFileDiff] = useState<FileDiff | null>(null)
+  const [fileLoading, setFileLoading] = useState(false)
+  const [showFullFile, setShowFullFile] = useState(false)
+  const [showCommits, setShowCommits] = useState(false)
+
+  const loadDiff = useCallback(async () => {
+    if (!worktreePath) return
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.git.getBranchDiff(worktreePath)
+      if (!result) {
+        throw new Error('Could not diff this worktree against its base branch')
+      }
+      setDiff(result)
+      // Keep the open file if it is still changed, otherwise open the first one
+      setSelectedPath((current) =>
+        current && result.files.some((file) => file.path === current) ? current : result.files[0]?.path ?? null
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load diff')
+    } finally {
+      setLoading(false)
+    }
+  }, [worktreePath])
+
+  useEffect(() => {
+    loadDiff()
+  }, [loadDiff])
+
+  useEffect(() => {
+    if (!worktreePath || !diff || !selectedPath) {
+      setFileDiff(null)
+      return
+    }
+
+    let cancelled = false
+    setFileDiff(null)
+    setFileLoading(true)
+    window.electronAPI.git
+      .getFileDiff(worktreePath, selectedPath, diff.baseBranch)
+      .then((result) => {
+        if (!cancelled) setFileDiff(result)
+      })
+      .finally(() => {
+        if (!cancelled) setFileLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [worktreePath, diff, selectedPath])
+
+  if (!worktreePath) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This journey has no worktree, so there is no branch to review.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Summary */}
+      <div className="flex items-center gap-3 flex-wrap">
+        {diff && (
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-mono">{diff.branch}</span> vs <span className="font-mono">{diff.baseBranch}</span> ·{' '}
+            {diff.filesChanged} file{diff.filesChanged === 1 ? '' : 's'} ·{' '}
+            <span className="text-green-600 dark:text-green-400">+{diff.insertions}</span>{' '}
+            <span className="text-red-600 dark:text-red-400">-{diff.deletions}</span> ·{' '}
+            <button onClick={() => setShowCommits(!showCommits)} className="text-blue-600 dark:text-blue-400 hover:underline">
+              {diff.commits.length} commit{diff.commits.length === 1 ? '' : 's'}
+            </button>
+          </span>
+        )}
+        <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300">
+          <input type="checkbox" checked={showFullFile} onChange={(e) => setShowFullFile(e.target.checked)} />
+          Full file
+        </label>
+        <Button size="sm" variant="secondary" onClick={loadDiff} disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {/* Commits */}
+      {diff && showCommits && (
+        <ul className="text-xs space-y-0.5 border border-gray-200 dark:border-gray-700 rounded p-2 max-h-40 overflow-y-auto">
+          {diff.commits.length === 0 ? (
+            <li className="text-gray-500 dark:text-gray-400">No commits yet - all changes are uncommitted.</li>
+          ) : (
+            diff.commits.map((commit) => (
+              <li key={commit.hash} className="flex gap-2">
+                <span className="font-mono text-gray-500 dark:text-gray-400">{commit.shortHash}</span>
+                <span className="flex-1 truncate text-gray-800 dark:text-gray-200">{commit.subject}</span>
+                <span className="text-gray-500 dark:text-gray-400 shrink-0">
+                  {commit.author} · {new Date(commit.date).toLocaleString()}
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+
+      {diff && diff.files.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No changes against {diff.baseBranch}.</p>
+      )}
+
+      {diff && diff.files.length > 0 && (
+        <div className="flex gap-3 h-[70vh]">
+          {/* File list */}
+          <ul className="w-64 shrink-0 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded text-xs">
+            {diff.files.map((file) => (
+              <li key={file.path}>
+                <button
+                  onClick={() => setSelectedPath(file.path)}
+                  className={`w-full flex items-center gap-2 px-2 py-1 text-left ${
+                    selectedPath === file.path
+                      ? 'bg-blue-50 dark:bg-blue-900/20'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                  title={file.path}
+                >
+                  <span className={`w-3 font-mono ${STATUS_LABELS[file.status].className}`}>
+                    {STATUS_LABELS[file.status].label}
+                  </span>
+                  <span className="flex-1 truncate font-mono text-gray-800 dark:text-gray-200">
+                    {file.path}
+                  </span>
+                  <span className="shrink-0 text-gray-500 dark:text-gray-400">
+                    {file.binary ? 'bin' : `+${file.insertions} -${file.deletions}`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Side-by-side viewer */}
+          <div className="flex-1 min-w-0 overflow-auto border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-gray-900">
+            {fileLoading ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading diff...</p>
+            ) : fileDiff ? (
+              <>
+                {fileDiff.truncated && (
+                  <p className="px-2 py-1 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20">
+                    This diff is too large to show in full - it has been cut off.
+                  </p>
+                )}
+                <SideBySideDiff fileDiff={fileDiff} showFullFile={showFullFile} />
+              </>
+            ) : selectedPath ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Could not load the diff for {selectedPath}.</p>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
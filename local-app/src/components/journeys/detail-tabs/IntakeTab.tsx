@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { useJourneyIntakes } from '@dev-orchestrator/shared'
 import type { Journey } from '../../../types'
 import { Button } from '../../common/Button'
+import { useClaudeStream } from '../../../hooks/useClaudeCli'
 
 interface IntakeTabProps {
   journey: Journey
@@ -56,6 +57,7 @@ export function IntakeTab({ journey, onStageChange }: IntakeTabProps) {
   const [isSaving, setIsSaving] = useState(false)
   const [isRefining, setIsRefining] = useState(false)
   const [refineError, setRefineError] = useState<string | null>(null)
+  const { start: startRequest, end: endRequest, cancel: cancelRefine } = useClaudeStream()
   const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
 
   const latestIntake = getLatestIntake()
@@ -106,13 +108,18 @@ export function IntakeTab({ journey, onStageChange }: IntakeTabProps) {
 
     setIsRefining(true)
     setRefineError(null)
+    const requestId = startRequest()
 
     try {
       const result = await window.electronAPI.claude.refineIntake(
         currentIntake.raw_content,
-        journey.type
+        journey.type,
+        undefined, // projectContext
+        { requestId, journeyId: journey.id, projectId: journey.project_id }
       )
 
+      if (result.cancelled) return
+
       if (!result.success || !result.data) {
         setRefineError(result.error || 'Failed to refine intake')
         return
@@ -132,6 +139,7 @@ export function IntakeTab({ journey, onStageChange }: IntakeTabProps) {
       console.error('Failed to refine intake:', err)
       setRefineError(err instanceof Error ? err.message : 'Failed to refine intake')
     } finally {
+      endRequest(requestId)
       setIsRefining(false)
     }
   }
@@ -258,6 +266,11 @@ export function IntakeTab({ journey, onStageChange }: IntakeTabProps) {
                   {refineError && (
                     <p className="text-xs text-red-500 mr-4">{refineError}</p>
                   )}
+                  {isRefining && (
+                    <Button variant="danger" size="sm" className="mr-2" onClick={cancelRefine}>
+                      Stop
+                    </Button>
+                  )}
                   <Button
                     variant="secondary"
                     size="sm"
@@ -280,15 +293,21 @@ export function IntakeTab({ journey, onStageChange }: IntakeTabProps) {
                 {refineError && (
                   <p className="text-xs text-red-500 mt-2">{refineError}</p>
                 )}
-                <Button
-                  variant="secondary"
-                  size="sm"
-                  className="mt-4"
-                  disabled={!currentIntake?.raw_content || isRefining}
-                  onClick={handleRefine}
-                >
-                  {isRefining ? 'Refining...' : 'Refine with AI'}
-                </Button>
+                <div className="flex gap-2 mt-4">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={!currentIntake?.raw_content || isRefining}
+                    onClick={handleRefine}
+                  >
+                    {isRefining ? 'Refining...' : 'Refine with AI'}
+                  </Button>
+                  {isRefining && (
+                    <Button variant="danger" size="sm" onClick={cancelRefine}>
+                      Stop
+                    </Button>
+                  )}
+                </div>
               </div>
             )}
           </>
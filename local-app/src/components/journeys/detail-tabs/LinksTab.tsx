@@ -1,19 +1,88 @@
-import { useJourneyLinks } from '@dev-orchestrator/shared'
+import { useMemo, useState } from 'react'
+import { formatStageName, useJourneyLinks, useJourneys } from '@dev-orchestrator/shared'
+import type { JourneyRelationship } from '@dev-orchestrator/shared'
 import type { Journey } from '../../../types'
 import { Button } from '../../common/Button'
+import { Input } from '../../common/Input'
 
 interface LinksTabProps {
   journey: Journey
 }
 
+// Links people manage by hand - spawned_from is written when journeys are generated
+const LINK_OPTIONS: { relationship: JourneyRelationship; label: string }[] = [
+  { relationship: 'blocks', label: 'Blocks' },
+  { relationship: 'depends_on', label: 'Depends on' },
+  { relationship: 'related_to', label: 'Related to' },
+]
+
 export function LinksTab({ journey }: LinksTabProps) {
   const {
     outgoingLinks,
     incomingLinks,
     loading,
     error,
+    createLink,
+    deleteLink,
+    deleteIncomingLink,
     getLinksByRelationship,
   } = useJourneyLinks(journey.id)
+  const { journeys } = useJourneys(journey.project_id)
+  const [showPicker, setShowPicker] = useState(false)
+  const [relationship, setRelationship] = useState<JourneyRelationship>('blocks')
+  const [search, setSearch] = useState('')
+  const [linkError, setLinkError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const journeyNames = useMemo(() => new Map(journeys.map((j) => [j.id, j.name])), [journeys])
+  const candidates = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return journeys
+      .filter((j) => j.id !== journey.id)
+      .filter((j) => !query || j.name.toLowerCase().includes(query) || j.description?.toLowerCase().includes(query))
+      .slice(0, 20)
+  }, [journeys, journey.id, search])
+
+  const handleLink = async (target: Journey) => {
+    setSaving(true)
+    setLinkError(null)
+    try {
+      await createLink(target.id, relationship)
+      setSearch('')
+      setShowPicker(false)
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Failed to link journey')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUnlink = async (otherId: string, linkRelationship: JourneyRelationship, incoming: boolean) => {
+    setLinkError(null)
+    try {
+      if (incoming) {
+        await deleteIncomingLink(otherId, linkRelationship)
+      } else {
+        await deleteLink(otherId, linkRelationship)
+      }
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Failed to remove link')
+    }
+  }
+
+  const linkLabel = (id: string) => journeyNames.get(id) ?? `Journey ID: ${id.slice(0, 8)}...`
+
+  const removeButton = (otherId: string, linkRelationship: JourneyRelationship, incoming: boolean) => (
+    <button
+      onClick={() => handleUnlink(otherId, linkRelationship, incoming)}
+      className="text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+      title="Remove link"
+    >
+      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+      </svg>
+    </button>
+  )
 
   if (loading) {
     return (
@@ -48,7 +117,7 @@ export function LinksTab({ journey }: LinksTabProps) {
               {incoming.map((link) => (
                 <div key={link.from_journey_id} className="flex items-center justify-between">
                   <span className="text-sm text-blue-600 dark:text-blue-400">
-                    Journey ID: {link.from_journey_id.slice(0, 8)}...
+                    {linkLabel(link.from_journey_id)}
                   </span>
                   <span className="text-xs text-gray-500">
                     {new Date(link.created_at).toLocaleDateString()}
@@ -73,7 +142,7 @@ export function LinksTab({ journey }: LinksTabProps) {
               {outgoing.map((link) => (
                 <div key={link.to_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-gray-200 dark:border-gray-700 flex items-center justify-between">
                   <span className="text-sm text-green-600 dark:text-green-400">
-                    Journey ID: {link.to_journey_id.slice(0, 8)}...
+                    {linkLabel(link.to_journey_id)}
                   </span>
                   <span className="text-xs text-gray-500">
                     {new Date(link.created_at).toLocaleDateString()}
@@ -98,8 +167,9 @@ export function LinksTab({ journey }: LinksTabProps) {
               <div className="space-y-1">
                 <p className="text-xs text-gray-500">This journey depends on:</p>
                 {outgoing.map((link) => (
-                  <div key={link.to_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 border border-gray-200 dark:border-gray-700 text-sm text-yellow-600 dark:text-yellow-400">
-                    Journey ID: {link.to_journey_id.slice(0, 8)}...
+                  <div key={link.to_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-gray-200 dark:border-gray-700 text-sm text-yellow-600 dark:text-yellow-400">
+                    <span>{linkLabel(link.to_journey_id)}</span>
+                    {removeButton(link.to_journey_id, 'depends_on', false)}
                   </div>
                 ))}
               </div>
@@ -108,8 +178,9 @@ export function LinksTab({ journey }: LinksTabProps) {
               <div className="space-y-1 mt-2">
                 <p className="text-xs text-gray-500">Depends on this journey:</p>
                 {incoming.map((link) => (
-                  <div key={link.from_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 border border-gray-200 dark:border-gray-700 text-sm text-yellow-600 dark:text-yellow-400">
-                    Journey ID: {link.from_journey_id.slice(0, 8)}...
+                  <div key={link.from_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-gray-200 dark:border-gray-700 text-sm text-yellow-600 dark:text-yellow-400">
+                    <span>{linkLabel(link.from_journey_id)}</span>
+                    {removeButton(link.from_journey_id, 'depends_on', true)}
                   </div>
                 ))}
               </div>
@@ -131,8 +202,9 @@ export function LinksTab({ journey }: LinksTabProps) {
               <div className="space-y-1">
                 <p className="text-xs text-gray-500">This journey blocks:</p>
                 {outgoing.map((link) => (
-                  <div key={link.to_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 border border-red-200 dark:border-red-900/50 text-sm text-red-600 dark:text-red-400">
-                    Journey ID: {link.to_journey_id.slice(0, 8)}...
+                  <div key={link.to_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-red-200 dark:border-red-900/50 text-sm text-red-600 dark:text-red-400">
+                    <span>{linkLabel(link.to_journey_id)}</span>
+                    {removeButton(link.to_journey_id, 'blocks', false)}
                   </div>
                 ))}
               </div>
@@ -141,8 +213,9 @@ export function LinksTab({ journey }: LinksTabProps) {
               <div className="space-y-1 mt-2">
                 <p className="text-xs text-gray-500">Blocked by:</p>
                 {incoming.map((link) => (
-                  <div key={link.from_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 border border-red-200 dark:border-red-900/50 text-sm text-red-600 dark:text-red-400">
-                    Journey ID: {link.from_journey_id.slice(0, 8)}...
+                  <div key={link.from_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-red-200 dark:border-red-900/50 text-sm text-red-600 dark:text-red-400">
+                    <span>{linkLabel(link.from_journey_id)}</span>
+                    {removeButton(link.from_journey_id, 'blocks', true)}
                   </div>
                 ))}
               </div>
@@ -163,13 +236,15 @@ export function LinksTab({ journey }: LinksTabProps) {
             </h4>
             <div className="space-y-1">
               {outgoing.map((link) => (
-                <div key={link.to_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 border border-gray-200 dark:border-gray-700 text-sm text-blue-600 dark:text-blue-400">
-                  Journey ID: {link.to_journey_id.slice(0, 8)}...
+                <div key={link.to_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-gray-200 dark:border-gray-700 text-sm text-blue-600 dark:text-blue-400">
+                  <span>{linkLabel(link.to_journey_id)}</span>
+                  {removeButton(link.to_journey_id, 'related_to', false)}
                 </div>
               ))}
               {incoming.map((link) => (
-                <div key={link.from_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 border border-gray-200 dark:border-gray-700 text-sm text-blue-600 dark:text-blue-400">
-                  Journey ID: {link.from_journey_id.slice(0, 8)}...
+                <div key={link.from_journey_id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 flex items-center justify-between border border-gray-200 dark:border-gray-700 text-sm text-blue-600 dark:text-blue-400">
+                  <span>{linkLabel(link.from_journey_id)}</span>
+                  {removeButton(link.from_journey_id, 'related_to', true)}
                 </div>
               ))}
             </div>
@@ -188,14 +263,59 @@ export function LinksTab({ journey }: LinksTabProps) {
         </div>
       )}
 
-      {/* Add Link Button */}
-      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
-        <Button variant="secondary" disabled title="Coming soon">
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
-          </svg>
-          Link Journey
-        </Button>
+      {/* Add Link */}
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+        {linkError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{linkError}</p>
+        )}
+        {showPicker ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 dark:text-gray-300">This journey</span>
+              <select
+                value={relationship}
+                onChange={(e) => setRelationship(e.target.value as JourneyRelationship)}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+              >
+                {LINK_OPTIONS.map((option) => (
+                  <option key={option.relationship} value={option.relationship}>{option.label}</option>
+                ))}
+              </select>
+              <div className="flex-1" />
+              <Button size="sm" variant="secondary" onClick={() => { setShowPicker(false); setSearch('') }}>
+                Cancel
+              </Button>
+            </div>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search journeys in this project..."
+              autoFocus
+            />
+            <div className="max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {candidates.length === 0 ? (
+                <p className="p-3 text-sm text-gray-500 dark:text-gray-400">No matching journeys</p>
+              ) : candidates.map((candidate) => (
+                <button
+                  key={candidate.id}
+                  onClick={() => handleLink(candidate)}
+                  disabled={saving}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+                >
+                  <span className="truncate text-gray-800 dark:text-gray-200">{candidate.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{formatStageName(candidate.stage)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <Button variant="secondary" onClick={() => { setShowPicker(true); setLinkError(null) }}>
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+            </svg>
+            Link Journey
+          </Button>
+        )}
       </div>
     </div>
   )
@@ -1,4 +1,5 @@
 import { useState } from 'react'
+import { useJourneyStageHistory, formatStageName } from '@dev-orchestrator/shared'
 import type { Journey, JourneyStage, JourneyUpdate } from '../../../types'
 import { TypeBadge } from '../TypeBadge'
 import { StageRow } from '../StageRow'
@@ -8,6 +9,8 @@ import { Input } from '../../common/Input'
 interface OverviewTabProps {
   journey: Journey
   onUpdate: (updates: JourneyUpdate) => Promise<void>
+  // Goes through the stage transition rules and reports blocked moves - resolves to whether it moved
+  onStageChange: (stage: JourneyStage, note?: string) => Promise<boolean>
   onDelete?: () => void
 }
 
@@ -37,13 +40,15 @@ const stageDescriptions: Record<JourneyStage, string> = {
   fixing: 'Implementing the fix',
 }
 
-export function OverviewTab({ journey, onUpdate, onDelete }: OverviewTabProps) {
+export function OverviewTab({ journey, onUpdate, onStageChange, onDelete }: OverviewTabProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editName, setEditName] = useState(journey.name)
   const [editDescription, setEditDescription] = useState(journey.description || '')
   const [editSourceUrl, setEditSourceUrl] = useState(journey.source_url || '')
   const [editTags, setEditTags] = useState(journey.tags?.join(', ') || '')
   const [isSaving, setIsSaving] = useState(false)
+  const [stageNote, setStageNote] = useState('')
+  const { transitions, refetch: refetchHistory } = useJourneyStageHistory(journey.id)
 
   const handleSave = async () => {
     setIsSaving(true)
@@ -62,6 +67,13 @@ export function OverviewTab({ journey, onUpdate, onDelete }: OverviewTabProps) {
     }
   }
 
+  const handleStageChange = async (stage: JourneyStage) => {
+    if (await onStageChange(stage, stageNote)) {
+      setStageNote('')
+      refetchHistory()
+    }
+  }
+
   const handleCancel = () => {
     setIsEditing(false)
     setEditName(journey.name)
@@ -70,14 +82,6 @@ export function OverviewTab({ journey, onUpdate, onDelete }: OverviewTabProps) {
     setEditTags(journey.tags?.join(', ') || '')
   }
 
-  const handleStageChange = async (newStage: JourneyStage) => {
-    try {
-      await onUpdate({ stage: newStage })
-    } catch (err) {
-      console.error('Failed to update stage:', err)
-    }
-  }
-
   return (
     <div className="space-y-6">
       {/* Type Badge */}
@@ -130,8 +134,43 @@ export function OverviewTab({ journey, onUpdate, onDelete }: OverviewTabProps) {
         <p className="text-xs text-gray-500 dark:text-gray-400 italic">
           {stageDescriptions[journey.stage] || 'Working on this stage'}
         </p>
+        <Input
+          value={stageNote}
+          onChange={(e) => setStageNote(e.target.value)}
+          placeholder="Note for the next stage change (optional)"
+        />
       </div>
 
+      {/* Stage History */}
+      {transitions.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Stage History</h3>
+          <ul className="space-y-1">
+            {[...transitions].reverse().map((transition) => (
+              <li key={transition.id} className="text-xs text-gray-500 dark:text-gray-400">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {transition.from_stage
+                    ? `${formatStageName(transition.from_stage)} → ${formatStageName(transition.to_stage)}`
+                    : `Started in ${formatStageName(transition.to_stage)}`}
+                </span>
+                {' · '}
+                {new Date(transition.created_at).toLocaleString()}
+                {transition.changed_by && ` · ${transition.changed_by}`}
+                {transition.note && <span className="block pl-3 italic">{transition.note}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Summary - generated when the journey is deployed */}
+      {journey.summary && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Summary</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-line">{journey.summary}</p>
+        </div>
+      )}
+
       {/* Source URL */}
       <div className="space-y-2">
         <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Source URL</h3>
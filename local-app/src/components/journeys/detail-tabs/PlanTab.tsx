@@ -6,8 +6,10 @@ import type {
   ProposedJourneyStatus,
   JourneyInsert,
 } from '@dev-orchestrator/shared'
-import { useProposedChildJourneys, useJourneySpec, useJourneys, getSupabase } from '@dev-orchestrator/shared'
+import { useProposedChildJourneys, useJourneySpec, useJourneys, useJourneyAiSession, getSupabase } from '@dev-orchestrator/shared'
 import { Button } from '../../common/Button'
+import { StreamingProgress } from '../../common/StreamingProgress'
+import { useClaudeStream } from '../../../hooks/useClaudeCli'
 
 type FilterTab = 'all' | ProposedJourneyStatus
 
@@ -46,6 +48,17 @@ export function PlanTab({ journey, project, onStageChange }: PlanTabProps) {
   const [isChatProcessing, setIsChatProcessing] = useState(false)
   const chatInputRef = useRef<HTMLTextAreaElement>(null)
   const chatMessagesRef = useRef<HTMLDivElement>(null)
+  // Chat continues one Claude session, resumed when the journey is reopened
+  const {
+    sessionId: chatSessionId,
+    saveSession: saveChatSession,
+    clearSession: clearChatSession,
+  } = useJourneyAiSession(journey.id, 'plan-chat')
+
+  // Live AI progress for generation and chat
+  const generateStream = useClaudeStream()
+  const chatStream = useClaudeStream()
+  const fleshOutRequest = useClaudeStream()
 
   // Manual add form state
   const [showAddForm, setShowAddForm] = useState(false)
@@ -117,6 +130,7 @@ export function PlanTab({ journey, project, onStageChange }: PlanTabProps) {
 
     setIsGenerating(true)
     setAiError(null)
+    const requestId = generateStream.start()
 
     try {
       // Get existing proposals for context
@@ -130,9 +144,12 @@ export function PlanTab({ journey, project, onStageChange }: PlanTabProps) {
         spec.content,
         journey.name,
         existingProposals,
-        project?.root_path
+        project?.root_path,
+        { requestId, stream: true, journeyId: journey.id, projectId: journey.project_id }
       )
 
+      if (result.cancelled) return
+
       if (!result.success || !result.data?.journeys) {
         setAiError(result.error || 'Failed to generate child journeys')
         return
@@ -177,9 +194,10 @@ export function PlanTab({ journey, project, onStageChange }: PlanTabProps) {
       console.error('Failed to generate child journeys:', err)
       setAiError(err instanceof Error ? err.message : 'Failed to generate child journeys')
     } finally {
+      generateStream.end(requestId)
       setIsGenerating(false)
     }
-  }, [spec, journey.name, journey.stage, project, proposals, replaceAllProposals, addProposals, onStageChange])
+  }, [spec, journey.id, journey.project_id, journey.name, journey.stage, project, proposals, replaceAllProposals, addProposals, onStageChange, generateStream.start, generateStream.end])
 
   // Create a feature journey from a proposal (internal helper, doesn't update proposal status)
   const createJourneyFromProposal = useCallback(async (
@@ -476,6 +494,7 @@ export function PlanTab({ journey, project, onStageChange }: PlanTabProps) {
     setChatMessages(prev => [...prev, userMessage])
     setChatInput('')
     setIsChatProcessing(true)
+    const requestId = chatStream.start()
 
     try {
       // Build context for AI
@@ -489,13 +508,15 @@ export function PlanTab({ journey, project, onStageChange }: PlanTabProps) {
         checklist_items: p.checklist_items,
       }))
 
+      const proposalsJson = JSON.stringify(proposalsContext, null, 2)
+
       const prompt = `You are helping refine proposed child journeys for a feature planning journey.
 
 CURRENT SPEC:
 ${spec?.content || 'No spec available'}
 
 CURRENT PROPOSALS:
-${JSON.stringify(proposalsContext, null, 2)}
+${proposalsJson}
 
 USER REQUEST: ${userMessage.content}
 
@@ -526,16 +547,41 @@ Based on the user's request, provide a helpful response. If the user is asking f
 
 If the user is just asking a question, answer it helpfully without including a JSON block.`
 
-      const result = await window.electronAPI.claude.query({
+      // A resumed session already has the spec and response format - proposals may have changed since
+      const followUpPrompt = `CURRENT PROPOSALS:
+${proposalsJson}
+
+USER REQUEST: ${userMessage.content}
+
+Respond in the same format as before: include a JSON block only if the user is asking for changes.`
+
+      const result = await window.electronAPI.claude.converse({
         prompt,
+        followUpPrompt,
         workingDirectory: project?.root_path,
         timeout: 60000,
+        requestId,
+        stream: true,
+        journeyId: journey.id,
+        projectId: journey.project_id,
+        sessionId: chatSessionId ?? undefined,
       })
 
+      if (result.cancelled) {
+        setChatMessages(prev => [...prev, {
+          role: 'assistant',
+          content: 'Stopped.',
+          timestamp: new Date(),
+        }])
+        return
+      }
+
       if (!result.success) {
         throw new Error(result.error || 'Failed to get AI response')
       }
 
+      if (result.sessionId) await saveChatSession(result.sessionId)
+
       const assistantContent = result.rawOutput || ''
 
       // Try to extract and apply changes from JSON block
@@ -584,9 +630,20 @@ If the user is just asking a question, answer it helpfully without including a J
       }
       setChatMessages(prev => [...prev, errorMessage])
     } finally {
+      chatStream.end(requestId)
       setIsChatProcessing(false)
     }
-  }, [chatInput, isChatProcessing, proposals, spec, project?.root_path, addProposals, updateProposal, deleteProposal])
+  }, [chatInput, isChatProcessing, proposals, spec, project?.root_path, journey.id, journey.project_id, chatSessionId, saveChatSession, addProposals, updateProposal, deleteProposal, chatStream.start, chatStream.end])
+
+  // Drop the Claude session so the next message starts with full context
+  const handleNewChat = useCallback(async () => {
+    try {
+      await clearChatSession()
+      setChatMessages([])
+    } catch (err) {
+      console.error('Failed to reset chat session:', err)
+    }
+  }, [clearChatSession])
 
   // Manual add handler - creates a new proposal and optionally fleshes it out with AI
   const handleManualAdd = useCallback(async (fleshOut: boolean) => {
@@ -594,6 +651,7 @@ If the user is just asking a question, answer it helpfully without including a J
 
     if (fleshOut) {
       setIsFleshingOut(true)
+      const requestId = fleshOutRequest.start()
       try {
         const prompt = `Based on the following spec and the user's journey idea, create a detailed proposed child journey.
 
@@ -622,8 +680,14 @@ Respond with ONLY a JSON object in this format:
           prompt,
           workingDirectory: project?.root_path,
           timeout: 30000,
+          requestId,
+          journeyId: journey.id,
+          projectId: journey.project_id,
         })
 
+        // Keep the form filled in so the user can still add it as-is
+        if (result.cancelled) return
+
         if (result.success && result.rawOutput) {
           // Try to parse JSON from the response
           const jsonMatch = result.rawOutput.match(/\{[\s\S]*\}/)
@@ -652,6 +716,7 @@ Respond with ONLY a JSON object in this format:
           sort_order: proposals.length,
         }])
       } finally {
+        fleshOutRequest.end(requestId)
         setIsFleshingOut(false)
       }
     } else {
@@ -669,7 +734,7 @@ Respond with ONLY a JSON object in this format:
     setNewJourneyName('')
     setNewJourneyDescription('')
     setShowAddForm(false)
-  }, [newJourneyName, newJourneyDescription, spec, project?.root_path, proposals.length, addProposals])
+  }, [newJourneyName, newJourneyDescription, spec, project?.root_path, journey.id, journey.project_id, proposals.length, addProposals, fleshOutRequest.start, fleshOutRequest.end])
 
   if (specLoading || journeysLoading) {
     return (
@@ -737,6 +802,11 @@ Respond with ONLY a JSON object in this format:
             </svg>
             Chat
           </Button>
+          {isGenerating && (
+            <Button onClick={generateStream.cancel} variant="danger" size="sm">
+              Stop
+            </Button>
+          )}
           <Button
             onClick={handleGenerate}
             disabled={isGenerating || !hasSpec}
@@ -892,6 +962,13 @@ Respond with ONLY a JSON object in this format:
         </div>
       )}
 
+      {/* Live generation progress */}
+      {generateStream.stream && (
+        <div className="px-4 pt-3">
+          <StreamingProgress stream={generateStream.stream} label="Generating child journeys..." />
+        </div>
+      )}
+
       {/* Manual Add Form */}
       {showAddForm && (
         <div className="px-4 py-3 bg-blue-50 dark:bg-blue-900/20 border-b border-blue-200 dark:border-blue-800">
@@ -930,6 +1007,11 @@ Respond with ONLY a JSON object in this format:
               >
                 {isFleshingOut ? 'Generating...' : 'Add & Flesh Out with AI'}
               </Button>
+              {isFleshingOut && (
+                <Button variant="danger" size="sm" onClick={fleshOutRequest.cancel}>
+                  Stop
+                </Button>
+              )}
               <Button
                 variant="secondary"
                 size="sm"
@@ -1050,15 +1132,29 @@ Respond with ONLY a JSON object in this format:
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
                 Chat about Proposals
               </span>
+              {chatSessionId && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">· continuing previous conversation</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {(chatSessionId || chatMessages.length > 0) && (
+                <button
+                  onClick={handleNewChat}
+                  disabled={isChatProcessing}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                >
+                  New conversation
+                </button>
+              )}
+              <button
+                onClick={() => setShowChatPanel(false)}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
             </div>
-            <button
-              onClick={() => setShowChatPanel(false)}
-              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
           </div>
 
           {/* Chat Messages */}
@@ -1098,8 +1194,15 @@ Respond with ONLY a JSON object in this format:
             ))}
             {isChatProcessing && (
               <div className="flex justify-start">
-                <div className="bg-white dark:bg-gray-700 px-3 py-2 rounded-lg text-sm text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-600">
-                  Thinking...
+                <div className="max-w-[80%] bg-white dark:bg-gray-700 px-3 py-2 rounded-lg text-sm text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-600">
+                  {chatStream.stream?.currentTool
+                    ? `Running ${chatStream.stream.currentTool}...`
+                    : 'Thinking...'}
+                  {chatStream.stream?.text && (
+                    <p className="mt-1 whitespace-pre-wrap text-gray-900 dark:text-white">
+                      {chatStream.stream.text.replace(/```json[\s\S]*$/, '[Preparing changes...]')}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -1122,13 +1225,19 @@ Respond with ONLY a JSON object in this format:
                 rows={1}
                 className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none"
               />
-              <Button
-                size="sm"
-                onClick={handleChatSubmit}
-                disabled={!chatInput.trim() || isChatProcessing}
-              >
-                Send
-              </Button>
+              {isChatProcessing ? (
+                <Button size="sm" variant="danger" onClick={chatStream.cancel}>
+                  Stop
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={handleChatSubmit}
+                  disabled={!chatInput.trim()}
+                >
+                  Send
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useJourneyChecklists, useJourneyPlan, useJourneySpec } from '@dev-orchestrator/shared'
+import type { Journey, Project } from '@dev-orchestrator/shared'
+import { Button } from '../../common/Button'
+
+interface ShipTabProps {
+  journey: Journey
+  project: Project | null
+}
+
+interface WorktreeStatus {
+  branch: string
+  ahead: number
+  behind: number
+  isClean: boolean
+  modified: number
+  staged: number
+  untracked: number
+}
+
+type GitAction = 'commit' | 'push' | 'rebase'
+
+interface ActionResult {
+  action: GitAction
+  success: boolean
+  message: string
+  conflicts?: string[]
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+
+// File name for the saved PR description, e.g. "add-dark-mode-pr.md"
+function prFileName(journeyName: string): string {
+  const slug = journeyName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, 50)
+  return `${slug || 'journey'}-pr.md`
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{title}</h4>
+      {children}
+    </section>
+  )
+}
+
+/**
+ * Commit, rebase and push the journey's branch, with an AI-drafted commit message and PR body
+ */
+export function ShipTab({ journey, project }: ShipTabProps) {
+  const worktreePath = journey.worktree_path
+  const { spec } = useJourneySpec(journey.id)
+  const { plan } = useJourneyPlan(journey.id)
+  const { checklists } = useJourneyChecklists(journey.id)
+
+  const [status, setStatus] = useState<WorktreeStatus | null>(null)
+  const [commitMessage, setCommitMessage] = useState('')
+  const [prTitle, setPrTitle] = useState('')
+  const [prBody, setPrBody] = useState('')
+  const [isDrafting, setIsDrafting] = useState(false)
+  const [draftError, setDraftError] = useState<string | null>(null)
+  const [runningAction, setRunningAction] = useState<GitAction | null>(null)
+  const [result, setResult] = useState<ActionResult | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const refreshStatus = useCallback(async () => {
+    if (!worktreePath) return
+    setStatus(await window.electronAPI.git.getStatus(worktreePath))
+  }, [worktreePath])
+
+  useEffect(() => {
+    refreshStatus()
+  }, [refreshStatus])
+
+  const handleDraft = async (fresh = false) => {
+    if (!worktreePath) return
+    setIsDrafting(true)
+    setDraftError(null)
+    try {
+      const checklistText = checklists
+        .map((checklist) => [
+          `${checklist.leg_name}:`,
+          ...checklist.items.map((item) => `- [${item.done ? 'x' : ' '}] ${item.text}`),
+        ].join('\n'))
+        .join('\n\n')
+
+      const response = await window.electronAPI.claude.draftCommit(
+        {
+          worktreePath,
+          journeyName: journey.name,
+          journeyType: journey.type,
+          spec: spec?.content ?? undefined,
+          plan: plan?.content ? JSON.stringify(plan.content, null, 2) : journey.description ?? undefined,
+          checklist: checklistText || undefined,
+        },
+        { journeyId: journey.id, projectId: project?.id, fresh }
+      )
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to draft commit message')
+      }
+      setCommitMessage(response.data.commitMessage)
+      setPrTitle(response.data.prTitle)
+      setPrBody(response.data.prBody)
+    } catch (err) {
+      setDraftError(err instanceof Error ? err.message : 'Failed to draft commit message')
+    } finally {
+      setIsDrafting(false)
+    }
+  }
+
+  const runAction = async (action: GitAction) => {
+    if (!worktreePath) return
+    setRunningAction(action)
+    setResult(null)
+    try {
+      const response = action === 'commit'
+        ? await window.electronAPI.git.commit(worktreePath, commitMessage)
+        : action === 'push'
+          ? await window.electronAPI.git.push(worktreePath)
+          : await window.electronAPI.git.rebase(worktreePath)
+
+      const successMessages: Record<GitAction, string> = {
+        commit: `Committed ${response.commit?.slice(0, 7) ?? ''}`,
+        push: `Pushed ${status?.branch ?? 'branch'} to origin`,
+        rebase: `Rebased - HEAD is now ${response.commit?.slice(0, 7) ?? ''}`,
+      }
+      setResult({
+        action,
+        success: response.success,
+        message: response.success ? successMessages[action] : response.error || `${action} failed`,
+        conflicts: response.conflicts,
+      })
+    } finally {
+      setRunningAction(null)
+      refreshStatus()
+    }
+  }
+
+  const prMarkdown = `# ${prTitle}\n\n${prBody}\n`
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(prMarkdown)
+    setNotice('PR description copied to the clipboard')
+  }
+
+  const handleSave = async () => {
+    const savedPath = await window.electronAPI.dialog.saveMarkdown(prFileName(journey.name), prMarkdown)
+    if (savedPath) {
+      setNotice(`Saved to ${savedPath}`)
+    }
+  }
+
+  if (!worktreePath) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This journey has no worktree, so there is nothing to commit or push.
+      </p>
+    )
+  }
+
+  const uncommitted = status ? status.modified + status.staged + status.untracked : 0
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {/* Branch status */}
+      <div className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+        {status ? (
+          <span>
+            <span className="font-mono">{status.branch}</span> ·{' '}
+            {status.isClean ? 'clean' : `${uncommitted} uncommitted change${uncommitted === 1 ? '' : 's'}`}
+            {(status.ahead > 0 || status.behind > 0) && ` · ${status.ahead} ahead, ${status.behind} behind upstream`}
+          </span>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">Reading worktree status...</span>
+        )}
+        <Button size="sm" variant="ghost" onClick={refreshStatus}>
+          Refresh
+        </Button>
+      </div>
+
+      <Section title="Draft">
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => handleDraft(false)} disabled={isDrafting}>
+            {isDrafting ? 'Drafting...' : commitMessage || prBody ? 'Draft again' : 'Draft with AI'}
+          </Button>
+          {(commitMessage || prBody) && !isDrafting && (
+            <Button size="sm" variant="ghost" onClick={() => handleDraft(true)}>
+              Regenerate fresh
+            </Button>
+          )}
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Uses the spec, plan, checklists and the diff against the base branch
+          </span>
+        </div>
+        {draftError && <p className="text-sm text-red-600 dark:text-red-400">{draftError}</p>}
+      </Section>
+
+      <Section title="Commit">
+        <textarea
+          value={commitMessage}
+          onChange={(e) => setCommitMessage(e.target.value)}
+          placeholder={'Subject line\n\nWhat changed and why'}
+          rows={6}
+          className={`${inputClassName} font-mono`}
+        />
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            onClick={() => runAction('commit')}
+            disabled={!commitMessage.trim() || status?.isClean || runningAction !== null}
+          >
+            {runningAction === 'commit' ? 'Committing...' : 'Commit all changes'}
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => runAction('rebase')} disabled={runningAction !== null}>
+            {runningAction === 'rebase' ? 'Rebasing...' : 'Rebase onto base branch'}
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => runAction('push')} disabled={runningAction !== null}>
+            {runningAction === 'push' ? 'Pushing...' : 'Push'}
+          </Button>
+        </div>
+        {result && (
+          <div
+            className={`p-2 text-sm rounded border ${
+              result.success
+                ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'
+                : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+            }`}
+          >
+            <p className="whitespace-pre-wrap">{result.message}</p>
+            {result.conflicts && result.conflicts.length > 0 && (
+              <ul className="mt-1 text-xs font-mono">
+                {result.conflicts.map((file) => (
+                  <li key={file}>{file}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </Section>
+
+      <Section title="Pull request">
+        <input
+          value={prTitle}
+          onChange={(e) => setPrTitle(e.target.value)}
+          placeholder="PR title"
+          className={inputClassName}
+        />
+        <textarea
+          value={prBody}
+          onChange={(e) => setPrBody(e.target.value)}
+          placeholder="PR description (markdown)"
+          rows={14}
+          className={`${inputClassName} font-mono`}
+        />
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="secondary" onClick={handleCopy} disabled={!prBody.trim()}>
+            Copy to clipboard
+          </Button>
+          <Button size="sm" variant="secondary" onClick={handleSave} disabled={!prBody.trim()}>
+            Save as markdown...
+          </Button>
+          {notice && <span className="text-xs text-gray-500 dark:text-gray-400">{notice}</span>}
+        </div>
+      </Section>
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import { useJourneySpec, useJourneyIntakes } from '@dev-orchestrator/shared'
+import { useJourneySpec, useJourneyIntakes, useJourneyAiSession } from '@dev-orchestrator/shared'
 import type { Journey, Project } from '../../../types'
 import { Button } from '../../common/Button'
+import { StreamingProgress } from '../../common/StreamingProgress'
+import { useClaudeStream } from '../../../hooks/useClaudeCli'
 
 interface SpecTabProps {
   journey: Journey
@@ -158,6 +160,12 @@ type SpecMode = 'view' | 'edit'
 export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
   const { spec, loading, error, createOrUpdateSpec, refetch } = useJourneySpec(journey.id)
   const { getLatestIntake, loading: intakesLoading } = useJourneyIntakes(journey.id)
+  // Feedback rounds continue one Claude session until the spec changes outside it
+  const {
+    sessionId: refinementSessionId,
+    saveSession: saveRefinementSession,
+    clearSession: clearRefinementSession,
+  } = useJourneyAiSession(journey.id, 'spec-refinement')
 
   const [mode, setMode] = useState<SpecMode>('view')
   const [content, setContent] = useState('')
@@ -166,7 +174,9 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
   const [isGenerating, setIsGenerating] = useState(false)
   const [isRefining, setIsRefining] = useState(false)
   const [aiError, setAiError] = useState<string | null>(null)
+  const [servedFromCache, setServedFromCache] = useState(false)
   const [feedback, setFeedback] = useState('')
+  const { start: startStream, end: endStream, cancel: cancelStream, stream } = useClaudeStream()
 
   const latestIntake = getLatestIntake()
   const hasRefinedIntake = !!latestIntake?.refined_content
@@ -184,6 +194,8 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
     try {
       await createOrUpdateSpec(content.trim())
       setIsDirty(false)
+      // The session's copy of the spec no longer matches the manual edit
+      if (refinementSessionId) await clearRefinementSession()
     } catch (err) {
       console.error('Failed to save spec:', err)
     } finally {
@@ -191,7 +203,8 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
     }
   }
 
-  const handleGenerate = useCallback(async () => {
+  // fresh bypasses the response cache (identical intake otherwise returns the cached spec)
+  const handleGenerate = useCallback(async (fresh = false) => {
     if (!latestIntake?.refined_content) {
       setAiError('No AI-refined intake available. Please refine the intake first.')
       return
@@ -199,20 +212,27 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
 
     setIsGenerating(true)
     setAiError(null)
+    setServedFromCache(false)
+    const requestId = startStream()
 
     try {
       const result = await window.electronAPI.claude.generateSpec(
         latestIntake.refined_content,
         undefined, // projectContext
         undefined, // techStack
-        project?.root_path // workingDirectory
+        project?.root_path, // workingDirectory
+        { requestId, stream: true, journeyId: journey.id, projectId: journey.project_id, fresh }
       )
 
+      if (result.cancelled) return
+
       if (!result.success || !result.data) {
         setAiError(result.error || 'Failed to generate spec')
         return
       }
 
+      setServedFromCache(!!result.cached)
+
       // Format the structured response into readable markdown
       const formattedSpec = formatSpec(result.data)
 
@@ -221,6 +241,7 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
       await refetch()
       setContent(formattedSpec)
       setIsDirty(false)
+      if (refinementSessionId) await clearRefinementSession()
 
       // Advance stage to 'speccing' when spec is generated from intake
       if (onStageChange && journey.stage === 'intake') {
@@ -230,28 +251,41 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
       console.error('Failed to generate spec:', err)
       setAiError(err instanceof Error ? err.message : 'Failed to generate spec')
     } finally {
+      endStream(requestId)
       setIsGenerating(false)
     }
-  }, [latestIntake, project, createOrUpdateSpec, refetch, onStageChange, journey.stage])
+  }, [latestIntake, project, createOrUpdateSpec, refetch, onStageChange, journey.id, journey.project_id, journey.stage, refinementSessionId, clearRefinementSession, startStream, endStream])
 
   const handleApplyFeedback = useCallback(async () => {
     if (!feedback.trim() || !content.trim()) return
 
     setIsRefining(true)
     setAiError(null)
+    const requestId = startStream()
 
     try {
       const result = await window.electronAPI.claude.refineSpec(
         content,
         feedback,
-        project?.root_path
+        project?.root_path,
+        {
+          requestId,
+          stream: true,
+          journeyId: journey.id,
+          projectId: journey.project_id,
+          sessionId: refinementSessionId ?? undefined,
+        }
       )
 
+      if (result.cancelled) return
+
       if (!result.success || !result.data) {
         setAiError(result.error || 'Failed to refine spec')
         return
       }
 
+      if (result.sessionId) await saveRefinementSession(result.sessionId)
+
       // Format the structured response into readable markdown
       const formattedSpec = formatSpec(result.data)
 
@@ -265,9 +299,10 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
       console.error('Failed to refine spec:', err)
       setAiError(err instanceof Error ? err.message : 'Failed to refine spec')
     } finally {
+      endStream(requestId)
       setIsRefining(false)
     }
-  }, [content, feedback, project, createOrUpdateSpec, refetch])
+  }, [content, feedback, project, journey.id, journey.project_id, refinementSessionId, saveRefinementSession, createOrUpdateSpec, refetch, startStream, endStream])
 
   if (loading || intakesLoading) {
     return (
@@ -292,15 +327,22 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
         <div className="text-sm text-gray-500 dark:text-gray-400">
           {spec ? `Version ${spec.version} • Last updated: ${new Date(spec.updated_at).toLocaleString()}` : 'No spec yet'}
         </div>
-        <Button
-          variant="secondary"
-          size="sm"
-          onClick={handleGenerate}
-          disabled={isGenerating || !hasRefinedIntake}
-          title={!hasRefinedIntake ? 'Please refine the intake first' : 'Generate spec from refined intake'}
-        >
-          {isGenerating ? 'Generating...' : 'Generate with AI'}
-        </Button>
+        <div className="flex gap-2">
+          {isGenerating && (
+            <Button variant="danger" size="sm" onClick={cancelStream}>
+              Stop
+            </Button>
+          )}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => handleGenerate()}
+            disabled={isGenerating || !hasRefinedIntake}
+            title={!hasRefinedIntake ? 'Please refine the intake first' : 'Generate spec from refined intake'}
+          >
+            {isGenerating ? 'Generating...' : 'Generate with AI'}
+          </Button>
+        </div>
       </div>
 
       {/* View/Edit Mode Toggle */}
@@ -335,6 +377,24 @@ export function SpecTab({ journey, project, onStageChange }: SpecTabProps) {
         </div>
       )}
 
+      {/* Cached spec notice */}
+      {servedFromCache && !isGenerating && (
+        <div className="mb-3 p-3 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-md flex items-center justify-between gap-3">
+          <p className="text-sm text-purple-700 dark:text-purple-300">
+            The intake hasn't changed, so this spec was reused from the last generation.
+          </p>
+          <Button variant="secondary" size="sm" onClick={() => handleGenerate(true)}>
+            Regenerate fresh
+          </Button>
+        </div>
+      )}
+
+      {/* Live AI progress */}
+      <StreamingProgress
+        stream={stream}
+        label={isRefining ? 'Applying feedback...' : 'Generating spec...'}
+      />
+
       {/* No refined intake warning */}
       {!hasRefinedIntake && !content && (
         <div className="mb-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
@@ -434,7 +494,23 @@ Any technical considerations..."
             placeholder="Type or speak your feedback to refine the spec..."
             className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none font-mono text-sm min-h-[80px]"
           />
-          <div className="flex justify-end mt-2">
+          <div className="flex items-center justify-end gap-2 mt-2">
+            {refinementSessionId && !isRefining && (
+              <span className="mr-auto text-xs text-gray-500 dark:text-gray-400">
+                Continuing the previous refinement conversation ·{' '}
+                <button
+                  onClick={() => clearRefinementSession().catch((err) => console.error('Failed to reset AI session:', err))}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  start over
+                </button>
+              </span>
+            )}
+            {isRefining && (
+              <Button variant="danger" size="sm" onClick={cancelStream}>
+                Stop
+              </Button>
+            )}
             <Button
               variant="secondary"
               size="sm"
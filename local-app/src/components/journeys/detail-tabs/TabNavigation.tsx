@@ -1,6 +1,6 @@
 import type { JourneyType } from '@dev-orchestrator/shared'
 
-export type JourneyTab = 'overview' | 'intake' | 'spec' | 'plan' | 'checklists' | 'links'
+export type JourneyTab = 'overview' | 'intake' | 'spec' | 'plan' | 'checklists' | 'autopilot' | 'targets' | 'diff' | 'ship' | 'conversations' | 'links'
 
 interface TabConfig {
   id: JourneyTab
@@ -15,6 +15,11 @@ const TABS: TabConfig[] = [
   { id: 'spec', label: 'Spec' },
   { id: 'plan', label: 'Plan' },
   { id: 'checklists', label: 'Checklists', hiddenForTypes: ['feature_planning'] },
+  { id: 'autopilot', label: 'Autopilot', hiddenForTypes: ['feature_planning'] },
+  { id: 'targets', label: 'Targets', hiddenForTypes: ['feature_planning'] },
+  { id: 'diff', label: 'Diff', hiddenForTypes: ['feature_planning'] },
+  { id: 'ship', label: 'Ship', hiddenForTypes: ['feature_planning'] },
+  { id: 'conversations', label: 'Conversations' },
   { id: 'links', label: 'Links' },
 ]
 
@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from 'react'
+import { useProjectTargets } from '@dev-orchestrator/shared'
+import type { Journey, Project, ProjectTarget } from '@dev-orchestrator/shared'
+import { Button } from '../../common/Button'
+import { useTargetProcessStore } from '../../../stores/targetProcessStore'
+import type { TargetLogLine, TargetProcessInfo, TargetProcessStatus } from '../../../types/targets'
+import { loadJourneyTargetIds, setJourneyTargetSelected } from '../../../lib/journeyTargets'
+
+interface TargetsTabProps {
+  journey: Journey
+  project: Project | null
+}
+
+const STATUS_BADGES: Record<TargetProcessStatus, { label: string; className: string }> = {
+  starting: { label: 'Starting', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' },
+  running: { label: 'Running', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+  ready: { label: 'Ready', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+  unhealthy: { label: 'Unhealthy', className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' },
+  restarting: { label: 'Restarting', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300' },
+  stopped: { label: 'Stopped', className: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300' },
+  crashed: { label: 'Crashed', className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' },
+}
+
+const LOG_LINE_CLASSES: Record<TargetLogLine['stream'], string> = {
+  stdout: 'text-gray-700 dark:text-gray-300',
+  stderr: 'text-red-600 dark:text-red-400',
+  system: 'text-blue-600 dark:text-blue-400',
+}
+
+// Statuses with a live process (or one about to come back)
+const ACTIVE_STATUSES: TargetProcessStatus[] = ['starting', 'running', 'ready', 'unhealthy', 'restarting']
+
+function processDetail(info: TargetProcessInfo): string {
+  const parts: string[] = []
+  if (info.port) parts.push(`:${info.port}`)
+  if (info.pid) parts.push(`pid ${info.pid}`)
+  if (info.status === 'restarting' && info.nextRestartAt) {
+    parts.push(`retry at ${new Date(info.nextRestartAt).toLocaleTimeString()}`)
+  }
+  if ((info.status === 'starting' || info.status === 'unhealthy') && info.healthError) {
+    parts.push(info.healthError)
+  }
+  if (info.restarts > 0) parts.push(`${info.restarts} restart${info.restarts === 1 ? '' : 's'}`)
+  if (info.exitCode !== undefined && info.exitCode !== null && info.status !== 'running') {
+    parts.push(`exit ${info.exitCode}`)
+  }
+  return parts.join(' · ')
+}
+
+function TargetLog({ journeyId, targetId }: { journeyId: string; targetId: string }) {
+  const lines = useTargetProcessStore((state) => state.logs[`${journeyId}:${targetId}`])
+  const loadLogs = useTargetProcessStore((state) => state.loadLogs)
+  const logRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    loadLogs(journeyId, targetId)
+  }, [journeyId, targetId, loadLogs])
+
+  // Keep the newest output in view
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight
+    }
+  }, [lines])
+
+  return (
+    <div
+      ref={logRef}
+      className="max-h-[28rem] overflow-y-auto p-2 text-xs font-mono whitespace-pre-wrap break-words border border-gray-200 dark:border-gray-700 rounded bg-gray-50 dark:bg-gray-800"
+    >
+      {!lines || lines.length === 0 ? (
+        <span className="text-gray-400">No output yet.</span>
+      ) : (
+        lines.map((line, index) => (
+          <div key={index} className={LOG_LINE_CLASSES[line.stream]}>
+            {line.text || ' '}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+function ProjectTargetsPanel({ journey, project }: { journey: Journey; project: Project }) {
+  const { targets, loading } = useProjectTargets(project.id)
+  const processes = useTargetProcessStore((state) => state.processes[journey.id])
+  const errors = useTargetProcessStore((state) => state.errors)
+  const { load, start, stop, restart, openInBrowser } = useTargetProcessStore()
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [selectionError, setSelectionError] = useState<string | null>(null)
+  const [logTargetId, setLogTargetId] = useState<string | null>(null)
+
+  useEffect(() => {
+    load(journey.id)
+  }, [journey.id, load])
+
+  useEffect(() => {
+    loadJourneyTargetIds(journey.id)
+      .then(setSelectedIds)
+      .catch((err) => setSelectionError(err instanceof Error ? err.message : 'Failed to load selected targets'))
+  }, [journey.id])
+
+  // Show the first target's log until another is picked
+  const activeLogTargetId = logTargetId ?? targets[0]?.id ?? null
+
+  const toggleSelected = async (targetId: string) => {
+    const selected = !selectedIds.includes(targetId)
+    setSelectionError(null)
+    setSelectedIds((prev) => (selected ? [...prev, targetId] : prev.filter((id) => id !== targetId)))
+    try {
+      await setJourneyTargetSelected(journey.id, targetId, selected)
+    } catch (err) {
+      setSelectedIds((prev) => (selected ? prev.filter((id) => id !== targetId) : [...prev, targetId]))
+      setSelectionError(err instanceof Error ? err.message : 'Failed to update selected targets')
+    }
+  }
+
+  const isActive = (target: ProjectTarget) => {
+    const status = processes?.[target.id]?.status
+    return !!status && ACTIVE_STATUSES.includes(status)
+  }
+
+  const startSelected = async () => {
+    for (const target of targets) {
+      if (selectedIds.includes(target.id) && target.start_command && !isActive(target)) {
+        await start(project, journey, target)
+      }
+    }
+  }
+
+  if (!journey.worktree_path) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Targets run in the journey's worktree - create one first.
+      </p>
+    )
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading targets...</p>
+  }
+
+  if (targets.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {project.name} has no targets yet. Add them on the project's Worktree Setup tab.
+      </p>
+    )
+  }
+
+  const canStartSelected = targets.some(
+    (target) => selectedIds.includes(target.id) && target.start_command && !isActive(target)
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Button size="sm" onClick={startSelected} disabled={!canStartSelected}>
+          Start selected
+        </Button>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          Running in {journey.worktree_path}
+        </span>
+      </div>
+
+      {selectionError && <p className="text-sm text-red-600 dark:text-red-400">{selectionError}</p>}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded">
+        {targets.map((target) => {
+          const info = processes?.[target.id]
+          const badge = info ? STATUS_BADGES[info.status] : null
+          const error = errors[`${journey.id}:${target.id}`]
+          const active = isActive(target)
+
+          return (
+            <li
+              key={target.id}
+              onClick={() => setLogTargetId(target.id)}
+              className={`px-3 py-2 cursor-pointer ${
+                activeLogTargetId === target.id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(target.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleSelected(target.id)}
+                  title="Start with 'Start selected'"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{target.name}</span>
+                    {badge && <span className={`text-xs px-1.5 py-0.5 rounded ${badge.className}`}>{badge.label}</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {info ? processDetail(info) : target.start_command ? (
+                      <span className="font-mono">{target.start_command}</span>
+                    ) : 'No start command'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                  {active ? (
+                    <>
+                      {info?.port && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => openInBrowser(journey.id, target.id)}
+                          title={info.status === 'starting' ? 'Opens once the target is ready' : undefined}
+                        >
+                          Open
+                        </Button>
+                      )}
+                      <Button size="sm" variant="secondary" onClick={() => restart(journey.id, target.id)}>
+                        Restart
+                      </Button>
+                      <Button size="sm" variant="danger" onClick={() => stop(journey.id, target.id)}>
+                        Stop
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => start(project, journey, target)}
+                      disabled={!target.start_command}
+                    >
+                      Start
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+            </li>
+          )
+        })}
+      </ul>
+
+      {activeLogTargetId && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+            {targets.find((target) => target.id === activeLogTargetId)?.name} output
+          </h4>
+          <TargetLog journeyId={journey.id} targetId={activeLogTargetId} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Run the project's targets (dev servers, workers) in the journey's worktree
+ */
+export function TargetsTab({ journey, project }: TargetsTabProps) {
+  if (!project) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Open this journey from its project to run targets.</p>
+  }
+  return <ProjectTargetsPanel journey={journey} project={project} />
+}
@@ -4,4 +4,9 @@ export { IntakeTab } from './IntakeTab'
 export { SpecTab } from './SpecTab'
 export { PlanTab } from './PlanTab'
 export { ChecklistsTab } from './ChecklistsTab'
+export { AutopilotTab } from './AutopilotTab'
+export { TargetsTab } from './TargetsTab'
+export { DiffTab } from './DiffTab'
+export { ShipTab } from './ShipTab'
+export { ClaudeSessionsTab } from './ClaudeSessionsTab'
 export { LinksTab } from './LinksTab'
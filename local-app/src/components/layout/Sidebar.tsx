@@ -11,6 +11,8 @@ const tabs = [
   { id: 'transcriptions', label: 'Transcriptions', icon: 'T' },
   { id: 'projects', label: 'Projects', icon: 'P' },
   { id: 'journeys', label: 'Journeys', icon: 'J' },
+  { id: 'ai-activity', label: 'AI Activity', icon: 'A' },
+  { id: 'prompts', label: 'Prompts', icon: '¶' },
 ]
 
 export function Sidebar({ activeTab, onTabChange }: SidebarProps) {
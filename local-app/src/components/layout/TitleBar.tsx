@@ -1,11 +1,57 @@
+import { useEffect } from 'react'
+import { useClaudeCliStore } from '../../stores/claudeCliStore'
+import type { ClaudeQueueLane } from '../../stores/claudeCliStore'
+
 interface TitleBarProps {
   title?: string
 }
 
+const LANE_LABELS: Record<ClaudeQueueLane, string> = {
+  interactive: 'Interactive',
+  background: 'Background',
+  batch: 'Batch',
+  autopilot: 'Autopilot',
+}
+
+const STATUS_POLL_MS = 2000
+
+function AiQueueStatus() {
+  const lanes = useClaudeCliStore((state) => state.lanes)
+  const refreshStatus = useClaudeCliStore((state) => state.refreshStatus)
+
+  useEffect(() => {
+    refreshStatus()
+    const interval = setInterval(refreshStatus, STATUS_POLL_MS)
+    return () => clearInterval(interval)
+  }, [refreshStatus])
+
+  const busyLanes = (Object.keys(LANE_LABELS) as ClaudeQueueLane[]).filter(
+    (lane) => lanes[lane].active > 0 || lanes[lane].queued > 0
+  )
+  if (busyLanes.length === 0) return null
+
+  return (
+    <div className="absolute right-3 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+      {busyLanes.map((lane) => (
+        <span
+          key={lane}
+          title={`${lanes[lane].active} running, ${lanes[lane].queued} queued`}
+          className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700"
+        >
+          {LANE_LABELS[lane]}
+          {lanes[lane].active > 0 && <span className="ml-1 text-blue-500">{lanes[lane].active}▶</span>}
+          {lanes[lane].queued > 0 && <span className="ml-1">{lanes[lane].queued} queued</span>}
+        </span>
+      ))}
+    </div>
+  )
+}
+
 export function TitleBar({ title = 'Dev Orchestrator' }: TitleBarProps) {
   return (
-    <div className="titlebar h-10 bg-white dark:bg-gray-800 flex items-center justify-center shrink-0 border-b border-gray-200 dark:border-gray-700">
+    <div className="titlebar relative h-10 bg-white dark:bg-gray-800 flex items-center justify-center shrink-0 border-b border-gray-200 dark:border-gray-700">
       <span className="text-sm text-gray-600 dark:text-gray-400 font-medium">{title}</span>
+      <AiQueueStatus />
     </div>
   )
 }
@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import type { Project } from '@dev-orchestrator/shared'
+import { Button } from '../common/Button'
+import { useConflictStore } from '../../stores/conflictStore'
+import type { JourneyPairOverlap } from '../../types/conflicts'
+
+interface ConflictMatrixTabProps {
+  project: Project
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`
+}
+
+function cellClassName(pair: JourneyPairOverlap | undefined): string {
+  if (!pair) return 'bg-gray-50 dark:bg-gray-800/50 text-gray-300 dark:text-gray-600'
+  if (pair.conflictingFiles.length > 0) return 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+  return 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300'
+}
+
+/**
+ * Which active journeys change the same files, and which of them will really conflict
+ */
+export function ConflictMatrixTab({ project }: ConflictMatrixTabProps) {
+  const report = useConflictStore((state) => state.reports[project.root_path])
+  const check = useConflictStore((state) => state.check)
+  const [selectedPair, setSelectedPair] = useState<string | null>(null)
+
+  if (!report) {
+    return <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Checking journey branches...</p>
+  }
+
+  const pairs = new Map(report.pairs.map((pair) => [pairKey(...pair.journeyIds), pair]))
+  const journeys = report.journeys.filter((changes) => !changes.error)
+  const failedJourneys = report.journeys.filter((changes) => changes.error)
+  const nameOf = (journeyId: string) =>
+    report.journeys.find((changes) => changes.journeyId === journeyId)?.journeyName ?? journeyId
+  const selected = selectedPair ? pairs.get(selectedPair) : undefined
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex items-center gap-3">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Active journey branches compared against each other and <span className="font-mono">{report.baseBranch}</span>.
+          Checked {new Date(report.computedAt).toLocaleTimeString()}.
+        </p>
+        <Button size="sm" variant="secondary" onClick={() => check(project.root_path)}>
+          Check now
+        </Button>
+      </div>
+
+      {journeys.length < 2 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Fewer than two journeys have a branch in progress - nothing to compare.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th />
+                {journeys.map((column) => (
+                  <th key={column.journeyId} className="px-1 pb-1 font-medium text-gray-600 dark:text-gray-300 align-bottom">
+                    <div className="w-20 truncate" title={column.journeyName}>{column.journeyName}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {journeys.map((row) => (
+                <tr key={row.journeyId}>
+                  <th className="pr-2 text-right font-medium text-gray-600 dark:text-gray-300">
+                    <div className="max-w-[12rem] truncate" title={`${row.journeyName} (${row.changedFiles.length} files changed)`}>
+                      {row.journeyName}
+                    </div>
+                  </th>
+                  {journeys.map((column) => {
+                    if (row.journeyId === column.journeyId) {
+                      return <td key={column.journeyId} className="w-20 h-8 bg-gray-200 dark:bg-gray-700 border border-white dark:border-gray-900" />
+                    }
+                    const key = pairKey(row.journeyId, column.journeyId)
+                    const pair = pairs.get(key)
+                    return (
+                      <td key={column.journeyId} className="p-0 border border-white dark:border-gray-900">
+                        <button
+                          onClick={() => pair && setSelectedPair(key)}
+                          disabled={!pair}
+                          className={`w-20 h-8 ${cellClassName(pair)} ${selectedPair === key ? 'ring-2 ring-blue-500 ring-inset' : ''}`}
+                        >
+                          {pair ? (pair.conflictingFiles.length > 0 ? `${pair.conflictingFiles.length} conflict` : `${pair.overlappingFiles.length} shared`) : '-'}
+                        </button>
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && (
+        <div className="border border-gray-200 dark:border-gray-700 rounded p-3 space-y-2">
+          <h4 className="text-sm font-medium text-gray-800 dark:text-gray-200">
+            {nameOf(selected.journeyIds[0])} and {nameOf(selected.journeyIds[1])}
+          </h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {selected.trialMerge === 'clean'
+              ? 'The branches merge cleanly as committed - uncommitted changes may still clash.'
+              : selected.trialMerge === 'conflicts'
+                ? 'A trial merge of the two branches stops on conflicts.'
+                : selected.trialMerge === 'uncommitted'
+                  ? 'The shared files are only changed in uncommitted work, so the branches were not trial-merged.'
+                  : `The trial merge could not run${selected.error ? `: ${selected.error}` : ''}.`}
+            {selected.plannedParallel && ' Both journeys were planned to run in parallel.'}
+          </p>
+          <ul className="text-xs font-mono space-y-0.5">
+            {selected.overlappingFiles.map((file) => (
+              <li
+                key={file}
+                className={selected.conflictingFiles.includes(file) ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}
+              >
+                {file}
+                {selected.conflictingFiles.includes(file) && ' (conflict)'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {failedJourneys.length > 0 && (
+        <div className="space-y-1">
+          {failedJourneys.map((changes) => (
+            <p key={changes.journeyId} className="text-xs text-red-600 dark:text-red-400">
+              Could not read {changes.branchName} ({changes.journeyName}): {changes.error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+import { useMemo, useState } from 'react'
+import {
+  buildDependencyGraph,
+  computeCriticalPath,
+  computeDependencyLayers,
+  findDependencyCycle,
+  formatStageName,
+  getReadyToStartJourneys,
+  isJourneyDone,
+  useProjectDependencyLinks,
+} from '@dev-orchestrator/shared'
+import type { DependencyEdge, DependencyEdgeKind, Journey, Project } from '@dev-orchestrator/shared'
+import { Button } from '../common/Button'
+
+interface DependencyGraphTabProps {
+  project: Project
+  journeys: Journey[]
+}
+
+const NODE_WIDTH = 180
+const NODE_HEIGHT = 48
+const COLUMN_GAP = 80
+const ROW_GAP = 16
+const PADDING = 16
+
+// How the selected journey relates to the one at the other end of an edge
+const OUTGOING_LABELS: Record<DependencyEdgeKind, string> = {
+  depends_on: 'Needed by',
+  blocks: 'Blocks',
+  depends_on_journey: 'Needed by',
+  parent: 'Parent of',
+}
+
+const INCOMING_LABELS: Record<DependencyEdgeKind, string> = {
+  depends_on: 'Depends on',
+  blocks: 'Blocked by',
+  depends_on_journey: 'Depends on',
+  parent: 'Child of',
+}
+
+const edgeKey = (edge: DependencyEdge) => `${edge.from}:${edge.to}:${edge.kind}`
+
+/**
+ * Journeys laid out in columns by how deep their dependencies go, with the critical path
+ * and the journeys that are ready to start
+ */
+export function DependencyGraphTab({ project, journeys }: DependencyGraphTabProps) {
+  const { links, loading, error, refetch } = useProjectDependencyLinks(project.id)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [hideDone, setHideDone] = useState(false)
+
+  const graph = useMemo(() => buildDependencyGraph(journeys, links), [journeys, links])
+  const cycle = useMemo(() => findDependencyCycle(graph.edges), [graph])
+  const criticalPath = useMemo(() => computeCriticalPath(graph), [graph])
+  const ready = useMemo(() => getReadyToStartJourneys(graph), [graph])
+
+  const journeysById = useMemo(() => new Map(journeys.map((journey) => [journey.id, journey])), [journeys])
+  const criticalIds = new Set(criticalPath)
+  const criticalEdges = new Set(criticalPath.slice(1).map((id, index) => `${criticalPath[index]}:${id}`))
+  const readyIds = new Set(ready.map((journey) => journey.id))
+
+  // Positions of the visible journeys - done ones can be hidden without reshuffling the columns
+  const layout = useMemo(() => {
+    const layers = computeDependencyLayers(graph)
+    const rows = new Map<number, number>()
+    const positions = new Map<string, { x: number; y: number }>()
+    for (const journey of graph.journeys) {
+      if (hideDone && isJourneyDone(journey)) continue
+      const layer = layers.get(journey.id) ?? 0
+      const row = rows.get(layer) ?? 0
+      rows.set(layer, row + 1)
+      positions.set(journey.id, {
+        x: PADDING + layer * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      })
+    }
+    const columns = Math.max(0, ...rows.keys()) + 1
+    const maxRows = Math.max(0, ...rows.values())
+    return {
+      positions,
+      width: PADDING * 2 + columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP,
+      height: PADDING * 2 + maxRows * NODE_HEIGHT + Math.max(0, maxRows - 1) * ROW_GAP,
+    }
+  }, [graph, hideDone])
+
+  const visibleEdges = graph.edges.filter((edge) => layout.positions.has(edge.from) && layout.positions.has(edge.to))
+  const selected = selectedId ? journeysById.get(selectedId) ?? null : null
+  const selectedEdges = selectedId
+    ? graph.edges.filter((edge) => edge.from === selectedId || edge.to === selectedId)
+    : []
+  const relatedIds = new Set(selectedEdges.flatMap((edge) => [edge.from, edge.to]))
+
+  if (loading && links.length === 0) {
+    return <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading dependencies...</p>
+  }
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-600 dark:text-red-400">Failed to load dependencies: {error.message}</p>
+  }
+
+  const nodeClass = (journey: Journey) => {
+    if (journey.id === selectedId) return 'fill-blue-50 stroke-blue-500 dark:fill-blue-900/40'
+    if (isJourneyDone(journey)) return 'fill-gray-100 stroke-gray-300 dark:fill-gray-800 dark:stroke-gray-600'
+    if (criticalIds.has(journey.id)) return 'fill-red-50 stroke-red-500 dark:fill-red-900/30'
+    if (readyIds.has(journey.id)) return 'fill-green-50 stroke-green-500 dark:fill-green-900/30'
+    return 'fill-white stroke-gray-300 dark:fill-gray-700 dark:stroke-gray-500'
+  }
+
+  const edgeClass = (edge: DependencyEdge) => {
+    if (selectedId && (edge.from === selectedId || edge.to === selectedId)) return 'stroke-blue-500'
+    if (edge.kind !== 'parent' && criticalEdges.has(`${edge.from}:${edge.to}`)) return 'stroke-red-500'
+    return 'stroke-gray-300 dark:stroke-gray-600'
+  }
+
+  return (
+    <div className="h-full flex">
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border-2 border-red-500" /> Critical path</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border-2 border-green-500" /> Ready to start</span>
+          <span className="flex items-center gap-1"><span className="w-3 border-t-2 border-dashed border-gray-400" /> Parent</span>
+          <div className="flex-1" />
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={hideDone} onChange={(e) => setHideDone(e.target.checked)} />
+            Hide finished
+          </label>
+          <Button size="sm" variant="secondary" onClick={() => refetch()}>
+            Refresh
+          </Button>
+        </div>
+
+        {cycle && (
+          <p className="px-4 py-2 text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+            Dependency cycle: {cycle.map((id) => journeysById.get(id)?.name ?? id).join(' → ')}. No critical path until it is broken.
+          </p>
+        )}
+
+        <div className="flex-1 overflow-auto">
+          {layout.positions.size === 0 ? (
+            <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No journeys to show.</p>
+          ) : (
+            <svg width={layout.width} height={layout.height} onClick={() => setSelectedId(null)}>
+              <defs>
+                <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400" />
+                </marker>
+              </defs>
+              {visibleEdges.map((edge) => {
+                const from = layout.positions.get(edge.from)!
+                const to = layout.positions.get(edge.to)!
+                const x1 = from.x + NODE_WIDTH
+                const y1 = from.y + NODE_HEIGHT / 2
+                const x2 = to.x
+                const y2 = to.y + NODE_HEIGHT / 2
+                const bend = Math.max(40, Math.abs(x2 - x1) / 2)
+                return (
+                  <path
+                    key={edgeKey(edge)}
+                    d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                    className={`fill-none ${edgeClass(edge)}`}
+                    strokeWidth={2}
+                    strokeDasharray={edge.kind === 'parent' ? '4 4' : undefined}
+                    markerEnd="url(#dependency-arrow)"
+                  />
+                )
+              })}
+              {graph.journeys.filter((journey) => layout.positions.has(journey.id)).map((journey) => {
+                const { x, y } = layout.positions.get(journey.id)!
+                const dimmed = selectedId !== null && !relatedIds.has(journey.id)
+                return (
+                  <g
+                    key={journey.id}
+                    transform={`translate(${x}, ${y})`}
+                    className="cursor-pointer"
+                    opacity={dimmed ? 0.4 : 1}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setSelectedId(journey.id)
+                    }}
+                  >
+                    <title>{journey.name}</title>
+                    <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} strokeWidth={2} className={nodeClass(journey)} />
+                    <text x={10} y={20} className="text-xs font-medium fill-gray-800 dark:fill-gray-100">
+                      {journey.name.length > 24 ? `${journey.name.slice(0, 23)}…` : journey.name}
+                    </text>
+                    <text x={10} y={37} className="text-[10px] fill-gray-500 dark:fill-gray-400">
+                      {formatStageName(journey.stage)}{journey.can_parallelize ? ' · parallel' : ''}
+                    </text>
+                  </g>
+                )
+              })}
+            </svg>
+          )}
+        </div>
+      </div>
+
+      <aside className="w-72 border-l border-gray-200 dark:border-gray-700 overflow-y-auto p-4 space-y-6">
+        {selected && (
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-100 truncate">{selected.name}</h4>
+              <Button size="sm" variant="secondary" onClick={() => window.electronAPI.journeyDetail.open(selected.id, selected.project_id)}>
+                Open
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{formatStageName(selected.stage)}</p>
+            {selectedEdges.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No dependencies.</p>
+            ) : (
+              <ul className="space-y-1 text-xs text-gray-700 dark:text-gray-300">
+                {selectedEdges.map((edge) => {
+                  const outgoing = edge.from === selected.id
+                  const other = journeysById.get(outgoing ? edge.to : edge.from)
+                  return (
+                    <li key={edgeKey(edge)}>
+                      {(outgoing ? OUTGOING_LABELS : INCOMING_LABELS)[edge.kind]} {other?.name}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </section>
+        )}
+
+        <section className="space-y-2">
+          <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Ready to start</h4>
+          {ready.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Nothing is waiting with all its dependencies deployed.</p>
+          ) : (
+            <ul className="space-y-1">
+              {ready.map((journey) => (
+                <li key={journey.id}>
+                  <button
+                    onClick={() => setSelectedId(journey.id)}
+                    className="w-full flex items-center gap-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:text-blue-600"
+                  >
+                    <span className="flex-1 truncate">{journey.name}</span>
+                    {journey.can_parallelize && (
+                      <span className="text-xs bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300 px-1.5 py-0.5 rounded-full">
+                        parallel
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Critical path</h4>
+          {criticalPath.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No chain of unfinished dependencies.</p>
+          ) : (
+            <ol className="space-y-1 list-decimal list-inside text-sm text-gray-700 dark:text-gray-300">
+              {criticalPath.map((id) => (
+                <li key={id} className="truncate">
+                  <button onClick={() => setSelectedId(id)} className="hover:text-blue-600">
+                    {journeysById.get(id)?.name}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </aside>
+    </div>
+  )
+}
@@ -90,7 +90,7 @@ export function ProjectIntakeEditor({ project, onUpdate, onShowChangesDialog }:
         // Offer to generate AI version
         const shouldGenerate = window.confirm('Generate AI-refined version of the intake?')
         if (shouldGenerate) {
-          const result = await refine(rawContent, project.name)
+          const result = await refine(rawContent, project.name, project.id)
           if (result) {
             await onUpdate({
               ai_parsed_intake: result.document,
@@ -105,7 +105,8 @@ export function ProjectIntakeEditor({ project, onUpdate, onShowChangesDialog }:
           previousRaw,
           rawContent,
           project.ai_parsed_intake!,
-          project.name
+          project.name,
+          project.id
         )
 
         if (result) {
@@ -165,7 +166,7 @@ export function ProjectIntakeEditor({ project, onUpdate, onShowChangesDialog }:
   const handleRegenerate = useCallback(async () => {
     if (!rawContent.trim()) return
 
-    const result = await refine(rawContent, project.name)
+    const result = await refine(rawContent, project.name, project.id)
     if (result) {
       setAiContent(result.document)
       await onUpdate({
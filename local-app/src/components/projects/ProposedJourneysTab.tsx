@@ -77,7 +77,7 @@ export function ProposedJourneysTab({
     }))
 
     // Pass the project's root_path so Claude can analyze the codebase
-    const result = await generate(project.ai_parsed_intake, project.name, existingProposals, project.root_path)
+    const result = await generate(project.ai_parsed_intake, project.name, existingProposals, project.root_path, project.id)
     if (result?.journeys) {
       if (proposals.length === 0) {
         // First generation - replace all
@@ -211,6 +211,7 @@ export function ProposedJourneysTab({
       <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
         <JourneyIdeaInput
           projectName={project.name}
+          projectId={project.id}
           onSubmit={handleQuickIdeaSubmit}
           placeholder="Dictate or type a new journey idea..."
         />
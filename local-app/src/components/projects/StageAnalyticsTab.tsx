@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react'
+import { computeStageAnalytics, formatDuration, formatStageName, useProjectStageHistory } from '@dev-orchestrator/shared'
+import type { Journey, JourneyType, Project } from '@dev-orchestrator/shared'
+import { Button } from '../common/Button'
+
+interface StageAnalyticsTabProps {
+  project: Project
+  journeys: Journey[]
+}
+
+const TYPE_LABELS: Record<JourneyType, string> = {
+  feature_planning: 'Feature Planning',
+  feature: 'Features',
+  bug: 'Bugs',
+  investigation: 'Investigations',
+}
+
+const WEEK_OPTIONS = [4, 12, 26]
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{title}</h4>
+      {children}
+    </section>
+  )
+}
+
+/**
+ * How long journeys spend in each stage, how many finish per week and where work is piling up
+ */
+export function StageAnalyticsTab({ project, journeys }: StageAnalyticsTabProps) {
+  const { transitions, loading, error, refetch } = useProjectStageHistory(project.id)
+  const [activeType, setActiveType] = useState<JourneyType>('feature')
+  const [weeks, setWeeks] = useState(12)
+
+  const analytics = useMemo(
+    () => computeStageAnalytics(journeys, transitions, { weeks }),
+    [journeys, transitions, weeks]
+  )
+  const typeAnalytics = analytics.find((entry) => entry.type === activeType)
+
+  if (loading && transitions.length === 0) {
+    return <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading stage history...</p>
+  }
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-600 dark:text-red-400">Failed to load stage history: {error.message}</p>
+  }
+
+  if (!typeAnalytics) return null
+
+  const maxFinished = Math.max(1, ...typeAnalytics.throughput.map((week) => week.finished))
+  const maxWip = Math.max(1, ...typeAnalytics.wip.map((stage) => stage.count))
+  const totalFinished = typeAnalytics.throughput.reduce((sum, week) => sum + week.finished, 0)
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-6">
+      <div className="flex items-center gap-2 flex-wrap">
+        {analytics.map((entry) => (
+          <button
+            key={entry.type}
+            onClick={() => setActiveType(entry.type)}
+            className={`px-3 py-1 text-sm rounded ${
+              entry.type === activeType
+                ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+            }`}
+          >
+            {TYPE_LABELS[entry.type]}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <select
+          value={weeks}
+          onChange={(e) => setWeeks(Number(e.target.value))}
+          className="px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+        >
+          {WEEK_OPTIONS.map((option) => (
+            <option key={option} value={option}>Last {option} weeks</option>
+          ))}
+        </select>
+        <Button size="sm" variant="secondary" onClick={() => refetch()}>
+          Refresh
+        </Button>
+      </div>
+
+      <Section title="Time in stage">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-1">Stage</th>
+              <th className="py-1 text-right">Median</th>
+              <th className="py-1 text-right">Average</th>
+              <th className="py-1 text-right">Journeys through</th>
+              <th className="py-1 text-right">In stage now</th>
+            </tr>
+          </thead>
+          <tbody>
+            {typeAnalytics.cycleTimes.map((cycle) => (
+              <tr key={cycle.stage} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-1.5 text-gray-800 dark:text-gray-200">{formatStageName(cycle.stage)}</td>
+                <td className="py-1.5 text-right text-gray-800 dark:text-gray-200">
+                  {cycle.medianMs !== null ? formatDuration(cycle.medianMs) : '-'}
+                </td>
+                <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">
+                  {cycle.averageMs !== null ? formatDuration(cycle.averageMs) : '-'}
+                </td>
+                <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{cycle.completed}</td>
+                <td className="py-1.5 text-right text-gray-600 dark:text-gray-300">{cycle.inProgress}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Time is summed over every visit to a stage, so work sent back for rework counts against it.
+        </p>
+      </Section>
+
+      <Section title={`Finished per week (${totalFinished} in ${weeks} weeks)`}>
+        <div className="flex items-end gap-1 h-32">
+          {typeAnalytics.throughput.map((week) => (
+            <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full" title={`Week of ${week.weekStart}: ${week.finished}`}>
+              {week.finished > 0 && (
+                <span className="text-xs text-gray-600 dark:text-gray-300">{week.finished}</span>
+              )}
+              <div
+                className="w-full bg-blue-400 dark:bg-blue-600 rounded-t"
+                style={{ height: `${(week.finished / maxFinished) * 100}%` }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{typeAnalytics.throughput[0]?.weekStart}</span>
+          <span>{typeAnalytics.throughput[typeAnalytics.throughput.length - 1]?.weekStart}</span>
+        </div>
+      </Section>
+
+      <Section title="Work in progress">
+        <div className="space-y-1">
+          {typeAnalytics.wip.map((stage) => (
+            <div key={stage.stage} className="flex items-center gap-2 text-sm">
+              <span className="w-36 text-gray-700 dark:text-gray-300">{formatStageName(stage.stage)}</span>
+              <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-800 rounded">
+                <div
+                  className="h-3 bg-amber-400 dark:bg-amber-600 rounded"
+                  style={{ width: `${(stage.count / maxWip) * 100}%` }}
+                />
+              </div>
+              <span className="w-6 text-right text-gray-600 dark:text-gray-300">{stage.count}</span>
+            </div>
+          ))}
+        </div>
+      </Section>
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Journey, JourneyUpdate, Project } from '@dev-orchestrator/shared'
+import { Button } from '../common/Button'
+import type {
+  WorktreeAudit,
+  WorktreeAuditEntry,
+  WorktreeCleanupResult,
+  WorktreeEntryKind,
+  WorktreeFlag,
+} from '../../types/worktreeJanitor'
+
+interface WorktreeJanitorTabProps {
+  project: Project
+  journeys: Journey[]
+  onUpdateJourney: (id: string, updates: JourneyUpdate) => Promise<unknown>
+}
+
+const DEFAULT_STALE_DAYS = 14
+
+const FLAG_BADGES: Record<WorktreeFlag, { label: string; className: string }> = {
+  merged: { label: 'Merged', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+  finished: { label: 'Finished', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' },
+  stale: { label: 'Stale', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300' },
+  orphaned: { label: 'Orphaned', className: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' },
+  missing: { label: 'Missing', className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' },
+}
+
+const KIND_LABELS: Record<WorktreeEntryKind, string> = {
+  worktree: 'Worktree',
+  directory: 'Folder',
+  branch: 'Branch',
+  journey: 'Journey',
+}
+
+function entryKey(entry: WorktreeAuditEntry): string {
+  return `${entry.kind}:${entry.path ?? ''}:${entry.branch ?? ''}:${entry.journeyId ?? ''}`
+}
+
+// Flagged entries without uncommitted work start out selected - except journeys still in
+// progress that are only stale, which someone may well come back to
+function isSuggested(entry: WorktreeAuditEntry): boolean {
+  const onlyStale = entry.flags.length === 1 && entry.flags[0] === 'stale'
+  if (onlyStale && entry.journeyId) return false
+  return entry.flags.length > 0 && entry.uncommittedFiles === 0
+}
+
+function relativePath(project: Project, value: string): string {
+  return value.startsWith(project.root_path + '/') ? value.slice(project.root_path.length + 1) : value
+}
+
+/**
+ * Find journey worktrees, branches and folders that are no longer needed and remove them
+ */
+export function WorktreeJanitorTab({ project, journeys, onUpdateJourney }: WorktreeJanitorTabProps) {
+  const [staleDays, setStaleDays] = useState(DEFAULT_STALE_DAYS)
+  const [audit, setAudit] = useState<WorktreeAudit | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [deleteBranches, setDeleteBranches] = useState(false)
+  const [preview, setPreview] = useState<WorktreeCleanupResult[] | null>(null)
+  const [results, setResults] = useState<WorktreeCleanupResult[] | null>(null)
+  const [busy, setBusy] = useState<'scan' | 'preview' | 'cleanup' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Read at scan time - rescanning on every journey update would reset the selection
+  const journeysRef = useRef(journeys)
+  journeysRef.current = journeys
+
+  // clearedJourneyIds: worktree paths just cleared, which the journeys prop may not show yet
+  const scan = useCallback(async (clearedJourneyIds?: Set<string>) => {
+    setBusy('scan')
+    setError(null)
+    setPreview(null)
+    try {
+      const response = await window.electronAPI.worktreeJanitor.audit({
+        projectPath: project.root_path,
+        journeys: journeysRef.current.map((journey) => ({
+          id: journey.id,
+          name: journey.name,
+          stage: journey.stage,
+          worktreePath: clearedJourneyIds?.has(journey.id) ? null : journey.worktree_path,
+          branchName: journey.branch_name,
+        })),
+        staleDays,
+      })
+      if (!response.success || !response.audit) {
+        throw new Error(response.error || 'Failed to scan worktrees')
+      }
+      setAudit(response.audit)
+      setSelected(new Set(response.audit.entries.filter(isSuggested).map(entryKey)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan worktrees')
+    } finally {
+      setBusy(null)
+    }
+  }, [project.root_path, staleDays])
+
+  useEffect(() => {
+    scan()
+  }, [scan])
+
+  const selectedEntries = audit?.entries.filter((entry) => selected.has(entryKey(entry))) ?? []
+
+  const toggle = (entry: WorktreeAuditEntry) => {
+    const key = entryKey(entry)
+    setPreview(null)
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const runCleanup = async (dryRun: boolean) => {
+    setBusy(dryRun ? 'preview' : 'cleanup')
+    setError(null)
+    try {
+      const response = await window.electronAPI.worktreeJanitor.cleanup({
+        projectPath: project.root_path,
+        entries: selectedEntries,
+        deleteBranches,
+        dryRun,
+      })
+      if (!response.success || !response.results) {
+        throw new Error(response.error || 'Cleanup failed')
+      }
+      if (dryRun) {
+        setPreview(response.results)
+        return
+      }
+
+      // Journeys whose worktree is gone no longer point at it
+      const clearedJourneyIds = new Set<string>()
+      for (const result of response.results) {
+        const { entry } = result
+        if (entry.journeyId && entry.kind !== 'branch' && !result.skipped && !result.error) {
+          await onUpdateJourney(entry.journeyId, { worktree_path: null })
+          clearedJourneyIds.add(entry.journeyId)
+        }
+      }
+      setResults(response.results)
+      setPreview(null)
+      await scan(clearedJourneyIds)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Cleanup failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Worktrees and branches left behind by merged, finished or deleted journeys. Anything with
+        uncommitted changes or running targets is always kept, and branches with unmerged commits are
+        never deleted.
+      </p>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Stale after
+          <input
+            type="number"
+            min={1}
+            value={staleDays}
+            onChange={(e) => setStaleDays(Math.max(1, Number(e.target.value) || DEFAULT_STALE_DAYS))}
+            className="w-16 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+          />
+          days without activity
+        </label>
+        <Button size="sm" variant="secondary" onClick={() => scan()} disabled={busy !== null}>
+          {busy === 'scan' ? 'Scanning...' : 'Rescan'}
+        </Button>
+        <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={deleteBranches} onChange={(e) => {
+            setDeleteBranches(e.target.checked)
+            setPreview(null)
+          }} />
+          Delete merged branches
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {audit && audit.entries.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No journey worktrees or branches.</p>
+      )}
+
+      {audit && audit.entries.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th className="w-6 py-1" />
+              <th className="py-1">Worktree / branch</th>
+              <th className="py-1">Journey</th>
+              <th className="py-1">Flags</th>
+              <th className="py-1">Last activity</th>
+              <th className="py-1 text-right">Uncommitted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {audit.entries.map((entry) => {
+              const key = entryKey(entry)
+              return (
+                <tr key={key} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                  <td className="py-1.5">
+                    <input type="checkbox" checked={selected.has(key)} onChange={() => toggle(entry)} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{KIND_LABELS[entry.kind]}</div>
+                    {entry.path && (
+                      <div className="font-mono text-xs text-gray-800 dark:text-gray-200 break-all">
+                        {relativePath(project, entry.path)}
+                      </div>
+                    )}
+                    {entry.branch && (
+                      <div className="font-mono text-xs text-gray-600 dark:text-gray-300 break-all">{entry.branch}</div>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2 text-gray-700 dark:text-gray-300">
+                    {entry.journeyName ?? <span className="text-gray-400">-</span>}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <div className="flex flex-wrap gap-1">
+                      {entry.flags.map((flag) => (
+                        <span key={flag} className={`text-xs px-1.5 py-0.5 rounded ${FLAG_BADGES[flag].className}`}>
+                          {FLAG_BADGES[flag].label}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-1.5 pr-2 text-xs text-gray-500 dark:text-gray-400">
+                    {entry.lastActivityAt ? new Date(entry.lastActivityAt).toLocaleDateString() : '-'}
+                  </td>
+                  <td
+                    className={`py-1.5 text-xs text-right ${
+                      entry.uncommittedFiles ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                    }`}
+                  >
+                    {entry.uncommittedFiles === null ? 'unknown' : entry.uncommittedFiles}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {audit && audit.entries.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => runCleanup(true)}
+            disabled={selectedEntries.length === 0 || busy !== null}
+          >
+            {busy === 'preview' ? 'Checking...' : `Preview cleanup (${selectedEntries.length})`}
+          </Button>
+          {preview && (
+            <Button size="sm" variant="danger" onClick={() => runCleanup(false)} disabled={busy !== null}>
+              {busy === 'cleanup' ? 'Cleaning up...' : 'Clean up'}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {(preview ?? results) && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+            {preview ? 'Dry run - nothing has been changed yet' : 'Cleanup results'}
+          </h4>
+          <ul className="space-y-1 text-xs border border-gray-200 dark:border-gray-700 rounded p-2">
+            {(preview ?? results ?? []).map((result) => (
+              <li key={entryKey(result.entry)}>
+                <span className="font-mono text-gray-800 dark:text-gray-200">
+                  {result.entry.path ? relativePath(project, result.entry.path) : result.entry.branch}
+                </span>
+                {result.error ? (
+                  <span className="ml-2 text-red-600 dark:text-red-400">{result.error}</span>
+                ) : result.skipped ? (
+                  <span className="ml-2 text-amber-700 dark:text-amber-300">Kept: {result.skipped}</span>
+                ) : (
+                  <ul className="ml-4 list-disc text-gray-600 dark:text-gray-300">
+                    {result.actions.map((action) => (
+                      <li key={action}>{action}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,328 @@
+import { ReactNode, useEffect, useState } from 'react'
+import { useProjectTargets } from '@dev-orchestrator/shared'
+import type {
+  BootstrapFileMode,
+  HealthCheckType,
+  Project,
+  ProjectTarget,
+  ProjectTargetUpdate,
+  ProjectUpdate,
+  TargetType,
+  WorktreeBootstrapRecipe,
+} from '@dev-orchestrator/shared'
+import { Button } from '../common/Button'
+import { EMPTY_BOOTSTRAP_RECIPE, PORT_OFFSET_STEP } from '../../lib/worktreeBootstrap'
+
+interface WorktreeSetupTabProps {
+  project: Project
+  onUpdate: (updates: ProjectUpdate) => Promise<void>
+}
+
+const TARGET_TYPES: { value: TargetType; label: string }[] = [
+  { value: 'backend', label: 'Backend' },
+  { value: 'web_frontend', label: 'Web frontend' },
+  { value: 'desktop', label: 'Desktop' },
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'extension', label: 'Extension' },
+]
+
+const HEALTH_CHECK_TYPES: { value: HealthCheckType | ''; label: string }[] = [
+  { value: '', label: 'No check' },
+  { value: 'tcp', label: 'TCP port open' },
+  { value: 'http', label: 'HTTP 2xx/3xx' },
+  { value: 'log', label: 'Log line matches' },
+]
+
+const inputClassName =
+  'px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+
+function Section({ title, hint, children }: { title: string; hint: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200">{title}</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+      </div>
+      {children}
+    </section>
+  )
+}
+
+function HealthCheckRow({
+  target,
+  onSave,
+}: {
+  target: ProjectTarget
+  onSave: (id: string, updates: ProjectTargetUpdate) => Promise<void>
+}) {
+  const [type, setType] = useState<HealthCheckType | ''>(target.health_check?.type ?? '')
+  const [value, setValue] = useState(target.health_check?.path ?? target.health_check?.pattern ?? '')
+  const [timeout, setTimeoutSeconds] = useState(target.readiness_timeout_seconds?.toString() ?? '')
+
+  const healthCheck = type === 'http'
+    ? { type, path: value.trim() || '/' }
+    : type === 'log'
+      ? { type, pattern: value }
+      : type === 'tcp'
+        ? { type }
+        : null
+  const updates: ProjectTargetUpdate = {
+    health_check: healthCheck,
+    readiness_timeout_seconds: Number(timeout) > 0 ? Math.round(Number(timeout)) : null,
+  }
+  const isDirty = JSON.stringify(updates.health_check) !== JSON.stringify(target.health_check ?? null)
+    || updates.readiness_timeout_seconds !== target.readiness_timeout_seconds
+  const needsPort = (type === 'tcp' || type === 'http') && !target.default_port
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="w-48 truncate text-gray-700 dark:text-gray-300">{target.name}</span>
+      <select
+        value={type}
+        onChange={(e) => setType(e.target.value as HealthCheckType | '')}
+        className={inputClassName}
+      >
+        {HEALTH_CHECK_TYPES.map(({ value: option, label }) => (
+          <option key={option} value={option}>{label}</option>
+        ))}
+      </select>
+      {(type === 'http' || type === 'log') && (
+        <input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={type === 'http' ? '/health' : 'Listening on|ready in'}
+          className={`${inputClassName} flex-1 font-mono`}
+        />
+      )}
+      {type && (
+        <input
+          type="number"
+          value={timeout}
+          onChange={(e) => setTimeoutSeconds(e.target.value)}
+          placeholder="60"
+          title="Readiness timeout (seconds)"
+          className={`${inputClassName} w-20`}
+        />
+      )}
+      {needsPort && <span className="text-xs text-amber-600 dark:text-amber-400">Needs a default port</span>}
+      <Button
+        size="sm"
+        variant="secondary"
+        onClick={() => onSave(target.id, updates)}
+        disabled={!isDirty || (type === 'log' && !value.trim())}
+      >
+        Save
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Edit the recipe that prepares each new journey worktree
+ */
+export function WorktreeSetupTab({ project, onUpdate }: WorktreeSetupTabProps) {
+  const { targets, createTarget, updateTarget } = useProjectTargets(project.id)
+  const [recipe, setRecipe] = useState<WorktreeBootstrapRecipe>(project.bootstrap_recipe ?? EMPTY_BOOTSTRAP_RECIPE)
+  const [commandsText, setCommandsText] = useState(recipe.commands.join('\n'))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newTarget, setNewTarget] = useState<{ name: string; type: TargetType; port: string }>({
+    name: '',
+    type: 'web_frontend',
+    port: '',
+  })
+
+  // Reset the draft when another window saves the project
+  useEffect(() => {
+    const saved = project.bootstrap_recipe ?? EMPTY_BOOTSTRAP_RECIPE
+    setRecipe(saved)
+    setCommandsText(saved.commands.join('\n'))
+  }, [project.bootstrap_recipe])
+
+  const draft: WorktreeBootstrapRecipe = {
+    ...recipe,
+    commands: commandsText.split('\n').map((line) => line.trim()).filter(Boolean),
+    files: recipe.files.filter((file) => file.path.trim()),
+    ports: recipe.ports.filter((port) => port.env_var.trim()),
+  }
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(project.bootstrap_recipe ?? EMPTY_BOOTSTRAP_RECIPE)
+  const portTargets = targets.filter((target) => target.default_port)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onUpdate({ bootstrap_recipe: draft })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save worktree setup')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateFile = (index: number, changes: { path?: string; mode?: BootstrapFileMode }) => {
+    setRecipe((prev) => ({
+      ...prev,
+      files: prev.files.map((file, i) => (i === index ? { ...file, ...changes } : file)),
+    }))
+  }
+
+  const setPortEnvVar = (targetId: string, envVar: string) => {
+    setRecipe((prev) => ({
+      ...prev,
+      ports: [...prev.ports.filter((port) => port.target_id !== targetId), { target_id: targetId, env_var: envVar }],
+    }))
+  }
+
+  const handleSaveHealthCheck = async (id: string, updates: ProjectTargetUpdate) => {
+    setError(null)
+    try {
+      await updateTarget(id, updates)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save health check')
+    }
+  }
+
+  const handleAddTarget = async () => {
+    const port = Number(newTarget.port)
+    if (!newTarget.name.trim() || !Number.isInteger(port) || port <= 0) return
+    try {
+      await createTarget({ name: newTarget.name.trim(), type: newTarget.type, default_port: port })
+      setNewTarget({ name: '', type: newTarget.type, port: '' })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add target')
+    }
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-6 max-w-3xl">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Runs in every new journey worktree after it is created, and again when you pick
+        "Re-run worktree setup" on a journey card.
+      </p>
+
+      <Section title="Files" hint={`Copied or linked from ${project.root_path}. Files already in the worktree are left alone.`}>
+        {recipe.files.map((file, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              value={file.path}
+              onChange={(e) => updateFile(index, { path: e.target.value })}
+              placeholder=".env"
+              className={`${inputClassName} flex-1 font-mono`}
+            />
+            <select
+              value={file.mode}
+              onChange={(e) => updateFile(index, { mode: e.target.value as BootstrapFileMode })}
+              className={inputClassName}
+            >
+              <option value="copy">Copy</option>
+              <option value="symlink">Symlink</option>
+            </select>
+            <button
+              onClick={() => setRecipe((prev) => ({ ...prev, files: prev.files.filter((_, i) => i !== index) }))}
+              className="text-gray-400 hover:text-red-500 px-1"
+              title="Remove"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => setRecipe((prev) => ({ ...prev, files: [...prev.files, { path: '', mode: 'copy' }] }))}
+        >
+          Add file
+        </Button>
+      </Section>
+
+      <Section
+        title="Ports"
+        hint={`Each journey gets each target's default port plus its own offset - a multiple of ${PORT_OFFSET_STEP} wider than the gap between the lowest and highest default port, so no two checkouts share a port. Written to the env file below and passed to the setup commands.`}
+      >
+        {portTargets.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No targets with a default port yet.</p>
+        ) : (
+          portTargets.map((target) => (
+            <div key={target.id} className="flex items-center gap-2 text-sm">
+              <span className="w-48 truncate text-gray-700 dark:text-gray-300">
+                {target.name} <span className="text-gray-400">:{target.default_port}</span>
+              </span>
+              <input
+                value={recipe.ports.find((port) => port.target_id === target.id)?.env_var ?? ''}
+                onChange={(e) => setPortEnvVar(target.id, e.target.value)}
+                placeholder="Env var, e.g. PORT (blank = not offset)"
+                className={`${inputClassName} flex-1 font-mono`}
+              />
+            </div>
+          ))
+        )}
+        <div className="flex items-center gap-2 pt-1">
+          <input
+            value={newTarget.name}
+            onChange={(e) => setNewTarget({ ...newTarget, name: e.target.value })}
+            placeholder="New target name"
+            className={`${inputClassName} w-48`}
+          />
+          <select
+            value={newTarget.type}
+            onChange={(e) => setNewTarget({ ...newTarget, type: e.target.value as TargetType })}
+            className={inputClassName}
+          >
+            {TARGET_TYPES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={newTarget.port}
+            onChange={(e) => setNewTarget({ ...newTarget, port: e.target.value })}
+            placeholder="Port"
+            className={`${inputClassName} w-24`}
+          />
+          <Button size="sm" variant="secondary" onClick={handleAddTarget} disabled={!newTarget.name.trim() || !newTarget.port}>
+            Add target
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          Env file
+          <input
+            value={recipe.env_file}
+            onChange={(e) => setRecipe((prev) => ({ ...prev, env_file: e.target.value }))}
+            placeholder=".env.local"
+            className={`${inputClassName} w-48 font-mono`}
+          />
+        </label>
+      </Section>
+
+      <Section
+        title="Health checks"
+        hint="How a journey's Targets tab knows a started target is usable. Open in browser and autopilot wait for it."
+      >
+        {targets.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No targets yet.</p>
+        ) : (
+          targets.map((target) => (
+            <HealthCheckRow key={target.id} target={target} onSave={handleSaveHealthCheck} />
+          ))
+        )}
+      </Section>
+
+      <Section title="Setup commands" hint="One per line, run in order in the worktree. Setup stops at the first command that fails.">
+        <textarea
+          value={commandsText}
+          onChange={(e) => setCommandsText(e.target.value)}
+          placeholder={'npm install\nbundle install'}
+          rows={5}
+          className={`${inputClassName} w-full font-mono`}
+        />
+      </Section>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+        {isSaving ? 'Saving...' : 'Save worktree setup'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { Button } from '../common/Button'
+import { useJourneys } from '../../hooks/useJourneys'
+import { loadPromptInputs } from '../../lib/promptInputs'
+import type { Project } from '../../types'
+import type { PromptCompareResult, PromptTemplateSummary, PromptTemplateVersion } from '../../types/prompts'
+
+interface PromptCompareProps {
+  template: PromptTemplateSummary
+  versions: PromptTemplateVersion[]
+  project: Project | null
+  results: PromptCompareResult[] | null
+  isComparing: boolean
+  onCompare: (
+    versionIds: [string | null, string | null],
+    inputs: Record<string, string>,
+    context: { journeyId?: string; projectId?: string; workingDirectory?: string }
+  ) => Promise<void>
+}
+
+const selectClassName =
+  'px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+
+// '' in a version select means the built-in template
+const BUILT_IN = ''
+
+function ResultColumn({ result }: { result: PromptCompareResult }) {
+  const response = result.response
+  const output = response
+    ? response.success
+      ? response.rawOutput || '(no output)'
+      : response.error || 'Failed'
+    : result.prompt
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center gap-2 mb-1">
+        <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{result.label}</h4>
+        {response && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">{(response.durationMs / 1000).toFixed(1)}s</span>
+        )}
+      </div>
+      <pre
+        className={`max-h-[32rem] overflow-auto p-2 text-xs font-mono whitespace-pre-wrap border rounded ${
+          response && !response.success
+            ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+            : 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200'
+        }`}
+      >
+        {output}
+      </pre>
+    </div>
+  )
+}
+
+export function PromptCompare({ template, versions, project, results, isComparing, onCompare }: PromptCompareProps) {
+  const { journeys } = useJourneys(project?.id)
+  const [versionA, setVersionA] = useState(BUILT_IN)
+  const [versionB, setVersionB] = useState(versions[0]?.id ?? BUILT_IN)
+  const [journeyId, setJourneyId] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const needsJourney = template.name !== 'refineProjectIntake'
+  const journey = journeys.find((j) => j.id === journeyId) ?? null
+  const canRun = !!project && (!needsJourney || !!journey) && !isComparing
+
+  const handleCompare = async () => {
+    if (!project) return
+    setError(null)
+    try {
+      const inputs = await loadPromptInputs(template.name, journey, project)
+      await onCompare([versionA || null, versionB || null], inputs, {
+        journeyId: journey?.id,
+        projectId: project.id,
+        workingDirectory: journey?.worktree_path || project.root_path,
+      })
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const versionOptions = (
+    <>
+      <option value={BUILT_IN}>Built-in</option>
+      {versions.map((version) => (
+        <option key={version.id} value={version.id}>
+          v{version.version}{version.note ? ` - ${version.note}` : ''}
+        </option>
+      ))}
+    </>
+  )
+
+  return (
+    <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Compare versions</h4>
+
+      {!project ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Pick a project scope to compare versions on real inputs.</p>
+      ) : (
+        <div className="flex items-center gap-2 mb-3">
+          <select value={versionA} onChange={(e) => setVersionA(e.target.value)} className={selectClassName}>
+            {versionOptions}
+          </select>
+          <span className="text-xs text-gray-500">vs</span>
+          <select value={versionB} onChange={(e) => setVersionB(e.target.value)} className={selectClassName}>
+            {versionOptions}
+          </select>
+          {needsJourney && (
+            <select value={journeyId} onChange={(e) => setJourneyId(e.target.value)} className={selectClassName}>
+              <option value="">Inputs from journey...</option>
+              {journeys.map((j) => (
+                <option key={j.id} value={j.id}>{j.name}</option>
+              ))}
+            </select>
+          )}
+          <Button size="sm" onClick={handleCompare} disabled={!canRun}>
+            {isComparing ? 'Running...' : template.runnable ? 'Run both' : 'Build both'}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 p-2 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {results && (
+        <div className="flex gap-3">
+          {results.map((result, index) => (
+            <ResultColumn key={index} result={result} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react'
+import { Button } from '../common/Button'
+import type { PromptTemplateSummary, PromptTemplateVersion } from '../../types/prompts'
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplateSummary
+  versions: PromptTemplateVersion[]
+  scopeLabel: string
+  onSave: (body: string, note?: string) => Promise<PromptTemplateVersion | null>
+  isSaving: boolean
+}
+
+function describeActive(template: PromptTemplateSummary): string {
+  const { source, version } = template.active
+  if (source === 'default') return 'built-in'
+  return `${source} v${version}`
+}
+
+export function PromptTemplateEditor({ template, versions, scopeLabel, onSave, isSaving }: PromptTemplateEditorProps) {
+  const [body, setBody] = useState(template.active.body)
+  const [note, setNote] = useState('')
+
+  // Reset the editor when switching templates or when the version in effect changes
+  useEffect(() => {
+    setBody(template.active.body)
+    setNote('')
+  }, [template.name, template.active.versionId, template.active.body])
+
+  const isDirty = body !== template.active.body
+
+  const handleSave = async () => {
+    const saved = await onSave(body, note.trim() || undefined)
+    if (saved) setNote('')
+  }
+
+  return (
+    <div className="flex-1 overflow-auto p-4">
+      {/* Header */}
+      <div className="mb-4">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{template.label}</h3>
+          <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+            {describeActive(template)}
+          </span>
+          {!template.runnable && (
+            <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+              sent to VS Code
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{template.description}</p>
+      </div>
+
+      {/* Variables */}
+      <div className="mb-3 flex flex-wrap gap-1.5">
+        {template.variables.map((variable) => (
+          <button
+            key={variable.name}
+            title={variable.description}
+            onClick={() => setBody((current) => `${current}{{${variable.name}}}`)}
+            className="px-1.5 py-0.5 rounded text-xs font-mono bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+          >
+            {`{{${variable.name}}}`}
+          </button>
+        ))}
+        <span className="text-xs text-gray-400 dark:text-gray-500 self-center">
+          Wrap optional sections in {'{{#name}}...{{/name}}'}
+        </span>
+      </div>
+
+      {/* Body */}
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        spellCheck={false}
+        className="w-full h-96 p-2 text-xs font-mono border border-gray-200 dark:border-gray-700 rounded bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+      />
+
+      {/* Save */}
+      <div className="mt-2 flex items-center gap-2">
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="What changed? (optional)"
+          className="flex-1 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+        />
+        <Button variant="ghost" size="sm" onClick={() => setBody(template.defaultBody)} disabled={body === template.defaultBody}>
+          Load built-in
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setBody(template.active.body)} disabled={!isDirty}>
+          Discard
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving ? 'Saving...' : `Save as ${scopeLabel} version`}
+        </Button>
+      </div>
+
+      {/* History */}
+      <div className="mt-6">
+        <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+          {scopeLabel} versions
+        </h4>
+        {versions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No saved versions - the built-in template is in use.</p>
+        ) : (
+          <ul className="border border-gray-200 dark:border-gray-700 rounded divide-y divide-gray-100 dark:divide-gray-800">
+            {versions.map((version) => (
+              <li key={version.id} className="px-3 py-2 flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-mono text-gray-800 dark:text-gray-200">v{version.version}</span>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(version.createdAt).toLocaleString()}
+                  </span>
+                  {version.note && (
+                    <span className="ml-2 text-xs text-gray-600 dark:text-gray-300 truncate">{version.note}</span>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setBody(version.body)}>
+                  Load into editor
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
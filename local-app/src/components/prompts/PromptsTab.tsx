@@ -0,0 +1,121 @@
+import { useEffect } from 'react'
+import { usePromptRegistryStore } from '../../stores/promptRegistryStore'
+import { useProjects } from '../../hooks/useProjects'
+import { PromptTemplateEditor } from './PromptTemplateEditor'
+import { PromptCompare } from './PromptCompare'
+
+const selectClassName =
+  'px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+
+export function PromptsTab() {
+  const {
+    templates,
+    versions,
+    compareResults,
+    selectedName,
+    scopeProjectId,
+    isLoading,
+    isSaving,
+    isComparing,
+    error,
+    load,
+    selectTemplate,
+    setScope,
+    saveVersion,
+    compare,
+  } = usePromptRegistryStore()
+  const { projects } = useProjects()
+
+  // Load on mount
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const selected = templates.find((t) => t.name === selectedName) ?? null
+  const project = projects.find((p) => p.id === scopeProjectId) ?? null
+  const scopeLabel = project ? project.name : 'global'
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Error banner */}
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/50 border-b border-red-300 dark:border-red-700 px-4 py-2 text-sm text-red-700 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {/* Scope */}
+      <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2">
+        <span className="text-xs text-gray-600 dark:text-gray-300">Scope</span>
+        <select
+          value={scopeProjectId ?? ''}
+          onChange={(e) => setScope(e.target.value || null)}
+          className={selectClassName}
+        >
+          <option value="">Global (all projects)</option>
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          Project versions override global ones; with neither, the built-in template is used.
+        </span>
+      </div>
+
+      {/* Main content area */}
+      <div className="flex-1 flex overflow-hidden">
+        <div className="w-64 border-r border-gray-200 dark:border-gray-700 overflow-auto">
+          {isLoading && templates.length === 0 ? (
+            <div className="p-3 text-sm text-gray-500 dark:text-gray-400">Loading...</div>
+          ) : (
+            templates.map((template) => (
+              <button
+                key={template.name}
+                onClick={() => selectTemplate(template.name)}
+                className={`w-full text-left px-3 py-2 border-b border-gray-100 dark:border-gray-800 transition-colors ${
+                  selectedName === template.name
+                    ? 'bg-blue-50 dark:bg-gray-700'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+                }`}
+              >
+                <div className="text-sm text-gray-800 dark:text-gray-200">{template.label}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {template.active.source === 'default'
+                    ? 'built-in'
+                    : `${template.active.source} v${template.active.version}`}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto flex flex-col bg-white dark:bg-gray-900">
+          {selected ? (
+            <>
+              <PromptTemplateEditor
+                template={selected}
+                versions={versions}
+                scopeLabel={scopeLabel}
+                onSave={saveVersion}
+                isSaving={isSaving}
+              />
+              <PromptCompare
+                key={`${selected.name}-${scopeProjectId ?? 'global'}`}
+                template={selected}
+                versions={versions}
+                project={project}
+                results={compareResults}
+                isComparing={isComparing}
+                onCompare={compare}
+              />
+            </>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
+              <p>Select a prompt template to edit it</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { PromptsTab } from './PromptsTab'
+export { PromptTemplateEditor } from './PromptTemplateEditor'
+export { PromptCompare } from './PromptCompare'
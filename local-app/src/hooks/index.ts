@@ -2,6 +2,6 @@
 export { useProjects, useJourneys } from '@dev-orchestrator/shared';
 
 // Local-only hooks
-export { useClaudeCli, useJourneyAnalysis, useImplementationPlan, useJourneySummary } from './useClaudeCli';
+export { useClaudeCli, useClaudeStream, useJourneyAnalysis, useImplementationPlan, useJourneySummary } from './useClaudeCli';
 export { useSpeechToText } from './useSpeechToText';
 export { useVSCodeLaunch } from './useVSCodeLaunch';
@@ -1,4 +1,4 @@
-import { useCallback, useEffect } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useClaudeCliStore } from '../stores/claudeCliStore'
 
 /**
@@ -40,6 +40,7 @@ export function useClaudeCli() {
     isProcessing: store.isProcessing,
     queueLength: store.queueLength,
     activeRequests: store.activeRequests,
+    lanes: store.lanes,
     lastError: store.lastError,
     lastDurationMs: store.lastDurationMs,
 
@@ -78,8 +79,8 @@ export function useJourneyAnalysis() {
   const { analyzeJourney, isProcessing, lastAnalysis, lastError, lastDurationMs, clearError } = useClaudeCli()
 
   const analyze = useCallback(
-    async (description: string, projectContext?: string) => {
-      return analyzeJourney(description, projectContext)
+    async (description: string, projectContext?: string, fresh?: boolean) => {
+      return analyzeJourney(description, projectContext, fresh)
     },
     [analyzeJourney]
   )
@@ -124,8 +125,8 @@ export function useJourneySummary() {
   const { summarizeJourney, isProcessing, lastSummary, lastError, lastDurationMs, clearError } = useClaudeCli()
 
   const summarize = useCallback(
-    async (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string) => {
-      return summarizeJourney(journeyName, gitDiff, commitHistory, originalPlan)
+    async (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string, fresh?: boolean) => {
+      return summarizeJourney(journeyName, gitDiff, commitHistory, originalPlan, fresh)
     },
     [summarizeJourney]
   )
@@ -156,15 +157,15 @@ export function useProjectIntakeAI() {
   } = useClaudeCli()
 
   const refine = useCallback(
-    async (rawIntake: string, projectName: string) => {
-      return refineProjectIntake(rawIntake, projectName)
+    async (rawIntake: string, projectName: string, projectId?: string) => {
+      return refineProjectIntake(rawIntake, projectName, projectId)
     },
     [refineProjectIntake]
   )
 
   const analyzeChanges = useCallback(
-    async (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string) => {
-      return analyzeProjectIntakeChanges(previousRaw, newRaw, existingAiDoc, projectName)
+    async (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string, projectId?: string) => {
+      return analyzeProjectIntakeChanges(previousRaw, newRaw, existingAiDoc, projectName, projectId)
     },
     [analyzeProjectIntakeChanges]
   )
@@ -195,8 +196,8 @@ export function useProposedJourneysAI() {
   } = useClaudeCli()
 
   const generate = useCallback(
-    async (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string) => {
-      return generateProposedJourneys(aiParsedIntake, projectName, existingProposals, codebasePath)
+    async (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string, projectId?: string) => {
+      return generateProposedJourneys(aiParsedIntake, projectName, existingProposals, codebasePath, projectId)
     },
     [generateProposedJourneys]
   )
@@ -225,8 +226,8 @@ export function useJourneyIdeaParser() {
   } = useClaudeCli()
 
   const parse = useCallback(
-    async (rawText: string, projectName: string) => {
-      return parseJourneyIdea(rawText, projectName)
+    async (rawText: string, projectName: string, projectId?: string) => {
+      return parseJourneyIdea(rawText, projectName, projectId)
     },
     [parseJourneyIdea]
   )
@@ -240,3 +241,65 @@ export function useJourneyIdeaParser() {
     clearError,
   }
 }
+
+/**
+ * Hook for following a streaming Claude request, with a Stop control via cancel()
+ *
+ * @example
+ * ```tsx
+ * const { start, end, stream } = useClaudeStream()
+ * const requestId = start()
+ * const result = await window.electronAPI.claude.generateSpec(intake, undefined, undefined, cwd, { requestId, stream: true })
+ * end(requestId)
+ * ```
+ */
+export function useClaudeStream() {
+  const startStream = useClaudeCliStore((state) => state.startStream)
+  const endStream = useClaudeCliStore((state) => state.endStream)
+  const cancelRequest = useClaudeCliStore((state) => state.cancelRequest)
+  const [requestId, setRequestId] = useState<string | null>(null)
+  const stream = useClaudeCliStore((state) => (requestId ? state.streams[requestId] ?? null : null))
+
+  // Track the live id so an unmount mid-request still cleans up the store
+  const requestIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (requestIdRef.current) {
+        endStream(requestIdRef.current)
+      }
+    }
+  }, [endStream])
+
+  const start = useCallback(() => {
+    const id = startStream()
+    requestIdRef.current = id
+    setRequestId(id)
+    return id
+  }, [startStream])
+
+  const end = useCallback(
+    (id: string) => {
+      endStream(id)
+      if (requestIdRef.current === id) {
+        requestIdRef.current = null
+        setRequestId(null)
+      }
+    },
+    [endStream]
+  )
+
+  // Stop the request currently being followed
+  const cancel = useCallback(async () => {
+    if (!requestIdRef.current) return false
+    return cancelRequest(requestIdRef.current)
+  }, [cancelRequest])
+
+  return {
+    start,
+    end,
+    cancel,
+    requestId,
+    stream,
+  }
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState, useCallback } from 'react';
+import { recordStageTransition } from '@dev-orchestrator/shared';
 import { supabase } from '../lib/supabase';
 import type { Journey, JourneyInsert, JourneyUpdate } from '../types';
 
@@ -40,6 +41,11 @@ export function useJourneys(projectId?: string) {
     if (createError) throw createError;
     if (!data) throw new Error('No data returned from insert');
 
+    // Starts the journey's stage history - a failure here shouldn't undo the create
+    recordStageTransition(data, null, data.stage, { changedBy: 'desktop' }).catch(err => {
+      console.error('Failed to record initial stage:', err);
+    });
+
     setJourneys(prev => [data, ...prev]);
     return data;
   }, []);
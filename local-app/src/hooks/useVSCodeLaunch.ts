@@ -155,6 +155,7 @@ export function useVSCodeLaunch() {
         journeyStage: journey.stage,
         worktreePath: workingPath,
         projectRootPath: project.root_path,
+        projectId: project.id,
       });
 
       if (!result.success) {
@@ -0,0 +1,134 @@
+import { supabase } from './supabase'
+import type { ClaudeSession } from '../types/history'
+import type { ClaudeSessionMatchReason, Journey, JourneyClaudeSessionInsert, JourneySession, Project } from '../types'
+
+// Evidence weights - running in the journey's worktree outweighs everything else,
+// and a shared time window alone only counts when no other journey has a claim
+const REASON_SCORES: Record<ClaudeSessionMatchReason, number> = {
+  worktree: 4,
+  branch: 2,
+  time_window: 1,
+}
+
+interface JourneyEvidence {
+  journeyId: string
+  reason: ClaudeSessionMatchReason
+  score: number
+  journeySessionId: string | null
+}
+
+/**
+ * Folder Claude Code keeps a directory's sessions under in ~/.claude/projects
+ */
+export function encodeClaudeProjectPath(dirPath: string): string {
+  return dirPath.replace(/\/+$/, '').replace(/[^a-zA-Z0-9]/g, '-')
+}
+
+function isWithin(dirPath: string, root: string): boolean {
+  const normalizedRoot = root.replace(/\/+$/, '')
+  return dirPath === normalizedRoot || dirPath.startsWith(normalizedRoot + '/')
+}
+
+function overlaps(session: ClaudeSession, journeySession: JourneySession, now: Date): boolean {
+  const start = new Date(journeySession.started_at)
+  const end = journeySession.ended_at ? new Date(journeySession.ended_at) : now
+  return new Date(session.startedAt) <= end && new Date(session.timestamp) >= start
+}
+
+function getEvidence(
+  session: ClaudeSession,
+  journey: Journey,
+  journeySessions: JourneySession[],
+  now: Date
+): JourneyEvidence | null {
+  const inWorktree = !!journey.worktree_path && !!session.cwd && isWithin(session.cwd, journey.worktree_path)
+  const onBranch = !!journey.branch_name && session.gitBranch === journey.branch_name
+  const overlapping = journeySessions
+    .filter((js) => js.journey_id === journey.id && overlaps(session, js, now))
+    .sort((a, b) => b.started_at.localeCompare(a.started_at))[0]
+
+  const reasons: ClaudeSessionMatchReason[] = []
+  if (inWorktree) reasons.push('worktree')
+  if (onBranch) reasons.push('branch')
+  if (overlapping) reasons.push('time_window')
+  if (reasons.length === 0) return null
+
+  return {
+    journeyId: journey.id,
+    reason: reasons[0],
+    score: reasons.reduce((sum, reason) => sum + REASON_SCORES[reason], 0),
+    journeySessionId: overlapping?.id ?? null,
+  }
+}
+
+/**
+ * Attribute Claude Code sessions to journeys by worktree path, branch and overlap with
+ * journey sessions. A session goes to the one journey with the strongest evidence -
+ * when two journeys tie it's left unattributed rather than guessed.
+ */
+export function matchClaudeSessions(
+  sessions: ClaudeSession[],
+  journeys: Journey[],
+  journeySessions: JourneySession[],
+  now = new Date()
+): JourneyClaudeSessionInsert[] {
+  const matches: JourneyClaudeSessionInsert[] = []
+
+  for (const session of sessions) {
+    const evidence = journeys
+      .map((journey) => getEvidence(session, journey, journeySessions, now))
+      .filter((e): e is JourneyEvidence => e !== null)
+      .sort((a, b) => b.score - a.score)
+
+    const [best, runnerUp] = evidence
+    if (!best || (runnerUp && runnerUp.score === best.score)) continue
+
+    matches.push({
+      journey_id: best.journeyId,
+      journey_session_id: best.journeySessionId,
+      claude_session_id: session.id,
+      claude_project_id: session.projectId,
+      file_path: session.filePath,
+      cwd: session.cwd || null,
+      git_branch: session.gitBranch === 'unknown' ? null : session.gitBranch,
+      first_message: session.firstMessage || null,
+      match_reason: best.reason,
+      started_at: new Date(session.startedAt).toISOString(),
+      last_active_at: new Date(session.timestamp).toISOString(),
+    })
+  }
+
+  return matches
+}
+
+/**
+ * Match every Claude Code session run in the project folder - including its worktrees,
+ * which live under it - against the project's journeys
+ */
+export async function findJourneyClaudeSessions(
+  project: Project,
+  journeys: Journey[]
+): Promise<JourneyClaudeSessionInsert[]> {
+  const folderPrefix = encodeClaudeProjectPath(project.root_path)
+  const claudeProjects = await window.electronAPI.history.getProjects()
+  const folders = claudeProjects.filter((p) => p.id === folderPrefix || p.id.startsWith(folderPrefix + '-'))
+
+  let sessions: ClaudeSession[] = []
+  for (const folder of folders) {
+    const folderSessions = await window.electronAPI.history.getSessions(folder.id)
+    // Older transcripts don't record a cwd - fall back to the folder's directory
+    sessions.push(...folderSessions.map((s) => ({ ...s, cwd: s.cwd || folder.path })))
+  }
+  // The prefix also catches sibling folders such as my-app-old next to my-app
+  sessions = sessions.filter((s) => isWithin(s.cwd, project.root_path))
+  if (sessions.length === 0 || journeys.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('journey_sessions')
+    .select('*')
+    .in('journey_id', journeys.map((j) => j.id))
+
+  if (error) throw error
+
+  return matchClaudeSessions(sessions, journeys, data || [])
+}
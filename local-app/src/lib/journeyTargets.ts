@@ -0,0 +1,20 @@
+import { supabase } from './supabase'
+
+/**
+ * Targets selected for a journey (journey_targets rows)
+ */
+export async function loadJourneyTargetIds(journeyId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('journey_targets')
+    .select('target_id')
+    .eq('journey_id', journeyId)
+  if (error) throw error
+  return (data ?? []).map((row) => row.target_id as string)
+}
+
+export async function setJourneyTargetSelected(journeyId: string, targetId: string, selected: boolean): Promise<void> {
+  const { error } = selected
+    ? await supabase.from('journey_targets').insert({ journey_id: journeyId, target_id: targetId })
+    : await supabase.from('journey_targets').delete().eq('journey_id', journeyId).eq('target_id', targetId)
+  if (error) throw error
+}
@@ -0,0 +1,68 @@
+export type DiffLineType = 'same' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+}
+
+// Above this many LCS cells, the changed middle is shown as a full replace
+const MAX_LCS_CELLS = 4000000
+
+/**
+ * Line-based diff of two texts (LCS after trimming the common prefix/suffix)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const prefix: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }))
+  const suffix: DiffLine[] = a.slice(endA).map((text) => ({ type: 'same', text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map((text): DiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): DiffLine => ({ type: 'added', text })),
+      ...suffix,
+    ]
+  }
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0))
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const middle: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] })
+    } else {
+      middle.push({ type: 'added', text: midB[j++] })
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] })
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] })
+
+  return [...prefix, ...middle, ...suffix]
+}
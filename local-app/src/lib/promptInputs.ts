@@ -0,0 +1,57 @@
+import { supabase } from './supabase'
+import type { Journey, Project } from '../types'
+import type { PromptTemplateName } from '../types/prompts'
+
+/**
+ * Inputs a prompt template is built from, taken from a journey (and its project)
+ * Mirrors what the live handlers receive, so compare runs match real calls
+ */
+export async function loadPromptInputs(
+  name: PromptTemplateName,
+  journey: Journey | null,
+  project: Project | null
+): Promise<Record<string, string>> {
+  if (name === 'refineProjectIntake') {
+    return { rawIntake: project?.raw_intake ?? '', projectName: project?.name ?? '' }
+  }
+  if (!journey) {
+    throw new Error('Pick a journey to take inputs from')
+  }
+
+  switch (name) {
+    case 'refineIntake': {
+      const intake = await loadLatestIntake(journey.id)
+      return { rawIntake: intake?.raw_content ?? '', journeyType: journey.type }
+    }
+    case 'generateSpec': {
+      const intake = await loadLatestIntake(journey.id)
+      return { refinedIntake: intake?.refined_content ?? '' }
+    }
+    case 'generatePlan': {
+      const { data } = await supabase
+        .from('journey_specs')
+        .select('content')
+        .eq('journey_id', journey.id)
+        .maybeSingle()
+      return { spec: data?.content ?? '' }
+    }
+    case 'journeyKickoff':
+      return {
+        journeyId: journey.id,
+        journeyName: journey.name,
+        journeyType: journey.type,
+        journeyStage: journey.stage,
+      }
+  }
+}
+
+async function loadLatestIntake(journeyId: string): Promise<{ raw_content: string | null; refined_content: string | null } | null> {
+  const { data } = await supabase
+    .from('journey_intakes')
+    .select('raw_content, refined_content')
+    .eq('journey_id', journeyId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return data
+}
@@ -0,0 +1,95 @@
+import { StageTransitionError, formatStageName } from '@dev-orchestrator/shared'
+import type { JourneyStage, StageTransitionOptions } from '@dev-orchestrator/shared'
+import { supabase } from './supabase'
+import { useWorktreeBootstrapStore } from '../stores/worktreeBootstrapStore'
+import type { Journey, JourneyChecklist, JourneyPlan, Project } from '../types'
+
+/**
+ * Create the journey's worktree on entering an implementation stage, unless it already has one
+ */
+async function createJourneyWorktree(project: Project, journey: Journey) {
+  if (journey.worktree_path) return
+
+  const isRepo = await window.electronAPI.git.isRepo(project.root_path)
+  if (!isRepo) {
+    throw new Error('Project folder is not a git repository')
+  }
+
+  const result = await window.electronAPI.git.createWorktree({
+    projectPath: project.root_path,
+    journeyName: journey.name,
+  })
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to create worktree')
+  }
+
+  // Install dependencies, copy env files and assign ports in the background
+  useWorktreeBootstrapStore.getState().bootstrap(project, journey, result.worktreePath)
+
+  return { branch_name: result.branchName, worktree_path: result.worktreePath }
+}
+
+/**
+ * Summarize what a deployed journey shipped from its plan, checklists and branch
+ */
+async function generateJourneySummary(project: Project | null, journey: Journey) {
+  const [{ data: plan }, { data: checklists }] = await Promise.all([
+    supabase.from('journey_plans').select('*').eq('journey_id', journey.id).maybeSingle(),
+    supabase.from('journey_checklists').select('*').eq('journey_id', journey.id).order('sort_order', { ascending: true }),
+  ])
+
+  const checklistText = ((checklists || []) as JourneyChecklist[])
+    .map((checklist) => [
+      `${checklist.leg_name}:`,
+      ...checklist.items.map((item) => `- [${item.done ? 'x' : ' '}] ${item.text}`),
+    ].join('\n'))
+    .join('\n\n')
+  const planContent = (plan as JourneyPlan | null)?.content
+  const originalPlan = [
+    planContent ? JSON.stringify(planContent, null, 2) : journey.description,
+    checklistText && `Checklist:\n${checklistText}`,
+  ].filter(Boolean).join('\n\n')
+
+  // The branch may be merged already, leaving nothing to diff
+  const diff = journey.worktree_path ? await window.electronAPI.git.getBranchDiff(journey.worktree_path) : null
+  const commitHistory = diff?.commits.map((commit) => `${commit.shortHash} ${commit.subject}`).join('\n')
+  const gitDiff = diff?.files.map((file) => `${file.status} ${file.path}`).join('\n')
+
+  const response = await window.electronAPI.claude.summarizeJourney(
+    journey.name,
+    gitDiff || '(no unmerged changes)',
+    commitHistory || '(no unmerged commits)',
+    originalPlan || undefined,
+    { journeyId: journey.id, projectId: project?.id }
+  )
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Claude returned no summary')
+  }
+  return { summary: response.data.summary }
+}
+
+/**
+ * Worktree status and stage hooks for the shared stage transition rules
+ * Without a project, entering an implementation stage doesn't create a worktree.
+ */
+export function getStageTransitionOptions(project: Project | null, note?: string): Omit<StageTransitionOptions, 'update'> {
+  return {
+    changedBy: 'desktop',
+    note,
+    getWorktreeStatus: (worktreePath) => window.electronAPI.git.getStatus(worktreePath),
+    hooks: {
+      ...(project && { create_worktree: (journey) => createJourneyWorktree(project, journey) }),
+      generate_summary: (journey) => generateJourneySummary(project, journey),
+    },
+  }
+}
+
+/**
+ * Toast text for a failed stage change - blocked transitions list why
+ */
+export function stageChangeErrorMessage(stage: JourneyStage, err: unknown): string {
+  if (err instanceof StageTransitionError) {
+    return `Can't move to ${formatStageName(stage)}:\n${err.reasons.join('\n')}`
+  }
+  return err instanceof Error ? err.message : 'Failed to update journey stage'
+}
@@ -0,0 +1,96 @@
+export interface DiffCell {
+  number: number
+  text: string
+  changed: boolean
+}
+
+export type SideBySideRow =
+  | { type: 'hunk'; header: string }
+  | { type: 'lines'; left: DiffCell | null; right: DiffCell | null }
+  | { type: 'fold'; count: number }
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/
+
+/**
+ * Lay a unified diff out as side-by-side rows
+ * Removed and added lines in the same run are paired up so edits line up across the columns
+ */
+export function toSideBySide(patch: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let removed: DiffCell[] = []
+  let added: DiffCell[] = []
+  let leftNumber = 0
+  let rightNumber = 0
+  let inHunk = false
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ type: 'lines', left: removed[i] ?? null, right: added[i] ?? null })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of patch.split('\n')) {
+    const header = HUNK_HEADER.exec(line)
+    if (header) {
+      flush()
+      leftNumber = Number(header[1])
+      rightNumber = Number(header[2])
+      rows.push({ type: 'hunk', header: line })
+      inHunk = true
+      continue
+    }
+    // File headers (diff --git, index, ---, +++) come before the first hunk
+    if (!inHunk) continue
+
+    if (line.startsWith('-')) {
+      removed.push({ number: leftNumber++, text: line.slice(1), changed: true })
+    } else if (line.startsWith('+')) {
+      added.push({ number: rightNumber++, text: line.slice(1), changed: true })
+    } else if (line.startsWith(' ')) {
+      flush()
+      rows.push({
+        type: 'lines',
+        left: { number: leftNumber++, text: line.slice(1), changed: false },
+        right: { number: rightNumber++, text: line.slice(1), changed: false },
+      })
+    }
+    // "\ No newline at end of file" markers are skipped
+  }
+  flush()
+
+  return rows
+}
+
+function isChanged(row: SideBySideRow): boolean {
+  return row.type === 'lines' && !!(row.left?.changed || row.right?.changed)
+}
+
+/**
+ * Replace unchanged runs further than `context` rows from any change with a fold row
+ */
+export function foldUnchanged(rows: SideBySideRow[], context = 3): SideBySideRow[] {
+  const keep = rows.map((row) => row.type !== 'lines')
+  rows.forEach((row, index) => {
+    if (!isChanged(row)) return
+    for (let i = Math.max(0, index - context); i <= Math.min(rows.length - 1, index + context); i++) {
+      keep[i] = true
+    }
+  })
+
+  const folded: SideBySideRow[] = []
+  let hidden = 0
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      if (hidden > 0) folded.push({ type: 'fold', count: hidden })
+      hidden = 0
+      folded.push(row)
+    } else {
+      hidden++
+    }
+  })
+  if (hidden > 0) folded.push({ type: 'fold', count: hidden })
+
+  return folded
+}
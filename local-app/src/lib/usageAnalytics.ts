@@ -0,0 +1,231 @@
+import { supabase } from './supabase'
+import type { DayUsage, SessionUsage, TokenTotals } from '../types/history'
+
+export interface UsageSummary {
+  key: string
+  label: string
+  sessions: number
+  messages: number
+  tokens: TokenTotals
+  toolCalls: number
+  toolErrors: number
+  activeMs: number
+  averageSessionMs: number
+}
+
+export interface ToolUsage {
+  name: string
+  calls: number
+  errors: number
+}
+
+export interface DailyUsage extends DayUsage {
+  day: string
+}
+
+export interface ModelUsage {
+  model: string
+  tokens: TokenTotals
+}
+
+export interface UsageAnalytics {
+  totals: UsageSummary
+  byProject: UsageSummary[]
+  byJourney: UsageSummary[]
+  byDay: DailyUsage[]
+  tools: ToolUsage[]
+  models: ModelUsage[]
+}
+
+export interface SessionJourney {
+  journeyId: string
+  journeyName: string
+}
+
+export interface UsageAnalyticsOptions {
+  // Trailing window in days, today included
+  days: number
+  projectId?: string | null
+  // Claude project folder → display name
+  projectNames?: Map<string, string>
+  // Claude session id → journey it's linked to
+  sessionJourneys?: Map<string, SessionJourney>
+  now?: Date
+}
+
+function emptyTotals(): TokenTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 }
+}
+
+function addTotals(target: TokenTotals, source: TokenTotals): void {
+  target.inputTokens += source.inputTokens
+  target.outputTokens += source.outputTokens
+  target.cacheReadTokens += source.cacheReadTokens
+  target.cacheCreationTokens += source.cacheCreationTokens
+}
+
+/**
+ * Everything the model read - fresh input plus cached context
+ */
+export function tokensIn(tokens: TokenTotals): number {
+  return tokens.inputTokens + tokens.cacheReadTokens + tokens.cacheCreationTokens
+}
+
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count)
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`
+  return `${(count / 1_000_000).toFixed(count < 10_000_000 ? 1 : 0)}M`
+}
+
+function localDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function summarize(key: string, label: string, sessions: SessionUsage[]): UsageSummary {
+  const tokens = emptyTotals()
+  let messages = 0
+  let toolCalls = 0
+  let toolErrors = 0
+  let activeMs = 0
+  let durationMs = 0
+
+  for (const session of sessions) {
+    addTotals(tokens, session.tokens)
+    messages += session.messageCount
+    activeMs += session.activeMs
+    durationMs += session.durationMs
+    for (const stats of Object.values(session.tools)) {
+      toolCalls += stats.calls
+      toolErrors += stats.errors
+    }
+  }
+
+  return {
+    key,
+    label,
+    sessions: sessions.length,
+    messages,
+    tokens,
+    toolCalls,
+    toolErrors,
+    activeMs,
+    averageSessionMs: sessions.length > 0 ? durationMs / sessions.length : 0,
+  }
+}
+
+function groupBy(sessions: SessionUsage[], keyOf: (session: SessionUsage) => string | null): Map<string, SessionUsage[]> {
+  const groups = new Map<string, SessionUsage[]>()
+  for (const session of sessions) {
+    const key = keyOf(session)
+    if (key === null) continue
+    const group = groups.get(key)
+    if (group) {
+      group.push(session)
+    } else {
+      groups.set(key, [session])
+    }
+  }
+  return groups
+}
+
+/**
+ * Aggregate session usage per project, journey, day, tool and model. A session with any
+ * activity in the window counts in full; the daily breakdown only covers the window.
+ * Projects and journeys are ranked by active time.
+ */
+export function computeUsageAnalytics(sessions: SessionUsage[], options: UsageAnalyticsOptions): UsageAnalytics {
+  const now = options.now ?? new Date()
+  const firstDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (options.days - 1))
+  const since = localDay(firstDay)
+
+  const inWindow = sessions.filter(
+    (session) =>
+      (!options.projectId || session.projectId === options.projectId) &&
+      Object.keys(session.byDay).some((day) => day >= since)
+  )
+
+  const byActiveTime = (a: UsageSummary, b: UsageSummary) => b.activeMs - a.activeMs
+
+  const byProject = [...groupBy(inWindow, (session) => session.projectId)]
+    .map(([projectId, group]) => summarize(projectId, options.projectNames?.get(projectId) ?? projectId, group))
+    .sort(byActiveTime)
+
+  const journeys = options.sessionJourneys ?? new Map<string, SessionJourney>()
+  const byJourney = [...groupBy(inWindow, (session) => journeys.get(session.sessionId)?.journeyId ?? null)]
+    .map(([journeyId, group]) => summarize(journeyId, journeys.get(group[0].sessionId)?.journeyName ?? journeyId, group))
+    .sort(byActiveTime)
+
+  const days = new Map<string, DailyUsage>()
+  for (let i = 0; i < options.days; i++) {
+    const day = localDay(new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + i))
+    days.set(day, { day, ...emptyTotals(), toolCalls: 0, toolErrors: 0, activeMs: 0 })
+  }
+
+  const tools = new Map<string, ToolUsage>()
+  const models = new Map<string, TokenTotals>()
+
+  for (const session of inWindow) {
+    for (const [day, usage] of Object.entries(session.byDay)) {
+      const entry = days.get(day)
+      if (!entry) continue
+      addTotals(entry, usage)
+      entry.toolCalls += usage.toolCalls
+      entry.toolErrors += usage.toolErrors
+      entry.activeMs += usage.activeMs
+    }
+    for (const [name, stats] of Object.entries(session.tools)) {
+      const tool = tools.get(name) ?? { name, calls: 0, errors: 0 }
+      tool.calls += stats.calls
+      tool.errors += stats.errors
+      tools.set(name, tool)
+    }
+    for (const [model, totals] of Object.entries(session.byModel)) {
+      const modelTotals = models.get(model) ?? emptyTotals()
+      addTotals(modelTotals, totals)
+      models.set(model, modelTotals)
+    }
+  }
+
+  return {
+    totals: summarize('all', 'All sessions', inWindow),
+    byProject,
+    byJourney,
+    byDay: [...days.values()],
+    tools: [...tools.values()].sort((a, b) => b.calls - a.calls),
+    models: [...models]
+      .map(([model, tokens]) => ({ model, tokens }))
+      .sort((a, b) => b.tokens.outputTokens - a.tokens.outputTokens),
+  }
+}
+
+/**
+ * Journeys that Claude sessions have been linked to, keyed by Claude session id
+ */
+export async function fetchSessionJourneys(): Promise<Map<string, SessionJourney>> {
+  const { data: links, error } = await supabase
+    .from('journey_claude_sessions')
+    .select('claude_session_id, journey_id')
+
+  if (error) throw error
+  if (!links || links.length === 0) return new Map()
+
+  const journeyIds = [...new Set(links.map((link) => link.journey_id))]
+  const { data: journeys, error: journeysError } = await supabase
+    .from('journeys')
+    .select('id, name')
+    .in('id', journeyIds)
+
+  if (journeysError) throw journeysError
+
+  const names = new Map<string, string>((journeys || []).map((journey) => [journey.id, journey.name]))
+  const sessionJourneys = new Map<string, SessionJourney>()
+  for (const link of links) {
+    sessionJourneys.set(link.claude_session_id, {
+      journeyId: link.journey_id,
+      journeyName: names.get(link.journey_id) ?? 'Unknown journey',
+    })
+  }
+  return sessionJourneys
+}
@@ -0,0 +1,99 @@
+import { supabase } from './supabase'
+import type { Journey, ProjectTarget, WorktreeBootstrapRecipe } from '../types'
+import type { BootstrapPortAssignment } from '../types/worktreeBootstrap'
+
+// Journey ports sit a multiple of PORT_OFFSET_STEP above the target's default port
+// (offset 0 is the main checkout)
+export const PORT_OFFSET_STEP = 10
+
+export const EMPTY_BOOTSTRAP_RECIPE: WorktreeBootstrapRecipe = {
+  files: [],
+  commands: [],
+  ports: [],
+  env_file: '.env.local',
+}
+
+export function isEmptyRecipe(recipe: WorktreeBootstrapRecipe | null): boolean {
+  return !recipe || (recipe.files.length === 0 && recipe.commands.length === 0 && recipe.ports.length === 0)
+}
+
+/**
+ * Gap between the project's lowest and highest default port
+ * A checkout's ports span this range, so two offsets only keep every port apart
+ * when they differ by more than it
+ */
+export function portSpread(targets: ProjectTarget[]): number {
+  const ports = targets.flatMap((target) => (target.default_port ? [target.default_port] : []))
+  return ports.length > 0 ? Math.max(...ports) - Math.min(...ports) : 0
+}
+
+/**
+ * Smallest offset whose ports clash with neither the main checkout nor another journey
+ */
+export function allocatePortOffset(takenOffsets: number[], spread: number): number {
+  const taken = [0, ...takenOffsets]
+  let offset = PORT_OFFSET_STEP
+  while (taken.some((other) => Math.abs(offset - other) <= spread)) {
+    offset += PORT_OFFSET_STEP
+  }
+  return offset
+}
+
+/**
+ * Ports for a journey, for each recipe port whose target has a default port
+ */
+export function resolveBootstrapPorts(
+  recipe: WorktreeBootstrapRecipe,
+  targets: ProjectTarget[],
+  offset: number
+): BootstrapPortAssignment[] {
+  return recipe.ports.flatMap(({ target_id, env_var }) => {
+    const target = targets.find((t) => t.id === target_id)
+    if (!target?.default_port || !env_var.trim()) return []
+    return [{ envVar: env_var.trim(), port: target.default_port + offset }]
+  })
+}
+
+/**
+ * The journey's port offset, allocating and saving one if it has none yet
+ * Offsets held by journeys whose worktree is gone are free again. Saved offsets are
+ * never moved, so a target added later with a far-off default port can still make an older one clash.
+ */
+export async function ensurePortOffset(journey: Journey): Promise<number> {
+  if (journey.port_offset !== null && journey.port_offset !== undefined) {
+    return journey.port_offset
+  }
+
+  const [{ data, error }, targets] = await Promise.all([
+    supabase
+      .from('journeys')
+      .select('port_offset')
+      .eq('project_id', journey.project_id)
+      .neq('id', journey.id)
+      .not('port_offset', 'is', null)
+      .not('worktree_path', 'is', null),
+    loadProjectTargets(journey.project_id),
+  ])
+  if (error) throw error
+
+  const offset = allocatePortOffset(
+    (data ?? []).map((row) => row.port_offset as number),
+    portSpread(targets)
+  )
+  const { error: updateError } = await supabase
+    .from('journeys')
+    .update({ port_offset: offset })
+    .eq('id', journey.id)
+  if (updateError) throw updateError
+
+  return offset
+}
+
+export async function loadProjectTargets(projectId: string): Promise<ProjectTarget[]> {
+  const { data, error } = await supabase
+    .from('project_targets')
+    .select('*')
+    .eq('project_id', projectId)
+  if (error) throw error
+  return data ?? []
+}
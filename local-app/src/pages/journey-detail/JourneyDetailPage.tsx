@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react'
-import { useJourneys, useProjects } from '@dev-orchestrator/shared'
-import type { JourneyUpdate } from '@dev-orchestrator/shared'
+import { useJourneys, useProjects, formatStageName } from '@dev-orchestrator/shared'
+import type { JourneyStage, JourneyUpdate } from '@dev-orchestrator/shared'
+import { getStageTransitionOptions, stageChangeErrorMessage } from '../../lib/stageTransitions'
 import { useVSCodeLaunch } from '../../hooks/useVSCodeLaunch'
 import { Button } from '../../components/common/Button'
 import { ToastContainer, ToastData } from '../../components/common/Toast'
@@ -11,11 +12,18 @@ import {
   SpecTab,
   PlanTab,
   ChecklistsTab,
+  AutopilotTab,
+  TargetsTab,
+  DiffTab,
+  ShipTab,
+  ClaudeSessionsTab,
   LinksTab,
   type JourneyTab,
 } from '../../components/journeys/detail-tabs'
 import { SpeechToText } from '../../components/SpeechToText'
 import { ErrorBoundary } from '../../components/common/ErrorBoundary'
+import { subscribeToAutopilotEvents } from '../../stores/autopilotStore'
+import { subscribeToTargetProcessEvents } from '../../stores/targetProcessStore'
 
 interface JourneyTabData {
   journeyId: string
@@ -54,7 +62,7 @@ export function JourneyDetailPage() {
 
   // Get the active tab's projectId for the useJourneys hook
   const activeTab = tabs.find(t => t.journeyId === activeTabId)
-  const { journeys, updateJourney, deleteJourney, loading } = useJourneys(activeTab?.projectId)
+  const { journeys, updateJourney, updateStage, deleteJourney, loading } = useJourneys(activeTab?.projectId)
   const { projects } = useProjects()
   const { openVSCode } = useVSCodeLaunch()
 
@@ -64,6 +72,15 @@ export function JourneyDetailPage() {
   // Get the project for the active journey
   const activeProject = projects.find(p => p.id === activeTab?.projectId) || null
 
+  // Journeys in pre-prod review open straight into their diff, approved ones into shipping
+  useEffect(() => {
+    if (activeJourney?.stage === 'pre_prod_review') {
+      setActiveContentTab('diff')
+    } else if (activeJourney?.stage === 'merge_approved') {
+      setActiveContentTab('ship')
+    }
+  }, [activeJourney?.id, activeJourney?.stage])
+
   // Persist only content tab to localStorage (journey tabs are managed by main process)
   useEffect(() => {
     localStorage.setItem(JOURNEY_DETAIL_STORAGE_KEY, JSON.stringify({
@@ -81,6 +98,18 @@ export function JourneyDetailPage() {
     setToasts(prev => prev.filter(t => t.id !== id))
   }, [])
 
+  // Autopilot progress for any journey open in this window
+  useEffect(() => {
+    if (!window.electronAPI?.autopilot) return
+    return subscribeToAutopilotEvents()
+  }, [])
+
+  // Target processes for journeys in this window
+  useEffect(() => {
+    if (!window.electronAPI?.targets) return
+    return subscribeToTargetProcessEvents()
+  }, [])
+
   // Listen for IPC events from main process
   useEffect(() => {
     if (!window.electronAPI?.journeyDetail) return
@@ -140,12 +169,20 @@ export function JourneyDetailPage() {
   }, [activeJourney, updateJourney])
 
   // Handle stage change (auto-advance when AI generation completes)
-  const handleStageChange = useCallback(async (newStage: string) => {
-    if (!activeJourney) return
-    // Only advance if it's actually a later stage
-    await updateJourney(activeJourney.id, { stage: newStage as JourneyUpdate['stage'] })
-    showToast(`Stage advanced to: ${newStage.replace(/_/g, ' ')}`, 'success')
-  }, [activeJourney, updateJourney, showToast])
+  // Resolves to whether the journey moved - blocked moves are reported in a toast
+  const handleStageChange = useCallback(async (newStage: string, note?: string) => {
+    if (!activeJourney) return false
+    const stage = newStage as JourneyStage
+    try {
+      const { warnings } = await updateStage(activeJourney.id, stage, getStageTransitionOptions(activeProject, note))
+      showToast(`Stage changed to: ${formatStageName(stage)}`, 'success')
+      warnings.forEach(warning => showToast(warning, 'error'))
+      return true
+    } catch (err) {
+      showToast(stageChangeErrorMessage(stage, err), 'error')
+      return false
+    }
+  }, [activeJourney, activeProject, updateStage, showToast])
 
   // Handle opening in VS Code (just opens the folder)
   const handleOpenInVSCode = useCallback(async () => {
@@ -210,7 +247,7 @@ export function JourneyDetailPage() {
 
     switch (activeContentTab) {
       case 'overview':
-        return <OverviewTab journey={activeJourney} onUpdate={handleUpdate} onDelete={handleDelete} />
+        return <OverviewTab journey={activeJourney} onUpdate={handleUpdate} onStageChange={handleStageChange} onDelete={handleDelete} />
       case 'intake':
         return <IntakeTab journey={activeJourney} onStageChange={handleStageChange} />
       case 'spec':
@@ -219,6 +256,16 @@ export function JourneyDetailPage() {
         return <PlanTab journey={activeJourney} project={activeProject} onStageChange={handleStageChange} />
       case 'checklists':
         return <ChecklistsTab journey={activeJourney} />
+      case 'autopilot':
+        return <AutopilotTab journey={activeJourney} project={activeProject} />
+      case 'targets':
+        return <TargetsTab journey={activeJourney} project={activeProject} />
+      case 'diff':
+        return <DiffTab journey={activeJourney} />
+      case 'ship':
+        return <ShipTab journey={activeJourney} project={activeProject} />
+      case 'conversations':
+        return <ClaudeSessionsTab journey={activeJourney} project={activeProject} />
       case 'links':
         return <LinksTab journey={activeJourney} />
       default:
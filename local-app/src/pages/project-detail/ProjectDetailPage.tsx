@@ -4,12 +4,19 @@ import type { Project, ProjectUpdate, JourneyInsert, Journey } from '@dev-orches
 import { ProjectIntakeEditor } from '../../components/projects/ProjectIntakeEditor'
 import { IntakeChangesDialog } from '../../components/projects/IntakeChangesDialog'
 import { ProposedJourneysTab } from '../../components/projects/ProposedJourneysTab'
+import { WorktreeSetupTab } from '../../components/projects/WorktreeSetupTab'
+import { WorktreeJanitorTab } from '../../components/projects/WorktreeJanitorTab'
+import { ConflictMatrixTab } from '../../components/projects/ConflictMatrixTab'
+import { StageAnalyticsTab } from '../../components/projects/StageAnalyticsTab'
+import { DependencyGraphTab } from '../../components/projects/DependencyGraphTab'
 import { JourneysList } from '../../components/journeys/JourneysList'
 import { SpeechToText } from '../../components/SpeechToText'
 import { Button } from '../../components/common/Button'
 import { ToastContainer, ToastData } from '../../components/common/Toast'
+import { subscribeToWorktreeBootstrapEvents } from '../../stores/worktreeBootstrapStore'
+import { subscribeToConflictEvents, useConflictStore, useConflictWatch } from '../../stores/conflictStore'
 
-type ProjectTab = 'description' | 'proposed' | 'journeys'
+type ProjectTab = 'description' | 'proposed' | 'journeys' | 'setup' | 'worktrees' | 'conflicts' | 'dependencies' | 'analytics'
 
 interface ChangesDialogData {
   changesSummary: string
@@ -69,6 +76,21 @@ export function ProjectDetailPage() {
     }
   }, [projectId, activeTab])
 
+  // Worktree setup progress shown on journey cards
+  useEffect(() => {
+    if (!window.electronAPI?.worktreeBootstrap) return
+    return subscribeToWorktreeBootstrapEvents()
+  }, [])
+
+  // Conflict warnings shown on journey cards and the conflicts tab
+  useEffect(() => {
+    if (!window.electronAPI?.conflicts) return
+    return subscribeToConflictEvents()
+  }, [])
+  useConflictWatch(project, journeys)
+  const conflictReport = useConflictStore((state) => (project ? state.reports[project.root_path] : undefined))
+  const conflictCount = conflictReport?.pairs.filter((pair) => pair.conflictingFiles.length > 0).length ?? 0
+
   // Listen for project init from main process
   useEffect(() => {
     const handleInit = (data: { projectId: string }) => {
@@ -324,6 +346,61 @@ export function ProjectDetailPage() {
             </span>
           )}
         </button>
+        <button
+          onClick={() => setActiveTab('setup')}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            activeTab === 'setup'
+              ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500'
+              : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'
+          }`}
+        >
+          Worktree Setup
+        </button>
+        <button
+          onClick={() => setActiveTab('worktrees')}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            activeTab === 'worktrees'
+              ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500'
+              : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'
+          }`}
+        >
+          Worktrees
+        </button>
+        <button
+          onClick={() => setActiveTab('conflicts')}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            activeTab === 'conflicts'
+              ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500'
+              : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'
+          }`}
+        >
+          Conflicts
+          {conflictCount > 0 && (
+            <span className="ml-1.5 text-xs bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 px-1.5 py-0.5 rounded-full">
+              {conflictCount}
+            </span>
+          )}
+        </button>
+        <button
+          onClick={() => setActiveTab('dependencies')}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            activeTab === 'dependencies'
+              ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500'
+              : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'
+          }`}
+        >
+          Dependencies
+        </button>
+        <button
+          onClick={() => setActiveTab('analytics')}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            activeTab === 'analytics'
+              ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-500'
+              : 'text-gray-500 dark:text-gray-400 hover:text-gray-700'
+          }`}
+        >
+          Analytics
+        </button>
       </div>
 
       {/* Tab Content - takes remaining space */}
@@ -341,6 +418,16 @@ export function ProjectDetailPage() {
             onProjectUpdate={handleUpdate}
             onCreateJourney={handleCreateJourney}
           />
+        ) : activeTab === 'setup' ? (
+          <WorktreeSetupTab project={project} onUpdate={handleUpdate} />
+        ) : activeTab === 'worktrees' ? (
+          <WorktreeJanitorTab project={project} journeys={journeys} onUpdateJourney={updateJourney} />
+        ) : activeTab === 'conflicts' ? (
+          <ConflictMatrixTab project={project} />
+        ) : activeTab === 'dependencies' ? (
+          <DependencyGraphTab project={project} journeys={journeys} />
+        ) : activeTab === 'analytics' ? (
+          <StageAnalyticsTab project={project} journeys={journeys} />
         ) : (
           <JourneysList
             project={project}
@@ -0,0 +1,97 @@
+import { create } from 'zustand'
+import type { AiRequestLogEntry, AiRequestLogFilter, AiPromptStats } from '../types/aiLog'
+
+// Most recent calls to load into the list
+const LIST_LIMIT = 500
+
+interface AiActivityState {
+  // Data
+  entries: AiRequestLogEntry[]
+  stats: AiPromptStats[]
+
+  // UI State
+  filter: AiRequestLogFilter
+  selectedEntry: AiRequestLogEntry | null
+  compareEntry: AiRequestLogEntry | null
+  isLoading: boolean
+  isRerunning: boolean
+  error: string | null
+
+  // Actions
+  load: () => Promise<void>
+  setFilter: (filter: Partial<AiRequestLogFilter>) => void
+  selectEntry: (entry: AiRequestLogEntry | null) => void
+  setCompareEntry: (entry: AiRequestLogEntry | null) => void
+  rerun: (id: string) => Promise<AiRequestLogEntry | null>
+  clearLog: () => Promise<void>
+}
+
+export const useAiActivityStore = create<AiActivityState>((set, get) => ({
+  // Initial state
+  entries: [],
+  stats: [],
+  filter: {},
+  selectedEntry: null,
+  compareEntry: null,
+  isLoading: false,
+  isRerunning: false,
+  error: null,
+
+  // Load calls and per-prompt stats for the current filter
+  load: async () => {
+    const { filter } = get()
+    set({ isLoading: true, error: null })
+    try {
+      const [entries, stats] = await Promise.all([
+        window.electronAPI.aiLog.list({ ...filter, limit: LIST_LIMIT }),
+        window.electronAPI.aiLog.getStats(filter),
+      ])
+      set({ entries, stats, isLoading: false })
+    } catch (err) {
+      set({ error: (err as Error).message, isLoading: false })
+    }
+  },
+
+  // Update the filter (triggers reload)
+  setFilter: (filter: Partial<AiRequestLogFilter>) => {
+    set({ filter: { ...get().filter, ...filter }, selectedEntry: null, compareEntry: null })
+    get().load()
+  },
+
+  selectEntry: (entry: AiRequestLogEntry | null) => {
+    set({ selectedEntry: entry, compareEntry: null })
+  },
+
+  setCompareEntry: (entry: AiRequestLogEntry | null) => {
+    set({ compareEntry: entry })
+  },
+
+  // Re-send a logged prompt and diff the new run against the original
+  rerun: async (id: string) => {
+    set({ isRerunning: true, error: null })
+    try {
+      const original = get().entries.find((e) => e.id === id) ?? null
+      const entry = await window.electronAPI.aiLog.rerun(id)
+      set({ isRerunning: false })
+      await get().load()
+      if (entry) {
+        set({ selectedEntry: entry, compareEntry: original })
+      }
+      return entry
+    } catch (err) {
+      set({ error: (err as Error).message, isRerunning: false })
+      return null
+    }
+  },
+
+  // Delete every logged call
+  clearLog: async () => {
+    try {
+      await window.electronAPI.aiLog.clear()
+      set({ selectedEntry: null, compareEntry: null })
+      await get().load()
+    } catch (err) {
+      set({ error: (err as Error).message })
+    }
+  },
+}))
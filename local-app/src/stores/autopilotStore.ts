@@ -0,0 +1,112 @@
+import { create } from 'zustand'
+import { getSupabase } from '@dev-orchestrator/shared'
+import type { ChecklistItem } from '@dev-orchestrator/shared'
+import type { AutopilotEvent, AutopilotRun, AutopilotStartRequest } from '../types/autopilot'
+
+// Only the tail of the transcript is kept, matching the main process
+const MAX_TRANSCRIPT_CHARS = 20000
+
+interface AutopilotState {
+  // Latest run per journey
+  runs: Record<string, AutopilotRun>
+  errors: Record<string, string | null>
+
+  // Actions
+  load: (journeyId: string) => Promise<void>
+  start: (request: AutopilotStartRequest) => Promise<boolean>
+  stop: (journeyId: string) => Promise<void>
+  handleEvent: (event: AutopilotEvent) => void
+}
+
+export const useAutopilotStore = create<AutopilotState>((set, get) => ({
+  runs: {},
+  errors: {},
+
+  // Pick up a run started from another window (or before a reload)
+  load: async (journeyId: string) => {
+    const run = await window.electronAPI.autopilot.getRun(journeyId)
+    if (run) {
+      set((state) => ({ runs: { ...state.runs, [journeyId]: run } }))
+    }
+  },
+
+  start: async (request: AutopilotStartRequest) => {
+    const { journeyId } = request
+    set((state) => ({ errors: { ...state.errors, [journeyId]: null } }))
+
+    const result = await window.electronAPI.autopilot.start(request)
+    if (!result.success || !result.run) {
+      set((state) => ({ errors: { ...state.errors, [journeyId]: result.error || 'Failed to start autopilot' } }))
+      return false
+    }
+
+    const run = result.run
+    set((state) => ({ runs: { ...state.runs, [journeyId]: run } }))
+    return true
+  },
+
+  // Kill switch - the run reports 'stopped' through a finished event
+  stop: async (journeyId: string) => {
+    await window.electronAPI.autopilot.stop(journeyId)
+  },
+
+  handleEvent: (event: AutopilotEvent) => {
+    const current = get().runs[event.journeyId]
+
+    if (event.type === 'finished') {
+      set((state) => ({ runs: { ...state.runs, [event.journeyId]: event.run } }))
+      return
+    }
+    if (!current) return
+
+    const run = event.type === 'output'
+      ? { ...current, transcript: (current.transcript + event.text).slice(-MAX_TRANSCRIPT_CHARS) }
+      : { ...current, completedItems: [...current.completedItems, event.itemIndex] }
+    set((state) => ({ runs: { ...state.runs, [event.journeyId]: run } }))
+  },
+}))
+
+// Ticks are applied one at a time so concurrent read-modify-writes can't drop an item
+let checklistWrites = Promise.resolve()
+
+function markChecklistItemDone(checklistId: string, itemIndex: number): Promise<void> {
+  checklistWrites = checklistWrites
+    .then(async () => {
+      const { data, error } = await getSupabase()
+        .from('journey_checklists')
+        .select('items')
+        .eq('id', checklistId)
+        .single()
+      if (error) throw error
+
+      const items = [...((data?.items as ChecklistItem[] | undefined) ?? [])]
+      const item = items[itemIndex]
+      if (!item || item.done) return
+
+      items[itemIndex] = { ...item, done: true, done_at: new Date().toISOString() }
+      const { error: updateError } = await getSupabase()
+        .from('journey_checklists')
+        .update({ items })
+        .eq('id', checklistId)
+      if (updateError) throw updateError
+    })
+    .catch((err) => {
+      console.error('Failed to tick checklist item from autopilot:', err)
+    })
+  return checklistWrites
+}
+
+/**
+ * Route autopilot events into the store and tick checklist items Claude reports done
+ * Call once per window - returns an unsubscribe function
+ */
+export function subscribeToAutopilotEvents(): () => void {
+  return window.electronAPI.autopilot.onEvent((event) => {
+    useAutopilotStore.getState().handleEvent(event)
+    if (event.type === 'checklistItemDone') {
+      markChecklistItemDone(event.checklistId, event.itemIndex)
+    }
+  })
+}
+
+export type { AutopilotRun, AutopilotStatus } from '../types/autopilot'
@@ -2,13 +2,27 @@ import { create } from 'zustand'
 
 // Re-define types for renderer (can't import from electron)
 interface ClaudeCliResponse<T = unknown> {
+  requestId?: string
   success: boolean
   data?: T
   rawOutput?: string
   error?: string
+  cancelled?: boolean
+  validationErrors?: string[]
+  invalidData?: unknown
+  repairAttempts?: number
+  cached?: boolean
+  sessionId?: string
   durationMs: number
 }
 
+type ClaudeQueueLane = 'interactive' | 'background' | 'batch' | 'autopilot'
+
+interface ClaudeQueueLaneStatus {
+  queued: number
+  active: number
+}
+
 interface JourneyAnalysis {
   title: string
   complexity: 1 | 2 | 3 | 4 | 5
@@ -67,11 +81,49 @@ interface ParsedJourneyIdea {
   type: 'feature_planning' | 'feature' | 'bug' | 'investigation'
 }
 
+type ClaudeStreamEvent =
+  | { requestId: string; type: 'text'; text: string }
+  | { requestId: string; type: 'tool_use'; toolName: string; input?: Record<string, unknown> }
+  | { requestId: string; type: 'tool_result'; toolName?: string; isError: boolean }
+
+// Live progress of a streaming request, accumulated from stream events
+interface ClaudeStreamState {
+  text: string
+  currentTool: string | null
+  toolCalls: number
+  toolErrors: number
+}
+
+const EMPTY_STREAM: ClaudeStreamState = { text: '', currentTool: null, toolCalls: 0, toolErrors: 0 }
+
+// One IPC listener per window, shared by all streams
+let streamListenerAttached = false
+
+function createRequestId(): string {
+  return `req-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`
+}
+
+function applyStreamEvent(stream: ClaudeStreamState, event: ClaudeStreamEvent): ClaudeStreamState {
+  switch (event.type) {
+    case 'text':
+      return { ...stream, text: stream.text + event.text, currentTool: null }
+    case 'tool_use':
+      return { ...stream, currentTool: event.toolName, toolCalls: stream.toolCalls + 1 }
+    case 'tool_result':
+      return {
+        ...stream,
+        currentTool: null,
+        toolErrors: stream.toolErrors + (event.isError ? 1 : 0),
+      }
+  }
+}
+
 interface ClaudeCliState {
   // Status
   isProcessing: boolean
   queueLength: number
   activeRequests: number
+  lanes: Record<ClaudeQueueLane, ClaudeQueueLaneStatus>
   lastError: string | null
   lastDurationMs: number | null
 
@@ -84,19 +136,27 @@ interface ClaudeCliState {
   lastProposedJourneys: ProposedJourneysResult | null
   lastParsedJourneyIdea: ParsedJourneyIdea | null
 
+  // Streaming requests, keyed by request id
+  streams: Record<string, ClaudeStreamState>
+
   // Actions
-  analyzeJourney: (description: string, projectContext?: string) => Promise<JourneyAnalysis | null>
+  // Cached actions - pass fresh to bypass the response cache
+  analyzeJourney: (description: string, projectContext?: string, fresh?: boolean) => Promise<JourneyAnalysis | null>
   createPlan: (featureDescription: string, techStack: string, existingStructure?: string) => Promise<ImplementationPlan | null>
-  summarizeJourney: (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string) => Promise<JourneySummary | null>
+  summarizeJourney: (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string, fresh?: boolean) => Promise<JourneySummary | null>
   queryRaw: (prompt: string) => Promise<string | null>
   queryJson: <T>(prompt: string, jsonSchema: string) => Promise<T | null>
   // Project intake actions
-  refineProjectIntake: (rawIntake: string, projectName: string) => Promise<ProjectIntakeRefinement | null>
-  analyzeProjectIntakeChanges: (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string) => Promise<ProjectIntakeUpdate | null>
+  refineProjectIntake: (rawIntake: string, projectName: string, projectId?: string) => Promise<ProjectIntakeRefinement | null>
+  analyzeProjectIntakeChanges: (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string, projectId?: string) => Promise<ProjectIntakeUpdate | null>
   // Proposed journeys actions
-  generateProposedJourneys: (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string) => Promise<ProposedJourneysResult | null>
+  generateProposedJourneys: (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string, projectId?: string) => Promise<ProposedJourneysResult | null>
   // Journey idea parsing actions
-  parseJourneyIdea: (rawText: string, projectName: string) => Promise<ParsedJourneyIdea | null>
+  parseJourneyIdea: (rawText: string, projectName: string, projectId?: string) => Promise<ParsedJourneyIdea | null>
+  // Streaming actions - startStream returns the request id to pass with { stream: true }
+  startStream: () => string
+  endStream: (requestId: string) => void
+  cancelRequest: (requestId: string) => Promise<boolean>
   refreshStatus: () => Promise<void>
   clearQueue: () => Promise<number>
   clearError: () => void
@@ -107,6 +167,12 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
   isProcessing: false,
   queueLength: 0,
   activeRequests: 0,
+  lanes: {
+    interactive: { queued: 0, active: 0 },
+    background: { queued: 0, active: 0 },
+    batch: { queued: 0, active: 0 },
+    autopilot: { queued: 0, active: 0 },
+  },
   lastError: null,
   lastDurationMs: null,
   lastAnalysis: null,
@@ -116,12 +182,13 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
   lastProjectIntakeUpdate: null,
   lastProposedJourneys: null,
   lastParsedJourneyIdea: null,
+  streams: {},
 
   // Analyze a journey idea
-  analyzeJourney: async (description: string, projectContext?: string) => {
+  analyzeJourney: async (description: string, projectContext?: string, fresh?: boolean) => {
     set({ isProcessing: true, lastError: null })
     try {
-      const response = await window.electronAPI.claude.analyzeJourney(description, projectContext)
+      const response = await window.electronAPI.claude.analyzeJourney(description, projectContext, { fresh })
       set({
         isProcessing: false,
         lastDurationMs: response.durationMs,
@@ -156,10 +223,10 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
   },
 
   // Summarize journey progress
-  summarizeJourney: async (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string) => {
+  summarizeJourney: async (journeyName: string, gitDiff: string, commitHistory: string, originalPlan?: string, fresh?: boolean) => {
     set({ isProcessing: true, lastError: null })
     try {
-      const response = await window.electronAPI.claude.summarizeJourney(journeyName, gitDiff, commitHistory, originalPlan)
+      const response = await window.electronAPI.claude.summarizeJourney(journeyName, gitDiff, commitHistory, originalPlan, { fresh })
       set({
         isProcessing: false,
         lastDurationMs: response.durationMs,
@@ -211,10 +278,10 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
   },
 
   // Refine project intake into structured document
-  refineProjectIntake: async (rawIntake: string, projectName: string) => {
+  refineProjectIntake: async (rawIntake: string, projectName: string, projectId?: string) => {
     set({ isProcessing: true, lastError: null })
     try {
-      const response = await window.electronAPI.claude.refineProjectIntake(rawIntake, projectName)
+      const response = await window.electronAPI.claude.refineProjectIntake(rawIntake, projectName, { projectId })
       set({
         isProcessing: false,
         lastDurationMs: response.durationMs,
@@ -230,10 +297,10 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
   },
 
   // Analyze changes to project intake and suggest AI doc updates
-  analyzeProjectIntakeChanges: async (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string) => {
+  analyzeProjectIntakeChanges: async (previousRaw: string, newRaw: string, existingAiDoc: string, projectName: string, projectId?: string) => {
     set({ isProcessing: true, lastError: null })
     try {
-      const response = await window.electronAPI.claude.analyzeProjectIntakeChanges(previousRaw, newRaw, existingAiDoc, projectName)
+      const response = await window.electronAPI.claude.analyzeProjectIntakeChanges(previousRaw, newRaw, existingAiDoc, projectName, { projectId })
       set({
         isProcessing: false,
         lastDurationMs: response.durationMs,
@@ -249,10 +316,10 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
   },
 
   // Generate proposed journeys from project intake
-  generateProposedJourneys: async (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string) => {
+  generateProposedJourneys: async (aiParsedIntake: string, projectName: string, existingProposals?: { name: string; description: string; status: string }[], codebasePath?: string, projectId?: string) => {
     set({ isProcessing: true, lastError: null })
     try {
-      const response = await window.electronAPI.claude.generateProposedJourneys(aiParsedIntake, projectName, existingProposals, codebasePath)
+      const response = await window.electronAPI.claude.generateProposedJourneys(aiParsedIntake, projectName, existingProposals, codebasePath, { projectId })
       set({
         isProcessing: false,
         lastDurationMs: response.durationMs,
@@ -268,10 +335,10 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
   },
 
   // Parse raw journey idea into structured format
-  parseJourneyIdea: async (rawText: string, projectName: string) => {
+  parseJourneyIdea: async (rawText: string, projectName: string, projectId?: string) => {
     set({ isProcessing: true, lastError: null })
     try {
-      const response = await window.electronAPI.claude.parseJourneyIdea(rawText, projectName)
+      const response = await window.electronAPI.claude.parseJourneyIdea(rawText, projectName, { projectId })
       set({
         isProcessing: false,
         lastDurationMs: response.durationMs,
@@ -286,6 +353,39 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
     }
   },
 
+  // Register a new streaming request and make sure this window is listening
+  startStream: () => {
+    if (!streamListenerAttached) {
+      streamListenerAttached = true
+      window.electronAPI.claude.onStream((event) => {
+        const current = get().streams[event.requestId]
+        if (!current) return
+        set({ streams: { ...get().streams, [event.requestId]: applyStreamEvent(current, event) } })
+      })
+    }
+
+    const requestId = createRequestId()
+    set({ streams: { ...get().streams, [requestId]: EMPTY_STREAM } })
+    return requestId
+  },
+
+  // Drop a finished stream's accumulated state
+  endStream: (requestId: string) => {
+    const { [requestId]: _ended, ...rest } = get().streams
+    set({ streams: rest })
+  },
+
+  // Stop a queued or running request (its pending call resolves with { cancelled: true })
+  cancelRequest: async (requestId: string) => {
+    try {
+      const cancelled = await window.electronAPI.claude.cancel(requestId)
+      await get().refreshStatus()
+      return cancelled
+    } catch {
+      return false
+    }
+  },
+
   // Refresh service status
   refreshStatus: async () => {
     try {
@@ -293,6 +393,7 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
       set({
         queueLength: status.queueLength,
         activeRequests: status.activeRequests,
+        lanes: status.lanes,
       })
     } catch {
       // Ignore status fetch errors
@@ -317,4 +418,4 @@ export const useClaudeCliStore = create<ClaudeCliState>((set, get) => ({
 }))
 
 // Export types for consumers
-export type { JourneyAnalysis, ImplementationPlan, JourneySummary, ClaudeCliResponse, ProjectIntakeRefinement, ProjectIntakeUpdate, ProposedJourneysResult, ParsedJourneyIdea }
+export type { ClaudeQueueLane, ClaudeQueueLaneStatus, JourneyAnalysis, ImplementationPlan, JourneySummary, ClaudeCliResponse, ClaudeStreamEvent, ClaudeStreamState, ProjectIntakeRefinement, ProjectIntakeUpdate, ProposedJourneysResult, ParsedJourneyIdea }
@@ -0,0 +1,115 @@
+import { useEffect, useMemo } from 'react'
+import { create } from 'zustand'
+import type { Journey, Project } from '../types'
+import type { ConflictEvent, ConflictJourney, ConflictReport, JourneyPairOverlap } from '../types/conflicts'
+
+// Journeys past these stages have nothing left to merge
+const FINISHED_STAGES = ['deployed', 'complete']
+
+export interface JourneyConflictWarning {
+  otherJourneyId: string
+  otherJourneyName: string
+  pair: JourneyPairOverlap
+}
+
+/**
+ * Journeys with a branch that is still being worked on
+ */
+export function toConflictJourneys(journeys: Journey[]): ConflictJourney[] {
+  return journeys
+    .filter((journey) => journey.branch_name && journey.type !== 'feature_planning' && !FINISHED_STAGES.includes(journey.stage))
+    .map((journey) => ({
+      id: journey.id,
+      name: journey.name,
+      branchName: journey.branch_name as string,
+      worktreePath: journey.worktree_path,
+      canParallelize: journey.can_parallelize,
+    }))
+}
+
+interface ConflictState {
+  // Latest report per project root path
+  reports: Record<string, ConflictReport>
+
+  // Actions
+  watch: (projectPath: string, journeys: ConflictJourney[]) => Promise<void>
+  unwatch: (projectPath: string) => Promise<void>
+  check: (projectPath: string) => Promise<void>
+  handleEvent: (event: ConflictEvent) => void
+}
+
+export const useConflictStore = create<ConflictState>((set) => ({
+  reports: {},
+
+  watch: async (projectPath: string, journeys: ConflictJourney[]) => {
+    const report = await window.electronAPI.conflicts.watch(projectPath, journeys)
+    if (report) {
+      set((state) => ({ reports: { ...state.reports, [projectPath]: report } }))
+    }
+  },
+
+  unwatch: async (projectPath: string) => {
+    await window.electronAPI.conflicts.unwatch(projectPath)
+  },
+
+  check: async (projectPath: string) => {
+    await window.electronAPI.conflicts.check(projectPath)
+  },
+
+  handleEvent: (event: ConflictEvent) => {
+    set((state) => ({ reports: { ...state.reports, [event.report.projectPath]: event.report } }))
+  },
+}))
+
+/**
+ * Overlaps with other journeys, worst first
+ */
+export function getJourneyConflictWarnings(reports: Record<string, ConflictReport>, journeyId: string): JourneyConflictWarning[] {
+  const warnings: JourneyConflictWarning[] = []
+  for (const report of Object.values(reports)) {
+    for (const pair of report.pairs) {
+      const index = pair.journeyIds.indexOf(journeyId)
+      if (index === -1) continue
+      const otherJourneyId = pair.journeyIds[1 - index]
+      warnings.push({
+        otherJourneyId,
+        otherJourneyName: report.journeys.find((changes) => changes.journeyId === otherJourneyId)?.journeyName ?? 'another journey',
+        pair,
+      })
+    }
+  }
+  return warnings.sort((a, b) => b.pair.conflictingFiles.length - a.pair.conflictingFiles.length)
+}
+
+/**
+ * Keep the project's conflict report up to date while the calling component is mounted
+ */
+export function useConflictWatch(project: Project | null, journeys: Journey[]) {
+  const watch = useConflictStore((state) => state.watch)
+  const unwatch = useConflictStore((state) => state.unwatch)
+  // The main process only re-checks when the branch list actually changed
+  const conflictJourneys = useMemo(() => toConflictJourneys(journeys), [journeys])
+
+  useEffect(() => {
+    if (!project || !window.electronAPI?.conflicts) return
+    watch(project.root_path, conflictJourneys)
+  }, [project?.root_path, conflictJourneys, watch])
+
+  useEffect(() => {
+    if (!project || !window.electronAPI?.conflicts) return
+    const projectPath = project.root_path
+    return () => {
+      unwatch(projectPath)
+    }
+  }, [project?.root_path, unwatch])
+}
+
+/**
+ * Route conflict reports into the store
+ * Call once per window - returns an unsubscribe function
+ */
+export function subscribeToConflictEvents(): () => void {
+  return window.electronAPI.conflicts.onEvent((event) => {
+    useConflictStore.getState().handleEvent(event)
+  })
+}
@@ -1,5 +1,14 @@
 import { create } from 'zustand'
-import type { ClaudeProject, ClaudeSession, ClaudeMessage } from '../types/history'
+import type {
+  ClaudeProject,
+  ClaudeSession,
+  ClaudeMessage,
+  HistoryIndexStatus,
+  HistorySearchHit,
+  HistorySearchQuery,
+  HistorySearchResult,
+  SessionUsage,
+} from '../types/history'
 
 interface HistoryState {
   // Data
@@ -15,6 +24,17 @@ interface HistoryState {
   isLoadingMessages: boolean
   error: string | null
 
+  // Search across all sessions
+  searchResult: HistorySearchResult | null
+  searchStatus: HistoryIndexStatus | null
+  isSearching: boolean
+  // Message to scroll to once the session opens, and the words to highlight in it
+  focusedMessage: { index: number; terms: string[] } | null
+
+  // Token usage and tool activity per session
+  usage: SessionUsage[] | null
+  isLoadingUsage: boolean
+
   // Actions
   loadProjects: () => Promise<void>
   loadSessions: (projectId: string | null) => Promise<void>
@@ -23,6 +43,11 @@ interface HistoryState {
   selectSession: (session: ClaudeSession | null) => void
   openTerminal: (cwd: string, launchClaude?: boolean, sessionId?: string) => Promise<string | null>
   openSessionInFinder: (filePath: string) => Promise<void>
+  search: (query: HistorySearchQuery) => Promise<void>
+  loadSearchStatus: () => Promise<void>
+  rebuildSearchIndex: () => Promise<void>
+  openSearchHit: (hit: HistorySearchHit) => void
+  loadUsage: () => Promise<void>
 }
 
 export const useHistoryStore = create<HistoryState>((set, get) => ({
@@ -36,6 +61,12 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
   isLoadingSessions: false,
   isLoadingMessages: false,
   error: null,
+  searchResult: null,
+  searchStatus: null,
+  isSearching: false,
+  focusedMessage: null,
+  usage: null,
+  isLoadingUsage: false,
 
   // Load all projects
   loadProjects: async () => {
@@ -97,6 +128,7 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
 
   // Select a session (triggers message load)
   selectSession: (session: ClaudeSession | null) => {
+    set({ focusedMessage: null })
     if (session) {
       get().loadMessages(session)
     } else {
@@ -127,4 +159,63 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
       set({ error: (err as Error).message })
     }
   },
+
+  // Search every session - the index picks up new sessions first
+  search: async (query: HistorySearchQuery) => {
+    set({ isSearching: true, error: null })
+    try {
+      const searchResult = await window.electronAPI.history.search(query)
+      set({ searchResult, isSearching: false })
+      get().loadSearchStatus()
+    } catch (err) {
+      set({ error: (err as Error).message, isSearching: false })
+    }
+  },
+
+  loadSearchStatus: async () => {
+    try {
+      const searchStatus = await window.electronAPI.history.getSearchStatus()
+      set({ searchStatus })
+    } catch (err) {
+      set({ error: (err as Error).message })
+    }
+  },
+
+  rebuildSearchIndex: async () => {
+    set({ isSearching: true, error: null, searchResult: null })
+    try {
+      const searchStatus = await window.electronAPI.history.rebuildSearchIndex()
+      set({ searchStatus, isSearching: false })
+    } catch (err) {
+      set({ error: (err as Error).message, isSearching: false })
+    }
+  },
+
+  // Open the hit's session scrolled to the matching message
+  openSearchHit: (hit: HistorySearchHit) => {
+    const session = get().sessions.find((s) => s.filePath === hit.filePath) ?? {
+      id: hit.sessionId,
+      projectId: hit.projectId,
+      filePath: hit.filePath,
+      messageCount: 0,
+      timestamp: new Date(hit.timestamp),
+      startedAt: new Date(hit.timestamp),
+      gitBranch: hit.gitBranch,
+      cwd: '',
+      firstMessage: '',
+    }
+    set({ focusedMessage: { index: hit.messageIndex, terms: hit.terms } })
+    get().loadMessages(session)
+  },
+
+  // Sessions that haven't changed since the last load come from the main process cache
+  loadUsage: async () => {
+    set({ isLoadingUsage: true, error: null })
+    try {
+      const usage = await window.electronAPI.history.getUsage()
+      set({ usage, isLoadingUsage: false })
+    } catch (err) {
+      set({ error: (err as Error).message, isLoadingUsage: false })
+    }
+  },
 }))
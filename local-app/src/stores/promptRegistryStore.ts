@@ -0,0 +1,120 @@
+import { create } from 'zustand'
+import type {
+  PromptCompareResult,
+  PromptTemplateName,
+  PromptTemplateSummary,
+  PromptTemplateVersion,
+} from '../types/prompts'
+
+interface PromptRegistryState {
+  // Data
+  templates: PromptTemplateSummary[]
+  versions: PromptTemplateVersion[]
+  compareResults: PromptCompareResult[] | null
+
+  // UI State
+  selectedName: PromptTemplateName | null
+  scopeProjectId: string | null  // null = global versions
+  isLoading: boolean
+  isSaving: boolean
+  isComparing: boolean
+  error: string | null
+
+  // Actions
+  load: () => Promise<void>
+  selectTemplate: (name: PromptTemplateName) => Promise<void>
+  setScope: (projectId: string | null) => Promise<void>
+  saveVersion: (body: string, note?: string) => Promise<PromptTemplateVersion | null>
+  compare: (
+    versionIds: [string | null, string | null],
+    inputs: Record<string, string>,
+    context: { journeyId?: string; projectId?: string; workingDirectory?: string }
+  ) => Promise<void>
+  clearCompare: () => void
+}
+
+export const usePromptRegistryStore = create<PromptRegistryState>((set, get) => ({
+  // Initial state
+  templates: [],
+  versions: [],
+  compareResults: null,
+  selectedName: null,
+  scopeProjectId: null,
+  isLoading: false,
+  isSaving: false,
+  isComparing: false,
+  error: null,
+
+  // Load templates (with the version in effect for the scope) and the selected template's history
+  load: async () => {
+    const { scopeProjectId, selectedName } = get()
+    set({ isLoading: true, error: null })
+    try {
+      const templates = await window.electronAPI.prompts.list(scopeProjectId ?? undefined)
+      const name = selectedName ?? templates[0]?.name ?? null
+      const versions = name ? await window.electronAPI.prompts.getVersions(name, scopeProjectId) : []
+      set({ templates, versions, selectedName: name, isLoading: false })
+    } catch (err) {
+      set({ error: (err as Error).message, isLoading: false })
+    }
+  },
+
+  selectTemplate: async (name: PromptTemplateName) => {
+    set({ selectedName: name, compareResults: null })
+    await get().load()
+  },
+
+  setScope: async (projectId: string | null) => {
+    set({ scopeProjectId: projectId, compareResults: null })
+    await get().load()
+  },
+
+  // Save a new version in the current scope - it takes effect immediately
+  saveVersion: async (body: string, note?: string) => {
+    const { selectedName, scopeProjectId } = get()
+    if (!selectedName) return null
+
+    set({ isSaving: true, error: null })
+    try {
+      const result = await window.electronAPI.prompts.saveVersion({
+        name: selectedName,
+        projectId: scopeProjectId,
+        body,
+        note,
+      })
+      if (!result.success || !result.version) {
+        set({ error: result.error || 'Failed to save template', isSaving: false })
+        return null
+      }
+      set({ isSaving: false })
+      await get().load()
+      return result.version
+    } catch (err) {
+      set({ error: (err as Error).message, isSaving: false })
+      return null
+    }
+  },
+
+  // Run the same inputs through two versions of the selected template
+  compare: async (versionIds, inputs, context) => {
+    const { selectedName } = get()
+    if (!selectedName) return
+
+    set({ isComparing: true, compareResults: null, error: null })
+    try {
+      const compareResults = await window.electronAPI.prompts.compare({
+        name: selectedName,
+        versionIds,
+        inputs,
+        ...context,
+      })
+      set({ compareResults, isComparing: false })
+    } catch (err) {
+      set({ error: (err as Error).message, isComparing: false })
+    }
+  },
+
+  clearCompare: () => {
+    set({ compareResults: null })
+  },
+}))
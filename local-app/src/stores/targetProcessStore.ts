@@ -0,0 +1,157 @@
+import { create } from 'zustand'
+import type { Journey, Project, ProjectTarget } from '../types'
+import type { TargetLogLine, TargetProcessEvent, TargetProcessInfo } from '../types/targets'
+import { ensurePortOffset } from '../lib/worktreeBootstrap'
+
+// Lines kept per target, matching the main process
+const MAX_LOG_LINES = 1000
+
+function processKey(journeyId: string, targetId: string): string {
+  return `${journeyId}:${targetId}`
+}
+
+/**
+ * Directory a target runs in inside the journey's worktree
+ * Target paths may be relative to the project or absolute inside the main checkout
+ */
+function targetDirectory(project: Project, target: ProjectTarget, worktreePath: string): string {
+  const targetPath = target.path?.trim()
+  if (!targetPath) return worktreePath
+  if (targetPath.startsWith(project.root_path)) {
+    return worktreePath + targetPath.slice(project.root_path.length)
+  }
+  if (targetPath.startsWith('/')) return targetPath
+  return `${worktreePath}/${targetPath.replace(/^\.\//, '')}`
+}
+
+interface TargetProcessState {
+  // Processes per journey, keyed by target id
+  processes: Record<string, Record<string, TargetProcessInfo>>
+  // Rolling logs keyed by journeyId:targetId
+  logs: Record<string, TargetLogLine[]>
+  errors: Record<string, string | null>
+
+  // Actions
+  load: (journeyId: string) => Promise<void>
+  loadLogs: (journeyId: string, targetId: string) => Promise<void>
+  start: (project: Project, journey: Journey, target: ProjectTarget) => Promise<boolean>
+  stop: (journeyId: string, targetId: string) => Promise<void>
+  restart: (journeyId: string, targetId: string) => Promise<void>
+  openInBrowser: (journeyId: string, targetId: string) => Promise<void>
+  handleEvent: (event: TargetProcessEvent) => void
+}
+
+export const useTargetProcessStore = create<TargetProcessState>((set, get) => ({
+  processes: {},
+  logs: {},
+  errors: {},
+
+  // Pick up processes started from another window (or before a reload)
+  load: async (journeyId: string) => {
+    const processes = await window.electronAPI.targets.list(journeyId)
+    set((state) => ({
+      processes: {
+        ...state.processes,
+        [journeyId]: Object.fromEntries(processes.map((info) => [info.targetId, info])),
+      },
+    }))
+  },
+
+  loadLogs: async (journeyId: string, targetId: string) => {
+    const lines = await window.electronAPI.targets.getLogs(journeyId, targetId)
+    set((state) => ({ logs: { ...state.logs, [processKey(journeyId, targetId)]: lines } }))
+  },
+
+  start: async (project: Project, journey: Journey, target: ProjectTarget) => {
+    const key = processKey(journey.id, target.id)
+    set((state) => ({ errors: { ...state.errors, [key]: null } }))
+
+    try {
+      if (!journey.worktree_path) {
+        throw new Error('This journey has no worktree yet')
+      }
+      if (!target.start_command) {
+        throw new Error(`${target.name} has no start command`)
+      }
+
+      // Same offset the worktree bootstrap wrote into the env file
+      const port = target.default_port ? target.default_port + (await ensurePortOffset(journey)) : null
+      const envVar = project.bootstrap_recipe?.ports.find((p) => p.target_id === target.id)?.env_var.trim()
+
+      const result = await window.electronAPI.targets.start({
+        journeyId: journey.id,
+        targetId: target.id,
+        targetName: target.name,
+        command: target.start_command,
+        cwd: targetDirectory(project, target, journey.worktree_path),
+        port,
+        env: port && envVar ? { [envVar]: String(port) } : undefined,
+        healthCheck: target.health_check,
+        readinessTimeoutMs: target.readiness_timeout_seconds ? target.readiness_timeout_seconds * 1000 : undefined,
+      })
+      if (!result.success || !result.process) {
+        throw new Error(result.error || `Failed to start ${target.name}`)
+      }
+
+      const info = result.process
+      set((state) => ({
+        processes: {
+          ...state.processes,
+          [journey.id]: { ...state.processes[journey.id], [target.id]: info },
+        },
+      }))
+      return true
+    } catch (err) {
+      const message = err instanceof Error ? err.message : `Failed to start ${target.name}`
+      set((state) => ({ errors: { ...state.errors, [key]: message } }))
+      return false
+    }
+  },
+
+  stop: async (journeyId: string, targetId: string) => {
+    await window.electronAPI.targets.stop(journeyId, targetId)
+  },
+
+  restart: async (journeyId: string, targetId: string) => {
+    await window.electronAPI.targets.restart(journeyId, targetId)
+  },
+
+  // Waits for the target to be ready in the main process before opening it
+  openInBrowser: async (journeyId: string, targetId: string) => {
+    const key = processKey(journeyId, targetId)
+    set((state) => ({ errors: { ...state.errors, [key]: null } }))
+    const result = await window.electronAPI.targets.openInBrowser(journeyId, targetId)
+    if (!result.success) {
+      set((state) => ({ errors: { ...state.errors, [key]: result.error || 'Failed to open in browser' } }))
+    }
+  },
+
+  handleEvent: (event: TargetProcessEvent) => {
+    if (event.type === 'log') {
+      const key = processKey(event.journeyId, event.targetId)
+      const lines = [...(get().logs[key] ?? []), ...event.lines].slice(-MAX_LOG_LINES)
+      set((state) => ({ logs: { ...state.logs, [key]: lines } }))
+      return
+    }
+
+    const { journeyId, targetId } = event.process
+    set((state) => ({
+      processes: {
+        ...state.processes,
+        [journeyId]: { ...state.processes[journeyId], [targetId]: event.process },
+      },
+    }))
+  },
+}))
+
+/**
+ * Route target process events into the store
+ * Call once per window - returns an unsubscribe function
+ */
+export function subscribeToTargetProcessEvents(): () => void {
+  return window.electronAPI.targets.onEvent((event) => {
+    useTargetProcessStore.getState().handleEvent(event)
+  })
+}
+
+export type { TargetLogLine, TargetProcessInfo, TargetProcessStatus } from '../types/targets'
@@ -0,0 +1,100 @@
+import { create } from 'zustand'
+import type { Journey, Project } from '../types'
+import type { BootstrapPortAssignment, WorktreeBootstrapEvent, WorktreeBootstrapRun } from '../types/worktreeBootstrap'
+import {
+  ensurePortOffset,
+  isEmptyRecipe,
+  loadProjectTargets,
+  resolveBootstrapPorts,
+} from '../lib/worktreeBootstrap'
+
+// Only the tail of the output is kept, matching the main process
+const MAX_OUTPUT_CHARS = 20000
+
+interface WorktreeBootstrapState {
+  // Latest run per journey
+  runs: Record<string, WorktreeBootstrapRun>
+  errors: Record<string, string | null>
+
+  // Actions
+  load: (journeyId: string) => Promise<void>
+  bootstrap: (project: Project, journey: Journey, worktreePath: string) => Promise<boolean>
+  handleEvent: (event: WorktreeBootstrapEvent) => void
+}
+
+export const useWorktreeBootstrapStore = create<WorktreeBootstrapState>((set, get) => ({
+  runs: {},
+  errors: {},
+
+  load: async (journeyId: string) => {
+    const run = await window.electronAPI.worktreeBootstrap.getRun(journeyId)
+    if (run) {
+      set((state) => ({ runs: { ...state.runs, [journeyId]: run } }))
+    }
+  },
+
+  // Run the project's recipe in the journey's worktree - a no-op for projects without one
+  bootstrap: async (project: Project, journey: Journey, worktreePath: string) => {
+    const recipe = project.bootstrap_recipe
+    if (!recipe || isEmptyRecipe(recipe)) return true
+
+    set((state) => ({ errors: { ...state.errors, [journey.id]: null } }))
+
+    try {
+      let ports: BootstrapPortAssignment[] = []
+      if (recipe.ports.length > 0) {
+        const [offset, targets] = await Promise.all([
+          ensurePortOffset(journey),
+          loadProjectTargets(project.id),
+        ])
+        ports = resolveBootstrapPorts(recipe, targets, offset)
+      }
+
+      const result = await window.electronAPI.worktreeBootstrap.run({
+        journeyId: journey.id,
+        projectPath: project.root_path,
+        worktreePath,
+        recipe,
+        ports,
+      })
+      if (!result.success || !result.run) {
+        throw new Error(result.error || 'Failed to start worktree bootstrap')
+      }
+
+      const run = result.run
+      set((state) => ({ runs: { ...state.runs, [journey.id]: run } }))
+      return true
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to start worktree bootstrap'
+      set((state) => ({ errors: { ...state.errors, [journey.id]: message } }))
+      return false
+    }
+  },
+
+  handleEvent: (event: WorktreeBootstrapEvent) => {
+    const current = get().runs[event.journeyId]
+
+    if (event.type === 'finished') {
+      set((state) => ({ runs: { ...state.runs, [event.journeyId]: event.run } }))
+      return
+    }
+    if (!current) return
+
+    const run = event.type === 'output'
+      ? { ...current, output: (current.output + event.text).slice(-MAX_OUTPUT_CHARS) }
+      : { ...current, steps: current.steps.map((step, index) => (index === event.index ? event.step : step)) }
+    set((state) => ({ runs: { ...state.runs, [event.journeyId]: run } }))
+  },
+}))
+
+/**
+ * Route bootstrap events into the store
+ * Call once per window - returns an unsubscribe function
+ */
+export function subscribeToWorktreeBootstrapEvents(): () => void {
+  return window.electronAPI.worktreeBootstrap.onEvent((event) => {
+    useWorktreeBootstrapStore.getState().handleEvent(event)
+  })
+}
+
+export type { WorktreeBootstrapRun, WorktreeBootstrapStatus } from '../types/worktreeBootstrap'
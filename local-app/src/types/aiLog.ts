@@ -0,0 +1,45 @@
+// AI request log types (mirrors electron/services/claude-cli/request-log.ts)
+
+export type AiParseOutcome = 'text' | 'parsed' | 'invalid' | 'unparseable' | 'error' | 'cancelled'
+
+export interface AiRequestLogEntry {
+  id: string
+  requestId?: string
+  timestamp: string        // ISO string
+  provider: 'cli' | 'fixture' | 'record'
+  promptName?: string      // Prompt builder, e.g. 'generateSpec' (absent for ad-hoc prompts)
+  promptInputs?: Record<string, unknown>
+  promptVersion?: string   // Template version for templated prompts, e.g. 'project v3'
+  prompt: string           // Exact text sent, including the JSON schema wrapper
+  jsonSchema?: string
+  workingDirectory?: string
+  rawOutput?: string
+  success: boolean
+  error?: string
+  parseOutcome: AiParseOutcome
+  validationErrors?: string[]
+  durationMs: number
+  retryCount: number       // Repair prompts sent after the first attempt
+  cached?: boolean         // Served from the response cache
+  journeyId?: string
+  projectId?: string
+  replayOf?: string        // Log entry this call re-ran
+}
+
+export interface AiRequestLogFilter {
+  journeyId?: string
+  projectId?: string
+  promptName?: string
+  failuresOnly?: boolean
+  limit?: number
+}
+
+export interface AiPromptStats {
+  promptName: string | null
+  count: number
+  failures: number
+  cancelled: number
+  failureRate: number      // 0-1, excluding cancelled calls
+  medianDurationMs: number
+  lastRunAt: string
+}
@@ -0,0 +1,56 @@
+// Autopilot types (mirrors electron/services/autopilot/types.ts)
+import type { ChecklistItem } from '@dev-orchestrator/shared'
+
+export type AutopilotStatus = 'running' | 'review' | 'budget_exhausted' | 'stopped' | 'failed'
+
+export interface AutopilotBudget {
+  maxTurns: number
+  timeoutMs: number
+  allowedCommands: string[]
+}
+
+export interface AutopilotStartRequest {
+  journeyId: string
+  projectId?: string
+  journeyName: string
+  worktreePath: string
+  plan: string
+  checklist?: { id: string; legName: string; items: ChecklistItem[] }
+  budget?: Partial<AutopilotBudget>
+}
+
+export interface DiffFileSummary {
+  path: string
+  insertions: number
+  deletions: number
+  binary: boolean
+  untracked: boolean
+}
+
+export interface DiffSummary {
+  filesChanged: number
+  insertions: number
+  deletions: number
+  files: DiffFileSummary[]
+}
+
+export interface AutopilotRun {
+  journeyId: string
+  requestId: string
+  status: AutopilotStatus
+  worktreePath: string
+  budget: AutopilotBudget
+  startedAt: string         // ISO string
+  finishedAt?: string       // ISO string
+  checklistId?: string
+  completedItems: number[]  // Checklist item indexes reported done this run
+  transcript: string        // Tail of the transcript
+  summary?: string          // Claude's closing summary
+  error?: string
+  diff?: DiffSummary        // Uncommitted worktree changes when the run ended
+}
+
+export type AutopilotEvent =
+  | { journeyId: string; type: 'output'; text: string }
+  | { journeyId: string; type: 'checklistItemDone'; checklistId: string; itemIndex: number }
+  | { journeyId: string; type: 'finished'; run: AutopilotRun }
@@ -0,0 +1,39 @@
+// Conflict prediction types (mirrors electron/services/conflict-predictor/types.ts)
+
+export interface ConflictJourney {
+  id: string
+  name: string
+  branchName: string
+  worktreePath: string | null
+  canParallelize: boolean
+}
+
+export interface JourneyChanges {
+  journeyId: string
+  journeyName: string
+  branchName: string
+  changedFiles: string[]
+  uncommittedFiles: string[]
+  error?: string
+}
+
+export type TrialMergeResult = 'clean' | 'conflicts' | 'failed' | 'uncommitted'
+
+export interface JourneyPairOverlap {
+  journeyIds: [string, string]
+  overlappingFiles: string[]
+  conflictingFiles: string[]
+  trialMerge: TrialMergeResult
+  plannedParallel: boolean
+  error?: string
+}
+
+export interface ConflictReport {
+  projectPath: string
+  baseBranch: string
+  computedAt: string
+  journeys: JourneyChanges[]
+  pairs: JourneyPairOverlap[]
+}
+
+export type ConflictEvent = { type: 'report'; report: ConflictReport }
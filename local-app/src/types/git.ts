@@ -0,0 +1,37 @@
+// Branch diff types (mirrors electron/services/git.service.ts)
+
+export type BranchFileStatus = 'added' | 'modified' | 'deleted' | 'untracked'
+
+export interface BranchDiffFile {
+  path: string
+  status: BranchFileStatus
+  insertions: number
+  deletions: number
+  binary: boolean
+}
+
+export interface BranchCommit {
+  hash: string
+  shortHash: string
+  subject: string
+  author: string
+  date: string
+}
+
+export interface BranchDiff {
+  baseBranch: string
+  mergeBase: string         // The diff is taken against this commit
+  branch: string
+  filesChanged: number
+  insertions: number
+  deletions: number
+  files: BranchDiffFile[]
+  commits: BranchCommit[]   // Newest first
+}
+
+export interface FileDiff {
+  path: string
+  patch: string             // Unified diff, empty for binary files
+  binary: boolean
+  truncated: boolean
+}
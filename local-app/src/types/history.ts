@@ -13,8 +13,10 @@ export interface ClaudeSession {
   projectId: string
   filePath: string     // Full path to .jsonl file
   messageCount: number
-  timestamp: Date
+  timestamp: Date      // Last activity
+  startedAt: Date      // First message
   gitBranch: string
+  cwd: string          // Working directory the session ran in, '' if never recorded
   firstMessage: string // Preview of first user message
 }
 
@@ -59,3 +61,81 @@ export interface RawClaudeEntry {
   usage?: TokenUsage
   uuid?: string
 }
+
+// Search across every session (see electron/services/history-search)
+export type HistoryMessageRole = 'user' | 'assistant' | 'tool_result'
+
+export interface HistorySearchQuery {
+  text?: string        // Every word must match, whole or as a prefix
+  projectId?: string
+  gitBranch?: string
+  from?: string        // ISO timestamps, inclusive
+  to?: string
+  tool?: string
+  role?: HistoryMessageRole
+  limit?: number
+}
+
+export interface HistorySearchHit {
+  sessionId: string
+  projectId: string
+  filePath: string
+  messageIndex: number // Position in history.getMessages() for the session
+  uuid?: string
+  role: HistoryMessageRole
+  timestamp: string
+  gitBranch: string
+  snippet: string
+  highlights: Array<[number, number]> // [start, end) within snippet
+  toolNames: string[]
+  filePaths: string[]
+  terms: string[]
+  score: number
+}
+
+export interface HistorySearchResult {
+  hits: HistorySearchHit[]
+  total: number
+}
+
+export interface HistoryIndexStatus {
+  sessions: number
+  messages: number
+  lastIndexedAt: string | null
+  indexing: boolean
+}
+
+// Token usage and tool activity per session (see electron/services/history-analytics)
+export interface TokenTotals {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+}
+
+export interface ToolCallStats {
+  calls: number
+  errors: number       // Results that came back with is_error
+}
+
+export interface DayUsage extends TokenTotals {
+  toolCalls: number
+  toolErrors: number
+  activeMs: number
+}
+
+export interface SessionUsage {
+  sessionId: string
+  projectId: string
+  filePath: string
+  gitBranch: string
+  startedAt: string    // ISO, first message
+  endedAt: string      // ISO, last message
+  durationMs: number
+  activeMs: number     // Excludes idle gaps between messages
+  messageCount: number
+  tokens: TokenTotals
+  byModel: Record<string, TokenTotals>
+  tools: Record<string, ToolCallStats>
+  byDay: Record<string, DayUsage> // Keyed by local day, YYYY-MM-DD
+}
@@ -8,6 +8,7 @@ export type {
   ChecklistItemType,
   JourneyRelationship,
   SessionStatus,
+  ClaudeSessionMatchReason,
   ProcessStatus,
 
   // Main entity types
@@ -20,10 +21,20 @@ export type {
   JourneyChecklist,
   JourneyLink,
   JourneyTarget,
+  JourneyStageTransition,
   JourneySession,
+  JourneyClaudeSession,
   SessionProcess,
   SessionAiTool,
   ChecklistItem,
+  JourneyAiSession,
+  JourneyAiSessions,
+  BootstrapFile,
+  BootstrapFileMode,
+  BootstrapPort,
+  WorktreeBootstrapRecipe,
+  HealthCheckType,
+  TargetHealthCheck,
 
   // Insert types
   ProjectInsert,
@@ -35,7 +46,9 @@ export type {
   JourneyChecklistInsert,
   JourneyLinkInsert,
   JourneyTargetInsert,
+  JourneyStageTransitionInsert,
   JourneySessionInsert,
+  JourneyClaudeSessionInsert,
   SessionProcessInsert,
   SessionAiToolInsert,
 
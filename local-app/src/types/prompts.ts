@@ -0,0 +1,42 @@
+// Prompt template registry types (mirrors electron/services/prompt-registry/types.ts)
+import type { ClaudeCliResponse } from '../stores/claudeCliStore'
+
+export type PromptTemplateName = 'refineIntake' | 'generateSpec' | 'generatePlan' | 'refineProjectIntake' | 'journeyKickoff'
+
+export interface PromptTemplateVersion {
+  id: string
+  name: PromptTemplateName
+  projectId: string | null  // null = global version
+  version: number
+  body: string
+  note?: string
+  createdAt: string         // ISO string
+}
+
+export type PromptTemplateSource = 'project' | 'global' | 'default'
+
+export interface ResolvedPromptTemplate {
+  name: PromptTemplateName
+  body: string
+  source: PromptTemplateSource
+  version: number           // 0 for the built-in template
+  versionId: string | null
+}
+
+export interface PromptTemplateSummary {
+  name: PromptTemplateName
+  label: string
+  description: string
+  variables: { name: string; description: string }[]
+  defaultBody: string
+  jsonSchema?: string
+  runnable: boolean         // false for prompts handed to VS Code instead of run here
+  active: ResolvedPromptTemplate
+}
+
+export interface PromptCompareResult {
+  versionId: string | null  // null = built-in template
+  label: string
+  prompt: string
+  response?: ClaudeCliResponse
+}
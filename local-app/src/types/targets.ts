@@ -0,0 +1,48 @@
+// Target process types (mirrors electron/services/process-supervisor/types.ts)
+import type { TargetHealthCheck } from '@dev-orchestrator/shared'
+
+export interface TargetStartRequest {
+  journeyId: string
+  targetId: string
+  targetName: string
+  command: string
+  cwd: string
+  port: number | null
+  env?: Record<string, string>
+  healthCheck?: TargetHealthCheck | null
+  readinessTimeoutMs?: number
+}
+
+export type TargetProcessStatus = 'starting' | 'running' | 'ready' | 'unhealthy' | 'restarting' | 'stopped' | 'crashed'
+
+export interface TargetProcessInfo {
+  journeyId: string
+  targetId: string
+  targetName: string
+  status: TargetProcessStatus
+  pid: number | null
+  port: number | null
+  command: string
+  cwd: string
+  instance: number         // Increments on every spawn
+  restarts: number         // Automatic restarts since the last manual start
+  startedAt?: string
+  exitCode?: number | null
+  nextRestartAt?: string   // While restarting
+  hasHealthCheck: boolean
+  readyAt?: string
+  healthError?: string     // Why the last health probe failed
+}
+
+export interface TargetLogLine {
+  stream: 'stdout' | 'stderr' | 'system'
+  text: string
+  at: string
+}
+
+export type TargetProcessEvent =
+  | { type: 'started'; process: TargetProcessInfo }
+  | { type: 'health'; process: TargetProcessInfo }
+  | { type: 'exited'; process: TargetProcessInfo; rowStatus: 'stopped' | 'crashed' }
+  | { type: 'status'; process: TargetProcessInfo }
+  | { type: 'log'; journeyId: string; targetId: string; lines: TargetLogLine[] }
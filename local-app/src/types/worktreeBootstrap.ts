@@ -0,0 +1,43 @@
+// Worktree bootstrap types (mirrors electron/services/worktree-bootstrap/types.ts)
+import type { WorktreeBootstrapRecipe } from '@dev-orchestrator/shared'
+
+export interface BootstrapPortAssignment {
+  envVar: string
+  port: number
+}
+
+export interface WorktreeBootstrapRequest {
+  journeyId: string
+  projectPath: string
+  worktreePath: string
+  recipe: WorktreeBootstrapRecipe
+  ports: BootstrapPortAssignment[]
+}
+
+export type BootstrapStepStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed'
+
+export interface BootstrapStep {
+  kind: 'file' | 'ports' | 'command'
+  label: string
+  status: BootstrapStepStatus
+  detail?: string          // Why the step was skipped or failed
+}
+
+export type WorktreeBootstrapStatus = 'running' | 'succeeded' | 'failed'
+
+export interface WorktreeBootstrapRun {
+  journeyId: string
+  status: WorktreeBootstrapStatus
+  worktreePath: string
+  steps: BootstrapStep[]
+  ports: BootstrapPortAssignment[]
+  output: string           // Tail of the command output
+  startedAt: string
+  finishedAt?: string
+  error?: string
+}
+
+export type WorktreeBootstrapEvent =
+  | { journeyId: string; type: 'output'; text: string }
+  | { journeyId: string; type: 'step'; index: number; step: BootstrapStep }
+  | { journeyId: string; type: 'finished'; run: WorktreeBootstrapRun }
@@ -0,0 +1,36 @@
+// Worktree janitor types (mirrors electron/services/worktree-janitor/types.ts)
+
+export interface JanitorJourney {
+  id: string
+  name: string
+  stage: string
+  worktreePath: string | null
+  branchName: string | null
+}
+
+export type WorktreeFlag = 'merged' | 'finished' | 'stale' | 'orphaned' | 'missing'
+
+export type WorktreeEntryKind = 'worktree' | 'directory' | 'branch' | 'journey'
+
+export interface WorktreeAuditEntry {
+  kind: WorktreeEntryKind
+  path: string | null
+  branch: string | null
+  journeyId: string | null
+  journeyName: string | null
+  flags: WorktreeFlag[]
+  lastActivityAt: string | null
+  uncommittedFiles: number | null
+}
+
+export interface WorktreeAudit {
+  baseBranch: string
+  entries: WorktreeAuditEntry[]
+}
+
+export interface WorktreeCleanupResult {
+  entry: WorktreeAuditEntry
+  actions: string[]
+  skipped?: string
+  error?: string
+}
@@ -0,0 +1,10 @@
+-- Migration: Add ai_sessions to journeys table
+-- Stores Claude CLI session ids so conversational refinement (spec feedback, plan chat)
+-- resumes the same session when the journey is reopened
+
+-- Add JSONB column keyed by conversation name
+ALTER TABLE journeys
+ADD COLUMN IF NOT EXISTS ai_sessions JSONB DEFAULT '{}'::jsonb;
+
+-- Add comment for documentation
+COMMENT ON COLUMN journeys.ai_sessions IS 'Claude CLI sessions to resume, keyed by conversation (e.g. spec-refinement, plan-chat). Each entry contains: session_id, updated_at';
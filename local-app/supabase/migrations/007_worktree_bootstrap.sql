@@ -0,0 +1,21 @@
+-- Migration: Worktree bootstrap recipes and per-journey port offsets
+-- A project's recipe runs in every new journey worktree so parallel journeys
+-- can be installed, configured and served side by side
+--
+-- bootstrap_recipe has:
+--   files: [{ path, mode: 'copy' | 'symlink' }]  (paths relative to root_path)
+--   commands: string[]                           (run in order in the worktree)
+--   ports: [{ target_id, env_var }]              (project_targets whose default_port is offset)
+--   env_file: string                             (worktree file the assigned ports are written to)
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS bootstrap_recipe JSONB;
+
+ALTER TABLE journeys
+ADD COLUMN IF NOT EXISTS port_offset INTEGER;
+
+-- Add comments for documentation
+COMMENT ON COLUMN projects.bootstrap_recipe IS
+  'Worktree bootstrap recipe: files to copy or symlink from root_path, setup commands, and target ports to offset per journey.';
+COMMENT ON COLUMN journeys.port_offset IS
+  'Added to each project target default_port in this journey''s worktree. NULL until the worktree is bootstrapped; 0 is the main checkout.';
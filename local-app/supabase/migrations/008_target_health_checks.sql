@@ -0,0 +1,27 @@
+-- Migration: Health probes and readiness for project targets
+-- A started target is 'starting' until its probe passes ('ready'), and
+-- 'unhealthy' if it misses the readiness timeout or stops answering later
+--
+-- health_check has:
+--   type: 'tcp' | 'http' | 'log'
+--   path: string     (http only - e.g. '/health', must return 2xx)
+--   pattern: string  (log only - regex matched against each output line)
+
+ALTER TABLE project_targets
+ADD COLUMN IF NOT EXISTS health_check JSONB;
+
+ALTER TABLE project_targets
+ADD COLUMN IF NOT EXISTS readiness_timeout_seconds INTEGER;
+
+ALTER TABLE session_processes
+DROP CONSTRAINT IF EXISTS session_processes_status_check;
+
+ALTER TABLE session_processes
+ADD CONSTRAINT session_processes_status_check
+CHECK (status IN ('starting', 'running', 'ready', 'unhealthy', 'stopped', 'crashed'));
+
+-- Add comments for documentation
+COMMENT ON COLUMN project_targets.health_check IS
+  'How to tell the target is usable: a TCP connect, an HTTP path returning 2xx, or a log line regex. NULL means running is good enough.';
+COMMENT ON COLUMN project_targets.readiness_timeout_seconds IS
+  'Seconds a started target has to pass its health check before it is marked unhealthy. NULL uses the default (60).';
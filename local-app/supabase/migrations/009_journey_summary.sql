@@ -0,0 +1,9 @@
+-- Migration: Add summary to journeys table
+-- Written by the stage transition hook when a journey reaches 'deployed':
+-- a short account of what shipped, drawn from the spec, plan, checklist and commits
+
+ALTER TABLE journeys
+ADD COLUMN IF NOT EXISTS summary TEXT;
+
+-- Add comment for documentation
+COMMENT ON COLUMN journeys.summary IS 'What the journey shipped, generated when it reaches the deployed stage. NULL until then.';
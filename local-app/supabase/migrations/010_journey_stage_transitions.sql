@@ -0,0 +1,45 @@
+-- Migration: Journey stage transition log
+-- One row per stage change, written by the apps whenever a journey moves stage
+-- (and when it is created, with from_stage NULL). Feeds cycle-time analytics.
+-- Rows are never edited - they go away only with their journey.
+
+CREATE TABLE IF NOT EXISTS journey_stage_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journey_id UUID NOT NULL REFERENCES journeys(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  journey_type TEXT NOT NULL,       -- type at the time of the change
+  from_stage TEXT,                  -- NULL for the stage a journey starts in
+  to_stage TEXT NOT NULL,
+  changed_by TEXT,                  -- 'desktop', 'web', ... NULL when unknown
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journey_stage_transitions_journey ON journey_stage_transitions(journey_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_journey_stage_transitions_project ON journey_stage_transitions(project_id, created_at);
+
+-- Append-only: reject edits
+CREATE OR REPLACE FUNCTION reject_stage_transition_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'journey_stage_transitions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS journey_stage_transitions_append_only ON journey_stage_transitions;
+CREATE TRIGGER journey_stage_transitions_append_only
+  BEFORE UPDATE ON journey_stage_transitions
+  FOR EACH ROW EXECUTE FUNCTION reject_stage_transition_update();
+
+-- Existing journeys start their history in their current stage. When they entered
+-- it isn't known - updated_at is the closest guess.
+INSERT INTO journey_stage_transitions (journey_id, project_id, journey_type, from_stage, to_stage, note, created_at)
+SELECT j.id, j.project_id, j.type, NULL, j.stage, 'Stage when history started', j.updated_at
+FROM journeys j
+WHERE NOT EXISTS (
+  SELECT 1 FROM journey_stage_transitions t WHERE t.journey_id = j.id
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE journey_stage_transitions IS 'Append-only log of journey stage changes: who moved which journey from which stage to which, when, and why.';
+COMMENT ON COLUMN journey_stage_transitions.changed_by IS 'The app that made the change (desktop or web). NULL for backfilled rows.';
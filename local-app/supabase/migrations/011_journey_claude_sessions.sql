@@ -0,0 +1,32 @@
+-- Migration: Claude Code sessions attributed to journeys
+-- The desktop app matches transcripts under ~/.claude/projects to journeys by worktree path,
+-- branch and overlap with journey_sessions, and records each match here. A Claude session
+-- belongs to at most one journey - a later, better match moves it.
+
+CREATE TABLE IF NOT EXISTS journey_claude_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journey_id UUID NOT NULL REFERENCES journeys(id) ON DELETE CASCADE,
+  journey_session_id UUID REFERENCES journey_sessions(id) ON DELETE SET NULL,  -- overlapping session, if any
+  claude_session_id TEXT NOT NULL UNIQUE,   -- transcript file name without .jsonl, what `claude --resume` takes
+  claude_project_id TEXT NOT NULL,          -- encoded folder under ~/.claude/projects
+  file_path TEXT NOT NULL,
+  cwd TEXT,                                 -- directory the session ran in, where it must be resumed
+  git_branch TEXT,
+  first_message TEXT,
+  match_reason TEXT NOT NULL CHECK (match_reason IN ('worktree', 'branch', 'time_window')),
+  started_at TIMESTAMPTZ NOT NULL,
+  last_active_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journey_claude_sessions_journey ON journey_claude_sessions(journey_id, last_active_at DESC);
+
+DROP TRIGGER IF EXISTS update_journey_claude_sessions_updated_at ON journey_claude_sessions;
+CREATE TRIGGER update_journey_claude_sessions_updated_at
+  BEFORE UPDATE ON journey_claude_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Add comments for documentation
+COMMENT ON TABLE journey_claude_sessions IS 'Claude Code history sessions attributed to the journey that produced them.';
+COMMENT ON COLUMN journey_claude_sessions.match_reason IS 'Strongest evidence for the match: worktree (ran in the journey worktree), branch (on the journey branch) or time_window (only overlapped a journey session).';
@@ -0,0 +1,12 @@
+-- Migration: Record which machine supervises each target process
+-- Desktops sharing a project each run their own processes, so a desktop starting up
+-- only closes the rows it left open itself
+
+ALTER TABLE session_processes
+ADD COLUMN IF NOT EXISTS host TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_session_processes_host_status ON session_processes(host, status);
+
+-- Add comments for documentation
+COMMENT ON COLUMN session_processes.host IS
+  'Hostname of the desktop app that started the process. NULL for rows written before it was recorded.';
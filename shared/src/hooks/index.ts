@@ -12,7 +12,9 @@ export { useJourneyIntakes } from './useJourneyIntakes';
 export { useJourneySpec } from './useJourneySpecs';
 export { useJourneyPlan } from './useJourneyPlans';
 export { useJourneyChecklists } from './useJourneyChecklists';
-export { useJourneyLinks } from './useJourneyLinks';
+export { useJourneyLinks, useProjectDependencyLinks } from './useJourneyLinks';
+export { useJourneyAiSession } from './useJourneyAiSession';
+export { useJourneyStageHistory, useProjectStageHistory } from './useStageTransitions';
 
 // Session hooks
-export { useJourneySessions, useSessionProcesses, useSessionAiTools } from './useJourneySessions';
+export { useJourneySessions, useSessionProcesses, useSessionAiTools, useJourneyClaudeSessions } from './useJourneySessions';
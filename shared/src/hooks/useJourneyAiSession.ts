@@ -0,0 +1,77 @@
+import { useEffect, useState, useCallback } from 'react';
+import { getSupabase } from '../lib/supabase';
+import type { JourneyAiSessions } from '../types';
+
+/**
+ * Claude CLI session for one of a journey's AI conversations (e.g. 'plan-chat')
+ * Stored on the journey so reopening it resumes the same conversation.
+ */
+export function useJourneyAiSession(journeyId: string, conversation: string) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSessions = useCallback(async (): Promise<JourneyAiSessions> => {
+    const { data, error } = await getSupabase()
+      .from('journeys')
+      .select('ai_sessions')
+      .eq('id', journeyId)
+      .single();
+
+    if (error) throw error;
+    return (data?.ai_sessions as JourneyAiSessions | null) || {};
+  }, [journeyId]);
+
+  // Read-modify-write so other conversations' sessions on the journey are kept
+  const writeSession = useCallback(async (nextSessionId: string | null): Promise<void> => {
+    const sessions = { ...(await fetchSessions()) };
+    if (nextSessionId) {
+      sessions[conversation] = { session_id: nextSessionId, updated_at: new Date().toISOString() };
+    } else {
+      delete sessions[conversation];
+    }
+
+    const { error } = await getSupabase()
+      .from('journeys')
+      .update({ ai_sessions: sessions })
+      .eq('id', journeyId);
+
+    if (error) throw error;
+    setSessionId(nextSessionId);
+  }, [journeyId, conversation, fetchSessions]);
+
+  const saveSession = useCallback(async (nextSessionId: string): Promise<void> => {
+    if (nextSessionId === sessionId) return;
+    await writeSession(nextSessionId);
+  }, [sessionId, writeSession]);
+
+  // Start the next turn in a new session
+  const clearSession = useCallback(async (): Promise<void> => {
+    await writeSession(null);
+  }, [writeSession]);
+
+  useEffect(() => {
+    if (!journeyId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchSessions()
+      .then((sessions) => {
+        if (!cancelled) setSessionId(sessions[conversation]?.session_id ?? null);
+      })
+      .catch((err) => console.error('Failed to load AI session:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [journeyId, conversation, fetchSessions]);
+
+  return {
+    sessionId,
+    loading,
+    saveSession,
+    clearSession,
+  };
+}
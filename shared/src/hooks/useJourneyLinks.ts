@@ -1,5 +1,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { getSupabase } from '../lib/supabase';
+import { fetchProjectDependencyLinks } from '../lib/dependencyGraph';
+import { validateJourneyLink } from '../lib/journeyLinks';
 import type { JourneyLink, JourneyLinkInsert, JourneyRelationship } from '../types';
 
 export function useJourneyLinks(journeyId: string) {
@@ -45,6 +47,9 @@ export function useJourneyLinks(journeyId: string) {
       relationship,
     };
 
+    // No self-links, repeats or dependency cycles
+    await validateJourneyLink(link);
+
     const { data, error: createError } = await getSupabase()
       .from('journey_links')
       .insert(link)
@@ -75,6 +80,23 @@ export function useJourneyLinks(journeyId: string) {
     ));
   }, [journeyId]);
 
+  const deleteIncomingLink = useCallback(async (
+    fromJourneyId: string,
+    relationship: JourneyRelationship
+  ): Promise<void> => {
+    const { error: deleteError } = await getSupabase()
+      .from('journey_links')
+      .delete()
+      .eq('from_journey_id', fromJourneyId)
+      .eq('to_journey_id', journeyId)
+      .eq('relationship', relationship);
+
+    if (deleteError) throw deleteError;
+    setIncomingLinks(prev => prev.filter(l =>
+      !(l.from_journey_id === fromJourneyId && l.relationship === relationship)
+    ));
+  }, [journeyId]);
+
   // Get links by relationship type
   const getLinksByRelationship = useCallback((relationship: JourneyRelationship) => {
     return {
@@ -116,6 +138,7 @@ export function useJourneyLinks(journeyId: string) {
     error,
     createLink,
     deleteLink,
+    deleteIncomingLink,
     getLinksByRelationship,
     getSpawnedFrom,
     getBlockers,
@@ -123,3 +146,39 @@ export function useJourneyLinks(journeyId: string) {
     refetch: fetchLinks,
   };
 }
+
+// Scheduling links between a project's journeys - edges for the dependency graph
+export function useProjectDependencyLinks(projectId?: string) {
+  const [links, setLinks] = useState<JourneyLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchLinks = useCallback(async () => {
+    if (!projectId) {
+      setLinks([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setLinks(await fetchProjectDependencyLinks(projectId));
+    } catch (err) {
+      setError(err as Error);
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  return {
+    links,
+    loading,
+    error,
+    refetch: fetchLinks,
+  };
+}
@@ -11,6 +11,8 @@ import type {
   SessionAiToolInsert,
   SessionAiToolUpdate,
   SessionStatus,
+  JourneyClaudeSession,
+  JourneyClaudeSessionInsert,
 } from '../types';
 
 export function useJourneySessions(journeyId: string) {
@@ -266,3 +268,54 @@ export function useSessionAiTools(sessionId: string) {
     refetch: fetchAiTools,
   };
 }
+
+// Hook for the Claude Code history sessions attributed to a journey
+export function useJourneyClaudeSessions(journeyId: string) {
+  const [claudeSessions, setClaudeSessions] = useState<JourneyClaudeSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchClaudeSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getSupabase()
+      .from('journey_claude_sessions')
+      .select('*')
+      .eq('journey_id', journeyId)
+      .order('last_active_at', { ascending: false });
+
+    if (fetchError) {
+      setError(fetchError);
+    } else {
+      setClaudeSessions(data || []);
+    }
+    setLoading(false);
+  }, [journeyId]);
+
+  // Record matches for any journeys - a Claude session already attributed elsewhere moves
+  const saveMatches = useCallback(async (matches: JourneyClaudeSessionInsert[]): Promise<void> => {
+    if (matches.length > 0) {
+      const { error: upsertError } = await getSupabase()
+        .from('journey_claude_sessions')
+        .upsert(matches, { onConflict: 'claude_session_id' });
+
+      if (upsertError) throw upsertError;
+    }
+    await fetchClaudeSessions();
+  }, [fetchClaudeSessions]);
+
+  useEffect(() => {
+    if (journeyId) {
+      fetchClaudeSessions();
+    }
+  }, [journeyId, fetchClaudeSessions]);
+
+  return {
+    claudeSessions,
+    loading,
+    error,
+    saveMatches,
+    refetch: fetchClaudeSessions,
+  };
+}
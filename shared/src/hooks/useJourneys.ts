@@ -1,5 +1,7 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { getSupabase } from '../lib/supabase';
+import { recordStageTransition, transitionJourneyStage } from '../lib/stageTransitions';
+import type { StageTransitionOptions, StageTransitionResult } from '../lib/stageTransitions';
 import type { Journey, JourneyInsert, JourneyUpdate, JourneyStage, JourneyType } from '../types';
 import { getInitialStage } from '../types';
 
@@ -56,6 +58,11 @@ export function useJourneys(projectId?: string) {
     if (createError) throw createError;
     if (!data) throw new Error('No data returned from insert');
 
+    // Starts the journey's stage history - a failure here shouldn't undo the create
+    recordStageTransition(data, null, data.stage).catch(err => {
+      console.error('Failed to record initial stage:', err);
+    });
+
     setJourneys(prev => [data, ...prev]);
     return data;
   }, []);
@@ -85,18 +92,31 @@ export function useJourneys(projectId?: string) {
     setJourneys(prev => prev.filter(j => j.id !== id));
   }, []);
 
-  // Update journey stage
-  const updateStage = useCallback(async (id: string, stage: JourneyStage): Promise<Journey> => {
-    return updateJourney(id, { stage });
-  }, [updateJourney]);
+  // Move a journey to a stage through the transition rules - throws StageTransitionError when blocked
+  const updateStage = useCallback(async (
+    id: string,
+    stage: JourneyStage,
+    options: Omit<StageTransitionOptions, 'update'> = {}
+  ): Promise<StageTransitionResult> => {
+    const journey = journeys.find(j => j.id === id);
+    if (!journey) throw new Error('Journey not found');
+    return transitionJourneyStage(journey, stage, { ...options, update: updateJourney });
+  }, [journeys, updateJourney]);
 
   // Update journey type (will also reset stage to initial for that type)
   const updateType = useCallback(async (id: string, type: JourneyType): Promise<Journey> => {
-    return updateJourney(id, {
+    const previous = journeys.find(j => j.id === id);
+    const updated = await updateJourney(id, {
       type,
       stage: getInitialStage(type),
     });
-  }, [updateJourney]);
+    recordStageTransition(updated, previous?.stage ?? null, updated.stage, {
+      note: previous ? `Type changed from ${previous.type} to ${type}` : null,
+    }).catch(err => {
+      console.error('Failed to record stage change:', err);
+    });
+    return updated;
+  }, [journeys, updateJourney]);
 
   // Start a journey: sets branch_name and worktree_path
   const startJourney = useCallback(async (
@@ -0,0 +1,81 @@
+import { useEffect, useState, useCallback } from 'react';
+import { getSupabase } from '../lib/supabase';
+import type { JourneyStageTransition } from '../types';
+
+// Stage history of one journey, oldest first
+export function useJourneyStageHistory(journeyId: string) {
+  const [transitions, setTransitions] = useState<JourneyStageTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchTransitions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getSupabase()
+      .from('journey_stage_transitions')
+      .select('*')
+      .eq('journey_id', journeyId)
+      .order('created_at', { ascending: true });
+
+    if (fetchError) {
+      setError(fetchError);
+    } else {
+      setTransitions(data || []);
+    }
+    setLoading(false);
+  }, [journeyId]);
+
+  useEffect(() => {
+    fetchTransitions();
+  }, [fetchTransitions]);
+
+  return {
+    transitions,
+    loading,
+    error,
+    refetch: fetchTransitions,
+  };
+}
+
+// Stage history of every journey in a project, oldest first - for analytics
+export function useProjectStageHistory(projectId?: string) {
+  const [transitions, setTransitions] = useState<JourneyStageTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchTransitions = useCallback(async () => {
+    if (!projectId) {
+      setTransitions([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getSupabase()
+      .from('journey_stage_transitions')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (fetchError) {
+      setError(fetchError);
+    } else {
+      setTransitions(data || []);
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchTransitions();
+  }, [fetchTransitions]);
+
+  return {
+    transitions,
+    loading,
+    error,
+    refetch: fetchTransitions,
+  };
+}
@@ -0,0 +1,291 @@
+import { getSupabase } from './supabase';
+import type { Journey, JourneyLink, JourneyRelationship } from '../types';
+import { getStagesForType } from '../types';
+import { getFinalStage } from './stageAnalytics';
+
+// =============================================================================
+// GRAPH
+// =============================================================================
+
+/**
+ * depends_on / blocks: journey links
+ * depends_on_journey: the journey's own depends_on_journey_id
+ * parent: parent_journey_id - grouping only, never holds work back
+ */
+export type DependencyEdgeKind = 'depends_on' | 'blocks' | 'depends_on_journey' | 'parent';
+
+// Always points from the journey that has to finish first to the one waiting on it
+// (for 'parent', from the parent to the child)
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: DependencyEdgeKind;
+}
+
+export interface DependencyGraph {
+  journeys: Journey[];
+  edges: DependencyEdge[];
+}
+
+// Link relationships that order work
+export const SCHEDULING_RELATIONSHIPS: JourneyRelationship[] = ['depends_on', 'blocks'];
+
+export function isSchedulingEdge(edge: DependencyEdge): boolean {
+  return edge.kind !== 'parent';
+}
+
+export function linkToEdge(link: Pick<JourneyLink, 'from_journey_id' | 'to_journey_id' | 'relationship'>): DependencyEdge | null {
+  switch (link.relationship) {
+    // "from depends on to" - to finishes first
+    case 'depends_on': return { from: link.to_journey_id, to: link.from_journey_id, kind: 'depends_on' };
+    case 'blocks': return { from: link.from_journey_id, to: link.to_journey_id, kind: 'blocks' };
+    default: return null;
+  }
+}
+
+/**
+ * Edges between the given journeys - links to journeys outside the set are dropped
+ */
+export function buildDependencyGraph(journeys: Journey[], links: JourneyLink[]): DependencyGraph {
+  const ids = new Set(journeys.map(journey => journey.id));
+  const edges: DependencyEdge[] = [];
+  const seen = new Set<string>();
+  const add = (edge: DependencyEdge | null) => {
+    if (!edge || edge.from === edge.to || !ids.has(edge.from) || !ids.has(edge.to)) return;
+    const key = `${edge.from}:${edge.to}:${edge.kind}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push(edge);
+  };
+
+  for (const journey of journeys) {
+    if (journey.depends_on_journey_id) {
+      add({ from: journey.depends_on_journey_id, to: journey.id, kind: 'depends_on_journey' });
+    }
+    if (journey.parent_journey_id) {
+      add({ from: journey.parent_journey_id, to: journey.id, kind: 'parent' });
+    }
+  }
+  for (const link of links) {
+    add(linkToEdge(link));
+  }
+
+  return { journeys, edges };
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+// Last stage of the journey's type - deployed, or complete for planning and investigations
+export function isJourneyDone(journey: Pick<Journey, 'type' | 'stage'>): boolean {
+  return journey.stage === getFinalStage(journey.type);
+}
+
+// Stages left before the journey is done - its weight on the critical path
+export function getRemainingStages(journey: Pick<Journey, 'type' | 'stage'>): number {
+  const stages = getStagesForType(journey.type);
+  const index = stages.indexOf(journey.stage);
+  return index === -1 ? stages.length - 1 : stages.length - 1 - index;
+}
+
+function successorMap(edges: DependencyEdge[]): Map<string, string[]> {
+  const successors = new Map<string, string[]>();
+  for (const edge of edges.filter(isSchedulingEdge)) {
+    successors.set(edge.from, [...(successors.get(edge.from) ?? []), edge.to]);
+  }
+  return successors;
+}
+
+/**
+ * A dependency cycle as journey ids, first id repeated at the end - null when there is none
+ */
+export function findDependencyCycle(edges: DependencyEdge[]): string[] | null {
+  const successors = successorMap(edges);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const next of successors.get(id) ?? []) {
+      if (state.get(next) === 'visiting') {
+        return [...stack.slice(stack.indexOf(next)), next];
+      }
+      if (!state.has(next)) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const id of successors.keys()) {
+    if (!state.has(id)) {
+      const cycle = visit(id);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Journeys whose scheduling dependencies are all done and that haven't left their first stage yet
+ * Parallelizable ones first - those can be picked up alongside other work.
+ */
+export function getReadyToStartJourneys(graph: DependencyGraph): Journey[] {
+  const byId = new Map(graph.journeys.map(journey => [journey.id, journey]));
+  return graph.journeys
+    .filter(journey => !isJourneyDone(journey) && journey.stage === getStagesForType(journey.type)[0])
+    .filter(journey => graph.edges
+      .filter(edge => isSchedulingEdge(edge) && edge.to === journey.id)
+      .every(edge => {
+        const dependency = byId.get(edge.from);
+        return !dependency || isJourneyDone(dependency);
+      }))
+    .sort((a, b) => Number(b.can_parallelize) - Number(a.can_parallelize));
+}
+
+/**
+ * Longest chain of unfinished journeys, weighted by the stages each still has to go through
+ * Empty when the graph has a cycle - there is no critical path until it is broken.
+ */
+export function computeCriticalPath(graph: DependencyGraph): string[] {
+  if (findDependencyCycle(graph.edges)) return [];
+
+  const open = new Map(graph.journeys.filter(journey => !isJourneyDone(journey)).map(journey => [journey.id, journey]));
+  const successors = successorMap(graph.edges.filter(edge => open.has(edge.from) && open.has(edge.to)));
+
+  // Longest weighted path starting at each journey
+  const best = new Map<string, { weight: number; next: string | null }>();
+  const longestFrom = (id: string): number => {
+    const cached = best.get(id);
+    if (cached) return cached.weight;
+    let weight = 0;
+    let next: string | null = null;
+    for (const successor of successors.get(id) ?? []) {
+      const successorWeight = longestFrom(successor);
+      if (successorWeight > weight) {
+        weight = successorWeight;
+        next = successor;
+      }
+    }
+    const own = getRemainingStages(open.get(id)!);
+    best.set(id, { weight: own + weight, next });
+    return own + weight;
+  };
+
+  let start: string | null = null;
+  let startWeight = 0;
+  for (const id of open.keys()) {
+    const weight = longestFrom(id);
+    if (weight > startWeight) {
+      startWeight = weight;
+      start = id;
+    }
+  }
+
+  const path: string[] = [];
+  for (let id = start; id; id = best.get(id)?.next ?? null) {
+    path.push(id);
+  }
+  // A lone journey isn't much of a path
+  return path.length > 1 ? path : [];
+}
+
+/**
+ * Column of each journey: how many scheduling dependencies deep it sits
+ */
+export function computeDependencyLayers(graph: DependencyGraph): Map<string, number> {
+  const predecessors = new Map<string, string[]>();
+  for (const edge of graph.edges.filter(isSchedulingEdge)) {
+    predecessors.set(edge.to, [...(predecessors.get(edge.to) ?? []), edge.from]);
+  }
+
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+  const layerOf = (id: string): number => {
+    const cached = layers.get(id);
+    if (cached !== undefined) return cached;
+    // Journeys in a cycle stay where the cycle was entered
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const layer = Math.max(-1, ...(predecessors.get(id) ?? []).map(layerOf)) + 1;
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  for (const journey of graph.journeys) {
+    layerOf(journey.id);
+  }
+  return layers;
+}
+
+// =============================================================================
+// CYCLE CHECK ON NEW LINKS
+// =============================================================================
+
+export class DependencyCycleError extends Error {
+  // Journey names around the cycle, first repeated at the end
+  cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`This link would create a dependency cycle: ${cycle.join(' → ')}`);
+    this.name = 'DependencyCycleError';
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Scheduling links (depends_on, blocks) that start from one of the project's journeys
+ */
+export async function fetchProjectDependencyLinks(projectId: string): Promise<JourneyLink[]> {
+  const { data: journeys, error: journeysError } = await getSupabase()
+    .from('journeys')
+    .select('id')
+    .eq('project_id', projectId);
+  if (journeysError) throw journeysError;
+  if (!journeys || journeys.length === 0) return [];
+
+  const { data: links, error: linksError } = await getSupabase()
+    .from('journey_links')
+    .select('*')
+    .in('from_journey_id', journeys.map((journey: Pick<Journey, 'id'>) => journey.id))
+    .in('relationship', SCHEDULING_RELATIONSHIPS);
+  if (linksError) throw linksError;
+  return links || [];
+}
+
+/**
+ * Throws DependencyCycleError when the link would leave journeys waiting on each other
+ * Checks against the project as stored, so links added from the other app count too.
+ */
+export async function assertLinkKeepsGraphAcyclic(
+  link: Pick<JourneyLink, 'from_journey_id' | 'to_journey_id' | 'relationship'>
+): Promise<void> {
+  const edge = linkToEdge(link);
+  if (!edge) return;
+
+  const { data: journey, error: journeyError } = await getSupabase()
+    .from('journeys')
+    .select('project_id')
+    .eq('id', link.from_journey_id)
+    .single();
+  if (journeyError) throw journeyError;
+
+  const [{ data: journeys, error: journeysError }, links] = await Promise.all([
+    getSupabase().from('journeys').select('*').eq('project_id', journey.project_id),
+    fetchProjectDependencyLinks(journey.project_id),
+  ]);
+  if (journeysError) throw journeysError;
+
+  const graph = buildDependencyGraph(journeys || [], links);
+  const cycle = findDependencyCycle([...graph.edges, edge]);
+  if (cycle) {
+    const names = new Map((journeys || []).map((j: Journey) => [j.id, j.name]));
+    throw new DependencyCycleError(cycle.map(id => names.get(id) ?? id));
+  }
+}
@@ -1,2 +1,45 @@
 export { initSupabase, getSupabase, createSupabaseClient } from './supabase';
 export type { SupabaseConfig } from './supabase';
+export {
+  STAGE_RULES,
+  STAGE_HOOK_TIMING,
+  StageTransitionError,
+  formatStageName,
+  getAllowedTransitions,
+  isForwardTransition,
+  getStageGuards,
+  getStageHooks,
+  checkStageTransition,
+  transitionJourneyStage,
+  recordStageTransition,
+} from './stageTransitions';
+export type {
+  StageGuardId,
+  StageHookId,
+  StageHookHandler,
+  StageGuardContext,
+  StageTransitionOptions,
+  StageTransitionResult,
+  StageHistoryEntry,
+  WorktreeCleanliness,
+} from './stageTransitions';
+export { computeStageAnalytics, getFinalStage, formatDuration } from './stageAnalytics';
+export type { StageCycleTime, WeeklyThroughput, StageWip, JourneyTypeAnalytics, StageAnalyticsOptions } from './stageAnalytics';
+export {
+  SCHEDULING_RELATIONSHIPS,
+  DependencyCycleError,
+  buildDependencyGraph,
+  linkToEdge,
+  isSchedulingEdge,
+  isJourneyDone,
+  getRemainingStages,
+  findDependencyCycle,
+  getReadyToStartJourneys,
+  computeCriticalPath,
+  computeDependencyLayers,
+  fetchProjectDependencyLinks,
+  assertLinkKeepsGraphAcyclic,
+} from './dependencyGraph';
+export type { DependencyEdgeKind, DependencyEdge, DependencyGraph } from './dependencyGraph';
+export { JourneyLinkError, validateJourneyLink, getBlockingLinks } from './journeyLinks';
+export type { BlockingLinks } from './journeyLinks';
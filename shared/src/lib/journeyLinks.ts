@@ -0,0 +1,79 @@
+import { getSupabase } from './supabase';
+import type { Journey, JourneyLink, JourneyLinkInsert } from '../types';
+import { assertLinkKeepsGraphAcyclic, isJourneyDone, linkToEdge } from './dependencyGraph';
+
+export class JourneyLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JourneyLinkError';
+  }
+}
+
+// The same relationship expressed by an existing link - related_to has no direction,
+// and "A depends on B" says the same as "B blocks A"
+function isSameRelationship(existing: JourneyLink, link: JourneyLinkInsert): boolean {
+  if (existing.relationship === link.relationship
+    && existing.from_journey_id === link.from_journey_id
+    && existing.to_journey_id === link.to_journey_id) {
+    return true;
+  }
+  if (link.relationship === 'related_to' && existing.relationship === 'related_to') {
+    return true;
+  }
+  const existingEdge = linkToEdge(existing);
+  const edge = linkToEdge(link);
+  return !!existingEdge && !!edge && existingEdge.from === edge.from && existingEdge.to === edge.to;
+}
+
+/**
+ * Rejects self-links, links that repeat an existing relationship between the two journeys,
+ * and depends_on/blocks links that would create a dependency cycle
+ */
+export async function validateJourneyLink(link: JourneyLinkInsert): Promise<void> {
+  if (link.from_journey_id === link.to_journey_id) {
+    throw new JourneyLinkError("A journey can't be linked to itself");
+  }
+
+  const { data: existing, error } = await getSupabase()
+    .from('journey_links')
+    .select('*')
+    .in('from_journey_id', [link.from_journey_id, link.to_journey_id])
+    .in('to_journey_id', [link.from_journey_id, link.to_journey_id]);
+  if (error) throw error;
+
+  if ((existing || []).some((other: JourneyLink) => isSameRelationship(other, link))) {
+    throw new JourneyLinkError('These journeys are already linked that way');
+  }
+
+  await assertLinkKeepsGraphAcyclic(link);
+}
+
+export interface BlockingLinks {
+  // Unfinished journeys this one is holding up
+  blocks: Journey[];
+  // Unfinished journeys holding this one up
+  blockedBy: Journey[];
+}
+
+/**
+ * Blocks links per journey, for badges on both ends - links whose blocker is done are left out
+ */
+export function getBlockingLinks(journeys: Journey[], links: JourneyLink[]): Map<string, BlockingLinks> {
+  const byId = new Map(journeys.map(journey => [journey.id, journey]));
+  const result = new Map<string, BlockingLinks>();
+  const entry = (id: string) => {
+    const existing = result.get(id) ?? { blocks: [], blockedBy: [] };
+    result.set(id, existing);
+    return existing;
+  };
+
+  for (const link of links) {
+    if (link.relationship !== 'blocks') continue;
+    const blocker = byId.get(link.from_journey_id);
+    const blocked = byId.get(link.to_journey_id);
+    if (!blocker || !blocked || isJourneyDone(blocker) || isJourneyDone(blocked)) continue;
+    entry(blocker.id).blocks.push(blocked);
+    entry(blocked.id).blockedBy.push(blocker);
+  }
+  return result;
+}
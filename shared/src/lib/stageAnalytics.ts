@@ -0,0 +1,166 @@
+import type { Journey, JourneyStage, JourneyStageTransition, JourneyType } from '../types';
+import { getStagesForType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StageCycleTime {
+  stage: JourneyStage;
+  // Journeys that have left the stage - the times below are over these
+  completed: number;
+  medianMs: number | null;
+  averageMs: number | null;
+  // Journeys in the stage right now
+  inProgress: number;
+}
+
+export interface WeeklyThroughput {
+  weekStart: string;  // Monday, YYYY-MM-DD
+  finished: number;
+}
+
+export interface StageWip {
+  stage: JourneyStage;
+  count: number;
+}
+
+export interface JourneyTypeAnalytics {
+  type: JourneyType;
+  // Every stage but the final one, in stage order
+  cycleTimes: StageCycleTime[];
+  // Journeys reaching the final stage, oldest week first
+  throughput: WeeklyThroughput[];
+  wip: StageWip[];
+}
+
+export interface StageAnalyticsOptions {
+  weeks?: number;
+  now?: Date;
+}
+
+// Last stage of the type - journeys there are finished
+export function getFinalStage(type: JourneyType): JourneyStage {
+  const stages = getStagesForType(type);
+  return stages[stages.length - 1];
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  // getDay() is 0 for Sunday - weeks start on Monday
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Time spent in each stage, weekly throughput and current work in progress, per journey type
+ * A journey's time in a stage adds up every visit to it, so rework counts against the stage.
+ */
+export function computeStageAnalytics(
+  journeys: Journey[],
+  transitions: JourneyStageTransition[],
+  options: StageAnalyticsOptions = {}
+): JourneyTypeAnalytics[] {
+  const now = options.now ?? new Date();
+  const weeks = options.weeks ?? 12;
+  const journeysById = new Map(journeys.map(journey => [journey.id, journey]));
+
+  // Total time per journey in each type/stage, and whether it is still there
+  const stageTotals = new Map<string, Map<string, { ms: number; current: boolean }>>();
+  const byJourney = new Map<string, JourneyStageTransition[]>();
+  for (const transition of transitions) {
+    const list = byJourney.get(transition.journey_id) ?? [];
+    list.push(transition);
+    byJourney.set(transition.journey_id, list);
+  }
+
+  for (const [journeyId, list] of byJourney) {
+    list.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const journey = journeysById.get(journeyId);
+    list.forEach((transition, index) => {
+      const next = list[index + 1];
+      const key = `${transition.journey_type}:${transition.to_stage}`;
+      const current = !next && journey?.type === transition.journey_type && journey?.stage === transition.to_stage;
+      const end = next ? new Date(next.created_at) : now;
+      // The last stint of a deleted or retyped journey has no known end
+      if (!next && !current) return;
+
+      const totals = stageTotals.get(key) ?? new Map<string, { ms: number; current: boolean }>();
+      const total = totals.get(journeyId) ?? { ms: 0, current: false };
+      total.ms += Math.max(0, end.getTime() - new Date(transition.created_at).getTime());
+      total.current = current;
+      totals.set(journeyId, total);
+      stageTotals.set(key, totals);
+    });
+  }
+
+  const firstWeek = startOfWeek(new Date(now.getTime() - (weeks - 1) * 7 * DAY_MS));
+  const weekStarts = Array.from({ length: weeks }, (_, index) => {
+    const start = new Date(firstWeek);
+    start.setDate(start.getDate() + index * 7);
+    return toDateKey(start);
+  });
+
+  const types: JourneyType[] = ['feature_planning', 'feature', 'bug', 'investigation'];
+  return types.map(type => {
+    const stages = getStagesForType(type);
+    const finalStage = getFinalStage(type);
+
+    const cycleTimes = stages
+      .filter(stage => stage !== finalStage)
+      .map(stage => {
+        const totals = [...(stageTotals.get(`${type}:${stage}`)?.values() ?? [])];
+        const done = totals.filter(total => !total.current).map(total => total.ms);
+        return {
+          stage,
+          completed: done.length,
+          medianMs: median(done),
+          averageMs: done.length > 0 ? done.reduce((sum, ms) => sum + ms, 0) / done.length : null,
+          inProgress: totals.length - done.length,
+        };
+      });
+
+    // A journey counts once, in the week it first reached the final stage
+    const finishedWeeks = new Map<string, string>();
+    for (const transition of transitions) {
+      if (transition.journey_type !== type || transition.to_stage !== finalStage) continue;
+      const week = toDateKey(startOfWeek(new Date(transition.created_at)));
+      const earlier = finishedWeeks.get(transition.journey_id);
+      if (!earlier || week < earlier) finishedWeeks.set(transition.journey_id, week);
+    }
+    const throughput = weekStarts.map(weekStart => ({
+      weekStart,
+      finished: [...finishedWeeks.values()].filter(week => week === weekStart).length,
+    }));
+
+    const wip = stages
+      .filter(stage => stage !== finalStage)
+      .map(stage => ({
+        stage,
+        count: journeys.filter(journey => journey.type === type && journey.stage === stage).length,
+      }));
+
+    return { type, cycleTimes, throughput, wip };
+  });
+}
+
+// Compact duration, e.g. '45m', '6h', '3.5d'
+export function formatDuration(ms: number): string {
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = minutes / 60;
+  if (hours < 24) return `${Math.round(hours)}h`;
+  const days = hours / 24;
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)}d`;
+}
@@ -0,0 +1,356 @@
+import { getSupabase } from './supabase';
+import type { Journey, JourneyChecklist, JourneyStage, JourneyStageTransition, JourneyType, JourneyUpdate } from '../types';
+import { getStagesForType } from '../types';
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+// Conditions a journey must meet before it may enter a stage
+export type StageGuardId = 'deliverables_done' | 'worktree_clean';
+
+// Side effects of entering a stage
+export type StageHookId = 'create_worktree' | 'generate_summary';
+
+interface StageRules {
+  // Forward moves out of each stage - moving back to any earlier stage is always allowed
+  next: Partial<Record<JourneyStage, JourneyStage[]>>;
+  guards: Partial<Record<JourneyStage, StageGuardId[]>>;
+  hooks: Partial<Record<JourneyStage, StageHookId[]>>;
+}
+
+// Bugs and features share their delivery stages
+const DELIVERY_NEXT: Partial<Record<JourneyStage, JourneyStage[]>> = {
+  testing: ['pre_prod_review'],
+  pre_prod_review: ['merge_approved'],
+  // Changes that need no staging check can go straight out
+  merge_approved: ['staging_qa', 'deployed'],
+  staging_qa: ['deployed'],
+};
+
+const DELIVERY_GUARDS: Partial<Record<JourneyStage, StageGuardId[]>> = {
+  testing: ['deliverables_done'],
+  merge_approved: ['worktree_clean'],
+};
+
+export const STAGE_RULES: Record<JourneyType, StageRules> = {
+  feature_planning: {
+    next: {
+      intake: ['speccing'],
+      // UI planning is only needed for user-facing work
+      speccing: ['ui_planning', 'planning'],
+      ui_planning: ['planning'],
+      planning: ['complete'],
+    },
+    guards: {},
+    hooks: {},
+  },
+  feature: {
+    next: {
+      review_and_edit_plan: ['implementing'],
+      implementing: ['testing'],
+      ...DELIVERY_NEXT,
+    },
+    guards: DELIVERY_GUARDS,
+    hooks: {
+      implementing: ['create_worktree'],
+      deployed: ['generate_summary'],
+    },
+  },
+  investigation: {
+    next: {
+      intake: ['speccing'],
+      speccing: ['planning'],
+      planning: ['approved'],
+      approved: ['in_progress'],
+      in_progress: ['complete'],
+    },
+    guards: {},
+    hooks: {},
+  },
+  bug: {
+    next: {
+      // Obvious bugs skip the investigation
+      reported: ['investigating', 'fixing'],
+      investigating: ['fixing'],
+      fixing: ['testing'],
+      ...DELIVERY_NEXT,
+    },
+    guards: DELIVERY_GUARDS,
+    hooks: {
+      fixing: ['create_worktree'],
+      deployed: ['generate_summary'],
+    },
+  },
+};
+
+// 'before' hooks run ahead of the stage change and block it when they fail;
+// 'after' hooks run once the new stage is saved and only warn when they fail
+export const STAGE_HOOK_TIMING: Record<StageHookId, 'before' | 'after'> = {
+  create_worktree: 'before',
+  generate_summary: 'after',
+};
+
+const JOURNEY_TYPE_NAMES: Record<JourneyType, string> = {
+  feature_planning: 'feature planning journey',
+  feature: 'feature',
+  investigation: 'investigation',
+  bug: 'bug',
+};
+
+export function formatStageName(stage: JourneyStage): string {
+  return stage
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+export interface WorktreeCleanliness {
+  isClean: boolean;
+  modified: number;
+  staged: number;
+  untracked: number;
+}
+
+export interface StageGuardContext {
+  checklists: JourneyChecklist[];
+  // null when the status couldn't be read, undefined when this app can't inspect worktrees
+  worktreeStatus?: WorktreeCleanliness | null;
+}
+
+// Stages the journey can move to from its current stage, in stage order
+export function getAllowedTransitions(type: JourneyType, from: JourneyStage): JourneyStage[] {
+  const stages = getStagesForType(type);
+  const fromIndex = stages.indexOf(from);
+  const next = STAGE_RULES[type].next[from] ?? [];
+  return stages.filter((stage, index) => (fromIndex !== -1 && index < fromIndex) || next.includes(stage));
+}
+
+export function isForwardTransition(type: JourneyType, from: JourneyStage, to: JourneyStage): boolean {
+  const stages = getStagesForType(type);
+  return stages.indexOf(to) > stages.indexOf(from);
+}
+
+export function getStageGuards(type: JourneyType, from: JourneyStage, to: JourneyStage): StageGuardId[] {
+  // Guards protect forward progress - stepping back for rework is never blocked
+  if (!isForwardTransition(type, from, to)) return [];
+  return STAGE_RULES[type].guards[to] ?? [];
+}
+
+export function getStageHooks(type: JourneyType, to: JourneyStage): StageHookId[] {
+  return STAGE_RULES[type].hooks[to] ?? [];
+}
+
+function checkGuard(guard: StageGuardId, journey: Journey, context: StageGuardContext): string | null {
+  switch (guard) {
+    case 'deliverables_done': {
+      const open = context.checklists.flatMap(checklist =>
+        checklist.items.filter(item => item.type === 'deliverable' && !item.done)
+      );
+      if (open.length === 0) return null;
+      const listed = open.slice(0, 3).map(item => `"${item.text}"`).join(', ');
+      const more = open.length > 3 ? ` and ${open.length - 3} more` : '';
+      return `${open.length} deliverable checklist item${open.length === 1 ? ' is' : 's are'} not done: ${listed}${more}`;
+    }
+    case 'worktree_clean': {
+      // Nothing to check without a worktree, or in an app that can't read one
+      if (!journey.worktree_path || context.worktreeStatus === undefined) return null;
+      const status = context.worktreeStatus;
+      if (!status) return `Couldn't read the git status of the worktree at ${journey.worktree_path}`;
+      if (status.isClean) return null;
+      const parts = [
+        status.modified && `${status.modified} modified`,
+        status.staged && `${status.staged} staged`,
+        status.untracked && `${status.untracked} untracked`,
+      ].filter(Boolean);
+      return `The worktree has uncommitted changes${parts.length ? ` (${parts.join(', ')})` : ''} - commit or discard them first`;
+    }
+  }
+}
+
+/**
+ * Why the journey can't move to the stage - empty when it can
+ */
+export function checkStageTransition(journey: Journey, to: JourneyStage, context: StageGuardContext): string[] {
+  const from = journey.stage;
+  if (!getStagesForType(journey.type).includes(to)) {
+    return [`${formatStageName(to)} is not a stage of this ${JOURNEY_TYPE_NAMES[journey.type]}`];
+  }
+  if (!getAllowedTransitions(journey.type, from).includes(to)) {
+    const next = (STAGE_RULES[journey.type].next[from] ?? []).map(formatStageName);
+    const hint = next.length > 0 ? ` - next is ${next.join(' or ')}` : '';
+    return [`This ${JOURNEY_TYPE_NAMES[journey.type]} can't move from ${formatStageName(from)} to ${formatStageName(to)}${hint}`];
+  }
+
+  return getStageGuards(journey.type, from, to)
+    .map(guard => checkGuard(guard, journey, context))
+    .filter((reason): reason is string => reason !== null);
+}
+
+// =============================================================================
+// TRANSITIONS
+// =============================================================================
+
+export class StageTransitionError extends Error {
+  reasons: string[];
+
+  constructor(reasons: string[]) {
+    super(reasons.join('\n'));
+    this.name = 'StageTransitionError';
+    this.reasons = reasons;
+  }
+}
+
+// Returns fields to save on the journey, e.g. the new worktree's branch and path
+export type StageHookHandler = (journey: Journey) => Promise<JourneyUpdate | void>;
+
+export interface StageTransitionOptions {
+  // Saves the journey - pass the app's updateJourney so its state stays in sync
+  update: (id: string, updates: JourneyUpdate) => Promise<Journey>;
+  // Apps that can read worktrees pass this to enforce the 'worktree_clean' guard
+  getWorktreeStatus?: (worktreePath: string) => Promise<WorktreeCleanliness | null>;
+  // Hooks without a handler are skipped - e.g. the web app can't create worktrees
+  hooks?: Partial<Record<StageHookId, StageHookHandler>>;
+  // Recorded in the stage history
+  changedBy?: string;
+  note?: string;
+}
+
+export interface StageHistoryEntry {
+  changedBy?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Append a stage change to the journey's stage history
+ * from is null for the stage a journey starts in.
+ */
+export async function recordStageTransition(
+  journey: Pick<Journey, 'id' | 'project_id' | 'type'>,
+  from: JourneyStage | null,
+  to: JourneyStage,
+  entry: StageHistoryEntry = {}
+): Promise<JourneyStageTransition> {
+  const { data, error } = await getSupabase()
+    .from('journey_stage_transitions')
+    .insert({
+      journey_id: journey.id,
+      project_id: journey.project_id,
+      journey_type: journey.type,
+      from_stage: from,
+      to_stage: to,
+      changed_by: entry.changedBy || null,
+      note: entry.note?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  if (!data) throw new Error('No data returned from insert');
+  return data;
+}
+
+export interface StageTransitionResult {
+  journey: Journey;
+  // 'after' hooks that failed - the stage change itself went through
+  warnings: string[];
+}
+
+async function loadGuardContext(
+  journey: Journey,
+  guards: StageGuardId[],
+  options: StageTransitionOptions
+): Promise<StageGuardContext> {
+  const context: StageGuardContext = { checklists: [] };
+
+  if (guards.includes('deliverables_done')) {
+    const { data, error } = await getSupabase()
+      .from('journey_checklists')
+      .select('*')
+      .eq('journey_id', journey.id);
+    if (error) throw error;
+    context.checklists = data || [];
+  }
+
+  if (guards.includes('worktree_clean') && journey.worktree_path && options.getWorktreeStatus) {
+    context.worktreeStatus = await options.getWorktreeStatus(journey.worktree_path);
+  }
+
+  return context;
+}
+
+// Supabase errors are plain objects with a message, not Error instances
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+function hookErrorMessage(hook: StageHookId, error: unknown): string {
+  const message = errorMessage(error);
+  switch (hook) {
+    case 'create_worktree': return `Couldn't create the worktree: ${message}`;
+    case 'generate_summary': return `Couldn't generate the journey summary: ${message}`;
+  }
+}
+
+/**
+ * Move a journey to a stage: checks the transition and its guards, runs the
+ * stage's hooks and saves the journey. Throws StageTransitionError with the
+ * reasons when the move is blocked.
+ */
+export async function transitionJourneyStage(
+  journey: Journey,
+  to: JourneyStage,
+  options: StageTransitionOptions
+): Promise<StageTransitionResult> {
+  if (journey.stage === to) {
+    return { journey, warnings: [] };
+  }
+
+  const guards = getStageGuards(journey.type, journey.stage, to);
+  const context = await loadGuardContext(journey, guards, options);
+  const reasons = checkStageTransition(journey, to, context);
+  if (reasons.length > 0) {
+    throw new StageTransitionError(reasons);
+  }
+
+  const handlers = getStageHooks(journey.type, to).flatMap(hook => {
+    const handler = options.hooks?.[hook];
+    return handler ? [{ hook, handler }] : [];
+  });
+
+  let updates: JourneyUpdate = {};
+  for (const { hook, handler } of handlers.filter(({ hook }) => STAGE_HOOK_TIMING[hook] === 'before')) {
+    try {
+      updates = { ...updates, ...(await handler({ ...journey, ...updates })) };
+    } catch (error) {
+      throw new StageTransitionError([hookErrorMessage(hook, error)]);
+    }
+  }
+
+  let updated = await options.update(journey.id, { ...updates, stage: to });
+
+  const warnings: string[] = [];
+  try {
+    await recordStageTransition(updated, journey.stage, to, { changedBy: options.changedBy, note: options.note });
+  } catch (error) {
+    // The stage change itself is saved - only its history entry is missing
+    warnings.push(`Couldn't record the stage change in the history: ${errorMessage(error)}`);
+  }
+  for (const { hook, handler } of handlers.filter(({ hook }) => STAGE_HOOK_TIMING[hook] === 'after')) {
+    try {
+      const hookUpdates = await handler(updated);
+      if (hookUpdates && Object.keys(hookUpdates).length > 0) {
+        updated = await options.update(journey.id, hookUpdates);
+      }
+    } catch (error) {
+      warnings.push(hookErrorMessage(hook, error));
+    }
+  }
+
+  return { journey: updated, warnings };
+}
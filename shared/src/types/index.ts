@@ -41,7 +41,38 @@ export type JourneyRelationship = 'spawned_from' | 'blocks' | 'depends_on' | 're
 // =============================================================================
 
 export type SessionStatus = 'active' | 'ended' | 'crashed' | 'abandoned';
-export type ProcessStatus = 'running' | 'stopped' | 'crashed';
+export type ProcessStatus = 'starting' | 'running' | 'ready' | 'unhealthy' | 'stopped' | 'crashed';
+
+export type HealthCheckType = 'tcp' | 'http' | 'log';
+
+export interface TargetHealthCheck {
+  type: HealthCheckType;
+  path?: string;           // http: path that must return 2xx or 3xx (not followed), e.g. '/health'
+  pattern?: string;        // log: regex matched against each output line, e.g. 'Listening on'
+}
+
+// =============================================================================
+// WORKTREE BOOTSTRAP TYPES
+// =============================================================================
+
+export type BootstrapFileMode = 'copy' | 'symlink';
+
+export interface BootstrapFile {
+  path: string;            // Relative to the project root, e.g. '.env' or 'config/master.key'
+  mode: BootstrapFileMode;
+}
+
+export interface BootstrapPort {
+  target_id: string;       // ProjectTarget whose default_port is offset per journey
+  env_var: string;         // e.g. 'PORT' or 'VITE_PORT'
+}
+
+export interface WorktreeBootstrapRecipe {
+  files: BootstrapFile[];
+  commands: string[];      // Run in order in the worktree, e.g. 'npm install'
+  ports: BootstrapPort[];
+  env_file: string;        // File in the worktree the assigned ports are written to
+}
 
 // =============================================================================
 // PROPOSED PROJECT JOURNEY TYPES
@@ -116,6 +147,7 @@ export interface Project {
   ai_parsed_at: string | null;
   intake_updated_at: string | null;
   proposed_project_journeys: ProposedProjectJourney[];
+  bootstrap_recipe: WorktreeBootstrapRecipe | null;  // Run in each new journey worktree
   created_at: string;
   updated_at: string;
 }
@@ -128,6 +160,8 @@ export interface ProjectTarget {
   path: string | null;
   start_command: string | null;
   default_port: number | null;
+  health_check: TargetHealthCheck | null;
+  readiness_timeout_seconds: number | null;
   sort_order: number;
   created_at: string;
   updated_at: string;
@@ -149,10 +183,21 @@ export interface Journey {
   branch_name: string | null;
   worktree_path: string | null;
   proposed_child_journeys: ProposedChildJourney[];  // For feature_planning journeys
+  ai_sessions: JourneyAiSessions;  // Claude CLI sessions to resume, keyed by conversation
+  port_offset: number | null;  // Added to each target's default_port in this journey's worktree
+  summary: string | null;  // What shipped - written when the journey reaches 'deployed'
   created_at: string;
   updated_at: string;
 }
 
+// Claude CLI session a journey conversation continues (e.g. 'spec-refinement', 'plan-chat')
+export interface JourneyAiSession {
+  session_id: string;
+  updated_at: string;
+}
+
+export type JourneyAiSessions = Record<string, JourneyAiSession>;
+
 export interface JourneyIntake {
   id: string;
   journey_id: string;
@@ -204,6 +249,19 @@ export interface JourneyTarget {
   created_at: string;
 }
 
+// Append-only - one row per stage change, from_stage is null for the stage a journey started in
+export interface JourneyStageTransition {
+  id: string;
+  journey_id: string;
+  project_id: string;
+  journey_type: JourneyType;
+  from_stage: JourneyStage | null;
+  to_stage: JourneyStage;
+  changed_by: string | null;  // App that made the change, e.g. 'desktop' or 'web'
+  note: string | null;
+  created_at: string;
+}
+
 export interface JourneySession {
   id: string;
   journey_id: string;
@@ -216,6 +274,27 @@ export interface JourneySession {
   notes: string | null;
 }
 
+// Strongest evidence that a Claude Code session belongs to a journey
+export type ClaudeSessionMatchReason = 'worktree' | 'branch' | 'time_window';
+
+// A Claude Code history session attributed to a journey by the desktop app
+export interface JourneyClaudeSession {
+  id: string;
+  journey_id: string;
+  journey_session_id: string | null;
+  claude_session_id: string;  // Transcript name, what `claude --resume` takes
+  claude_project_id: string;  // Encoded folder under ~/.claude/projects
+  file_path: string;
+  cwd: string | null;
+  git_branch: string | null;
+  first_message: string | null;
+  match_reason: ClaudeSessionMatchReason;
+  started_at: string;
+  last_active_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface SessionProcess {
   id: string;
   session_id: string;
@@ -223,6 +302,7 @@ export interface SessionProcess {
   pid: number | null;
   port: number | null;
   status: ProcessStatus;
+  host: string | null;     // desktop that started it - null for rows from before it was recorded
   started_at: string;
   ended_at: string | null;
 }
@@ -253,6 +333,7 @@ export type ProjectInsert = Omit<Project, 'id' | 'created_at' | 'updated_at'> &
   ai_parsed_at?: string | null;
   intake_updated_at?: string | null;
   proposed_project_journeys?: ProposedProjectJourney[];
+  bootstrap_recipe?: WorktreeBootstrapRecipe | null;
 };
 
 export type ProjectTargetInsert = {
@@ -262,6 +343,8 @@ export type ProjectTargetInsert = {
   path?: string | null;
   start_command?: string | null;
   default_port?: number | null;
+  health_check?: TargetHealthCheck | null;
+  readiness_timeout_seconds?: number | null;
   sort_order?: number;
 };
 
@@ -280,6 +363,9 @@ export type JourneyInsert = {
   branch_name?: string | null;
   worktree_path?: string | null;
   proposed_child_journeys?: ProposedChildJourney[];
+  ai_sessions?: JourneyAiSessions;
+  port_offset?: number | null;
+  summary?: string | null;
 };
 
 export type JourneyIntakeInsert = {
@@ -320,6 +406,16 @@ export type JourneyTargetInsert = {
   target_id: string;
 };
 
+export type JourneyStageTransitionInsert = {
+  journey_id: string;
+  project_id: string;
+  journey_type: JourneyType;
+  from_stage?: JourneyStage | null;
+  to_stage: JourneyStage;
+  changed_by?: string | null;
+  note?: string | null;
+};
+
 export type JourneySessionInsert = {
   journey_id: string;
   checklist_id?: string | null;
@@ -329,12 +425,27 @@ export type JourneySessionInsert = {
   notes?: string | null;
 };
 
+export type JourneyClaudeSessionInsert = {
+  journey_id: string;
+  journey_session_id?: string | null;
+  claude_session_id: string;
+  claude_project_id: string;
+  file_path: string;
+  cwd?: string | null;
+  git_branch?: string | null;
+  first_message?: string | null;
+  match_reason: ClaudeSessionMatchReason;
+  started_at: string;
+  last_active_at: string;
+};
+
 export type SessionProcessInsert = {
   session_id: string;
   target_id: string;
   pid?: number | null;
   port?: number | null;
   status?: ProcessStatus;
+  host?: string | null;
 };
 
 export type SessionAiToolInsert = {
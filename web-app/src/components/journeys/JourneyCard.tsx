@@ -1,4 +1,4 @@
-import type { Journey, JourneyStage } from '@dev-orchestrator/shared'
+import type { BlockingLinks, Journey, JourneyStage } from '@dev-orchestrator/shared'
 import { TypeBadge } from './TypeBadge'
 import { StageBadge, StageProgress } from './StageBadge'
 import { Button } from '../common/Button'
@@ -6,13 +6,14 @@ import { getStagesForType } from '@dev-orchestrator/shared'
 
 interface JourneyCardProps {
   journey: Journey
+  blocking?: BlockingLinks
   onUpdateStage: (stage: JourneyStage) => void
   onStart: () => void
   onDelete: () => void
   onClick?: () => void
 }
 
-export function JourneyCard({ journey, onUpdateStage, onStart, onDelete, onClick }: JourneyCardProps) {
+export function JourneyCard({ journey, blocking, onUpdateStage, onStart, onDelete, onClick }: JourneyCardProps) {
   const isStarted = journey.branch_name !== null
   const stages = getStagesForType(journey.type)
   const currentStageIndex = stages.indexOf(journey.stage)
@@ -45,6 +46,22 @@ export function JourneyCard({ journey, onUpdateStage, onStart, onDelete, onClick
         </div>
       </div>
 
+      {/* Blocking links */}
+      {blocking && (blocking.blockedBy.length > 0 || blocking.blocks.length > 0) && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {blocking.blockedBy.length > 0 && (
+            <span className="text-[10px] px-1.5 py-0.5 bg-red-900/40 text-red-300 rounded" title={blocking.blockedBy.map(j => j.name).join(', ')}>
+              Blocked by {blocking.blockedBy.length === 1 ? blocking.blockedBy[0].name : `${blocking.blockedBy.length} journeys`}
+            </span>
+          )}
+          {blocking.blocks.length > 0 && (
+            <span className="text-[10px] px-1.5 py-0.5 bg-amber-900/40 text-amber-300 rounded" title={blocking.blocks.map(j => j.name).join(', ')}>
+              Blocks {blocking.blocks.length === 1 ? blocking.blocks[0].name : `${blocking.blocks.length} journeys`}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Description */}
       {journey.description && (
         <p className="text-xs text-gray-400 mb-2 line-clamp-2">
@@ -1,6 +1,6 @@
 import { useState } from 'react'
 import type { Journey, JourneyStage, JourneyUpdate } from '@dev-orchestrator/shared'
-import { getStagesForType } from '@dev-orchestrator/shared'
+import { getStagesForType, formatStageName, StageTransitionError, useJourneyStageHistory } from '@dev-orchestrator/shared'
 import { TypeBadge } from './TypeBadge'
 import { StageBadge, StageProgress } from './StageBadge'
 import { Button } from '../common/Button'
@@ -10,6 +10,8 @@ interface JourneyDetailPanelProps {
   journey: Journey
   onClose: () => void
   onUpdate: (updates: JourneyUpdate) => Promise<void>
+  // Throws StageTransitionError when the stage rules block the move
+  onUpdateStage: (stage: JourneyStage, note?: string) => Promise<void>
   onDelete: () => void
 }
 
@@ -39,26 +41,22 @@ const stageDescriptions: Record<JourneyStage, string> = {
   fixing: 'Implementing the fix',
 }
 
-export function JourneyDetailPanel({ journey, onClose, onUpdate, onDelete }: JourneyDetailPanelProps) {
+export function JourneyDetailPanel({ journey, onClose, onUpdate, onUpdateStage, onDelete }: JourneyDetailPanelProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editName, setEditName] = useState(journey.name)
   const [editDescription, setEditDescription] = useState(journey.description || '')
   const [editSourceUrl, setEditSourceUrl] = useState(journey.source_url || '')
   const [editTags, setEditTags] = useState(journey.tags?.join(', ') || '')
   const [isSaving, setIsSaving] = useState(false)
+  const [stageBlockedReasons, setStageBlockedReasons] = useState<string[]>([])
+  const [stageNote, setStageNote] = useState('')
+  const { transitions, refetch: refetchHistory } = useJourneyStageHistory(journey.id)
 
   const stages = getStagesForType(journey.type)
   const currentStageIndex = stages.indexOf(journey.stage)
   const nextStage = currentStageIndex < stages.length - 1 ? stages[currentStageIndex + 1] : null
   const prevStage = currentStageIndex > 0 ? stages[currentStageIndex - 1] : null
 
-  const formatStageLabel = (stage: string) => {
-    return stage
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ')
-  }
-
   const handleSave = async () => {
     setIsSaving(true)
     try {
@@ -77,10 +75,17 @@ export function JourneyDetailPanel({ journey, onClose, onUpdate, onDelete }: Jou
   }
 
   const handleStageChange = async (newStage: JourneyStage) => {
+    setStageBlockedReasons([])
     try {
-      await onUpdate({ stage: newStage })
+      await onUpdateStage(newStage, stageNote)
+      setStageNote('')
+      refetchHistory()
     } catch (err) {
-      console.error('Failed to update stage:', err)
+      if (err instanceof StageTransitionError) {
+        setStageBlockedReasons(err.reasons)
+      } else {
+        console.error('Failed to update stage:', err)
+      }
     }
   }
 
@@ -142,7 +147,7 @@ export function JourneyDetailPanel({ journey, onClose, onUpdate, onDelete }: Jou
                 <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                 </svg>
-                {formatStageLabel(prevStage)}
+                {formatStageName(prevStage)}
               </Button>
             )}
             {nextStage && (
@@ -151,15 +156,59 @@ export function JourneyDetailPanel({ journey, onClose, onUpdate, onDelete }: Jou
                 variant="secondary"
                 onClick={() => handleStageChange(nextStage as JourneyStage)}
               >
-                {formatStageLabel(nextStage)}
+                {formatStageName(nextStage)}
                 <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </Button>
             )}
           </div>
+
+          <Input
+            value={stageNote}
+            onChange={(e) => setStageNote(e.target.value)}
+            placeholder="Note for the next stage change (optional)"
+          />
+
+          {stageBlockedReasons.length > 0 && (
+            <ul className="text-sm text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg p-3 list-disc list-inside">
+              {stageBlockedReasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          )}
         </div>
 
+        {/* Stage History */}
+        {transitions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-300">Stage History</h3>
+            <ul className="space-y-1">
+              {[...transitions].reverse().map(transition => (
+                <li key={transition.id} className="text-xs text-gray-500">
+                  <span className="text-gray-300">
+                    {transition.from_stage
+                      ? `${formatStageName(transition.from_stage)} → ${formatStageName(transition.to_stage)}`
+                      : `Started in ${formatStageName(transition.to_stage)}`}
+                  </span>
+                  {' · '}
+                  {new Date(transition.created_at).toLocaleString()}
+                  {transition.changed_by && ` · ${transition.changed_by}`}
+                  {transition.note && <span className="block pl-3 italic">{transition.note}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Summary - generated by the desktop app when the journey is deployed */}
+        {journey.summary && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-300">Summary</h3>
+            <p className="text-sm text-gray-400 whitespace-pre-line">{journey.summary}</p>
+          </div>
+        )}
+
         {/* Description */}
         <div className="space-y-2">
           <h3 className="text-sm font-medium text-gray-300">Description</h3>
@@ -1,11 +1,11 @@
 import { useState, useMemo } from 'react'
-import { useProjects, useJourneys } from '@dev-orchestrator/shared'
+import { useProjects, useJourneys, useProjectDependencyLinks } from '@dev-orchestrator/shared'
 import { JourneyDetailPanel } from './JourneyDetailPanel'
 import { JourneyCard } from './JourneyCard'
 import { Button } from '../common/Button'
 import { Input } from '../common/Input'
 import type { Project, Journey, JourneyStage, JourneyType, JourneyUpdate } from '@dev-orchestrator/shared'
-import { getStagesForType, getInitialStage } from '@dev-orchestrator/shared'
+import { getStagesForType, getInitialStage, formatStageName, getBlockingLinks, StageTransitionError } from '@dev-orchestrator/shared'
 
 // Journey type configuration
 const journeyTypeConfig: Record<JourneyType, { icon: string; label: string; description: string }> = {
@@ -102,11 +102,14 @@ export function JourneysTab() {
   // Auto-select first project when projects load
   const selectedProject = projects.find(p => p.id === selectedProjectId) || projects[0] || null
 
-  const { journeys, loading, error, createJourney, updateJourney, deleteJourney } = useJourneys(selectedProject?.id)
+  const { journeys, loading, error, createJourney, updateJourney, updateStage, deleteJourney } = useJourneys(selectedProject?.id)
+  const { links: dependencyLinks } = useProjectDependencyLinks(selectedProject?.id)
+  const blockingLinks = useMemo(() => getBlockingLinks(journeys, dependencyLinks), [journeys, dependencyLinks])
   const [activeType, setActiveType] = useState<JourneyType>('feature_planning')
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
   const [selectedJourney, setSelectedJourney] = useState<Journey | null>(null)
   const [isCreating, setIsCreating] = useState(false)
+  const [blockedStage, setBlockedStage] = useState<{ journeyName: string; stage: JourneyStage; reasons: string[] } | null>(null)
 
   // Filter journeys by active type
   const filteredJourneys = useMemo(() => {
@@ -121,11 +124,18 @@ export function JourneysTab() {
     }, {} as Record<JourneyType, { completed: number; total: number }>)
   }, [journeys])
 
+  // Worktree hooks and checks need the desktop app - here only the stage rules and checklist guards apply
   const handleUpdateStage = async (id: string, stage: JourneyStage) => {
+    setBlockedStage(null)
     try {
-      await updateJourney(id, { stage })
+      await updateStage(id, stage, { changedBy: 'web' })
     } catch (err) {
-      console.error('Failed to update journey stage:', err)
+      if (err instanceof StageTransitionError) {
+        const journeyName = journeys.find(j => j.id === id)?.name ?? 'Journey'
+        setBlockedStage({ journeyName, stage, reasons: err.reasons })
+      } else {
+        console.error('Failed to update journey stage:', err)
+      }
     }
   }
 
@@ -266,6 +276,30 @@ export function JourneysTab() {
           </div>
         ) : (
           <>
+            {/* Blocked stage change */}
+            {blockedStage && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-start gap-3">
+                <div className="flex-1 text-sm">
+                  <p className="text-red-300 font-medium">
+                    {blockedStage.journeyName} can't move to {formatStageName(blockedStage.stage)}
+                  </p>
+                  <ul className="mt-1 list-disc list-inside text-red-200/80">
+                    {blockedStage.reasons.map(reason => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+                <button
+                  onClick={() => setBlockedStage(null)}
+                  className="text-red-300 hover:text-white transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            )}
+
             {/* Type Description */}
             <p className="text-sm text-gray-400 mb-4">{activeConfig.description}</p>
 
@@ -292,6 +326,7 @@ export function JourneysTab() {
                     <JourneyCard
                       key={journey.id}
                       journey={journey}
+                      blocking={blockingLinks.get(journey.id)}
                       onUpdateStage={(stage) => handleUpdateStage(journey.id, stage)}
                       onStart={() => {/* No-op in web app */}}
                       onDelete={() => setDeleteConfirm(journey.id)}
@@ -332,6 +367,9 @@ export function JourneysTab() {
           journey={currentSelectedJourney}
           onClose={() => setSelectedJourney(null)}
           onUpdate={(updates) => handleUpdateJourney(currentSelectedJourney.id, updates)}
+          onUpdateStage={async (stage, note) => {
+            await updateStage(currentSelectedJourney.id, stage, { changedBy: 'web', note })
+          }}
           onDelete={() => {
             setDeleteConfirm(currentSelectedJourney.id)
             setSelectedJourney(null)